@@ -1,7 +1,7 @@
 import "./styles.css";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { fetchStats, fetchDebug } from "./api/client";
-import type { Stats } from "./types";
+import type { Stats, StatsQuery } from "./types";
 import dataFlowManager from "./data/dataFlowManager";
 import ErrorBoundary from "./components/ErrorBoundary";
 import DebugPanel from "./components/DebugPanel";
@@ -12,20 +12,40 @@ import { useStatsData } from "./hooks/useDataLoader";
 import WelcomePage from "./components/WelcomePage";
 import SetupPage from "./components/SetupPage";
 import SnobRoast from "./components/SnobRoast";
+import WrappedDeck from "./components/WrappedDeck";
 import SummaryDashboard from "./components/SummaryDashboard";
+import ArtistPage from "./components/ArtistPage";
 import RarityAnalysis from "./components/RarityAnalysis";
 import TasteProfile from "./components/TasteProfile";
 import { exportPdf } from "./pdf";
 import { exportCardPng } from "./export";
 import { logger } from "./utils/debugLogger";
 
-type AppPage = 'welcome' | 'setup' | 'roast' | 'summary' | 'rarity' | 'taste';
+type AppPage = 'welcome' | 'setup' | 'roast' | 'summary' | 'rarity' | 'taste' | 'wrapped' | 'artist';
+
+// Time windows for the stats — 'all', 'lastN' (days) or 'yYYYY'
+const RECENT_WINDOWS = [
+  { id: 'last30', label: 'Last 30 days', days: 30 },
+  { id: 'last90', label: 'Last 90 days', days: 90 },
+  { id: 'last365', label: 'Last 12 months', days: 365 },
+];
+
+function windowQuery(id: string): StatsQuery {
+  const recent = RECENT_WINDOWS.find(w => w.id === id);
+  if (recent) return { lastNDays: recent.days };
+  if (/^y\d{4}$/.test(id)) return { year: Number(id.slice(1)) };
+  return {};
+}
 
 export default function App() {
   const [profile, setProfile] = useState("default");
   const [currentPage, setCurrentPage] = useState<AppPage>('welcome');
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
+  const [statsWindow, setStatsWindow] = useState('all');
+  const [allTimeStats, setAllTimeStats] = useState<Stats | null>(null);
+  const [artist, setArtist] = useState<{ name: string; from: AppPage } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const statsQuery = useMemo(() => windowQuery(statsWindow), [statsWindow]);
 
   // Use the enhanced data loader hook
   const {
@@ -35,7 +55,19 @@ export default function App() {
     retry,
     refresh,
     debugInfo,
-  } = useStatsData(profile);
+  } = useStatsData(profile, statsQuery);
+
+  // The year options come from the all-time stats, so they survive switching to a filtered window
+  if (statsWindow === 'all' && stats && stats !== allTimeStats) setAllTimeStats(stats);
+  const dataYears = useMemo(() => {
+    const span = allTimeStats?.meta.window;
+    if (!span?.start) return [];
+    const first = new Date(span.start).getUTCFullYear();
+    const last = new Date(span.end || span.start).getUTCFullYear();
+    const years: number[] = [];
+    for (let y = last; y >= first; y--) years.push(y);
+    return years;
+  }, [allTimeStats]);
 
   useEffect(() => {
     logger.info('APP', 'App state updated', {
@@ -55,6 +87,8 @@ export default function App() {
   const handleAnalyze = (chosenProfile: string) => {
     logger.info('APP', 'User starting analysis', { profile: chosenProfile });
     setProfile(chosenProfile);
+    setStatsWindow('all');
+    setAllTimeStats(null);
     setCurrentPage('roast');
   };
 
@@ -63,6 +97,17 @@ export default function App() {
     setCurrentPage('summary');
   };
 
+  const handleWrapped = () => {
+    logger.info('APP', 'User opened Wrapped', { profile });
+    setCurrentPage('wrapped');
+  };
+
+  const handleArtist = (name: string) => {
+    logger.info('APP', 'User opened an artist', { profile, artist: name, from: currentPage });
+    setArtist({ name, from: currentPage });
+    setCurrentPage('artist');
+  };
+
   const handleNext = () => {
     logger.debug('APP', `Navigating from ${currentPage} to next page`);
     if (currentPage === 'summary') setCurrentPage('rarity');
@@ -210,10 +255,16 @@ export default function App() {
           stats={stats}
           profile={profile}
           onComplete={handleRoastComplete}
+          onArtist={handleArtist}
         />
       );
     }
 
+    // Year-in-review deck; reads plays straight from the server, not `stats`
+    if (currentPage === 'wrapped') {
+      return <WrappedDeck profile={profile} onComplete={handleRoastComplete} />;
+    }
+
     const pageLabels: Record<AppPage, string> = {
       welcome: 'Home',
       setup: 'Setup',
@@ -221,6 +272,8 @@ export default function App() {
       summary: 'Your Profile',
       rarity: 'Rarity Analysis',
       taste: 'Taste Profile',
+      wrapped: 'Wrapped',
+      artist: 'Artist',
     };
 
     return (
@@ -323,8 +376,52 @@ export default function App() {
               ))}
             </div>
 
-            {/* Right — Refresh + Debug buttons */}
+            {/* Right — Wrapped + Time window + Refresh + Debug buttons */}
             <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <button
+                onClick={handleWrapped}
+                title="Your year in review"
+                style={{
+                  background: 'rgba(255,255,255,0.1)',
+                  color: 'white',
+                  border: '1px solid rgba(255,255,255,0.2)',
+                  borderRadius: 10,
+                  padding: '7px 12px',
+                  cursor: 'pointer',
+                  fontSize: 13,
+                  fontWeight: 600,
+                  transition: 'all 0.2s ease',
+                }}
+                onMouseOver={e => e.currentTarget.style.background = 'rgba(255,255,255,0.22)'}
+                onMouseOut={e => e.currentTarget.style.background = 'rgba(255,255,255,0.1)'}
+              >
+                🎁 Wrapped
+              </button>
+              <select
+                value={statsWindow}
+                onChange={e => {
+                  logger.info('APP', 'Stats window changed', { window: e.target.value });
+                  setStatsWindow(e.target.value);
+                }}
+                title="Which plays the stats cover"
+                style={{
+                  background: 'rgba(255,255,255,0.1)',
+                  color: 'white',
+                  border: '1px solid rgba(255,255,255,0.2)',
+                  borderRadius: 10,
+                  padding: '7px 10px',
+                  fontSize: 13,
+                  cursor: 'pointer',
+                }}
+              >
+                <option value="all" style={{ color: 'black' }}>All time</option>
+                {RECENT_WINDOWS.map(w => (
+                  <option key={w.id} value={w.id} style={{ color: 'black' }}>{w.label}</option>
+                ))}
+                {dataYears.map(y => (
+                  <option key={y} value={`y${y}`} style={{ color: 'black' }}>{y} only</option>
+                ))}
+              </select>
               <button
                 onClick={() => { refresh(); }}
                 title="Reload data from server"
@@ -385,11 +482,20 @@ export default function App() {
               />
             )}
             {stats && (
-              <SummaryDashboard stats={stats} onNext={handleNext} />
+              <SummaryDashboard stats={stats} profile={profile} onNext={handleNext} onArtist={handleArtist} />
             )}
           </>
         )}
 
+        {currentPage === 'artist' && artist && (
+          <ArtistPage
+            key={artist.name}
+            profile={profile}
+            artist={artist.name}
+            onBack={() => setCurrentPage(artist.from)}
+          />
+        )}
+
         {currentPage === 'rarity' && (
           <>
             {!stats && (
@@ -406,6 +512,7 @@ export default function App() {
             {stats && (
               <RarityAnalysis
                 stats={stats}
+                profile={profile}
                 onNext={handleNext}
                 onBack={handleBack}
               />
@@ -1,4 +1,4 @@
-import type { StatsResponse } from "../types";
+import type { Stats, StatsResponse, StatsQuery, CompareResponse, WrappedResponse, ArtistResponse, EvolutionResponse, BenchmarkResponse, GenreTaxonomy } from "../types";
 import { logger } from "../utils/debugLogger";
 import connectionManager from "./connectionManager";
 
@@ -17,17 +17,29 @@ class SnobifyApiError extends Error {
 }
 
 
-export async function fetchStats(profile = "default"): Promise<{
+/** `a=1&b=2` for a stats query, keys sorted so equal queries give equal strings. */
+export function statsQueryString(query: StatsQuery = {}): string {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(query).sort() as (keyof StatsQuery)[]) {
+    const value = query[key];
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) params.append(key, String(v));
+  }
+  return params.toString();
+}
+
+export async function fetchStats(profile = "default", query: StatsQuery = {}): Promise<{
   data: StatsResponse;
   timings?: string;
   etag?: string;
   xhash?: string;
 }> {
   const t0 = performance.now();
-  const url = `/api/stats?profile=${encodeURIComponent(profile)}`;
+  const qs = statsQueryString(query);
+  const url = `/api/stats?profile=${encodeURIComponent(profile)}${qs ? `&${qs}` : ""}`;
   
   try {
-    logger.debug('API_STATS', `Fetching stats for profile: ${profile}`);
+    logger.debug('API_STATS', `Fetching stats for profile: ${profile}`, { query });
     
     // Use connection manager for robust request handling
     const data: StatsResponse = await connectionManager.get<StatsResponse>(url);
@@ -58,6 +70,106 @@ export async function fetchStats(profile = "default"): Promise<{
   }
 }
 
+/**
+ * Periods for a year-over-year comparison: the last calendar year in the stats
+ * window against the one before it. Null when the data spans a single year.
+ */
+export function yearOverYear(stats: Stats): { a: string; b: string } | null {
+  const { start, end } = stats.meta.window;
+  if (!start || !end) return null;
+  const first = new Date(start).getUTCFullYear();
+  const last = new Date(end).getUTCFullYear();
+  return last > first ? { a: String(last - 1), b: String(last) } : null;
+}
+
+/** Compare two periods — YYYY, YYYY-MM, YYYY-MM-DD or `from..to` ranges. */
+export async function fetchComparison(profile: string, a: string, b: string): Promise<CompareResponse> {
+  const url = `/api/stats/compare?profile=${encodeURIComponent(profile)}&a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`;
+
+  try {
+    const data = await connectionManager.get<CompareResponse>(url);
+    logger.debug('API_COMPARE', `Comparison fetched`, { profile, a, b, findings: data.comparison.findings.length });
+    return data;
+  } catch (error) {
+    logger.error('API_COMPARE', `Failed to compare ${a} with ${b}`, {
+      error: error instanceof Error ? error.message : String(error),
+      profile,
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
+/** Year in review; without a year the server picks the latest year with plays. */
+export async function fetchWrapped(profile: string, year?: number): Promise<WrappedResponse> {
+  const url = `/api/wrapped?profile=${encodeURIComponent(profile)}${year ? `&year=${year}` : ""}`;
+
+  try {
+    const data = await connectionManager.get<WrappedResponse>(url);
+    logger.debug('API_WRAPPED', `Wrapped fetched`, { profile, year: data.wrapped.year, plays: data.wrapped.totals.plays });
+    return data;
+  } catch (error) {
+    logger.error('API_WRAPPED', `Failed to fetch Wrapped for ${year ?? 'latest year'}`, {
+      error: error instanceof Error ? error.message : String(error),
+      profile,
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
+export async function fetchArtist(profile: string, name: string): Promise<ArtistResponse> {
+  const url = `/api/artists/${encodeURIComponent(name)}?profile=${encodeURIComponent(profile)}`;
+
+  try {
+    const data = await connectionManager.get<ArtistResponse>(url);
+    logger.debug('API_ARTIST', `Artist fetched`, { profile, artist: data.artist.artist, plays: data.artist.totals.plays });
+    return data;
+  } catch (error) {
+    logger.error('API_ARTIST', `Failed to fetch artist ${name}`, {
+      error: error instanceof Error ? error.message : String(error),
+      profile,
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
+export async function fetchEvolution(profile: string): Promise<EvolutionResponse> {
+  const url = `/api/taste/evolution?profile=${encodeURIComponent(profile)}`;
+
+  try {
+    const data = await connectionManager.get<EvolutionResponse>(url);
+    logger.debug('API_EVOLUTION', `Taste evolution fetched`, { profile, quarters: data.evolution.quarters.length, eras: data.evolution.eras.length });
+    return data;
+  } catch (error) {
+    logger.error('API_EVOLUTION', `Failed to fetch taste evolution`, {
+      error: error instanceof Error ? error.message : String(error),
+      profile,
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
+/** Percentile ranks against the other local profiles or the bundled reference; the server picks unless `population` says. */
+export async function fetchBenchmark(profile: string, population?: "profiles" | "reference"): Promise<BenchmarkResponse> {
+  const url = `/api/benchmark?profile=${encodeURIComponent(profile)}${population ? `&population=${population}` : ""}`;
+
+  try {
+    const data = await connectionManager.get<BenchmarkResponse>(url);
+    logger.debug('API_BENCHMARK', `Benchmark fetched`, { profile, population: data.benchmark.population.source, listeners: data.benchmark.population.listeners });
+    return data;
+  } catch (error) {
+    logger.error('API_BENCHMARK', `Failed to fetch benchmark`, {
+      error: error instanceof Error ? error.message : String(error),
+      profile,
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
 export async function fetchDebug(profile = "default"): Promise<any> {
   const url = `/api/debug?profile=${encodeURIComponent(profile)}`;
   
@@ -84,6 +196,22 @@ export async function fetchDebug(profile = "default"): Promise<any> {
   }
 }
 
+export async function fetchGenreTaxonomy(): Promise<GenreTaxonomy> {
+  const url = `/api/genres/taxonomy`;
+
+  try {
+    const data = await connectionManager.get<GenreTaxonomy>(url);
+    logger.debug('API_GENRES', `Genre taxonomy fetched`, { families: data.families.length });
+    return data;
+  } catch (error) {
+    logger.error('API_GENRES', `Failed to fetch genre taxonomy`, {
+      error: error instanceof Error ? error.message : String(error),
+      connectionStatus: connectionManager.getStatus()
+    });
+    throw error;
+  }
+}
+
 // ============================================================================
 // NEW ENHANCED API FUNCTIONS
 // ============================================================================
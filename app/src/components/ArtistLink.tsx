@@ -0,0 +1,31 @@
+import React from 'react';
+
+// An artist's name that opens their deep-dive page. Plain text when there's
+// nowhere to go (no handler, or an empty name), so cards and slides can use it
+// unconditionally.
+
+interface ArtistLinkProps {
+  name: string;
+  onOpen?: (name: string) => void;
+  style?: React.CSSProperties;
+}
+
+export default function ArtistLink({ name, onOpen, style }: ArtistLinkProps) {
+  if (!onOpen || !name) return <>{name}</>;
+  return (
+    <button
+      type="button"
+      title={`More about ${name}`}
+      onClick={e => { e.stopPropagation(); onOpen(name); }}
+      // Keep Enter/Space on the link from also advancing a slide deck
+      onKeyDown={e => e.stopPropagation()}
+      style={{
+        background: 'none', border: 'none', padding: 0, margin: 0, font: 'inherit', color: 'inherit',
+        cursor: 'pointer', textDecoration: 'underline dotted', textUnderlineOffset: 3,
+        ...style,
+      }}
+    >
+      {name}
+    </button>
+  );
+}
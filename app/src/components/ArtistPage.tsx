@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import type { ArtistDeepDive, Taste } from '../types';
+import { fetchArtist } from '../api/client';
+import { LoadingSpinner, ErrorState } from './LoadingStates';
+
+interface ArtistPageProps {
+  profile: string;
+  artist: string;
+  onBack: () => void;
+}
+
+const FEATURES: { key: keyof Taste; label: string }[] = [
+  { key: 'avgEnergy', label: 'Energy' },
+  { key: 'avgValence', label: 'Happiness' },
+  { key: 'avgDanceability', label: 'Danceability' },
+  { key: 'acousticBias', label: 'Acoustic' },
+  { key: 'instrumentalBias', label: 'Instrumental' },
+];
+
+const fmtDay = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }) : '–';
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+function rarityLine(r: ArtistDeepDive['rarity']): string {
+  if (r.avgPop === null) return 'No popularity data for their tracks.';
+  const vs = r.libraryAvgPop !== null ? ` vs ${r.libraryAvgPop} across your library` : '';
+  if (r.rarerThan === null) return `Mean popularity ${r.avgPop}${vs}.`;
+  return `Mean popularity ${r.avgPop}${vs} — more obscure than ${r.rarerThan}% of the artists you listen to.`;
+}
+
+function AudioCompare({ audio }: { audio: ArtistDeepDive['audio'] }) {
+  if (!audio.artist) return <div className="muted">No audio features for their tracks.</div>;
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      {FEATURES.map(({ key, label }) => {
+        const a = audio.artist![key];
+        const you = audio.you[key];
+        return (
+          <div key={key}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13 }}>
+              <span>{label}</span>
+              <span className="muted">{pct(a)} <span style={{ opacity: 0.6 }}>vs you {pct(you)}</span></span>
+            </div>
+            <div style={{ position: 'relative', height: 8, marginTop: 4, background: 'rgba(255,255,255,0.06)', borderRadius: 4 }}>
+              <div style={{ position: 'absolute', inset: 0, width: pct(a), background: '#667eea', borderRadius: 4 }} />
+              <div title={`You: ${pct(you)}`} style={{ position: 'absolute', top: -3, bottom: -3, left: pct(you), width: 2, background: '#f5576c' }} />
+            </div>
+          </div>
+        );
+      })}
+      <div className="muted" style={{ fontSize: 11 }}>Bars are the artist; the red mark is your overall average.</div>
+    </div>
+  );
+}
+
+export default function ArtistPage({ profile, artist, onBack }: ArtistPageProps) {
+  const [data, setData]       = useState<ArtistDeepDive | null>(null);
+  const [error, setError]     = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let live = true;
+    fetchArtist(profile, artist)
+      .then(res => { if (live) { setData(res.artist); setError(null); } })
+      .catch(err => { if (live) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { live = false; };
+  }, [profile, artist, attempt]);
+
+  if (error && !data) {
+    return (
+      <div className="container" style={{ textAlign: 'center', paddingTop: 40 }}>
+        <ErrorState error={error} onRetry={() => setAttempt(a => a + 1)} />
+        <button className="btn btn-secondary" onClick={onBack} style={{ marginTop: 12 }}>← Back</button>
+      </div>
+    );
+  }
+  if (!data) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '60vh' }}>
+        <LoadingSpinner size="large" text={`Digging into ${artist}...`} />
+      </div>
+    );
+  }
+
+  const { totals } = data;
+  const timeline = data.timeline.map(t => ({ month: t.month.slice(2), plays: t.plays }));
+
+  return (
+    <div className="container">
+      <div className="dashboard-header">
+        <div>
+          <h1 className="dashboard-title">{data.artist}</h1>
+          <p className="dashboard-subtitle">
+            {totals.plays > 0
+              ? <>First played {fmtDay(data.firstPlayed)} &bull; last played {fmtDay(data.lastPlayed)}</>
+              : <>In your library, never played</>}
+          </p>
+        </div>
+        <button className="btn btn-secondary" onClick={onBack}>← Back</button>
+      </div>
+
+      <div className="stats-grid">
+        {([
+          ['Plays', totals.plays],
+          ['Minutes', totals.minutes],
+          ['Tracks', totals.tracks],
+          ['Albums', totals.albums],
+          ['Playlists', totals.playlists],
+        ] as const).map(([label, value]) => (
+          <div key={label} className="stat-card">
+            <div className="stat-number">{value.toLocaleString()}</div>
+            <div className="stat-label">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {timeline.length > 1 && (
+        <div className="card">
+          <div className="title">Plays by Month</div>
+          <div style={{ height: 240 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={timeline} margin={{ top: 8, right: 16, left: 8, bottom: 24 }}>
+                <XAxis
+                  dataKey="month"
+                  interval={Math.max(0, Math.floor(timeline.length / 8))}
+                  tick={{ fontSize: 10, fill: '#9aa0a6' }}
+                  angle={-45}
+                  textAnchor="end"
+                  height={40}
+                />
+                <YAxis tick={{ fontSize: 10, fill: '#9aa0a6' }} allowDecimals={false} />
+                <Tooltip
+                  formatter={(value: number) => [value.toLocaleString(), 'Plays']}
+                  labelFormatter={(label) => `Month: ${label}`}
+                  contentStyle={{ borderRadius: 12, border: '1px solid var(--border)' }}
+                />
+                <Bar dataKey="plays" fill="#667eea" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="card">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div className="title">Tracks</div>
+          <div className="muted">most played first</div>
+        </div>
+        {data.tracks.slice(0, 25).map((t, i) => (
+          <div key={`${t.name}-${i}`} style={{ display: 'flex', justifyContent: 'space-between', gap: 12, padding: '5px 0', fontSize: 13, borderTop: i ? '1px solid rgba(255,255,255,0.05)' : 'none' }}>
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {t.name}
+              {t.album && <span className="muted"> · {t.album}</span>}
+              {t.featured && <span className="muted"> · featured</span>}
+            </span>
+            <span className="muted" style={{ whiteSpace: 'nowrap' }}>
+              {t.plays.toLocaleString()} plays{t.popularity !== null ? ` · pop ${t.popularity}` : ''}
+            </span>
+          </div>
+        ))}
+        {data.tracks.length > 25 && <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>…and {data.tracks.length - 25} more</div>}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', gap: 16 }}>
+        <div className="card">
+          <div className="title">Sound vs Your Taste</div>
+          <AudioCompare audio={data.audio} />
+        </div>
+
+        <div className="card">
+          <div className="title">Rarity</div>
+          <p style={{ margin: '4px 0 16px' }}>{rarityLine(data.rarity)}</p>
+          <div className="title" style={{ fontSize: 15 }}>Genres</div>
+          {data.genres.length ? (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+              {data.genres.slice(0, 12).map(g => (
+                <span key={g.genre} title={`${g.family} · ${g.tracks} tracks`} style={{ fontSize: 12, padding: '3px 10px', borderRadius: 999, background: 'rgba(102,126,234,0.15)', border: '1px solid rgba(102,126,234,0.35)' }}>
+                  {g.genre}
+                </span>
+              ))}
+            </div>
+          ) : <div className="muted">No genre data.</div>}
+        </div>
+
+        <div className="card">
+          <div className="title">Albums</div>
+          {data.albums.length ? data.albums.slice(0, 10).map(a => (
+            <div key={a.album} style={{ display: 'flex', justifyContent: 'space-between', gap: 12, padding: '4px 0', fontSize: 13 }}>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{a.album}</span>
+              <span className="muted" style={{ whiteSpace: 'nowrap' }}>{a.tracks} tracks · {a.plays.toLocaleString()} plays</span>
+            </div>
+          )) : <div className="muted">No album data.</div>}
+        </div>
+
+        <div className="card">
+          <div className="title">In Your Playlists</div>
+          {data.playlists.length ? data.playlists.map(p => (
+            <div key={p.playlist} style={{ display: 'flex', justifyContent: 'space-between', gap: 12, padding: '4px 0', fontSize: 13 }}>
+              <span>{p.playlist}</span>
+              <span className="muted">{p.tracks} track{p.tracks === 1 ? '' : 's'}</span>
+            </div>
+          )) : <div className="muted">Not in any playlist export.</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
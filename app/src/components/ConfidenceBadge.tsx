@@ -0,0 +1,32 @@
+import type { CSSProperties } from 'react';
+import type { Confidence } from '../types';
+
+// Qualifies a number by the data behind it: nothing when the support is solid,
+// an amber "provisional ±x" chip, or a grey "not enough data" one. dimmed()
+// greys the number itself out when the support is insufficient.
+
+export const dimmed = (c?: Confidence): CSSProperties =>
+  c?.support === 'insufficient' ? { opacity: 0.4, filter: 'grayscale(1)' } : {};
+
+interface ConfidenceBadgeProps {
+  c?: Confidence;
+  scale?: number;     // 100 for 0..1 values shown as percentages
+  unit?: string;      // what n counts
+}
+
+export default function ConfidenceBadge({ c, scale = 1, unit = 'tracks' }: ConfidenceBadgeProps) {
+  if (!c || c.support === 'solid') return null;
+  const half = Math.round(((c.high - c.low) / 2) * scale);
+  const title = `Based on ${c.n.toLocaleString()} ${unit}; 95% interval ${Math.round(c.low * scale)}–${Math.round(c.high * scale)}`;
+  const insufficient = c.support === 'insufficient';
+  return (
+    <span title={title} style={{
+      display: 'inline-block', marginTop: 6, padding: '2px 8px', borderRadius: 10,
+      fontSize: 11, fontWeight: 600, whiteSpace: 'nowrap',
+      color: insufficient ? 'var(--muted)' : '#fbbf24',
+      background: insufficient ? 'rgba(255,255,255,0.06)' : 'rgba(251,191,36,0.12)',
+    }}>
+      {insufficient ? `Not enough data (${c.n} ${unit})` : `Provisional ±${half}`}
+    </span>
+  );
+}
@@ -137,6 +137,48 @@ export function LoadingPulse({
   );
 }
 
+interface ProgressBarProps {
+  value?: number;   // 0..1; omit for an indeterminate bar
+  color?: string;
+  text?: string;
+}
+
+export function ProgressBar({
+  value,
+  color = '#4ecdc4',
+  text
+}: ProgressBarProps) {
+  const pct = value === undefined ? 100 : Math.round(Math.min(1, Math.max(0, value)) * 100);
+  return (
+    <div style={{ padding: '8px 0' }}>
+      <div style={{
+        height: '6px',
+        borderRadius: '3px',
+        backgroundColor: `${color}20`,
+        overflow: 'hidden',
+      }}>
+        <div style={{
+          width: `${pct}%`,
+          height: '100%',
+          backgroundColor: color,
+          transition: 'width 0.3s ease',
+          animation: value === undefined ? 'pulse 2s ease-in-out infinite' : undefined,
+        }} />
+      </div>
+      {text && (
+        <p style={{
+          margin: '6px 0 0',
+          color: color,
+          fontSize: '12px',
+          fontWeight: '500',
+        }}>
+          {text}
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface ErrorStateProps {
   error: string;
   onRetry?: () => void;
@@ -1,25 +1,46 @@
-import React from 'react';
-import type { Stats } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { Stats, Benchmark } from '../types';
+import { fetchBenchmark } from '../api/client';
+import { percentileTier } from '../util';
+import ConfidenceBadge, { dimmed } from './ConfidenceBadge';
 
 interface RarityAnalysisProps {
   stats: Stats;
+  profile: string;
   onNext: () => void;
   onBack: () => void;
 }
 
-export default function RarityAnalysis({ stats, onNext, onBack }: RarityAnalysisProps) {
+const TIERS = [
+  { label: 'Mainstream', class: 'rarity-mainstream' },
+  { label: 'Niche', class: 'rarity-niche' },
+  { label: 'Underground', class: 'rarity-underground' },
+  { label: 'Legendary', class: 'rarity-legendary' },
+];
+
+export default function RarityAnalysis({ stats, profile, onNext, onBack }: RarityAnalysisProps) {
   const rareTracks = stats.rareTracks ?? [];
   const { playlistRater } = stats;
   const rarityScore = playlistRater?.rarityScore ?? 0;
 
-  const getRarityTier = () => {
-    if (rarityScore >= 80) return { label: 'Legendary', class: 'rarity-legendary' };
-    if (rarityScore >= 60) return { label: 'Underground', class: 'rarity-underground' };
-    if (rarityScore >= 40) return { label: 'Niche', class: 'rarity-niche' };
-    return { label: 'Mainstream', class: 'rarity-mainstream' };
-  };
+  // Where the score sits among other listeners; the fixed cutoffs below stand in without it
+  const [benchmark, setBenchmark] = useState<Benchmark | null>(null);
+  useEffect(() => {
+    let live = true;
+    fetchBenchmark(profile)
+      .then(res => { if (live) setBenchmark(res.benchmark); })
+      .catch(() => { if (live) setBenchmark(null); });
+    return () => { live = false; };
+  }, [stats, profile]);
+  // Too few tracks to rank: keep the score on screen, greyed out, but claim nothing about it
+  const confidence = stats.confidence?.playlistRater.rarityScore;
+  const unsupported = confidence?.support === 'insufficient';
+  const rarerThan = unsupported ? null : benchmark?.metrics.find(m => m.metric === 'rarityScore')?.percentile ?? null;
 
-  const tier = getRarityTier();
+  const level = rarerThan !== null
+    ? percentileTier(rarerThan)
+    : rarityScore >= 80 ? 3 : rarityScore >= 60 ? 2 : rarityScore >= 40 ? 1 : 0;
+  const tier = TIERS[level];
 
   // Group rare tracks by artist to find underground artists
   const artistPops: Record<string, number[]> = {};
@@ -32,11 +53,13 @@ export default function RarityAnalysis({ stats, onNext, onBack }: RarityAnalysis
     .slice(0, 8);
 
   const generateRarityRemark = () => {
-    if (rarityScore >= 80) {
+    if (unsupported) {
+      return `${confidence!.n} tracks. That's not a taste, that's a sample. Come back when you've actually listened to something.`;
+    } else if (level === 3) {
       return "Impressive. You've managed to avoid the mainstream like it's a plague. Your taste is so underground, I'm surprised you haven't discovered music that doesn't exist yet.";
-    } else if (rarityScore >= 60) {
+    } else if (level === 2) {
       return "A respectable level of obscurity. You're not quite mainstream, but you're not exactly pioneering new musical frontiers either. Comfortably niche.";
-    } else if (rarityScore >= 40) {
+    } else if (level === 1) {
       return "Your taste is... adequate. You've found a nice middle ground between popular and obscure. How delightfully average.";
     } else {
       return "Oh dear. Your musical preferences are so mainstream, I can practically hear the radio DJ introducing your playlist. How... predictable.";
@@ -59,12 +82,17 @@ export default function RarityAnalysis({ stats, onNext, onBack }: RarityAnalysis
         <div className="card">
           <h2 className="title">Your Rarity Score</h2>
           <div style={{ textAlign: 'center', marginBottom: '24px' }}>
-            <div style={{ fontSize: '4rem', fontWeight: '900', marginBottom: '16px' }}>
+            <div style={{ fontSize: '4rem', fontWeight: '900', marginBottom: '16px', ...dimmed(confidence) }}>
               {rarityScore}%
             </div>
-            <div className={`rarity-score ${tier.class}`}>
-              {tier.label}
-            </div>
+            {unsupported ? <ConfidenceBadge c={confidence} /> : (
+              <div className={`rarity-score ${tier.class}`}>
+                {tier.label}{confidence?.support === 'provisional' && ' (provisional)'}
+              </div>
+            )}
+            {confidence?.support === 'provisional' && (
+              <div><ConfidenceBadge c={confidence} /></div>
+            )}
           </div>
           <div className="progress-bar">
             <div
@@ -72,8 +100,16 @@ export default function RarityAnalysis({ stats, onNext, onBack }: RarityAnalysis
               style={{ width: `${rarityScore}%` }}
             />
           </div>
+          {rarerThan !== null && benchmark && (
+            <p style={{ marginTop: '16px', fontWeight: 600 }}>
+              Rarer than {rarerThan}% of {benchmark.population.source === 'profiles'
+                ? `the ${benchmark.population.listeners} other profile${benchmark.population.listeners === 1 ? '' : 's'} here`
+                : 'listeners'}
+            </p>
+          )}
           <p style={{ marginTop: '16px', color: 'var(--muted)' }}>
             Based on inverse average Spotify popularity. Higher = more obscure.
+            {benchmark?.population.source === 'reference' && ` Ranked against the ${benchmark.population.label}.`}
           </p>
         </div>
 
@@ -0,0 +1,62 @@
+import type { ScoreComponent, ScoreExplanation } from '../types';
+
+// Expandable "why this score" panel for any server-side ScoreExplanation: what
+// each component contributed, the rows behind it, and the server's what-ifs.
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+function whatIf(c: ScoreComponent): string | null {
+  const cf = c.counterfactual;
+  if (!cf) return null;
+  return `${cf.action}: ${c.label.toLowerCase()} ${signed(cf.metricDelta)}, score ${signed(cf.scoreDelta)}`;
+}
+
+function ComponentRow({ c, max }: { c: ScoreComponent; max: number }) {
+  const positive = c.contribution >= 0;
+  const hint = whatIf(c);
+  return (
+    <div style={{ padding: '8px 0', borderTop: '1px solid var(--border)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, fontSize: 14 }}>
+        <span style={{ fontWeight: 600 }}>{c.label}</span>
+        <span className="muted" style={{ whiteSpace: 'nowrap' }}>
+          {c.weight !== null ? <>{c.value} × {c.weight}</> : <>flat</>} ={' '}
+          <b style={{ color: positive ? 'inherit' : '#f5576c' }}>{signed(c.contribution)} pts</b>
+        </span>
+      </div>
+      <div style={{ height: 6, marginTop: 4, background: 'rgba(255,255,255,0.06)', borderRadius: 3 }}>
+        <div style={{
+          height: '100%', borderRadius: 3,
+          width: `${Math.min(100, (Math.abs(c.contribution) / max) * 100)}%`,
+          background: positive ? '#667eea' : '#f5576c',
+        }} />
+      </div>
+      {c.drivers.length > 0 && (
+        <div className="muted" style={{ fontSize: 12, marginTop: 4 }}>
+          {c.drivers.map((d, i) => (
+            <span key={`${d.label}-${i}`} title={d.note}>
+              {i > 0 && ' · '}{d.label} ({d.value})
+            </span>
+          ))}
+        </div>
+      )}
+      {hint && <div style={{ fontSize: 12, marginTop: 4, color: '#34d399' }}>↳ {hint}</div>}
+    </div>
+  );
+}
+
+export default function ScoreBreakdown({ explanation }: { explanation: ScoreExplanation }) {
+  const { components, notes } = explanation;
+  const max = Math.max(1, ...components.map(c => Math.abs(c.contribution)));
+  return (
+    <details>
+      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>Why this score?</summary>
+      <div style={{ marginTop: 8 }}>
+        {components.map(c => <ComponentRow key={c.metric} c={c} max={max} />)}
+        {notes.map(n => <div key={n} className="muted" style={{ fontSize: 12, marginTop: 6 }}>⚠ {n}</div>)}
+        <div className="muted" style={{ fontSize: 11, marginTop: 8 }}>
+          Value × weight = points. Hover a name for what its number means; what-ifs are re-scored without those rows.
+        </div>
+      </div>
+    </details>
+  );
+}
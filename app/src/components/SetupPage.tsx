@@ -1,4 +1,5 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ProgressBar } from './LoadingStates';
 
 interface ProfileInfo {
   name: string;
@@ -15,19 +16,321 @@ interface ProfilesResponse {
   profilesDir: string;
 }
 
+type RejectReason = 'missing_uri' | 'schema' | 'bad_date' | 'not_a_track' | 'duplicate';
+
+interface IngestFileReport {
+  file: string;
+  adapter: string | null;
+  rows: number;
+  skipped: number;
+  rejected: Partial<Record<RejectReason, number>>;
+  samples: { reason: RejectReason; at: string; detail: string; raw: string }[];
+  columns: { source: string; field: string | null }[];
+  warnings: string[];
+}
+
+interface IngestReport {
+  profile: string;
+  totals: { files: number; recognised: number; accepted: number; rejected: number; byReason: Partial<Record<RejectReason, number>> };
+  files: IngestFileReport[];
+}
+
+interface UploadResult {
+  profile: string;
+  uploaded: number;
+  files: { filename: string; size: number; rows?: number; duplicates?: number }[];
+  added: string[];
+  replaced: string[];
+  ignored: { name: string; reason: string }[];
+  unmapped: string[];
+  rows: number | null;
+}
+
+// Background upload job (POST /api/upload → 202, then GET /api/jobs/:id/events)
+interface UploadJob {
+  id: string;
+  profile: string;
+  state: 'queued' | 'running' | 'done' | 'failed';
+  stages: { name: string; state: 'pending' | 'running' | 'done' | 'failed' }[];
+  progress: {
+    filesReceived: number;
+    bytesReceived: number;
+    filesAccepted: number;
+    filesToIngest: number;
+    filesIngested: number;
+    rowsParsed: number;
+    rowsRejected: number;
+    currentFile: string | null;
+  };
+  attempts: number;
+  retryable: boolean;
+  result?: UploadResult;
+  error?: { code: string; message: string; hint?: string };
+}
+
 interface SetupPageProps {
   currentProfile: string;
   onAnalyze: (profile: string) => void;
   onBack: () => void;
 }
 
+// ─── Accepted upload types ────────────────────────────────────────────────────
+// Playlist CSVs (Exportify etc.), Spotify extended streaming history JSON and
+// Last.fm scrobble exports (CSV, or saved user.getRecentTracks JSON pages), and
+// .zip archives of any of them (the Spotify privacy export as downloaded).
+// The server sniffs the actual format (server/src/ingest/registry.ts); this is only a pre-filter.
+
+const isHistoryFile = (f: File) =>
+  f.name.toLowerCase().endsWith('.csv') ||
+  f.name.toLowerCase().endsWith('.zip') ||
+  f.type === 'text/csv' ||
+  /(Streaming_History_Audio_.*|.*recent_?tracks.*|.*scrobbles.*|.*last\.?fm.*)\.json$/i.test(f.name);
+
+type UploadMode = 'merge' | 'append' | 'replace';
+
+const UPLOAD_MODES: { mode: UploadMode; label: string; hint: string }[] = [
+  { mode: 'merge',   label: 'Merge',   hint: 'Keep existing data; skip files and plays already uploaded.' },
+  { mode: 'append',  label: 'Append',  hint: 'Keep existing data; add every file as new.' },
+  { mode: 'replace', label: 'Replace', hint: 'Remove the profile’s existing data first.' },
+];
+
+const REJECT_LABELS: Record<RejectReason, string> = {
+  missing_uri: 'Missing Track URI',
+  schema:      'Invalid values',
+  bad_date:    'Unparseable date',
+  not_a_track: 'Podcast / audiobook',
+  duplicate:   'Duplicate row',
+};
+
+// ─── Ingest report (shown right after upload) ─────────────────────────────────
+
+function IngestReportPanel({ report }: { report: IngestReport }) {
+  const { totals } = report;
+  const reasons = Object.entries(totals.byReason) as [RejectReason, number][];
+
+  return (
+    <div style={{ marginTop: 12, padding: '12px 14px', borderRadius: 10, border: '1px solid var(--border)', fontSize: '0.85rem' }}>
+      <div style={{ fontWeight: 700, marginBottom: 4 }}>
+        {totals.accepted.toLocaleString()} rows accepted · {totals.rejected.toLocaleString()} rejected · {totals.recognised}/{totals.files} files recognised
+      </div>
+      {reasons.length > 0 && (
+        <div style={{ color: 'var(--muted)', marginBottom: 8 }}>
+          {reasons.map(([r, n]) => `${REJECT_LABELS[r]}: ${n.toLocaleString()}`).join(' · ')}
+        </div>
+      )}
+
+      <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+        {report.files.map(f => {
+          const ignored = f.columns.filter(c => c.field === null).map(c => c.source);
+          return (
+            <details key={f.file} style={{ padding: '6px 0', borderTop: '1px solid var(--border)' }}>
+              <summary style={{ cursor: 'pointer', display: 'flex', gap: 8, alignItems: 'center' }}>
+                <span style={{ flex: 1, fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{f.file}</span>
+                <span style={{ color: f.adapter ? 'var(--muted)' : 'var(--error)', flexShrink: 0 }}>{f.adapter ?? 'unrecognised'}</span>
+                <span style={{ color: 'var(--success)', flexShrink: 0 }}>{f.rows.toLocaleString()} ✓</span>
+                {f.skipped > 0 && <span style={{ color: 'var(--error)', flexShrink: 0 }}>{f.skipped.toLocaleString()} ✕</span>}
+              </summary>
+              <div style={{ padding: '6px 0 0 12px', color: 'var(--muted)' }}>
+                {f.warnings.map(w => <div key={w} style={{ color: 'var(--error)' }}>⚠ {w}</div>)}
+                {(Object.entries(f.rejected) as [RejectReason, number][]).map(([r, n]) => (
+                  <div key={r} style={{ marginTop: 4 }}>
+                    <div style={{ fontWeight: 600 }}>{REJECT_LABELS[r]} — {n.toLocaleString()}</div>
+                    {f.samples.filter(x => x.reason === r).map(x => (
+                      <div key={x.at} style={{ fontFamily: 'monospace', fontSize: '0.78rem', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+                        {x.at}: {x.detail}{x.raw ? ` — ${x.raw}` : ''}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                {f.columns.length > 0 && (
+                  <div style={{ marginTop: 4 }}>
+                    Columns used: {f.columns.filter(c => c.field !== null).map(c => c.source === c.field ? c.source : `${c.source} → ${c.field}`).join(', ') || 'none'}
+                    {ignored.length > 0 && <> · ignored: {ignored.join(', ')}</>}
+                  </div>
+                )}
+              </div>
+            </details>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ─── Column mapper (CSVs whose headers the server couldn't map) ───────────────
+
+function ColumnMapper({ profile, files, onSaved }: { profile: string; files: IngestFileReport[]; onSaved: () => void }) {
+  const [fields, setFields] = useState<string[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Distinct headers across every unrecognised file, with the server's current guess
+  const headers = Array.from(new Map(files.flatMap(f => f.columns).map(c => [c.source, c.field])).entries());
+
+  useEffect(() => {
+    fetch(`/api/profiles/${encodeURIComponent(profile)}/column-map`)
+      .then(r => r.json())
+      .then(data => setFields(data.fields ?? []))
+      .catch(() => setFields([]));
+  }, [profile]);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    const columnMap: Record<string, string | null> = {};
+    for (const [source, guess] of headers) {
+      const v = choices[source] ?? guess ?? '';
+      columnMap[source] = v || null;
+    }
+    try {
+      const resp = await fetch(`/api/profiles/${encodeURIComponent(profile)}/column-map`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ columnMap }),
+      });
+      const data = await resp.json();
+      if (!resp.ok) setError(data?.error?.message || 'Could not save mapping.');
+      else onSaved();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 12, padding: '12px 14px', borderRadius: 10, border: '1px solid rgba(245,158,11,0.4)', background: 'rgba(245,158,11,0.06)', fontSize: '0.85rem' }}>
+      <div style={{ fontWeight: 700, marginBottom: 4 }}>
+        Snobify could not read {files.length === 1 ? files[0].file : `${files.length} files`} — which columns are which?
+      </div>
+      <div style={{ color: 'var(--muted)', marginBottom: 10 }}>
+        Map at least a track name and an artist (or a Spotify URI). Tracks without a Spotify URI get an ID from artist + title.
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0,1fr) minmax(0,1fr)', gap: '6px 12px', alignItems: 'center', maxHeight: 220, overflowY: 'auto' }}>
+        {headers.map(([source, guess]) => (
+          <React.Fragment key={source}>
+            <span style={{ fontFamily: 'monospace', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{source}</span>
+            <select
+              value={choices[source] ?? guess ?? ''}
+              onChange={e => setChoices(prev => ({ ...prev, [source]: e.target.value }))}
+              style={{ padding: '4px 8px', borderRadius: 6, border: '1px solid var(--border)', fontSize: '0.85rem' }}
+            >
+              <option value="">— ignore —</option>
+              {fields.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+          </React.Fragment>
+        ))}
+      </div>
+      {error && <div style={{ color: 'var(--error)', marginTop: 8 }}>✕ {error}</div>}
+      <button className="btn btn-primary" onClick={save} disabled={saving || fields.length === 0} style={{ marginTop: 10, padding: '6px 14px', fontSize: '0.85rem' }}>
+        {saving ? 'Saving…' : 'Save mapping & re-read'}
+      </button>
+    </div>
+  );
+}
+
+// ─── Upload job progress ──────────────────────────────────────────────────────
+
+const STAGE_LABELS: Record<string, string> = {
+  receive: 'Receiving files',
+  extract: 'Unpacking archives',
+  detect:  'Detecting formats',
+  place:   'Saving files',
+  ingest:  'Parsing rows',
+  compute: 'Computing stats',
+};
+
+const STAGE_ICONS = { pending: '○', running: '●', done: '✓', failed: '✕' } as const;
+
+const plural = (n: number, word: string) => `${n.toLocaleString()} ${word}${n === 1 ? '' : 's'}`;
+
+function describeUpload(result: UploadResult): string {
+  const totalKB = Math.round(result.files.reduce((s, f) => s + f.size, 0) / 1024);
+  const { added, replaced, ignored, unmapped } = result;
+  return `Uploaded ${plural(result.uploaded, 'file')} (${totalKB} KB) to profile "${result.profile}".`
+    + (added.length ? ` Added ${plural(added.length, 'file')}.` : '')
+    + (replaced.length ? ` Replaced ${plural(replaced.length, 'file')}.` : '')
+    + (ignored.length ? ` Ignored ${plural(ignored.length, 'file')} (${ignored.slice(0, 3).map(f => `${f.name}: ${f.reason}`).join('; ')}${ignored.length > 3 ? '; …' : ''}).` : '')
+    + (unmapped.length ? ` ${unmapped.length} CSV${unmapped.length > 1 ? 's need' : ' needs'} a column mapping.` : '');
+}
+
+function stageDetail(name: string, p: UploadJob['progress']): string {
+  switch (name) {
+    case 'receive': return `${plural(p.filesReceived, 'file')}, ${(p.bytesReceived / (1024 * 1024)).toFixed(1)} MB`;
+    case 'detect':  return `${plural(p.filesAccepted, 'file')} recognised`;
+    case 'ingest':  return p.filesToIngest
+      ? `${p.filesIngested}/${p.filesToIngest} files · ${plural(p.rowsParsed, 'row')} · ${p.rowsRejected.toLocaleString()} rejected`
+      : '';
+    default:        return '';
+  }
+}
+
+// fetch() can't report upload progress, so the request body goes up over XHR.
+function postWithProgress(url: string, body: FormData, onProgress: (fraction: number) => void) {
+  return new Promise<{ status: number; data: any }>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.upload.onprogress = e => { if (e.lengthComputable) onProgress(e.loaded / e.total); };
+    xhr.onload = () => {
+      let data: any = null;
+      try { data = JSON.parse(xhr.responseText); } catch { /* non-JSON error page */ }
+      resolve({ status: xhr.status, data });
+    };
+    xhr.onerror = () => reject(new Error('network error'));
+    xhr.send(body);
+  });
+}
+
+function UploadJobPanel({ job, sendProgress, onRetry }: { job: UploadJob | null; sendProgress: number; onRetry: () => void }) {
+  if (!job) {
+    return (
+      <div style={{ marginTop: 12 }}>
+        <ProgressBar value={sendProgress} color="#3b82f6" text={`Sending files… ${Math.round(sendProgress * 100)}%`} />
+      </div>
+    );
+  }
+
+  const p = job.progress;
+  return (
+    <div style={{ marginTop: 12, padding: '12px 14px', borderRadius: 10, border: '1px solid var(--border)', fontSize: '0.85rem' }}>
+      {job.stages.map(stage => {
+        const detail = stage.state === 'pending' ? '' : stageDetail(stage.name, p);
+        return (
+          <div key={stage.name} style={{ display: 'flex', gap: 8, padding: '3px 0', opacity: stage.state === 'pending' ? 0.5 : 1 }}>
+            <span style={{ width: 14, color: stage.state === 'failed' ? 'var(--error)' : stage.state === 'done' ? 'var(--success)' : 'var(--accent)' }}>
+              {STAGE_ICONS[stage.state]}
+            </span>
+            <span style={{ fontWeight: stage.state === 'running' ? 600 : 400 }}>{STAGE_LABELS[stage.name] ?? stage.name}</span>
+            {detail && <span style={{ color: 'var(--muted)' }}>— {detail}</span>}
+          </div>
+        );
+      })}
+      {job.state === 'running' && job.stages.find(s => s.name === 'ingest')?.state === 'running' && p.filesToIngest > 0 && (
+        <ProgressBar value={p.filesIngested / p.filesToIngest} color="#3b82f6" text={p.currentFile ?? undefined} />
+      )}
+      {job.state === 'failed' && job.error && (
+        <div style={{ marginTop: 8, color: 'var(--error)' }}>
+          {job.error.message}
+          {job.error.hint && <div style={{ color: 'var(--muted)', marginTop: 4 }}>{job.error.hint}</div>}
+          {job.retryable && (
+            <button className="btn" onClick={onRetry} style={{ marginTop: 8, fontSize: '0.82rem', padding: '5px 12px' }}>
+              Retry (files are kept on the server)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Folder traversal (DataTransferItem / FileSystem API) ─────────────────────
 
 async function collectFilesFromEntry(entry: FileSystemEntry): Promise<File[]> {
   if (entry.isFile) {
     return new Promise(resolve => {
       (entry as FileSystemFileEntry).file(
-        f => resolve(f.name.toLowerCase().endsWith('.csv') ? [f] : []),
+        f => resolve(isHistoryFile(f) ? [f] : []),
         () => resolve([]),
       );
     });
@@ -67,11 +370,16 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
   // Upload state
   const [uploadFiles, setUploadFiles]   = useState<File[]>([]);
   const [uploading, setUploading]       = useState(false);
+  const [uploadMode, setUploadMode]     = useState<UploadMode>('merge');
+  const [sendProgress, setSendProgress] = useState(0);
+  const [job, setJob]                   = useState<UploadJob | null>(null);
   const [uploadResult, setUploadResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [ingestReport, setIngestReport] = useState<IngestReport | null>(null);
   const [dragOver, setDragOver]         = useState(false);
   const [folderScanning, setFolderScanning] = useState(false);
 
   const fileInputRef   = useRef<HTMLInputElement>(null);
+  const jobStream      = useRef<EventSource | null>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
 
   const activeProfile = useCustom ? customProfile.trim() || 'default' : selectedProfile;
@@ -98,11 +406,9 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
 
   // ── File queueing ─────────────────────────────────────────────────────────
   const addFiles = useCallback((files: FileList | File[]) => {
-    const csvs = Array.from(files).filter(f =>
-      f.name.toLowerCase().endsWith('.csv') || f.type === 'text/csv'
-    );
+    const csvs = Array.from(files).filter(isHistoryFile);
     if (csvs.length === 0) {
-      setUploadResult({ ok: false, message: 'No .csv files found in the selection.' });
+      setUploadResult({ ok: false, message: 'No .csv, .zip, Streaming_History_Audio_*.json or Last.fm JSON files found in the selection.' });
       return;
     }
     setUploadFiles(prev => {
@@ -118,11 +424,67 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
     setUploadResult(null);
   };
 
+  const fetchIngestReport = useCallback((profile: string) => {
+    fetch(`/api/profiles/${encodeURIComponent(profile)}/ingest-report`)
+      .then(r => (r.ok ? r.json() : null))
+      .then((report: IngestReport | null) => setIngestReport(report))
+      .catch(() => setIngestReport(null));
+  }, []);
+
   // ── Upload ────────────────────────────────────────────────────────────────
+  // The POST returns as soon as the files are on the server (202 + job); the
+  // job's stages then stream in over SSE until it is done or failed.
+  useEffect(() => () => jobStream.current?.close(), []);
+
+  const finishJob = useCallback((j: UploadJob) => {
+    setUploading(false);
+    if (j.state === 'done' && j.result) {
+      setUploadResult({ ok: true, message: describeUpload(j.result) });
+      setUploadFiles([]);
+      fetchProfiles();
+      // Tell the user why their numbers might look thin
+      fetchIngestReport(j.profile);
+    } else {
+      setUploadResult({ ok: false, message: j.error?.message || 'Upload failed.' });
+    }
+  }, [fetchProfiles, fetchIngestReport]);
+
+  const watchJob = useCallback((id: string) => {
+    jobStream.current?.close();
+    const es = new EventSource(`/api/jobs/${encodeURIComponent(id)}/events`);
+    jobStream.current = es;
+    es.addEventListener('job', e => {
+      const j = JSON.parse((e as MessageEvent).data) as UploadJob;
+      setJob(j);
+      if (j.state === 'done' || j.state === 'failed') {
+        es.close();
+        finishJob(j);
+      }
+    });
+    es.onerror = () => {
+      // Stream dropped mid-job: ask once where it stands, then resubscribe or give up
+      es.close();
+      fetch(`/api/jobs/${encodeURIComponent(id)}`)
+        .then(r => r.json())
+        .then(({ job: j }: { job: UploadJob }) => {
+          setJob(j);
+          if (j.state === 'done' || j.state === 'failed') finishJob(j);
+          else setTimeout(() => watchJob(id), 1000);
+        })
+        .catch(() => {
+          setUploading(false);
+          setUploadResult({ ok: false, message: 'Lost connection to the server while processing the upload.' });
+        });
+    };
+  }, [finishJob]);
+
   const handleUpload = async () => {
     if (uploadFiles.length === 0) return;
     setUploading(true);
     setUploadResult(null);
+    setIngestReport(null);
+    setJob(null);
+    setSendProgress(0);
 
     const formData = new FormData();
     for (const file of uploadFiles) {
@@ -135,25 +497,33 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
     }
 
     try {
-      const resp = await fetch(`/api/upload?profile=${encodeURIComponent(activeProfile)}`, {
-        method: 'POST',
-        body: formData,
-      });
-      const data = await resp.json();
-      if (resp.ok) {
-        const totalKB = Math.round(data.files.reduce((s: number, f: any) => s + f.size, 0) / 1024);
-        setUploadResult({
-          ok: true,
-          message: `Uploaded ${data.uploaded} file${data.uploaded > 1 ? 's' : ''} (${totalKB} KB) to profile "${data.profile}".`,
-        });
-        setUploadFiles([]);
-        fetchProfiles();
-      } else {
-        setUploadResult({ ok: false, message: data?.error?.message || data.error || 'Upload failed.' });
+      const { status, data } = await postWithProgress(
+        `/api/upload?profile=${encodeURIComponent(activeProfile)}&mode=${uploadMode}`, formData, setSendProgress);
+      if (status === 202 && data?.job) {
+        setJob(data.job);
+        watchJob(data.job.id);
+        return;
       }
+      setUploadResult({ ok: false, message: data?.error?.message || data?.error || 'Upload failed.' });
+      setUploading(false);
     } catch (err: any) {
       setUploadResult({ ok: false, message: `Upload error: ${err.message}` });
-    } finally {
+      setUploading(false);
+    }
+  };
+
+  const retryJob = async () => {
+    if (!job) return;
+    setUploading(true);
+    setUploadResult(null);
+    try {
+      const resp = await fetch(`/api/jobs/${encodeURIComponent(job.id)}/retry`, { method: 'POST' });
+      const data = await resp.json();
+      if (!resp.ok) throw new Error(data?.error?.message || 'Retry failed.');
+      setJob(data.job);
+      watchJob(data.job.id);
+    } catch (err: any) {
+      setUploadResult({ ok: false, message: err.message });
       setUploading(false);
     }
   };
@@ -246,14 +616,14 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
         <div className="title" style={{ fontSize: 18 }}>Step 1 — Upload Your Spotify Data</div>
         <p style={{ color: 'var(--muted)', margin: '0 0 16px' }}>
           Export your listening history from Spotify (Settings &gt; Privacy &gt; Download your data),
-          then drop your CSV files or an entire playlist folder below.
+          then drop the downloaded .zip, your playlist CSVs, your Streaming_History_Audio_*.json files, Last.fm scrobble exports, or an entire folder below.
         </p>
 
         {/* Hidden inputs */}
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv,text/csv"
+          accept=".csv,text/csv,.json,application/json,.zip,application/zip"
           multiple
           style={{ display: 'none' }}
           onChange={e => { if (e.target.files) addFiles(e.target.files); e.target.value = ''; }}
@@ -262,7 +632,7 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
         <input
           ref={folderInputRef}
           type="file"
-          accept=".csv,text/csv"
+          accept=".csv,text/csv,.json,application/json,.zip,application/zip"
           multiple
           style={{ display: 'none' }}
           onChange={onFolderSelected}
@@ -300,10 +670,10 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
             <div>
               <div style={{ fontSize: '2.5rem', marginBottom: 10 }}>📂</div>
               <div style={{ fontWeight: 600, fontSize: '1rem', marginBottom: 4 }}>
-                Drop CSV files or a whole folder here
+                Drop CSV / JSON files or a whole folder here
               </div>
               <div style={{ color: 'var(--muted)', fontSize: '0.88rem', marginBottom: 18 }}>
-                Works with individual files, multiple files, or your entire Spotify playlists folder
+                Works with playlist CSVs, extended streaming history JSON, Last.fm scrobbles, or your entire Spotify export folder
               </div>
 
               {/* Action buttons */}
@@ -343,7 +713,7 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
                 <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
                   <span style={{ fontSize: '1.5rem' }}>📂</span>
                   <div>
-                    <div style={{ fontWeight: 700, fontSize: '1rem' }}>{fileCount} CSV files queued</div>
+                    <div style={{ fontWeight: 700, fontSize: '1rem' }}>{fileCount} files queued</div>
                     <div style={{ fontSize: '0.82rem', color: 'var(--muted)' }}>
                       {(uploadFiles.reduce((s, f) => s + f.size, 0) / (1024 * 1024)).toFixed(1)} MB total
                     </div>
@@ -427,6 +797,30 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
           )}
         </div>
 
+        {/* Upload mode — only matters when the profile already has data */}
+        {fileCount > 0 && hasExistingData && (
+          <div style={{ marginTop: 14, display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+            {UPLOAD_MODES.map(m => (
+              <button
+                key={m.mode}
+                onClick={() => setUploadMode(m.mode)}
+                title={m.hint}
+                style={{
+                  fontSize: '0.82rem', padding: '5px 12px', borderRadius: 8, cursor: 'pointer', fontWeight: 600,
+                  background: uploadMode === m.mode ? 'rgba(59,130,246,0.15)' : 'transparent',
+                  border: `1px solid ${uploadMode === m.mode ? 'rgba(59,130,246,0.4)' : 'var(--border)'}`,
+                  color: uploadMode === m.mode ? 'var(--accent)' : 'var(--muted)',
+                }}
+              >
+                {m.label}
+              </button>
+            ))}
+            <span style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>
+              {UPLOAD_MODES.find(m => m.mode === uploadMode)?.hint}
+            </span>
+          </div>
+        )}
+
         {/* Upload button */}
         {fileCount > 0 && (
           <button
@@ -436,11 +830,16 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
             style={{ marginTop: 14, width: '100%', opacity: uploading ? 0.6 : 1, cursor: uploading ? 'wait' : 'pointer' }}
           >
             {uploading
-              ? `Uploading ${fileCount} file${fileCount > 1 ? 's' : ''}…`
+              ? job ? 'Processing…' : `Uploading ${fileCount} file${fileCount > 1 ? 's' : ''}…`
               : `Upload ${fileCount} file${fileCount > 1 ? 's' : ''} to "${activeProfile}"`}
           </button>
         )}
 
+        {/* Upload progress — bytes first, then the server-side job */}
+        {(uploading || job?.state === 'failed') && (
+          <UploadJobPanel job={job} sendProgress={sendProgress} onRetry={retryJob} />
+        )}
+
         {/* Upload result */}
         {uploadResult && (
           <div style={{
@@ -453,6 +852,17 @@ export default function SetupPage({ currentProfile, onAnalyze, onBack }: SetupPa
             {uploadResult.ok ? '✓' : '✕'} {uploadResult.message}
           </div>
         )}
+        {uploadResult?.ok && ingestReport && (() => {
+          const unmapped = ingestReport.files.filter(f => f.adapter === null && f.columns.length > 0);
+          return (
+            <>
+              {unmapped.length > 0 && (
+                <ColumnMapper profile={ingestReport.profile} files={unmapped} onSaved={() => { fetchIngestReport(ingestReport.profile); fetchProfiles(); }} />
+              )}
+              <IngestReportPanel report={ingestReport} />
+            </>
+          );
+        })()}
       </div>
 
       {/* ── Step 2: Profile ── */}
@@ -0,0 +1,110 @@
+import React, { useState, useEffect, useCallback } from 'react';
+
+// ─── Slide deck ───────────────────────────────────────────────────────────────
+// Full-screen, one slide at a time: advance with the button, Enter, Space or →;
+// the Snob's line fades in a moment after each slide. Shared by the roast and
+// the Wrapped report.
+
+export interface SlideData { id: string; icon: string; category: string; headline: string; subline: string; extra: React.ReactNode; roast: string }
+
+interface SlideDeckProps {
+  slides: SlideData[];
+  badge: string;          // top-right label, e.g. the profile name
+  finishLabel: string;    // last slide's button
+  skipLabel: string;
+  onComplete: () => void;
+}
+
+export default function SlideDeck({ slides, badge, finishLabel, skipLabel, onComplete }: SlideDeckProps) {
+  const total = slides.length;
+  const [index, setIndex]                 = useState(0);
+  const [visible, setVisible]             = useState(true);
+  const [roastRevealed, setRoastRevealed] = useState(false);
+  const transitioning                      = React.useRef(false);
+
+  const safeIndex = Math.min(index, total - 1);
+  const slide     = slides[safeIndex];
+  const isLast    = safeIndex === total - 1;
+
+  useEffect(() => { setRoastRevealed(false); }, [safeIndex]);
+  useEffect(() => { const t = setTimeout(() => setRoastRevealed(true), 800); return () => clearTimeout(t); }, [safeIndex]);
+
+  const advance = useCallback(() => {
+    if (isLast) { onComplete(); return; }
+    if (transitioning.current) return;
+    transitioning.current = true;
+    setVisible(false);
+    setTimeout(() => { setIndex(i => Math.min(i + 1, total - 1)); setVisible(true); transitioning.current = false; }, 320);
+  }, [isLast, onComplete, total]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight' || e.key === 'Enter' || e.key === ' ') { e.preventDefault(); advance(); }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [advance]);
+
+  if (!slide) { onComplete(); return null; }
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 1200, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', background: 'linear-gradient(135deg,rgba(10,10,20,0.97) 0%,rgba(20,10,35,0.97) 100%)', backdropFilter: 'blur(20px)', padding: '24px 20px', overflowY: 'auto' }}>
+
+      {/* Progress dots */}
+      <div style={{ position: 'fixed', top: 24, left: '50%', transform: 'translateX(-50%)', display: 'flex', gap: 6, zIndex: 10 }}>
+        {slides.map((_, i) => (
+          <div key={i} style={{ width: i === index ? 20 : 7, height: 7, borderRadius: 4, background: i === index ? '#667eea' : i < index ? 'rgba(102,126,234,0.4)' : 'rgba(255,255,255,0.15)', transition: 'all 0.3s ease' }} />
+        ))}
+      </div>
+
+      {/* Profile badge */}
+      <div style={{ position: 'fixed', top: 20, right: 24, fontSize: 12, color: 'rgba(255,255,255,0.35)', fontWeight: 600, letterSpacing: 1, textTransform: 'uppercase' }}>{badge}</div>
+
+      {/* Slide */}
+      <div style={{ opacity: visible ? 1 : 0, transform: visible ? 'translateY(0)' : 'translateY(16px)', transition: 'opacity 0.32s ease, transform 0.32s ease', width: '100%', maxWidth: 620, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 0 }}>
+        <div style={{ fontSize: 11, letterSpacing: 2, color: 'rgba(255,255,255,0.3)', marginBottom: 20, textTransform: 'uppercase', fontWeight: 600 }}>{index + 1} of {total}</div>
+        <div style={{ fontSize: 11, letterSpacing: 3, color: '#667eea', textTransform: 'uppercase', fontWeight: 700, marginBottom: 8 }}>{slide.category}</div>
+        <div style={{ fontSize: 56, lineHeight: 1, margin: '4px 0 12px', filter: 'drop-shadow(0 0 20px rgba(102,126,234,0.5))' }}>{slide.icon}</div>
+        <h2 style={{ margin: '0 0 6px', fontSize: 'clamp(1.3rem,4vw,2rem)', fontWeight: 800, color: 'white', textAlign: 'center', lineHeight: 1.2 }}>{slide.headline}</h2>
+        <p style={{ margin: '0 0 20px', color: 'rgba(255,255,255,0.45)', fontSize: 14, textAlign: 'center' }}>{slide.subline}</p>
+        <div style={{ width: '100%' }}>{slide.extra}</div>
+        <div style={{ width: '100%', height: 1, background: 'linear-gradient(90deg,transparent,rgba(102,126,234,0.4),transparent)', margin: '20px 0' }} />
+
+        {/* Roast bubble */}
+        <div style={{ width: '100%', opacity: roastRevealed ? 1 : 0, transform: roastRevealed ? 'translateY(0)' : 'translateY(12px)', transition: 'opacity 0.5s ease, transform 0.5s ease' }}>
+          <div style={{ display: 'flex', alignItems: 'flex-start', gap: 12 }}>
+            <div style={{ flexShrink: 0, width: 40, height: 40, borderRadius: '50%', background: 'linear-gradient(135deg,#f093fb,#f5576c)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 20, marginTop: 2, boxShadow: '0 0 16px rgba(240,147,251,0.4)' }}>🎩</div>
+            <div style={{ flex: 1, background: 'rgba(255,255,255,0.06)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: '4px 16px 16px 16px', padding: '14px 18px' }}>
+              <div style={{ fontSize: 11, fontWeight: 700, letterSpacing: 1, color: '#f093fb', textTransform: 'uppercase', marginBottom: 6 }}>The Snob</div>
+              <p style={{ margin: 0, fontSize: 14, lineHeight: 1.65, color: 'rgba(255,255,255,0.85)', fontStyle: 'italic' }}>"{slide.roast}"</p>
+            </div>
+          </div>
+        </div>
+
+        {/* CTA */}
+        <div style={{ marginTop: 28, width: '100%', display: 'flex', justifyContent: 'center' }}>
+          {isLast ? (
+            <button onClick={advance} style={{ padding: '16px 40px', background: 'linear-gradient(135deg,#667eea,#764ba2)', color: 'white', border: 'none', borderRadius: 14, fontSize: 16, fontWeight: 700, cursor: 'pointer', boxShadow: '0 8px 24px rgba(102,126,234,0.4)', transition: 'all 0.2s ease', letterSpacing: 0.5 }}
+              onMouseOver={e => { e.currentTarget.style.transform = 'translateY(-2px)'; e.currentTarget.style.boxShadow = '0 12px 32px rgba(102,126,234,0.55)'; }}
+              onMouseOut={e => { e.currentTarget.style.transform = 'translateY(0)'; e.currentTarget.style.boxShadow = '0 8px 24px rgba(102,126,234,0.4)'; }}>
+              {finishLabel}
+            </button>
+          ) : (
+            <button onClick={advance} style={{ padding: '13px 32px', background: 'rgba(255,255,255,0.08)', color: 'white', border: '1px solid rgba(255,255,255,0.2)', borderRadius: 12, fontSize: 14, fontWeight: 600, cursor: 'pointer', transition: 'all 0.2s ease' }}
+              onMouseOver={e => { e.currentTarget.style.background = 'rgba(255,255,255,0.14)'; }}
+              onMouseOut={e => { e.currentTarget.style.background = 'rgba(255,255,255,0.08)'; }}>
+              Next → <span style={{ marginLeft: 10, opacity: 0.4, fontSize: 11 }}>or press Enter</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Skip */}
+      <button onClick={onComplete} style={{ position: 'fixed', bottom: 20, right: 24, background: 'none', border: 'none', color: 'rgba(255,255,255,0.2)', fontSize: 12, cursor: 'pointer', padding: '4px 8px', transition: 'color 0.2s' }}
+        onMouseOver={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.5)'; }}
+        onMouseOut={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.2)'; }}>
+        {skipLabel}
+      </button>
+    </div>
+  );
+}
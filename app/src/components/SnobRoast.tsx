@@ -1,32 +1,50 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Stats, RareTrack, GenreCount } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Stats, PlaylistRater, Confidence, RareTrack, GenreCount, GenreTaxonomy, CompareResponse, Patterns, TasteEvolution, Benchmark } from '../types';
+import { fetchGenreTaxonomy, fetchComparison, fetchEvolution, fetchBenchmark, yearOverYear } from '../api/client';
+import { percentileTier, wilsonInterval } from '../util';
+import SlideDeck, { type SlideData } from './SlideDeck';
+import ArtistLink from './ArtistLink';
 
 interface SnobRoastProps {
   stats: Stats;
   profile: string;
   onComplete: () => void;
+  onArtist?: (name: string) => void;
 }
 
 // ─── Genre family system ──────────────────────────────────────────────────────
+// Families and substyles come from the server's taxonomy
+// (GET /api/genres/taxonomy), classified with the same rules as server/src/compute/genres.ts:
+// first family with a keyword the genre contains, then that family's first matching substyle.
 
-const GENRE_FAMILIES: { family: string; keywords: string[] }[] = [
-  { family: 'Metal',           keywords: ['metal', 'hardcore', 'deathcore', 'screamo', 'thrash', 'doom', 'sludge', 'grindcore'] },
-  { family: 'Hip-Hop',         keywords: ['hip-hop', 'hip hop', 'rap', 'trap', 'drill', 'grime', 'cloud rap', 'mumble'] },
-  { family: 'K-Pop / J-Pop',   keywords: ['k-pop', 'kpop', 'j-pop', 'jpop', 'j pop', 'k pop', 'city pop', 'korean pop'] },
-  { family: 'Electronic',      keywords: ['electronic', 'techno', 'house', 'edm', 'trance', 'drum and bass', 'dnb', 'dubstep', 'garage', 'breakbeat', 'hyperpop', 'synthwave'] },
-  { family: 'Ambient',         keywords: ['ambient', 'drone', 'atmospheric', 'dark ambient', 'new age'] },
-  { family: 'R&B / Soul',      keywords: ['r&b', 'rnb', 'soul', 'neo soul', 'funk', 'motown', 'quiet storm'] },
-  { family: 'Jazz',            keywords: ['jazz', 'bebop', 'fusion', 'bossa nova', 'swing', 'cool jazz'] },
-  { family: 'Classical',       keywords: ['classical', 'orchestral', 'opera', 'baroque', 'chamber', 'neoclassical', 'minimalism'] },
-  { family: 'Rock',            keywords: ['rock', 'punk', 'grunge', 'emo', 'shoegaze', 'post-rock', 'alt-rock'] },
-  { family: 'Folk / Acoustic', keywords: ['folk', 'acoustic', 'singer-songwriter', 'americana', 'bluegrass'] },
-  { family: 'Country',         keywords: ['country', 'honky tonk', 'outlaw', 'bro-country'] },
-  { family: 'Latin',           keywords: ['latin', 'reggaeton', 'salsa', 'cumbia', 'samba', 'flamenco', 'afrobeats'] },
-  { family: 'Lo-Fi / Chill',   keywords: ['lo-fi', 'lofi', 'lo fi', 'chillhop', 'chillwave', 'study beats'] },
-  { family: 'Pop',             keywords: ['pop'] },
-  { family: 'Indie',           keywords: ['indie', 'alternative', 'bedroom', 'dream pop'] },
-  { family: 'Gospel',          keywords: ['gospel', 'christian', 'worship', 'spiritual'] },
-];
+interface GenreClass { family: string; substyle: string }
+
+interface Taxonomy {
+  families: string[];
+  classify: (genre: string) => GenreClass;
+}
+
+const EMPTY_TAXONOMY: GenreTaxonomy = { version: 0, aliases: {}, families: [], eras: [], otherFamily: 'Other' };
+
+function buildTaxonomy(t: GenreTaxonomy): Taxonomy {
+  const cache = new Map<string, GenreClass>();
+  const classify = (raw: string): GenreClass => {
+    const squashed = raw.trim().toLowerCase().replace(/\s+/g, ' ');
+    const genre = t.aliases[squashed] ?? squashed;
+    const hit = cache.get(genre);
+    if (hit) return hit;
+    const matches = (keywords: string[]) => keywords.some(k => genre.includes(k));
+    const fam = t.families.find(f => matches(f.keywords));
+    const family = fam?.family ?? t.otherFamily;
+    const out: GenreClass = {
+      family,
+      substyle: fam?.substyles.find(st => matches(st.keywords))?.style ?? `General ${family}`,
+    };
+    cache.set(genre, out);
+    return out;
+  };
+  return { families: t.families.map(f => f.family), classify };
+}
 
 const FAMILY_ICONS: Record<string, string> = {
   'Hip-Hop': '🎤', 'Pop': '✨', 'Rock': '🎸', 'Electronic': '🎛️',
@@ -35,78 +53,6 @@ const FAMILY_ICONS: Record<string, string> = {
   'Lo-Fi / Chill': '☕', 'Ambient': '🌊', 'Indie': '🌿', 'Gospel': '🙏', 'Other': '🎵',
 };
 
-const FAMILY_SUBSTYLES: Record<string, { style: string; keywords: string[] }[]> = {
-  'Hip-Hop': [
-    { style: 'Trap & Melodic Rap',      keywords: ['trap', 'cloud rap', 'melodic rap', 'pluggnb', 'rage', 'mumble', 'sad rap', 'emo rap', 'soundcloud'] },
-    { style: 'Drill',                   keywords: ['drill', 'brooklyn drill', 'ny drill', 'chicago drill', 'uk drill'] },
-    { style: 'Boom Bap & Golden Age',   keywords: ['boom bap', 'golden age', 'old school', 'gangsta rap', 'g-funk', 'west coast rap', 'east coast', 'new york hip hop'] },
-    { style: 'Conscious & Underground', keywords: ['conscious', 'underground hip hop', 'alternative hip hop', 'indie rap', 'jazz rap', 'abstract'] },
-    { style: 'Southern & Regional',     keywords: ['dirty south', 'crunk', 'snap', 'houston rap', 'chopped', 'memphis rap', 'hyphy', 'bay area'] },
-    { style: 'UK Rap & Grime',          keywords: ['grime', 'uk hip hop', 'uk rap', 'afroswing', 'uk trap', 'uk drill'] },
-  ],
-  'Pop': [
-    { style: 'Bedroom & Indie Pop',     keywords: ['bedroom pop', 'indie pop', 'lo-fi pop', 'jangle pop'] },
-    { style: 'Dream Pop & Art Pop',     keywords: ['dream pop', 'art pop', 'chamber pop', 'baroque pop', 'experimental pop', 'psychedelic pop'] },
-    { style: 'Synth & Electropop',      keywords: ['synth-pop', 'synth pop', 'electropop', 'dance pop', 'new wave pop'] },
-    { style: 'Dark & Alt Pop',          keywords: ['dark pop', 'alternative pop', 'sad pop', 'melancholic pop'] },
-    { style: 'Hyperpop',                keywords: ['hyperpop', 'pc music', 'bubblegum bass', 'glitch pop'] },
-    { style: 'Mainstream Pop',          keywords: ['teen pop', 'adult contemporary', 'europop', 'power pop'] },
-  ],
-  'Rock': [
-    { style: 'Classic & Hard Rock',     keywords: ['classic rock', 'hard rock', 'arena rock', 'psychedelic rock', 'blues rock', 'southern rock'] },
-    { style: 'Alternative & Grunge',    keywords: ['alternative rock', 'grunge', 'post-grunge', 'britpop', 'noise rock', 'alt-rock'] },
-    { style: 'Indie & Garage',          keywords: ['indie rock', 'garage rock', 'post-punk revival', 'lo-fi rock'] },
-    { style: 'Post-Rock & Shoegaze',    keywords: ['post-rock', 'shoegaze', 'math rock', 'space rock', 'slowcore', 'dream pop'] },
-    { style: 'Emo & Post-Hardcore',     keywords: ['emo', 'pop punk', 'post-hardcore', 'screamo', 'midwest emo'] },
-    { style: 'Punk',                    keywords: ['punk', 'hardcore punk', 'new wave', 'power pop punk'] },
-  ],
-  'Electronic': [
-    { style: 'House',                   keywords: ['house', 'deep house', 'tech house', 'chicago house', 'uk garage', 'disco house'] },
-    { style: 'Techno & Industrial',     keywords: ['techno', 'industrial', 'minimal techno', 'detroit techno', 'dark techno'] },
-    { style: 'Ambient & Drone',         keywords: ['ambient', 'dark ambient', 'drone', 'atmospheric', 'space ambient'] },
-    { style: 'Bass & D&B',              keywords: ['dubstep', 'drum and bass', 'dnb', 'jungle', 'bass music', 'breakbeat', 'neurofunk'] },
-    { style: 'EDM & Trance',            keywords: ['edm', 'trance', 'progressive house', 'big room', 'future bass', 'hardstyle'] },
-    { style: 'Lo-Fi & Chillhop',        keywords: ['lo-fi', 'lofi', 'chillhop', 'lo fi', 'chillwave', 'study'] },
-  ],
-  'R&B / Soul': [
-    { style: 'Classic Soul & Motown',   keywords: ['classic soul', 'motown', 'southern soul', 'deep soul', 'soul blues'] },
-    { style: 'Neo Soul',                keywords: ['neo soul', 'indie soul', 'organic soul'] },
-    { style: 'Contemporary R&B',        keywords: ['contemporary r&b', 'urban contemporary', 'pop r&b'] },
-    { style: 'Alt R&B',                 keywords: ['alternative r&b', 'indie r&b', 'experimental r&b', 'alt-r&b'] },
-    { style: 'Funk',                    keywords: ['funk', 'p-funk', 'afrofunk', 'disco funk', 'electro funk'] },
-  ],
-  'Metal': [
-    { style: 'Classic & Doom',          keywords: ['heavy metal', 'doom metal', 'stoner metal', 'sludge metal', 'traditional metal'] },
-    { style: 'Death & Black Metal',     keywords: ['death metal', 'black metal', 'deathcore', 'brutal death', 'grindcore', 'blackened'] },
-    { style: 'Thrash & Speed',          keywords: ['thrash metal', 'speed metal', 'bay area thrash', 'crossover thrash'] },
-    { style: 'Progressive Metal',       keywords: ['progressive metal', 'prog metal', 'djent', 'technical death metal'] },
-    { style: 'Metalcore',               keywords: ['metalcore', 'melodic metalcore', 'post-metalcore'] },
-    { style: 'Nu-Metal & Alt',          keywords: ['nu-metal', 'alternative metal', 'rap metal', 'groove metal'] },
-  ],
-  'Jazz': [
-    { style: 'Traditional & Swing',     keywords: ['traditional jazz', 'dixieland', 'swing', 'big band', 'bebop', 'hard bop'] },
-    { style: 'Cool & Modal Jazz',       keywords: ['cool jazz', 'modal jazz', 'west coast jazz', 'post-bop'] },
-    { style: 'Fusion & Acid Jazz',      keywords: ['jazz fusion', 'fusion', 'jazz funk', 'acid jazz', 'nu jazz'] },
-    { style: 'Bossa Nova & Vocal',      keywords: ['bossa nova', 'samba jazz', 'vocal jazz', 'latin jazz'] },
-    { style: 'Contemporary Jazz',       keywords: ['contemporary jazz', 'smooth jazz', 'chamber jazz'] },
-  ],
-  'Classical': [
-    { style: 'Baroque & Early',         keywords: ['baroque', 'early music', 'renaissance', 'medieval'] },
-    { style: 'Romantic & Orchestral',   keywords: ['romantic', 'orchestral', 'symphonic', 'opera', 'chamber'] },
-    { style: 'Modern Classical',        keywords: ['contemporary classical', 'modern classical', '20th century classical'] },
-    { style: 'Minimalism',              keywords: ['minimalism', 'minimalist', 'drone classical', 'ambient classical'] },
-    { style: 'Neoclassical',            keywords: ['neoclassical', 'post-minimalism', 'cinematic classical'] },
-  ],
-};
-
-const ERA_SIGNALS: { era: string; period: string; keywords: string[] }[] = [
-  { era: 'Golden Era',  period: '60s–80s',  keywords: ['classic', 'golden age', 'old school', 'vintage', 'motown', 'soul blues', 'g-funk', 'gangsta rap', 'hard bop', 'baroque', 'romantic', 'swing', 'big band', 'southern rock'] },
-  { era: '90s',         period: '1990s',    keywords: ['boom bap', 'east coast', 'west coast rap', 'grunge', 'britpop', 'shoegaze', 'trip hop', 'acid jazz', 'jungle', 'post-grunge', 'alternative rock'] },
-  { era: '2000s',       period: '2000s',    keywords: ['crunk', 'snap', 'emo', 'post-rock', 'indie rock', 'nu-metal', 'dirty south', 'hyphy', 'neo soul', 'post-hardcore', 'tech house'] },
-  { era: '2010s',       period: '2010s',    keywords: ['trap', 'cloud rap', 'drill', 'mumble', 'edm', 'indie pop', 'bedroom pop', 'dream pop', 'future bass', 'deep house', 'lo-fi', 'uk drill', 'art pop', 'hyperpop'] },
-  { era: 'Present',     period: '2018–now', keywords: ['pluggnb', 'rage', 'sad rap', 'emo rap', 'uk trap', 'afroswing', 'melodic rap', 'dark pop', 'phonk'] },
-];
-
 const CONTRADICTIONS: { families: [string, string]; label: string; comment: string }[] = [
   { families: ['Classical', 'Metal'],        label: 'The Classically Trained Aggressor',  comment: 'Classical and metal sharing a library. Both are obsessed with complexity, dynamics, and a specific kind of intensity. These are technically the same impulse at different tempos.' },
   { families: ['Classical', 'Hip-Hop'],      label: 'The Lo Baroque Connector',           comment: 'Classical and hip-hop. Both formats are built on structure, sampling, and a need to prove something. The Venn diagram has more overlap than most critics admit.' },
@@ -229,7 +175,6 @@ interface PrimaryAnalysis {
   family: string;
   dominantPct: number;
   substyles: { style: string; genres: string[]; pct: number }[];
-  eraSignals: { era: string; period: string }[];
   topArtists: string[];
 }
 
@@ -246,26 +191,16 @@ interface GenreProfile {
   pct: number;
   topSubstyle: string;
   topArtists: string[];
-  eraHint: string;
   genreCount: number;
 }
 
 // ─── Core clustering ──────────────────────────────────────────────────────────
 
-function assignFamily(genre: string): string {
-  const lower = genre.toLowerCase();
-  for (const { family, keywords } of GENRE_FAMILIES) {
-    if (keywords.some(k => lower.includes(k))) return family;
-  }
-  return 'Other';
-}
-
 function buildFamilyCounts(genres: GenreCount[]): FamilyCount[] {
   const m = new Map<string, { count: number; genres: string[] }>();
-  for (const { genre, count } of genres) {
-    const fam = assignFamily(genre);
-    const ex = m.get(fam) ?? { count: 0, genres: [] };
-    m.set(fam, { count: ex.count + count, genres: [...ex.genres, genre] });
+  for (const { genre, count, family } of genres) {
+    const ex = m.get(family) ?? { count: 0, genres: [] };
+    m.set(family, { count: ex.count + count, genres: [...ex.genres, genre] });
   }
   return [...m.entries()]
     .sort((a, b) => b[1].count - a[1].count)
@@ -294,24 +229,59 @@ function analyzeGenres(genres: GenreCount[]): GenreAnalysis {
   return { familyCounts, totalFamilyCount, totalFamilies, dominantFamily: dom.family, dominantPct, variantCount, isConcentrated, contradiction, totalGenres: genres.length };
 }
 
-function analyzePrimary(ga: GenreAnalysis, genreArtists: { genre: string; artists: string[] }[]): PrimaryAnalysis {
+// The family the recent plays lean to. Counted in distinct tracks, not genre tags (one
+// heavily-tagged track shouldn't make a phase), and only a shift when there are
+// PHASE_MIN_TRACKS of them and even the low end of its recent share's Wilson interval
+// beats its share of the library; anything short of that is 'tentative'.
+const PHASE_MIN_TRACKS = 5;
+
+interface RecentPhase {
+  family: string;
+  tracks: number;            // distinct recent tracks tagged with it
+  total: number;             // distinct recent tracks
+  libraryPct: number;
+  shift: 'shift' | 'tentative' | 'none';
+}
+
+function recentPhase(
+  recentTracks: { name: string; artist: string; genres: string[] }[],
+  ga: GenreAnalysis,
+  primaryFamily: string,
+  tax: Taxonomy,
+): RecentPhase {
+  const byFamily = new Map<string, Set<string>>();
+  const distinct = new Set<string>();
+  for (const t of recentTracks) {
+    const key = `${t.artist} — ${t.name}`.toLowerCase();
+    distinct.add(key);
+    for (const g of t.genres) {
+      const fam = tax.classify(g).family;
+      (byFamily.get(fam) ?? byFamily.set(fam, new Set()).get(fam)!).add(key);
+    }
+  }
+  const top = [...byFamily.entries()].sort((a, b) => b[1].size - a[1].size)[0];
+  const family = top?.[0] ?? primaryFamily;
+  const tracks = top?.[1].size ?? 0;
+  const total = distinct.size;
+  const libraryShare = (ga.familyCounts.find(fc => fc.family === family)?.count ?? 0) / (ga.totalFamilyCount || 1);
+  const libraryPct = Math.round(libraryShare * 100);
+  if (family === primaryFamily || family === 'Other') return { family, tracks, total, libraryPct, shift: 'none' };
+  const supported = tracks >= PHASE_MIN_TRACKS && wilsonInterval(tracks, total)[0] > libraryShare;
+  return { family, tracks, total, libraryPct, shift: supported ? 'shift' : 'tentative' };
+}
+
+function analyzePrimary(ga: GenreAnalysis, genreArtists: { genre: string; artists: string[] }[], tax: Taxonomy): PrimaryAnalysis {
   const { dominantFamily, familyCounts, totalFamilyCount } = ga;
   const primaryFc = familyCounts.find(fc => fc.family === dominantFamily);
   const primaryGenres = primaryFc?.genres ?? [];
   const primaryCount  = primaryFc?.count ?? 0;
 
-  const styleMap = FAMILY_SUBSTYLES[dominantFamily] ?? [];
-  const substyleRaw: { style: string; genres: string[]; count: number }[] = styleMap.map(({ style, keywords }) => {
-    const matched = primaryGenres.filter(g => {
-      const lower = g.toLowerCase();
-      return keywords.some(k => lower.includes(k));
-    });
-    return { style, genres: matched, count: matched.length };
-  });
-
-  const matchedSet = new Set(substyleRaw.flatMap(s => s.genres));
-  const unmatched = primaryGenres.filter(g => !matchedSet.has(g));
-  if (unmatched.length) substyleRaw.push({ style: `General ${dominantFamily}`, genres: unmatched, count: unmatched.length });
+  const styleMap = new Map<string, string[]>();
+  for (const g of primaryGenres) {
+    const { substyle } = tax.classify(g);
+    styleMap.set(substyle, [...(styleMap.get(substyle) ?? []), g]);
+  }
+  const substyleRaw = [...styleMap.entries()].map(([style, genres]) => ({ style, genres, count: genres.length }));
 
   const totalStyleCount = substyleRaw.reduce((s, st) => s + st.count, 0) || 1;
   const substyles = substyleRaw
@@ -319,11 +289,6 @@ function analyzePrimary(ga: GenreAnalysis, genreArtists: { genre: string; artist
     .sort((a, b) => b.count - a.count)
     .map(s => ({ style: s.style, genres: s.genres, pct: Math.round((s.count / totalStyleCount) * 100) }));
 
-  const allPrimaryGenreLower = primaryGenres.map(g => g.toLowerCase()).join(' ');
-  const eraSignals = ERA_SIGNALS.filter(({ keywords }) =>
-    keywords.some(k => allPrimaryGenreLower.includes(k))
-  ).map(({ era, period }) => ({ era, period }));
-
   const artistCounts = new Map<string, number>();
   const primaryGenreSet = new Set(primaryGenres);
   for (const ga of genreArtists) {
@@ -341,7 +306,6 @@ function analyzePrimary(ga: GenreAnalysis, genreArtists: { genre: string; artist
     family: dominantFamily,
     dominantPct: Math.round((primaryCount / totalFamilyCount) * 100),
     substyles,
-    eraSignals,
     topArtists,
   };
 }
@@ -365,18 +329,17 @@ function analyzeSecondary(ga: GenreAnalysis): SecondaryAnalysis {
   return { families: secondaryFcs, secondaryPct, totalFamilies: secondaryFcs.length, contradiction, isSparse };
 }
 
-function profileFamily(fc: FamilyCount, totalFamilyCount: number, genreArtists: { genre: string; artists: string[] }[]): GenreProfile {
+function profileFamily(fc: FamilyCount, totalFamilyCount: number, genreArtists: { genre: string; artists: string[] }[], tax: Taxonomy): GenreProfile {
   const family = fc.family;
   const pct = Math.round((fc.count / totalFamilyCount) * 100);
 
-  const styleMap = FAMILY_SUBSTYLES[family] ?? [];
-  let topSubstyle = '';
-  let topSubCount = 0;
-  for (const { style, keywords } of styleMap) {
-    const count = fc.genres.filter(g => keywords.some(k => g.toLowerCase().includes(k))).length;
-    if (count > topSubCount) { topSubCount = count; topSubstyle = style; }
+  const general = `General ${family}`;
+  const styleCounts = new Map<string, number>();
+  for (const g of fc.genres) {
+    const { substyle } = tax.classify(g);
+    if (substyle !== general) styleCounts.set(substyle, (styleCounts.get(substyle) || 0) + 1);
   }
-  if (!topSubstyle) topSubstyle = `General ${family}`;
+  const topSubstyle = [...styleCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? general;
 
   const familyGenreSet = new Set(fc.genres);
   const artistCounts = new Map<string, number>();
@@ -386,11 +349,7 @@ function profileFamily(fc: FamilyCount, totalFamilyCount: number, genreArtists:
   }
   const topArtists = [...artistCounts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([n]) => n);
 
-  const genreLower = fc.genres.join(' ').toLowerCase();
-  const era = ERA_SIGNALS.find(({ keywords }) => keywords.some(k => genreLower.includes(k)));
-  const eraHint = era ? era.period : '';
-
-  return { family, pct, topSubstyle, topArtists, eraHint, genreCount: fc.genres.length };
+  return { family, pct, topSubstyle, topArtists, genreCount: fc.genres.length };
 }
 
 // ─── Data helpers ─────────────────────────────────────────────────────────────
@@ -450,25 +409,19 @@ function roastLibrary(tracks: number, plays: number, years: number, cohesion: nu
 function roastRecent(
   recentTracks: { name: string; artist: string; genres: string[]; playedAt: string }[],
   primaryFamily: string,
+  phase: RecentPhase,
 ): string {
   if (recentTracks.length === 0) {
     return "Your recent listening data isn't detailed enough to decode. You're either very private or you've found a way to listen without leaving timestamps. The Snob is impressed either way.";
   }
 
-  // Find dominant recent family
-  const recentFamilyCounts = new Map<string, number>();
-  for (const t of recentTracks) {
-    for (const g of t.genres) {
-      const fam = assignFamily(g);
-      recentFamilyCounts.set(fam, (recentFamilyCounts.get(fam) || 0) + 1);
-    }
-  }
-  const topRecent = [...recentFamilyCounts.entries()].sort((a, b) => b[1] - a[1])[0];
-  const recentFamily = topRecent ? topRecent[0] : primaryFamily;
+  const { family: recentFamily, tracks, total, libraryPct } = phase;
   const recentArtists = [...new Set(recentTracks.slice(0, 5).map(t => t.artist))].filter(Boolean);
 
-  const shiftNote = recentFamily !== primaryFamily && recentFamily !== 'Other'
-    ? ` Interesting shift — your overall library is dominated by ${primaryFamily}, but lately you've been running ${recentFamily}. Something changed, or someone changed it.`
+  const shiftNote = phase.shift === 'shift'
+    ? ` Interesting shift — your overall library is dominated by ${primaryFamily}, but ${tracks} of your last ${total} tracks are ${recentFamily}, against ${libraryPct}% of the library. Something changed, or someone changed it.`
+    : phase.shift === 'tentative'
+    ? ` There's a bit of ${recentFamily} in here lately (${tracks} of ${total} tracks), but that's not enough to call it a phase. Your ${primaryFamily} habit is safe, for now.`
     : ` Consistent with your overall ${primaryFamily} profile — no surprises in the recent rotation.`;
 
   const artistNote = recentArtists.length > 0
@@ -523,7 +476,7 @@ const PRIMARY_SUBSTYLE_ROASTS: Record<string, Record<string, string>> = {
 };
 
 function roastPrimary(primary: PrimaryAnalysis): string {
-  const { family, dominantPct, substyles, eraSignals, topArtists } = primary;
+  const { family, dominantPct, substyles, topArtists } = primary;
   const top = substyles[0];
 
   const familyRoasts = PRIMARY_SUBSTYLE_ROASTS[family];
@@ -531,15 +484,6 @@ function roastPrimary(primary: PrimaryAnalysis): string {
     ?? familyRoasts?.[`General ${family}`]
     ?? `Your ${family} listening is spread across ${substyles.length} sub-styles without a clear dominant school.`;
 
-  let eraLine = '';
-  if (eraSignals.length >= 3) {
-    eraLine = ` Era-wise, you span the ${eraSignals.map(e => e.period).join(', ')} — not loyal to any single moment in the genre's history.`;
-  } else if (eraSignals.length === 2) {
-    eraLine = ` Your listening sits between the ${eraSignals[0].period} and ${eraSignals[1].period} — cross-generational, if intentional.`;
-  } else if (eraSignals.length === 1) {
-    eraLine = ` The sub-genre composition skews toward the ${eraSignals[0].period}.`;
-  }
-
   const mixNote = substyles.length >= 3
     ? ` You spread across ${substyles.length} sub-styles: ${substyles.slice(0, 3).map(s => `${s.style} (${s.pct}%)`).join(', ')}.`
     : top
@@ -550,7 +494,7 @@ function roastPrimary(primary: PrimaryAnalysis): string {
     ? ` ${topArtists.slice(0, 2).join(' and ')} keep appearing in this corner of your library.`
     : '';
 
-  return `${subStyleLine}${mixNote}${eraLine}${artistLine}`;
+  return `${subStyleLine}${mixNote}${artistLine}`;
 }
 
 function roastGenreDNA(profiles: GenreProfile[], totalFamilies: number): string {
@@ -645,13 +589,20 @@ function computeVibe(energy: number, valence: number, dance: number, acoustic: n
 }
 
 function roastVerdict(
-  pr: { rarityScore: number; cohesion: number; variety: number; creativity: number; overall: number },
+  pr: PlaylistRater,
   snob: string,
   totalFamilies: number,
   missingCount: number,
+  rarerThan: number | null,
+  rarity?: Confidence,
 ): string {
   const { rarityScore, cohesion, variety, creativity, overall } = pr;
 
+  if (rarityScore === null)
+    return `No Spotify popularity anywhere in this library — streaming history and scrobbles don't carry it — so the Snob can't rank your obscurity. Cohesion ${cohesion}, variety ${variety}. Export a few playlists and the verdict follows.${snob ? ` ${snob}` : ''}`;
+  if (rarity?.support === 'insufficient')
+    return `${rarity.n} tracks. The Snob doesn't pass judgement on a sample this small — rarity ${rarityScore} could be anything from ${Math.round(rarity.low)} to ${Math.round(rarity.high)}. Listen to more music and come back.${snob ? ` ${snob}` : ''}`;
+
   let opener: string;
   if (rarityScore >= 70 && cohesion >= 70)
     opener = `Rarity ${rarityScore}, cohesion ${cohesion}. A focused underground library — you've found a specific corner of the obscure and made a home there.`;
@@ -674,14 +625,112 @@ function roastVerdict(
     ? ` Only ${totalFamilies} genre families active — focused by design or by default.`
     : '';
 
-  return `${opener}${varietyNote} Overall snob score: ${overall}/100.${snob ? ` ${snob}` : ''}`;
+  const rank = rarerThan === null ? ''
+    : rarerThan >= 50 ? ` Rarer than ${rarerThan}% of listeners.`
+    : ` ${100 - rarerThan}% of listeners dig deeper than you.`;
+
+  const hedge = rarity?.support === 'provisional'
+    ? ` Provisionally, mind — rarity ${rarityScore} rests on ${rarity.n} tracks and could be anywhere from ${Math.round(rarity.low)} to ${Math.round(rarity.high)}.`
+    : '';
+
+  return `${opener}${rank}${hedge}${varietyNote} Overall snob score: ${overall}/100.${snob ? ` ${snob}` : ''}`;
+}
+
+function roastShift(cmp: CompareResponse): string {
+  const { a, b, comparison } = cmp;
+  const rarity = comparison.playlistRater.rarityScore;
+  const variety = comparison.playlistRater.variety;
+
+  let opener: string;
+  if (!rarity)
+    opener = `No rarity to compare between ${a.label} and ${b.label} — one side has no Spotify popularity to go on.`;
+  else if (rarity.delta <= -10)
+    opener = `Rarity fell from ${rarity.a} to ${rarity.b} between ${a.label} and ${b.label}. The algorithm reached you. You let it.`;
+  else if (rarity.delta <= -5)
+    opener = `Rarity slipped from ${rarity.a} to ${rarity.b} in ${b.label}. Nothing fatal — but the Snob noticed the drift toward the charts.`;
+  else if (rarity.delta >= 10)
+    opener = `Rarity climbed from ${rarity.a} to ${rarity.b} in ${b.label}. You went digging, and it shows.`;
+  else if (rarity.delta >= 5)
+    opener = `Rarity up from ${rarity.a} to ${rarity.b} in ${b.label}. A measured retreat from the mainstream.`;
+  else
+    opener = `Rarity held at ${rarity.b} from ${a.label} to ${b.label}. Consistent — or just comfortable.`;
+
+  const varietyNote = variety.delta <= -5
+    ? ' Fewer artists, more repeats: you found your people and stopped looking.'
+    : variety.delta >= 5
+    ? ' More artists than the year before — restless ears.'
+    : '';
+
+  const newcomer = comparison.artists.gained[0];
+  const artistNote = newcomer ? ` ${newcomer.artist} arrived out of nowhere with ${newcomer.playCount} plays.` : '';
+
+  return `${opener}${varietyNote}${artistNote}`;
+}
+
+const shortDate = (ymd: string) =>
+  new Date(`${ymd.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+function roastObsession(p: Patterns): string {
+  const [top, second] = p.obsessions;
+  const spike = top.spike === null
+    ? ` You never played it before or since. A week-long fling, fully committed, then nothing.`
+    : top.spike >= 10
+    ? ` That's ${top.spike}× your usual rate for it — not a phase, an episode.`
+    : ` ${top.spike}× your normal rate. A relapse, clinically speaking.`;
+  const more = second ? ` Runner-up: "${second.name}", ${second.plays} plays in a week. There's a pattern here and it isn't flattering.` : '';
+  return `"${top.name}" ${top.plays} times between ${shortDate(top.start)} and ${shortDate(top.end)}.${spike}${more}`;
+}
+
+function roastRituals(p: Patterns): string {
+  const longest = p.streaks.longest;
+  const binge = p.binges[0];
+  const comeback = p.comebacks[0];
+  const parts: string[] = [];
+  if (longest && longest.days >= 30)
+    parts.push(`${longest.days} days straight without a day of silence. The Snob has met monks with less discipline.`);
+  else if (longest && longest.days >= 7)
+    parts.push(`Your longest streak is ${longest.days} days. Respectable, if not exactly devotional.`);
+  else if (longest)
+    parts.push(`Longest streak: ${longest.days} day${longest.days === 1 ? '' : 's'}. Music is a hobby for you, apparently.`);
+  if (binge)
+    parts.push(`${binge.plays} plays of ${binge.artist} in ${binge.hours} hours — the Snob calls that a lost afternoon.`);
+  if (comeback)
+    parts.push(`And ${comeback.artist} came back after ${comeback.gapDays} days away. Old flames, etc.`);
+  return parts.join(' ') || 'No streaks, no binges, no comebacks. Admirably even-tempered. Suspiciously so.';
+}
+
+/** "2024-Q1" → "Q1 2024" */
+const quarterName = (q: string) => `${q.slice(5)} ${q.slice(0, 4)}`;
+
+function roastEras(evo: TasteEvolution): string {
+  const { eras, drift } = evo;
+  const current = eras[eras.length - 1];
+  const takeovers = drift.filter(d => d.type === 'takeover');
+  if (eras.length === 1) {
+    return `${current.quarters} quarters, one ruler: ${current.family}, averaging ${current.share}% of every quarter. Other people have phases. You have a lease.`;
+  }
+  const first = eras[0];
+  const swing = drift.filter(d => d.type !== 'takeover').sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from))[0];
+  const swingLine = swing
+    ? ` The sharpest swing: ${swing.family} ${swing.to > swing.from ? 'jumped' : 'dropped'} from ${swing.from}% to ${swing.to}% in ${quarterName(swing.quarter)}.`
+    : '';
+  const verdict = takeovers.length >= 4
+    ? ' The Snob has seen weather systems with more commitment.'
+    : current.family === first.family
+    ? ` And yet here you are, back with ${current.family}. They always come back.`
+    : ` ${first.family} is a memory now. ${current.family} runs things.`;
+  return `${eras.length} eras since ${quarterName(first.start)}, with ${takeovers.length} change${takeovers.length === 1 ? '' : 's'} at the top.${swingLine}${verdict}`;
 }
 
 // ─── Slide definitions ────────────────────────────────────────────────────────
 
-interface SlideData { id: string; icon: string; category: string; headline: string; subline: string; extra: React.ReactNode; roast: string }
+type OpenArtist = ((name: string) => void) | undefined;
+
+/** Artist names as links, joined by `sep`. */
+const artistLinks = (names: string[], sep: string, onArtist: OpenArtist) =>
+  names.map((name, i) => <React.Fragment key={name}>{i > 0 && sep}<ArtistLink name={name} onOpen={onArtist} /></React.Fragment>);
 
-function buildSlides(stats: Stats): SlideData[] {
+function buildSlides(stats: Stats, tax: Taxonomy, shift: CompareResponse | null, evolution: TasteEvolution | null, benchmark: Benchmark | null, onArtist: OpenArtist): SlideData[] {
   const tracks    = stats._counters?.uniqueTracks ?? stats.meta.rows;
   const plays     = stats._counters?.uniquePlays  ?? stats.meta.rows;
   const years     = dataYears(stats);
@@ -697,7 +746,7 @@ function buildSlides(stats: Stats): SlideData[] {
   const avgRarePop = rare.length > 0 ? Math.round(rare.reduce((s, t) => s + t.pop, 0) / rare.length) : 50;
 
   const ga        = analyzeGenres(genres);
-  const primary   = analyzePrimary(ga, gArtists);
+  const primary   = analyzePrimary(ga, gArtists, tax);
   const secondary = analyzeSecondary(ga);
   const vibe      = computeVibe(taste.avgEnergy, taste.avgValence, taste.avgDanceability, taste.acousticBias ?? 0.3, taste.instrumentalBias ?? 0.1);
 
@@ -705,30 +754,22 @@ function buildSlides(stats: Stats): SlideData[] {
 
   // Top 5 genre profiles
   const top5Fcs = ga.familyCounts.slice(0, 5);
-  const top5Profiles = top5Fcs.map(fc => profileFamily(fc, totalFamilyCount, gArtists));
+  const top5Profiles = top5Fcs.map(fc => profileFamily(fc, totalFamilyCount, gArtists, tax));
 
   // Missing genre families
   const presentFamilies = new Set(ga.familyCounts.map(fc => fc.family));
-  const missingFamilies = GENRE_FAMILIES.map(gf => gf.family).filter(f => !presentFamilies.has(f));
+  const missingFamilies = tax.families.filter(f => !presentFamilies.has(f));
 
   // ── Slide 1: Recent Activity ──────────────────────────────────────────────
 
-  // Figure out dominant recent family from recent tracks
-  const recentFamMap = new Map<string, number>();
-  for (const t of recent) {
-    for (const g of t.genres) {
-      const fam = assignFamily(g);
-      recentFamMap.set(fam, (recentFamMap.get(fam) || 0) + 1);
-    }
-  }
-  const topRecentFam = [...recentFamMap.entries()].sort((a, b) => b[1] - a[1])[0];
-  const recentFamily = topRecentFam?.[0] ?? primary.family;
+  const phase        = recentPhase(recent, ga, primary.family, tax);
+  const recentFamily = phase.family;
   const recentIcon   = FAMILY_ICONS[recentFamily] ?? '🎵';
-  const recentShift  = recentFamily !== primary.family && recentFamily !== 'Other';
+  const recentShift  = phase.shift === 'shift';
 
   const slide1: SlideData = {
     id: 'recent', icon: recentShift ? '🔄' : '🕐', category: 'LATELY',
-    headline: recentShift ? `${recentFamily} Phase` : `${primary.family} As Always`,
+    headline: recentShift ? `${recentFamily} Phase` : phase.shift === 'tentative' ? `A Hint of ${recentFamily}` : `${primary.family} As Always`,
     subline: recent.length > 0 ? `Last ${recent.length} plays decoded` : 'Recent activity window',
     extra: (
       <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
@@ -738,7 +779,8 @@ function buildSlides(stats: Stats): SlideData[] {
               <span style={{ fontSize: 28 }}>{recentIcon}</span>
               <div>
                 <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: 1 }}>Current mode</div>
-                <div style={{ fontSize: 15, fontWeight: 700, color: 'white' }}>{recentFamily}{recentShift ? <span style={{ marginLeft: 8, fontSize: 11, color: '#f093fb', fontWeight: 600 }}>← shift from usual</span> : null}</div>
+                <div style={{ fontSize: 15, fontWeight: 700, color: 'white' }}>{recentFamily}{recentShift ? <span style={{ marginLeft: 8, fontSize: 11, color: '#f093fb', fontWeight: 600 }}>← shift from usual</span>
+                  : phase.shift === 'tentative' ? <span style={{ marginLeft: 8, fontSize: 11, color: 'rgba(255,255,255,0.4)', fontWeight: 600 }}>{phase.tracks} of {phase.total} tracks · too few to call</span> : null}</div>
               </div>
             </div>
             <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
@@ -749,7 +791,7 @@ function buildSlides(stats: Stats): SlideData[] {
                       {t.name || 'Unknown Track'}
                     </div>
                     <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                      {t.artist}{t.genres[0] ? ` · ${t.genres[0]}` : ''}
+                      <ArtistLink name={t.artist} onOpen={onArtist} />{t.genres[0] ? ` · ${t.genres[0]}` : ''}
                     </div>
                   </div>
                   <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.25)', flexShrink: 0 }}>
@@ -766,7 +808,7 @@ function buildSlides(stats: Stats): SlideData[] {
         )}
       </div>
     ),
-    roast: roastRecent(recent, primary.family),
+    roast: roastRecent(recent, primary.family, phase),
   };
 
   // ── Slide 2: Library ──────────────────────────────────────────────────────
@@ -818,21 +860,11 @@ function buildSlides(stats: Stats): SlideData[] {
           </div>
         ))}
         <div style={{ display: 'flex', gap: 14, justifyContent: 'center', marginTop: 12, flexWrap: 'wrap' }}>
-          {primary.eraSignals.length > 0 && (
-            <div style={{ textAlign: 'center' }}>
-              <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: 1, marginBottom: 4 }}>Era influences</div>
-              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'center' }}>
-                {primary.eraSignals.slice(0, 3).map(e => (
-                  <span key={e.era} style={{ fontSize: 11, background: 'rgba(102,126,234,0.2)', border: '1px solid rgba(102,126,234,0.4)', borderRadius: 20, padding: '3px 10px', color: '#a5b4fc', fontWeight: 600 }}>{e.period}</span>
-                ))}
-              </div>
-            </div>
-          )}
           {primary.topArtists.length > 0 && (
             <div style={{ textAlign: 'center' }}>
               <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', textTransform: 'uppercase', letterSpacing: 1, marginBottom: 4 }}>Key artists</div>
               <div style={{ fontSize: 13, color: 'rgba(255,255,255,0.75)', fontWeight: 500 }}>
-                {primary.topArtists.slice(0, 3).join(' · ')}
+                {artistLinks(primary.topArtists.slice(0, 3), ' · ', onArtist)}
               </div>
             </div>
           )}
@@ -846,7 +878,7 @@ function buildSlides(stats: Stats): SlideData[] {
   const slide4: SlideData = {
     id: 'genredna', icon: '🧬', category: 'YOUR GENRE DNA',
     headline: `${ga.totalFamilies} Genre Famil${ga.totalFamilies === 1 ? 'y' : 'ies'}`,
-    subline: `Top ${Math.min(5, top5Profiles.length)} assessed across sub-styles, eras & artists`,
+    subline: `Top ${Math.min(5, top5Profiles.length)} assessed across sub-styles & artists`,
     extra: (
       <div style={{ width: '100%', maxWidth: 460, margin: '8px auto', display: 'flex', flexDirection: 'column', gap: 8 }}>
         {top5Profiles.map((p, i) => (
@@ -859,8 +891,7 @@ function buildSlides(stats: Stats): SlideData[] {
               </div>
               <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.45)', marginTop: 2, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
                 {p.topSubstyle}
-                {p.topArtists.length > 0 && <span style={{ color: 'rgba(255,255,255,0.3)' }}> · {p.topArtists.join(', ')}</span>}
-                {p.eraHint && <span style={{ color: 'rgba(102,126,234,0.7)' }}> · {p.eraHint}</span>}
+                {p.topArtists.length > 0 && <span style={{ color: 'rgba(255,255,255,0.3)' }}> · {artistLinks(p.topArtists, ', ', onArtist)}</span>}
               </div>
             </div>
           </div>
@@ -887,7 +918,7 @@ function buildSlides(stats: Stats): SlideData[] {
   const slide5: SlideData = {
     id: 'gaps', icon: '🕳️', category: 'WHAT\'S MISSING',
     headline: missingFamilies.length === 0 ? 'No Blind Spots' : `${missingFamilies.length} Genre${missingFamilies.length !== 1 ? 's' : ''} Absent`,
-    subline: missingFamilies.length === 0 ? 'Every genre family has a foothold' : `${ga.totalFamilies} of ${GENRE_FAMILIES.length} families active`,
+    subline: missingFamilies.length === 0 ? 'Every genre family has a foothold' : `${ga.totalFamilies} of ${tax.families.length} families active`,
     extra: (
       <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
         {missingFamilies.length > 0 ? (
@@ -906,10 +937,10 @@ function buildSlides(stats: Stats): SlideData[] {
           </>
         ) : (
           <div style={{ display: 'flex', flexWrap: 'wrap', gap: 7, justifyContent: 'center' }}>
-            {GENRE_FAMILIES.map(gf => (
-              <div key={gf.family} style={{ display: 'flex', alignItems: 'center', gap: 5, background: 'rgba(16,185,129,0.08)', border: '1px solid rgba(16,185,129,0.25)', borderRadius: 20, padding: '5px 12px' }}>
-                <span style={{ fontSize: 14 }}>{FAMILY_ICONS[gf.family] ?? '🎵'}</span>
-                <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.65)' }}>{gf.family}</span>
+            {tax.families.map(family => (
+              <div key={family} style={{ display: 'flex', alignItems: 'center', gap: 5, background: 'rgba(16,185,129,0.08)', border: '1px solid rgba(16,185,129,0.25)', borderRadius: 20, padding: '5px 12px' }}>
+                <span style={{ fontSize: 14 }}>{FAMILY_ICONS[family] ?? '🎵'}</span>
+                <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.65)' }}>{family}</span>
               </div>
             ))}
           </div>
@@ -935,7 +966,7 @@ function buildSlides(stats: Stats): SlideData[] {
               <span style={{ width: 28, height: 28, borderRadius: '50%', flexShrink: 0, background: i === 0 ? 'linear-gradient(135deg,#f093fb,#f5576c)' : 'rgba(255,255,255,0.12)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 12, fontWeight: 800, color: 'white' }}>{i + 1}</span>
               <div style={{ flex: 1, minWidth: 0 }}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
-                  <span style={{ fontWeight: i === 0 ? 700 : 500, fontSize: 14, color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{a.artist}</span>
+                  <span style={{ fontWeight: i === 0 ? 700 : 500, fontSize: 14, color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}><ArtistLink name={a.artist} onOpen={onArtist} /></span>
                   {hasRoast && <span style={{ fontSize: 9, background: 'rgba(240,147,251,0.2)', color: '#f093fb', borderRadius: 4, padding: '1px 5px', flexShrink: 0, fontWeight: 700 }}>NOTED</span>}
                 </div>
                 <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.4)', marginTop: 2 }}>
@@ -985,25 +1016,128 @@ function buildSlides(stats: Stats): SlideData[] {
     roast: vibe.roast,
   };
 
+  // ── Habits: obsessions, streaks, binges and comebacks (timestamped plays only) ──
+  const patterns = stats.patterns;
+  const topObsession = patterns?.obsessions[0];
+  const slideObsession: SlideData | null = patterns && topObsession ? {
+    id: 'obsession', icon: '🌀', category: 'THE LOOP',
+    headline: topObsession.name, subline: `${topObsession.artist} · ${topObsession.plays} plays in one week`,
+    extra: (
+      <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
+        {patterns.obsessions.slice(0, 4).map((o, i) => (
+          <div key={`${o.name}-${o.start}`} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '9px 14px', marginBottom: 6, background: i === 0 ? 'rgba(245,87,108,0.15)' : 'rgba(255,255,255,0.05)', borderRadius: 12, border: `1px solid ${i === 0 ? 'rgba(245,87,108,0.4)' : 'rgba(255,255,255,0.08)'}` }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 14, fontWeight: 700, color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{o.name}</div>
+              <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.45)' }}><ArtistLink name={o.artist} onOpen={onArtist} /> · week of {shortDate(o.start)}</div>
+            </div>
+            <span style={{ fontSize: 13, fontWeight: 700, color: 'rgba(255,255,255,0.75)', whiteSpace: 'nowrap' }}>
+              {o.plays}×{o.spike !== null ? ` (${o.spike}× usual)` : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+    ),
+    roast: roastObsession(patterns),
+  } : null;
+
+  const longestStreak = patterns?.streaks.longest;
+  const slideRituals: SlideData | null = patterns && longestStreak && (longestStreak.days > 1 || patterns.binges.length || patterns.comebacks.length) ? {
+    id: 'rituals', icon: '📆', category: 'THE RITUALS',
+    headline: `${longestStreak.days}-Day Streak`,
+    subline: `${shortDate(longestStreak.start)} – ${shortDate(longestStreak.end)}`,
+    extra: (
+      <div style={{ display: 'flex', gap: 10, justifyContent: 'center', flexWrap: 'wrap', margin: '8px 0' }}>
+        {([
+          { label: 'Longest streak', value: `${longestStreak.days}d`, sub: null as React.ReactNode, color: '#34d399' },
+          ...(patterns.binges[0] ? [{ label: 'Biggest binge', value: `${patterns.binges[0].plays}`, sub: <><ArtistLink name={patterns.binges[0].artist} onOpen={onArtist} /> in {patterns.binges[0].hours}h</>, color: '#f5576c' }] : []),
+          ...(patterns.comebacks[0] ? [{ label: 'Comeback', value: `${patterns.comebacks[0].gapDays}d`, sub: <ArtistLink name={patterns.comebacks[0].artist} onOpen={onArtist} />, color: '#a78bfa' }] : []),
+        ]).map(({ label, value, sub, color }) => (
+          <div key={label} style={{ textAlign: 'center', background: 'rgba(255,255,255,0.07)', border: `1px solid ${color}40`, borderRadius: 14, padding: '12px 16px', minWidth: 110 }}>
+            <div style={{ fontSize: 24, fontWeight: 800, color, lineHeight: 1 }}>{value}</div>
+            <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.5)', marginTop: 4, textTransform: 'uppercase', letterSpacing: 1 }}>{label}</div>
+            {sub && <div style={{ fontSize: 11, color: 'rgba(255,255,255,0.65)', marginTop: 4 }}>{sub}</div>}
+          </div>
+        ))}
+      </div>
+    ),
+    roast: roastRituals(patterns),
+  } : null;
+
+  // ── Eras of you: dominant genre family by quarter of play ─────────────────
+  const eras = evolution?.eras ?? [];
+  const slideEras: SlideData | null = evolution && eras.length ? {
+    id: 'eras', icon: '⏳', category: 'ERAS OF YOU',
+    headline: eras.length === 1 ? `The ${eras[0].family} Years` : `${eras.length} Eras`,
+    subline: `${quarterName(eras[0].start)} – ${quarterName(eras[eras.length - 1].end)} · by what you actually played`,
+    extra: (
+      <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
+        {eras.slice(-5).map((e, i, shown) => {
+          const now = i === shown.length - 1;
+          return (
+            <div key={e.start} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '9px 14px', marginBottom: 6, background: now ? 'rgba(102,126,234,0.18)' : 'rgba(255,255,255,0.05)', borderRadius: 12, border: `1px solid ${now ? 'rgba(102,126,234,0.45)' : 'rgba(255,255,255,0.08)'}` }}>
+              <span style={{ fontSize: 20, flexShrink: 0 }}>{FAMILY_ICONS[e.family] ?? '🎵'}</span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 14, fontWeight: 700, color: 'white' }}>{e.family}{now ? ' · now' : ''}</div>
+                <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.45)' }}>
+                  {e.start === e.end ? quarterName(e.start) : `${quarterName(e.start)} – ${quarterName(e.end)}`}
+                </div>
+              </div>
+              <span style={{ fontSize: 13, fontWeight: 700, color: 'rgba(255,255,255,0.75)', whiteSpace: 'nowrap' }}>{e.share}% of plays</span>
+            </div>
+          );
+        })}
+      </div>
+    ),
+    roast: roastEras(evolution),
+  } : null;
+
+  // ── The Shift: year over year, only when something moved ─────────────────
+  const findings = shift?.comparison.findings ?? [];
+  const rarityMove = shift?.comparison.playlistRater.rarityScore?.delta ?? 0;
+  const slideShift: SlideData | null = shift && findings.length > 0 ? {
+    id: 'shift', icon: rarityMove <= -5 ? '📻' : rarityMove >= 5 ? '⛏️' : '🔀', category: 'THE SHIFT',
+    headline: rarityMove <= -5 ? 'You Went Mainstream' : rarityMove >= 5 ? 'You Went Deeper' : `${shift.b.label} vs ${shift.a.label}`,
+    subline: `What changed between ${shift.a.label} and ${shift.b.label}`,
+    extra: (
+      <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
+        {findings.slice(0, 5).map(f => (
+          <div key={f.id} style={{ display: 'flex', gap: 10, alignItems: 'flex-start', padding: '10px 14px', marginBottom: 8, background: 'rgba(255,255,255,0.06)', borderRadius: 12, border: '1px solid rgba(255,255,255,0.08)' }}>
+            <span style={{ fontSize: 14, fontWeight: 800, color: f.direction === 'up' ? '#34d399' : '#f5576c' }}>{f.direction === 'up' ? '▲' : '▼'}</span>
+            <span style={{ fontSize: 13, color: 'rgba(255,255,255,0.85)', lineHeight: 1.5 }}>{f.text}</span>
+          </div>
+        ))}
+      </div>
+    ),
+    roast: roastShift(shift),
+  } : null;
+
   // ── Slide 8: Verdict ──────────────────────────────────────────────────────
-  const rarityTier =
-    pr.rarityScore >= 75 ? { label: 'Underground Royalty',    color: '#a78bfa' } :
-    pr.rarityScore >= 55 ? { label: 'The Niche Devotee',      color: '#60a5fa' } :
-    pr.rarityScore >= 35 ? { label: 'The Diplomatic Listener',color: '#34d399' } :
-                           { label: 'The Mainstream Citizen', color: '#fbbf24' };
+  // Tiers by where rarity ranks among other listeners; fixed cutoffs when there's no benchmark
+  // and no tier, rank or percentile at all when there are too few tracks to back one
+  const rarityConf = stats.confidence?.playlistRater.rarityScore;
+  const unsupported = rarityConf?.support === 'insufficient';
+  const rarerThan = unsupported ? null : benchmark?.metrics.find(m => m.metric === 'rarityScore')?.percentile ?? null;
+  const rarityTier = [
+    { label: 'The Mainstream Citizen', color: '#fbbf24' },
+    { label: 'The Diplomatic Listener',color: '#34d399' },
+    { label: 'The Niche Devotee',      color: '#60a5fa' },
+    { label: 'Underground Royalty',    color: '#a78bfa' },
+  ][rarerThan !== null ? percentileTier(rarerThan)
+    : (pr.rarityScore ?? 0) >= 75 ? 3 : (pr.rarityScore ?? 0) >= 55 ? 2 : (pr.rarityScore ?? 0) >= 35 ? 1 : 0];
   const slide8: SlideData = {
     id: 'verdict', icon: '⚖️', category: 'THE VERDICT',
-    headline: rarityTier.label, subline: `Overall Snob Score: ${pr.overall}/100`,
+    headline: unsupported ? 'Verdict Pending' : rarityTier.label,
+    subline: `Overall Snob Score: ${pr.overall}/100${rarerThan !== null ? ` · rarer than ${rarerThan}% of listeners` : ''}${rarityConf?.support === 'provisional' ? ' · provisional' : ''}`,
     extra: (
       <div>
         <div style={{ display: 'flex', gap: 10, justifyContent: 'center', flexWrap: 'wrap', margin: '8px 0' }}>
           {([
-            { label: 'Rarity',     value: pr.rarityScore, color: rarityTier.color },
+            { label: 'Rarity',     value: pr.rarityScore ?? '—', color: rarityTier.color },
             { label: 'Cohesion',   value: pr.cohesion,    color: '#f093fb' },
             { label: 'Variety',    value: pr.variety,     color: '#667eea' },
             { label: 'Creativity', value: pr.creativity,  color: '#f5576c' },
             { label: 'Overall',    value: pr.overall,     color: '#10b981' },
-          ] as { label: string; value: number; color: string }[]).map(({ label, value, color }) => (
+          ] as { label: string; value: number | string; color: string }[]).map(({ label, value, color }) => (
             <div key={label} style={{ textAlign: 'center', background: 'rgba(255,255,255,0.07)', border: `1px solid ${color}40`, borderRadius: 14, padding: '12px 14px', minWidth: 72 }}>
               <div style={{ fontSize: 24, fontWeight: 800, color, lineHeight: 1 }}>{value}</div>
               <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.5)', marginTop: 4, textTransform: 'uppercase', letterSpacing: 1 }}>{label}</div>
@@ -1018,106 +1152,56 @@ function buildSlides(stats: Stats): SlideData[] {
         </div>
       </div>
     ),
-    roast: roastVerdict(pr, stats.snob || '', ga.totalFamilies, missingFamilies.length),
+    roast: roastVerdict(pr, stats.snob || '', ga.totalFamilies, missingFamilies.length, rarerThan, rarityConf),
   };
 
-  return [slide1, slide2, slide3, slide4, slide5, slide6, slide7, slide8];
+  return [
+    slide1, slide2, slide3, slide4, slide5, slide6, slide7,
+    ...(slideObsession ? [slideObsession] : []),
+    ...(slideRituals ? [slideRituals] : []),
+    ...(slideEras ? [slideEras] : []),
+    ...(slideShift ? [slideShift] : []),
+    slide8,
+  ];
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
-export default function SnobRoast({ stats, profile, onComplete }: SnobRoastProps) {
-  const slides = useMemo(() => buildSlides(stats), [stats]);
-  const total  = slides.length;
-
-  const [index, setIndex]                 = useState(0);
-  const [visible, setVisible]             = useState(true);
-  const [roastRevealed, setRoastRevealed] = useState(false);
-  const transitioning                      = React.useRef(false);
-
-  const safeIndex = Math.min(index, total - 1);
-  const slide     = slides[safeIndex];
-  const isLast    = safeIndex === total - 1;
-
-  useEffect(() => { setRoastRevealed(false); }, [safeIndex]);
-  useEffect(() => { const t = setTimeout(() => setRoastRevealed(true), 800); return () => clearTimeout(t); }, [safeIndex]);
-
-  const advance = useCallback(() => {
-    if (isLast) { onComplete(); return; }
-    if (transitioning.current) return;
-    transitioning.current = true;
-    setVisible(false);
-    setTimeout(() => { setIndex(i => Math.min(i + 1, total - 1)); setVisible(true); transitioning.current = false; }, 320);
-  }, [isLast, onComplete, total]);
-
+export default function SnobRoast({ stats, profile, onComplete, onArtist }: SnobRoastProps) {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy | null>(null);
+  const [shift, setShift]       = useState<CompareResponse | null>(null);
+  const [evolution, setEvolution] = useState<TasteEvolution | null>(null);
+  const [benchmark, setBenchmark] = useState<Benchmark | null>(null);
   useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight' || e.key === 'Enter' || e.key === ' ') { e.preventDefault(); advance(); }
-    };
-    window.addEventListener('keydown', handler);
-    return () => window.removeEventListener('keydown', handler);
-  }, [advance]);
-
-  if (!slide) { onComplete(); return null; }
-
-  return (
-    <div style={{ position: 'fixed', inset: 0, zIndex: 1200, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', background: 'linear-gradient(135deg,rgba(10,10,20,0.97) 0%,rgba(20,10,35,0.97) 100%)', backdropFilter: 'blur(20px)', padding: '24px 20px', overflowY: 'auto' }}>
-
-      {/* Progress dots */}
-      <div style={{ position: 'fixed', top: 24, left: '50%', transform: 'translateX(-50%)', display: 'flex', gap: 6, zIndex: 10 }}>
-        {slides.map((_, i) => (
-          <div key={i} style={{ width: i === index ? 20 : 7, height: 7, borderRadius: 4, background: i === index ? '#667eea' : i < index ? 'rgba(102,126,234,0.4)' : 'rgba(255,255,255,0.15)', transition: 'all 0.3s ease' }} />
-        ))}
-      </div>
+    let live = true;
+    // The shift and eras slides sit before the verdict, so wait for them rather than inserting them mid-show
+    const periods = yearOverYear(stats);
+    Promise.all([
+      fetchGenreTaxonomy().catch(() => EMPTY_TAXONOMY),
+      periods ? fetchComparison(profile, periods.a, periods.b).catch(() => null) : Promise.resolve(null),
+      fetchEvolution(profile).then(res => res.evolution).catch(() => null),
+      fetchBenchmark(profile).then(res => res.benchmark).catch(() => null),
+    ]).then(([t, cmp, evo, bench]) => {
+      if (!live) return;
+      setShift(cmp);
+      setEvolution(evo);
+      setBenchmark(bench);
+      setTaxonomy(buildTaxonomy(t));
+    });
+    return () => { live = false; };
+  }, [stats, profile]);
 
-      {/* Profile badge */}
-      <div style={{ position: 'fixed', top: 20, right: 24, fontSize: 12, color: 'rgba(255,255,255,0.35)', fontWeight: 600, letterSpacing: 1, textTransform: 'uppercase' }}>{profile}</div>
-
-      {/* Slide */}
-      <div style={{ opacity: visible ? 1 : 0, transform: visible ? 'translateY(0)' : 'translateY(16px)', transition: 'opacity 0.32s ease, transform 0.32s ease', width: '100%', maxWidth: 620, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 0 }}>
-        <div style={{ fontSize: 11, letterSpacing: 2, color: 'rgba(255,255,255,0.3)', marginBottom: 20, textTransform: 'uppercase', fontWeight: 600 }}>{index + 1} of {total}</div>
-        <div style={{ fontSize: 11, letterSpacing: 3, color: '#667eea', textTransform: 'uppercase', fontWeight: 700, marginBottom: 8 }}>{slide.category}</div>
-        <div style={{ fontSize: 56, lineHeight: 1, margin: '4px 0 12px', filter: 'drop-shadow(0 0 20px rgba(102,126,234,0.5))' }}>{slide.icon}</div>
-        <h2 style={{ margin: '0 0 6px', fontSize: 'clamp(1.3rem,4vw,2rem)', fontWeight: 800, color: 'white', textAlign: 'center', lineHeight: 1.2 }}>{slide.headline}</h2>
-        <p style={{ margin: '0 0 20px', color: 'rgba(255,255,255,0.45)', fontSize: 14, textAlign: 'center' }}>{slide.subline}</p>
-        <div style={{ width: '100%' }}>{slide.extra}</div>
-        <div style={{ width: '100%', height: 1, background: 'linear-gradient(90deg,transparent,rgba(102,126,234,0.4),transparent)', margin: '20px 0' }} />
-
-        {/* Roast bubble */}
-        <div style={{ width: '100%', opacity: roastRevealed ? 1 : 0, transform: roastRevealed ? 'translateY(0)' : 'translateY(12px)', transition: 'opacity 0.5s ease, transform 0.5s ease' }}>
-          <div style={{ display: 'flex', alignItems: 'flex-start', gap: 12 }}>
-            <div style={{ flexShrink: 0, width: 40, height: 40, borderRadius: '50%', background: 'linear-gradient(135deg,#f093fb,#f5576c)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 20, marginTop: 2, boxShadow: '0 0 16px rgba(240,147,251,0.4)' }}>🎩</div>
-            <div style={{ flex: 1, background: 'rgba(255,255,255,0.06)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: '4px 16px 16px 16px', padding: '14px 18px' }}>
-              <div style={{ fontSize: 11, fontWeight: 700, letterSpacing: 1, color: '#f093fb', textTransform: 'uppercase', marginBottom: 6 }}>The Snob</div>
-              <p style={{ margin: 0, fontSize: 14, lineHeight: 1.65, color: 'rgba(255,255,255,0.85)', fontStyle: 'italic' }}>"{slide.roast}"</p>
-            </div>
-          </div>
-        </div>
+  const slides = useMemo(() => (taxonomy ? buildSlides(stats, taxonomy, shift, evolution, benchmark, onArtist) : []), [stats, taxonomy, shift, evolution, benchmark, onArtist]);
 
-        {/* CTA */}
-        <div style={{ marginTop: 28, width: '100%', display: 'flex', justifyContent: 'center' }}>
-          {isLast ? (
-            <button onClick={advance} style={{ padding: '16px 40px', background: 'linear-gradient(135deg,#667eea,#764ba2)', color: 'white', border: 'none', borderRadius: 14, fontSize: 16, fontWeight: 700, cursor: 'pointer', boxShadow: '0 8px 24px rgba(102,126,234,0.4)', transition: 'all 0.2s ease', letterSpacing: 0.5 }}
-              onMouseOver={e => { e.currentTarget.style.transform = 'translateY(-2px)'; e.currentTarget.style.boxShadow = '0 12px 32px rgba(102,126,234,0.55)'; }}
-              onMouseOut={e => { e.currentTarget.style.transform = 'translateY(0)'; e.currentTarget.style.boxShadow = '0 8px 24px rgba(102,126,234,0.4)'; }}>
-              Enter The Dashboard →
-            </button>
-          ) : (
-            <button onClick={advance} style={{ padding: '13px 32px', background: 'rgba(255,255,255,0.08)', color: 'white', border: '1px solid rgba(255,255,255,0.2)', borderRadius: 12, fontSize: 14, fontWeight: 600, cursor: 'pointer', transition: 'all 0.2s ease' }}
-              onMouseOver={e => { e.currentTarget.style.background = 'rgba(255,255,255,0.14)'; }}
-              onMouseOut={e => { e.currentTarget.style.background = 'rgba(255,255,255,0.08)'; }}>
-              Next → <span style={{ marginLeft: 10, opacity: 0.4, fontSize: 11 }}>or press Enter</span>
-            </button>
-          )}
-        </div>
-      </div>
+  if (!taxonomy) return null;
 
-      {/* Skip */}
-      <button onClick={onComplete} style={{ position: 'fixed', bottom: 20, right: 24, background: 'none', border: 'none', color: 'rgba(255,255,255,0.2)', fontSize: 12, cursor: 'pointer', padding: '4px 8px', transition: 'color 0.2s' }}
-        onMouseOver={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.5)'; }}
-        onMouseOut={e => { e.currentTarget.style.color = 'rgba(255,255,255,0.2)'; }}>
-        Skip to dashboard →
-      </button>
-    </div>
+  return (
+    <SlideDeck
+      slides={slides}
+      badge={profile}
+      finishLabel="Enter The Dashboard →"
+      skipLabel="Skip to dashboard →"
+      onComplete={onComplete}
+    />
   );
 }
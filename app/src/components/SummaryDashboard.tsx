@@ -1,18 +1,50 @@
-import React from 'react';
-import type { Stats } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { Stats, CompareResponse, TasteEvolution as Evolution } from '../types';
+import { fetchComparison, fetchEvolution, yearOverYear } from '../api/client';
 import { logger } from '../utils/debugLogger';
+import ListeningClock from './cards/ListeningClock';
+import Patterns from './cards/Patterns';
+import TopArtists from './cards/TopArtists';
+import TasteEvolution from './cards/TasteEvolution';
+import ScoreBreakdown from './ScoreBreakdown';
+import ConfidenceBadge, { dimmed } from './ConfidenceBadge';
 
 interface SummaryDashboardProps {
   stats: Stats;
+  profile: string;
   onNext: () => void;
+  onArtist?: (name: string) => void;
 }
 
-export default function SummaryDashboard({ stats, onNext }: SummaryDashboardProps) {
+export default function SummaryDashboard({ stats, profile, onNext, onArtist }: SummaryDashboardProps) {
   logger.debug('SUMMARY_DASHBOARD', 'Component rendered', {
     hasStats: !!stats,
     rows: stats?.meta?.rows || 0
   });
 
+  // Year-over-year findings ("you got more mainstream this year")
+  const [shift, setShift] = useState<CompareResponse | null>(null);
+  useEffect(() => {
+    const periods = yearOverYear(stats);
+    if (!periods) return;
+    let live = true;
+    fetchComparison(profile, periods.a, periods.b)
+      .then(cmp => { if (live) setShift(cmp); })
+      .catch(() => { /* optional card; the dashboard stands without it */ });
+    return () => { live = false; };
+  }, [stats, profile]);
+  const findings = shift?.comparison.findings ?? [];
+
+  // Genre families by quarter of play; needs timestamped plays, so it's optional too
+  const [evolution, setEvolution] = useState<Evolution | null>(null);
+  useEffect(() => {
+    let live = true;
+    fetchEvolution(profile)
+      .then(res => { if (live) setEvolution(res.evolution); })
+      .catch(() => { if (live) setEvolution(null); });
+    return () => { live = false; };
+  }, [profile]);
+
   try {
     const totalTracks = stats._counters?.uniqueTracks ?? 0;
     const totalPlays = stats._counters?.uniquePlays ?? stats.meta.rows;
@@ -45,9 +77,9 @@ export default function SummaryDashboard({ stats, onNext }: SummaryDashboardProp
     });
 
     const generateSnobRemark = () => {
-      if (playlistRater.rarityScore > 70) {
+      if (playlistRater.rarityScore !== null && playlistRater.rarityScore > 70) {
         return "Your library oozes underground cred — algorithms tried, failed, and cried. Gorgeous chaos.";
-      } else if (playlistRater.rarityScore < 30) {
+      } else if (playlistRater.rarityScore !== null && playlistRater.rarityScore < 30) {
         return "Your taste is so mainstream, I can practically hear the Top 40 playing in the background. How delightfully predictable.";
       } else if (genreCount > 10) {
         return "A musical chameleon, I see. Your genre-hopping is either admirably eclectic or desperately indecisive. I'll let you decide.";
@@ -94,15 +126,24 @@ export default function SummaryDashboard({ stats, onNext }: SummaryDashboardProp
             <div className="stat-label">Discovered This Year</div>
           </div>
           <div className="stat-card">
-            <div className="stat-number">{playlistRater.rarityScore}</div>
+            <div className="stat-number" style={dimmed(stats.confidence?.playlistRater.rarityScore)}>{playlistRater.rarityScore ?? '—'}</div>
             <div className="stat-label">Rarity Score</div>
+            <ConfidenceBadge c={stats.confidence?.playlistRater.rarityScore} />
           </div>
           <div className="stat-card">
-            <div className="stat-number">{playlistRater.overall}</div>
+            <div className="stat-number" style={dimmed(stats.confidence?.playlistRater.overall)}>{playlistRater.overall}</div>
             <div className="stat-label">Overall Score</div>
+            <ConfidenceBadge c={stats.confidence?.playlistRater.overall} />
           </div>
         </div>
 
+        {stats.scoreExplanation && (
+          <div className="card">
+            <h2 className="title">Overall Score: {playlistRater.overall}</h2>
+            <ScoreBreakdown explanation={stats.scoreExplanation} />
+          </div>
+        )}
+
         <div className="card">
           <h2 className="title">The Snob's Initial Assessment</h2>
           <div className="snob-remark">
@@ -110,6 +151,27 @@ export default function SummaryDashboard({ stats, onNext }: SummaryDashboardProp
           </div>
         </div>
 
+        {shift && findings.length > 0 && (
+          <div className="card">
+            <h2 className="title">What Changed: {shift.a.label} → {shift.b.label}</h2>
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+              {findings.map(f => (
+                <li key={f.id} style={{ display: 'flex', gap: 10, alignItems: 'baseline', padding: '6px 0' }}>
+                  <span style={{ fontWeight: 800, color: f.direction === 'up' ? '#34d399' : '#f5576c' }}>
+                    {f.direction === 'up' ? '▲' : '▼'}
+                  </span>
+                  <span>{f.text}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <TopArtists stats={stats} onArtist={onArtist} />
+        <ListeningClock stats={stats} />
+        <Patterns stats={stats} onArtist={onArtist} />
+        <TasteEvolution evolution={evolution} />
+
         <div style={{ textAlign: 'center', marginTop: '32px' }}>
           <button className="btn" onClick={onNext}>
             Continue to Rarity Analysis →
@@ -1,5 +1,6 @@
 import React from 'react';
-import type { Stats } from '../types';
+import type { Confidence, Stats } from '../types';
+import ConfidenceBadge, { dimmed } from './ConfidenceBadge';
 
 interface TasteProfileProps {
   stats: Stats;
@@ -9,6 +10,7 @@ interface TasteProfileProps {
 
 export default function TasteProfile({ stats, onBack, onExport }: TasteProfileProps) {
   const { taste, playlistRater } = stats;
+  const confidence = stats.confidence;
   const topUniqueGenres = stats.topUniqueGenres ?? [];
 
   const pct = (n: number) => Math.round((n ?? 0) * 100);
@@ -69,9 +71,10 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
       <div className="grid-3">
         <div className="card">
           <h3 style={{ marginBottom: '16px' }}>Danceability</h3>
-          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px' }}>
+          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px', ...dimmed(confidence?.taste.avgDanceability) }}>
             {pct(taste.avgDanceability)}%
           </div>
+          <ConfidenceBadge c={confidence?.taste.avgDanceability} scale={100} />
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${pct(taste.avgDanceability)}%` }} />
           </div>
@@ -79,9 +82,10 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
 
         <div className="card">
           <h3 style={{ marginBottom: '16px' }}>Energy</h3>
-          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px' }}>
+          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px', ...dimmed(confidence?.taste.avgEnergy) }}>
             {pct(taste.avgEnergy)}%
           </div>
+          <ConfidenceBadge c={confidence?.taste.avgEnergy} scale={100} />
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${pct(taste.avgEnergy)}%` }} />
           </div>
@@ -89,9 +93,10 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
 
         <div className="card">
           <h3 style={{ marginBottom: '16px' }}>Positivity</h3>
-          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px' }}>
+          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px', ...dimmed(confidence?.taste.avgValence) }}>
             {pct(taste.avgValence)}%
           </div>
+          <ConfidenceBadge c={confidence?.taste.avgValence} scale={100} />
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${pct(taste.avgValence)}%` }} />
           </div>
@@ -99,9 +104,10 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
 
         <div className="card">
           <h3 style={{ marginBottom: '16px' }}>Acousticness</h3>
-          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px' }}>
+          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px', ...dimmed(confidence?.taste.acousticBias) }}>
             {pct(taste.acousticBias)}%
           </div>
+          <ConfidenceBadge c={confidence?.taste.acousticBias} scale={100} />
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${pct(taste.acousticBias)}%` }} />
           </div>
@@ -109,9 +115,10 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
 
         <div className="card">
           <h3 style={{ marginBottom: '16px' }}>Instrumentalness</h3>
-          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px' }}>
+          <div style={{ fontSize: '2rem', fontWeight: '700', marginBottom: '8px', ...dimmed(confidence?.taste.instrumentalBias) }}>
             {pct(taste.instrumentalBias)}%
           </div>
+          <ConfidenceBadge c={confidence?.taste.instrumentalBias} scale={100} />
           <div className="progress-bar">
             <div className="progress-fill" style={{ width: `${pct(taste.instrumentalBias)}%` }} />
           </div>
@@ -163,12 +170,12 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
           <h2 className="title">Playlist Ratings</h2>
           <div style={{ maxHeight: '300px', overflowY: 'auto' }}>
             {([
-              ['Rarity', playlistRater.rarityScore],
-              ['Cohesion', playlistRater.cohesion],
-              ['Variety', playlistRater.variety],
-              ['Creativity', playlistRater.creativity ?? 0],
-              ['Overall', playlistRater.overall],
-            ] as [string, number][]).map(([label, value], index) => (
+              ['Rarity', playlistRater.rarityScore, confidence?.playlistRater.rarityScore],
+              ['Cohesion', playlistRater.cohesion, confidence?.playlistRater.cohesion],
+              ['Variety', playlistRater.variety, confidence?.playlistRater.variety],
+              ['Creativity', playlistRater.creativity ?? 0, confidence?.playlistRater.creativity],
+              ['Overall', playlistRater.overall, confidence?.playlistRater.overall],
+            ] as [string, number | null, Confidence | undefined][]).map(([label, value, c], index) => (
               <div key={index} style={{
                 padding: '12px',
                 borderBottom: '1px solid var(--border)',
@@ -176,6 +183,7 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
                 <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px' }}>
                   <span style={{ fontWeight: '600' }}>{label}</span>
                   <span style={{
+                    ...dimmed(c),
                     background: 'var(--gradient-secondary)',
                     color: 'white',
                     padding: '4px 12px',
@@ -183,11 +191,12 @@ export default function TasteProfile({ stats, onBack, onExport }: TasteProfilePr
                     fontSize: '0.8rem',
                     fontWeight: '600'
                   }}>
-                    {value}/100
+                    {value ?? '—'}/100
                   </span>
                 </div>
+                <ConfidenceBadge c={c} />
                 <div className="progress-bar">
-                  <div className="progress-fill" style={{ width: `${value}%` }} />
+                  <div className="progress-fill" style={{ width: `${value ?? 0}%` }} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Wrapped } from '../types';
+import { fetchWrapped } from '../api/client';
+import SlideDeck, { type SlideData } from './SlideDeck';
+import { LoadingSpinner, ErrorState } from './LoadingStates';
+import { logger } from '../utils/debugLogger';
+
+interface WrappedDeckProps {
+  profile: string;
+  onComplete: () => void;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const monthName = (ym: string) => MONTHS[Number(ym.slice(5, 7)) - 1] ?? ym;
+const dayName = (ymd: string) =>
+  new Date(`${ymd}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' });
+const n = (x: number) => x.toLocaleString('en-US');
+
+function RankList({ items }: { items: { label: string; sub?: string; value: string }[] }) {
+  return (
+    <div style={{ width: '100%', maxWidth: 460, margin: '8px auto' }}>
+      {items.map((it, i) => (
+        <div key={`${it.label}-${i}`} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '9px 14px', marginBottom: 6, background: i === 0 ? 'rgba(102,126,234,0.18)' : 'rgba(255,255,255,0.05)', borderRadius: 12, border: `1px solid ${i === 0 ? 'rgba(102,126,234,0.45)' : 'rgba(255,255,255,0.08)'}` }}>
+          <span style={{ width: 20, fontSize: 14, fontWeight: 800, color: i === 0 ? '#667eea' : 'rgba(255,255,255,0.35)' }}>{i + 1}</span>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: 14, fontWeight: 700, color: 'white', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{it.label}</div>
+            {it.sub && <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.45)' }}>{it.sub}</div>}
+          </div>
+          <span style={{ fontSize: 13, fontWeight: 700, color: 'rgba(255,255,255,0.75)', whiteSpace: 'nowrap' }}>{it.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function BigNumbers({ items }: { items: { label: string; value: string; color: string }[] }) {
+  return (
+    <div style={{ display: 'flex', gap: 10, justifyContent: 'center', flexWrap: 'wrap', margin: '8px 0' }}>
+      {items.map(({ label, value, color }) => (
+        <div key={label} style={{ textAlign: 'center', background: 'rgba(255,255,255,0.07)', border: `1px solid ${color}40`, borderRadius: 14, padding: '12px 16px', minWidth: 90 }}>
+          <div style={{ fontSize: 24, fontWeight: 800, color, lineHeight: 1 }}>{value}</div>
+          <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.5)', marginTop: 4, textTransform: 'uppercase', letterSpacing: 1 }}>{label}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ─── Slide definitions ────────────────────────────────────────────────────────
+
+function buildWrappedSlides(w: Wrapped, onPickYear: (year: number) => void): SlideData[] {
+  const { year, totals } = w;
+  const slides: SlideData[] = [];
+
+  slides.push({
+    id: 'intro', icon: '🎁', category: `SNOBIFY WRAPPED ${year}`,
+    headline: `${n(totals.plays)} Plays`,
+    subline: `${totals.minutes > 0 ? `${n(totals.minutes)} minutes · ` : ''}${n(totals.tracks)} tracks · ${n(totals.artists)} artists`,
+    extra: w.years.length > 1 ? (
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'center', flexWrap: 'wrap' }}>
+        {w.years.map(y => (
+          <button key={y} onClick={() => onPickYear(y)} disabled={y === year}
+            style={{ padding: '6px 14px', borderRadius: 999, fontSize: 13, fontWeight: 700, cursor: y === year ? 'default' : 'pointer', color: 'white', background: y === year ? 'rgba(102,126,234,0.45)' : 'rgba(255,255,255,0.08)', border: `1px solid ${y === year ? '#667eea' : 'rgba(255,255,255,0.2)'}` }}>
+            {y}
+          </button>
+        ))}
+      </div>
+    ) : null,
+    roast: totals.minutes >= 30000
+      ? `${n(totals.minutes)} minutes. That's ${Math.round(totals.minutes / 60 / 24)} full days of ${year} with headphones on. The Snob respects the commitment, not the choices.`
+      : `${n(totals.plays)} plays across ${n(totals.artists)} artists. Let's see what you did with them.`,
+  });
+
+  if (w.topArtists.length) {
+    const top = w.topArtists[0];
+    slides.push({
+      id: 'artists', icon: '👑', category: 'TOP ARTISTS',
+      headline: top.artist, subline: `Your most-played artist of ${year}`,
+      extra: <RankList items={w.topArtists.slice(0, 5).map(a => ({ label: a.artist, sub: `${a.tracks} track${a.tracks === 1 ? '' : 's'}`, value: `${n(a.plays)} plays` }))} />,
+      roast: top.tracks === 1
+        ? `${n(top.plays)} plays of ${top.artist}, all of them the same song. That's not fandom, that's a hostage situation.`
+        : `${top.artist}: ${n(top.plays)} plays across ${top.tracks} tracks. A relationship, clearly. Whether it's healthy is between you and your therapist.`,
+    });
+  }
+
+  if (w.topTracks.length) {
+    const top = w.topTracks[0];
+    slides.push({
+      id: 'tracks', icon: '🔁', category: 'TOP TRACKS',
+      headline: top.name, subline: `${top.artist} · ${n(top.plays)} plays`,
+      extra: <RankList items={w.topTracks.slice(0, 5).map(t => ({ label: t.name, sub: t.artist, value: `${n(t.plays)}×` }))} />,
+      roast: `"${top.name}" ${n(top.plays)} times. At some point it stopped being a song and became a load-bearing wall.`,
+    });
+  }
+
+  if (w.topGenres.length) {
+    const max = w.topGenres[0].count || 1;
+    slides.push({
+      id: 'genres', icon: '🧬', category: 'TOP GENRES',
+      headline: w.topGenres[0].genre, subline: `${w.topGenres[0].family} led your ${year}`,
+      extra: (
+        <div style={{ width: '100%', maxWidth: 420, margin: '8px auto' }}>
+          {w.topGenres.slice(0, 5).map(g => (
+            <div key={g.genre} style={{ marginBottom: 12 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 5 }}>
+                <span style={{ fontSize: 13, fontWeight: 600, color: 'rgba(255,255,255,0.85)' }}>{g.genre}</span>
+                <span style={{ fontSize: 12, color: 'rgba(255,255,255,0.5)' }}>{g.count} tracks</span>
+              </div>
+              <div style={{ height: 8, background: 'rgba(255,255,255,0.12)', borderRadius: 4, overflow: 'hidden' }}>
+                <div style={{ height: '100%', width: `${Math.round((g.count / max) * 100)}%`, background: 'linear-gradient(90deg,#667eea,#f093fb)', borderRadius: 4 }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ),
+      roast: `${w.topGenres[0].genre} on top, ${w.topGenres.slice(1, 3).map(g => g.genre).join(' and ') || 'nothing else'} close behind. A year with a thesis statement.`,
+    });
+  }
+
+  slides.push({
+    id: 'discoveries', icon: '🔭', category: 'NEW TO YOU',
+    headline: `${n(totals.newArtists)} New Artist${totals.newArtists === 1 ? '' : 's'}`,
+    subline: `Artists you played for the first time in ${year}`,
+    extra: w.newArtists.length
+      ? <RankList items={w.newArtists.slice(0, 5).map(a => ({ label: a.artist, sub: `first played ${dayName(a.firstPlayed)}`, value: `${n(a.plays)} plays` }))} />
+      : null,
+    roast: totals.newArtists === 0
+      ? `Zero new artists in ${year}. You found your people years ago and you're not taking applications.`
+      : totals.newArtists >= 50
+      ? `${n(totals.newArtists)} first-time artists. Curious, restless, or just letting autoplay run the household.`
+      : `${n(totals.newArtists)} newcomers made the cut. ${w.newArtists[0]?.artist ?? 'The best of them'} was the breakout.`,
+  });
+
+  if (w.busiestMonth || w.longestStreak) {
+    slides.push({
+      id: 'rhythm', icon: '📅', category: 'YOUR RHYTHM',
+      headline: w.busiestMonth ? `${monthName(w.busiestMonth.month)} Was Peak You` : `${w.longestStreak!.days}-Day Streak`,
+      subline: w.busiestDay ? `Busiest day: ${dayName(w.busiestDay.date)} (${n(w.busiestDay.plays)} plays)` : `Your listening across ${year}`,
+      extra: (
+        <BigNumbers items={[
+          ...(w.busiestMonth ? [{ label: `plays in ${monthName(w.busiestMonth.month)}`, value: n(w.busiestMonth.plays), color: '#667eea' }] : []),
+          ...(w.busiestDay ? [{ label: 'on your busiest day', value: n(w.busiestDay.plays), color: '#f093fb' }] : []),
+          ...(w.longestStreak ? [{ label: 'day streak', value: n(w.longestStreak.days), color: '#34d399' }] : []),
+        ]} />
+      ),
+      roast: w.longestStreak && w.longestStreak.days >= 30
+        ? `${w.longestStreak.days} days in a row without a day off. Silence, apparently, is for other people.`
+        : w.busiestDay
+        ? `${n(w.busiestDay.plays)} plays on ${dayName(w.busiestDay.date)}. The Snob would ask what happened, but the playlist already told us.`
+        : `Steady, unremarkable, consistent. A metronome with a Spotify account.`,
+    });
+  }
+
+  if (w.obsession) {
+    const o = w.obsession;
+    slides.push({
+      id: 'obsession', icon: '🌀', category: 'BIGGEST OBSESSION',
+      headline: o.name, subline: `${o.artist} · ${n(o.plays)} plays in one week`,
+      extra: <BigNumbers items={[{ label: `plays, ${dayName(o.start)} – ${dayName(o.end)}`, value: n(o.plays), color: '#f5576c' }]} />,
+      roast: o.plays >= 25
+        ? `${n(o.plays)} plays in seven days. The neighbours know every word. So does your phone's battery.`
+        : `${n(o.plays)} plays in a week. An obsession, but a polite one.`,
+    });
+  }
+
+  const pr = w.playlistRater;
+  slides.push({
+    id: 'verdict', icon: '⚖️', category: `THE ${year} VERDICT`,
+    headline: w.verdict.title, subline: `Overall Snob Score for ${year}: ${pr.overall}/100`,
+    extra: (
+      <BigNumbers items={[
+        { label: 'Rarity',     value: String(pr.rarityScore ?? '—'), color: '#a78bfa' },
+        { label: 'Variety',    value: String(pr.variety),     color: '#667eea' },
+        { label: 'Creativity', value: String(pr.creativity),  color: '#f5576c' },
+        { label: 'Overall',    value: String(pr.overall),     color: '#10b981' },
+      ]} />
+    ),
+    roast: w.verdict.text,
+  });
+
+  return slides;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+export default function WrappedDeck({ profile, onComplete }: WrappedDeckProps) {
+  const [year, setYear]       = useState<number | undefined>(undefined);
+  const [wrapped, setWrapped] = useState<Wrapped | null>(null);
+  const [error, setError]     = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let live = true;
+    fetchWrapped(profile, year)
+      .then(res => { if (live) { setWrapped(res.wrapped); setError(null); } })
+      .catch(err => { if (live) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { live = false; };
+  }, [profile, year, attempt]);
+
+  const slides = useMemo(() => (wrapped ? buildWrappedSlides(wrapped, y => {
+    logger.info('WRAPPED', 'Year picked', { year: y });
+    setYear(y);
+  }) : []), [wrapped]);
+
+  if (error && !wrapped) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', color: 'white', padding: 40 }}>
+        <div style={{ maxWidth: 520, textAlign: 'center' }}>
+          <ErrorState error={error} onRetry={() => setAttempt(a => a + 1)} />
+          <button className="btn btn-secondary" onClick={onComplete} style={{ marginTop: 12 }}>← Back</button>
+        </div>
+      </div>
+    );
+  }
+  if (!wrapped) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+        <LoadingSpinner size="large" text="Wrapping up your year..." />
+      </div>
+    );
+  }
+
+  return (
+    <SlideDeck
+      key={wrapped.year}
+      slides={slides}
+      badge={`${profile} · ${wrapped.year}`}
+      finishLabel="Back to The Dashboard →"
+      skipLabel="Skip to dashboard →"
+      onComplete={onComplete}
+    />
+  );
+}
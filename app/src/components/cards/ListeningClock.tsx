@@ -0,0 +1,65 @@
+import { CardProps } from "./types";
+import type { ClockCell } from "../../types";
+
+const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const hourLabel = (h: number) => `${String(h).padStart(2, "0")}:00`;
+const pct = (v: number | null) => (v === null ? "–" : `${Math.round(v * 100)}%`);
+
+function cellTitle(c: ClockCell) {
+  if (!c.plays) return `${DAYS[c.day]} ${hourLabel(c.hour)} — no plays`;
+  return [
+    `${DAYS[c.day]} ${hourLabel(c.hour)} — ${c.plays.toLocaleString()} plays`,
+    c.family ? `Mostly ${c.family}` : null,
+    `Energy ${pct(c.energy)} · Happiness ${pct(c.valence)}`,
+  ].filter(Boolean).join("\n");
+}
+
+export default function ListeningClock({ stats }: CardProps) {
+  const clock = stats.listeningClock;
+  if (!clock || !clock.plays) return null;
+
+  const max = Math.max(1, ...clock.cells.map(c => c.plays));
+  const rows = DAYS.map((_, day) => clock.cells.filter(c => c.day === day));
+  const peak = clock.peak;
+
+  return (
+    <div className="card" data-card="clock">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div className="title">When You Listen</div>
+        <div className="muted">
+          {peak ? <>peak {DAYS[peak.day]} {hourLabel(peak.hour)} ({peak.plays.toLocaleString()}) &bull; </> : null}
+          {clock.timeZone}
+        </div>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "36px repeat(24, 1fr)", gap: 2, marginTop: 12 }}>
+        <div />
+        {Array.from({ length: 24 }, (_, h) => (
+          <div key={h} className="muted" style={{ fontSize: 9, textAlign: "center" }}>
+            {h % 3 === 0 ? h : ""}
+          </div>
+        ))}
+        {rows.map((cells, day) => (
+          <div key={day} style={{ display: "contents" }}>
+            <div className="muted" style={{ fontSize: 11, alignSelf: "center" }}>{DAYS[day]}</div>
+            {cells.map(c => (
+              <div
+                key={c.hour}
+                title={cellTitle(c)}
+                style={{
+                  height: 18,
+                  borderRadius: 3,
+                  background: c.plays
+                    ? `rgba(102,126,234,${(0.12 + 0.88 * (c.plays / max)).toFixed(2)})`
+                    : "rgba(255,255,255,0.04)",
+                }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="muted" style={{ fontSize: 11, marginTop: 8 }}>
+        {clock.plays.toLocaleString()} plays by local day and hour &bull; hover a cell for its genre and mood
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { ReactNode } from "react";
+import { CardProps } from "./types";
+import ArtistLink from "../ArtistLink";
+
+const fmtDay = (ymd: string) =>
+  new Date(`${ymd.slice(0, 10)}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+function Stat({ label, value, sub }: { label: string; value: string; sub?: ReactNode }) {
+  return (
+    <div style={{ flex: "1 1 120px", padding: "10px 12px", background: "rgba(255,255,255,0.04)", borderRadius: 8 }}>
+      <div className="muted" style={{ fontSize: 11, textTransform: "uppercase", letterSpacing: 0.5 }}>{label}</div>
+      <div style={{ fontSize: 20, fontWeight: 700, marginTop: 2 }}>{value}</div>
+      {sub && <div className="muted" style={{ fontSize: 11, marginTop: 2 }}>{sub}</div>}
+    </div>
+  );
+}
+
+export default function Patterns({ stats, onArtist }: CardProps) {
+  const p = stats.patterns;
+  if (!p || !p.streaks.longest) return null;
+
+  const { longest, latest } = p.streaks;
+  const topBinge = p.binges[0];
+
+  return (
+    <div className="card" data-card="patterns">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div className="title">Habits &amp; Obsessions</div>
+        <div className="muted">streaks, binges and comebacks</div>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
+        <Stat label="Longest streak" value={`${longest.days}d`} sub={`${fmtDay(longest.start)} – ${fmtDay(longest.end)}`} />
+        {latest && <Stat label="Latest streak" value={`${latest.days}d`} sub={`ended ${fmtDay(latest.end)}`} />}
+        {topBinge && <Stat label="Biggest binge" value={`${topBinge.plays} plays`} sub={<><ArtistLink name={topBinge.artist} onOpen={onArtist} /> in {topBinge.hours}h</>} />}
+      </div>
+
+      {p.obsessions.length > 0 && (
+        <>
+          <div className="muted" style={{ fontSize: 12, marginTop: 14, marginBottom: 4 }}>Obsessions — a track&apos;s best week</div>
+          {p.obsessions.slice(0, 5).map(o => (
+            <div key={`${o.name}-${o.start}`} style={{ display: "flex", justifyContent: "space-between", gap: 12, padding: "4px 0", fontSize: 13 }}>
+              <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {o.name} <span className="muted">· <ArtistLink name={o.artist} onOpen={onArtist} /></span>
+              </span>
+              <span className="muted" style={{ whiteSpace: "nowrap" }}>
+                {o.plays} plays, week of {fmtDay(o.start)}{o.spike !== null ? ` · ${o.spike}×` : ""}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {p.comebacks.length > 0 && (
+        <>
+          <div className="muted" style={{ fontSize: 12, marginTop: 14, marginBottom: 4 }}>Comebacks</div>
+          {p.comebacks.slice(0, 5).map(c => (
+            <div key={c.artist} style={{ display: "flex", justifyContent: "space-between", gap: 12, padding: "4px 0", fontSize: 13 }}>
+              <ArtistLink name={c.artist} onOpen={onArtist} />
+              <span className="muted" style={{ whiteSpace: "nowrap" }}>
+                back {fmtDay(c.returned)} after {c.gapDays} days
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      <div className="muted" style={{ fontSize: 11, marginTop: 8 }}>
+        Days are UTC &bull; binges are 12+ plays of one artist within 4 hours
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ function pickRemarks(stats: CardProps["stats"]): string[] {
   const remarks: string[] = [];
 
   // Rarity commentary
-  if (r.rarityScore > 75) {
+  if (r.rarityScore === null) {
+    remarks.push("No popularity data to judge your obscurity by. Suspiciously convenient.");
+  } else if (r.rarityScore > 75) {
     remarks.push("Your obscurity levels are frankly alarming. You've achieved a level of musical hipsterism that would make a Brooklyn record store clerk weep with pride.");
   } else if (r.rarityScore < 30) {
     remarks.push("You know there's more to music than the Spotify Top 50, right? I'm practically hearing the algorithm laughing.");
@@ -45,7 +47,7 @@ function pickRemarks(stats: CardProps["stats"]): string[] {
   }
 
   // Overall verdict
-  remarks.push(`Final score: ${r.overall}/100. Creativity ${r.creativity ?? 0}, rarity ${r.rarityScore}. Keep being weird in public.`);
+  remarks.push(`Final score: ${r.overall}/100. Creativity ${r.creativity ?? 0}, rarity ${r.rarityScore ?? '—'}. Keep being weird in public.`);
 
   return remarks;
 }
@@ -65,7 +67,7 @@ export default function SnobCard({ stats }: CardProps) {
       </div>
       <div className="muted" style={{ textAlign: "center", marginTop: 16 }}>
         Overall: {stats.playlistRater.overall}/100 &bull;
-        Rarity: {stats.playlistRater.rarityScore} &bull;
+        Rarity: {stats.playlistRater.rarityScore ?? '—'} &bull;
         Cohesion: {stats.playlistRater.cohesion} &bull;
         Variety: {stats.playlistRater.variety}
       </div>
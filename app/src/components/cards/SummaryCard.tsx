@@ -20,7 +20,7 @@ function buildSummary(stats:any, mode:"PG13"|"R", useStats:boolean){
     lines.push(`Cohesion ${r.cohesion} keeps things focused while variety ${r.variety} sprinkles discovery.`);
     if(rare) lines.push(`Bonus deep cut: “${rare}”. Nice pull.`);
   }
-  lines.push(`Overall score ${r.overall}. Creativity ${r.creativity}, rarity ${r.rarityScore}. Keep being weird in public.`);
+  lines.push(`Overall score ${r.overall}. Creativity ${r.creativity}, rarity ${r.rarityScore ?? '—'}. Keep being weird in public.`);
 
   return lines.join(" ");
 }
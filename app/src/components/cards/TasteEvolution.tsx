@@ -0,0 +1,76 @@
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import type { DriftEvent, TasteEvolution as Evolution } from "../../types";
+
+const PALETTE = ["#667eea", "#f093fb", "#34d399", "#fbbf24", "#f5576c", "#38bdf8", "#9aa0a6"];
+
+/** "2024-Q1" → "Q1 '24" */
+const quarterLabel = (q: string) => `${q.slice(5)} '${q.slice(2, 4)}`;
+
+function driftText(d: DriftEvent): string {
+  if (d.type === "takeover") return `${d.family} took over from ${d.previous} (${d.from}% → ${d.to}%)`;
+  return `${d.family} ${d.type === "rise" ? "rose" : "fell"} from ${d.from}% to ${d.to}%`;
+}
+
+export default function TasteEvolution({ evolution }: { evolution: Evolution | null }) {
+  if (!evolution || evolution.quarters.length < 2) return null;
+
+  const { families, quarters, drift, eras } = evolution;
+  const data = quarters.map(q => ({ quarter: quarterLabel(q.quarter), ...q.shares }));
+  const recent = drift.slice(-4).reverse();
+
+  return (
+    <div className="card" data-card="evolution">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div className="title">How Your Taste Moved</div>
+        <div className="muted">
+          {eras.length} era{eras.length === 1 ? "" : "s"} &bull; {drift.length} shift{drift.length === 1 ? "" : "s"}
+        </div>
+      </div>
+      <div style={{ height: 300 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data} margin={{ top: 8, right: 16, left: 8, bottom: 8 }}>
+            <XAxis
+              dataKey="quarter"
+              interval={Math.max(0, Math.floor(data.length / 8))}
+              tick={{ fontSize: 10, fill: "#9aa0a6" }}
+            />
+            <YAxis tick={{ fontSize: 10, fill: "#9aa0a6" }} domain={[0, 100]} unit="%" />
+            <Tooltip
+              formatter={(value: number, name: string) => [`${value}%`, name]}
+              contentStyle={{ borderRadius: 12, border: "1px solid var(--border)" }}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {families.map((f, i) => (
+              <Area
+                key={f}
+                type="monotone"
+                dataKey={f}
+                stackId="share"
+                stroke={PALETTE[i % PALETTE.length]}
+                fill={PALETTE[i % PALETTE.length]}
+                fillOpacity={0.55}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      {recent.length > 0 ? (
+        <ul style={{ listStyle: "none", padding: 0, margin: "8px 0 0" }}>
+          {recent.map(d => (
+            <li key={`${d.quarter}-${d.type}-${d.family}`} style={{ display: "flex", gap: 10, padding: "3px 0", fontSize: 13 }}>
+              <span className="muted" style={{ width: 56 }}>{quarterLabel(d.quarter)}</span>
+              <span>{driftText(d)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="muted" style={{ fontSize: 12, marginTop: 8 }}>
+          No sharp shifts: no family moved 15 points between quarters.
+        </div>
+      )}
+      <div className="muted" style={{ fontSize: 11, marginTop: 8 }}>
+        Share of each quarter&apos;s plays by genre family (UTC quarters)
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { CardProps } from "./types";
+import ArtistLink from "../ArtistLink";
+
+export default function TopArtists({ stats, onArtist }: CardProps) {
+  const artists = stats.topArtists ?? [];
+  if (!artists.length) return null;
+
+  return (
+    <div className="card" data-card="top-artists">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div className="title">Top Artists</div>
+        <div className="muted">by tracks in your library{onArtist ? " • click one for the deep dive" : ""}</div>
+      </div>
+      {artists.slice(0, 10).map((a, i) => (
+        <div key={a.artist} style={{ display: "flex", justifyContent: "space-between", gap: 12, padding: "5px 0", fontSize: 13, borderTop: i ? "1px solid rgba(255,255,255,0.05)" : "none" }}>
+          <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+            <span className="muted" style={{ display: "inline-block", width: 22 }}>{i + 1}</span>
+            <ArtistLink name={a.artist} onOpen={onArtist} style={{ fontWeight: 600 }} />
+            {a.topTrack && <span className="muted"> · {a.topTrack}</span>}
+          </span>
+          <span className="muted" style={{ whiteSpace: "nowrap" }}>
+            {a.trackCount} tracks &bull; {a.playCount.toLocaleString()} plays &bull; pop {a.avgPop}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 import type { Stats } from "../../types";
-export type CardProps = { stats: Stats };
\ No newline at end of file
+/** `onArtist` opens an artist's deep-dive page; cards render plain names without it. */
+export type CardProps = { stats: Stats; onArtist?: (name: string) => void };
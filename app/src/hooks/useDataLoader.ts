@@ -3,7 +3,8 @@
 // ============================================================================
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { fetchStats, fetchDebug } from '../api/client';
+import { fetchStats, fetchDebug, statsQueryString } from '../api/client';
+import type { StatsQuery } from '../types';
 import { logger } from '../utils/debugLogger';
 import dataFlowManager from '../data/dataFlowManager';
 
@@ -231,10 +232,11 @@ export function useDataLoader<T>(
 // SPECIALIZED HOOKS
 // ============================================================================
 
-export function useStatsData(profile = 'default') {
+export function useStatsData(profile = 'default', query: StatsQuery = {}) {
+  const qs = statsQueryString(query);
   return useDataLoader(
-    `stats_${profile}`,
-    () => fetchStats(profile).then(result => result.data.stats),
+    qs ? `stats_${profile}_${qs}` : `stats_${profile}`,
+    () => fetchStats(profile, query).then(result => result.data.stats),
     {
       autoFetch: true,
       retryAttempts: 1,
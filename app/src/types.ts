@@ -2,10 +2,27 @@
 // Keep this file in sync with server/src/common/types.ts.
 // Any field the server always emits should be required here (no `?`).
 
-export type GenreCount   = { genre: string; count: number };
+export type GenreCount   = { genre: string; count: number; family: string };
 export type TrendPoint   = { month: string; count: number };
 export type RareTrack    = { name: string; artist: string; pop: number };
 
+/** One hour of one weekday on the listener's clock; day 0 = Monday. */
+export type ClockCell = {
+  day:     number;
+  hour:    number;
+  plays:   number;
+  family:  string | null;   // most-played genre family
+  energy:  number | null;   // 0..1
+  valence: number | null;
+};
+
+export type ListeningClock = {
+  timeZone: string;
+  plays:    number;
+  cells:    ClockCell[];    // 168, Monday 00:00 first
+  peak:     { day: number; hour: number; plays: number } | null;
+};
+
 export type Taste = {
   avgValence:       number;
   avgEnergy:        number;
@@ -16,32 +33,248 @@ export type Taste = {
 
 export type PlaylistRater = {
   variety:      number;
-  rarityScore:  number;
+  rarityScore:  number | null;   // null when no track has a Spotify popularity
   cohesion:     number;
   creativity:   number;   // always emitted by server — not optional
   overall:      number;
 };
 
+// "Why this score": each component's value, weight and points, the rows behind it,
+// and what dropping those rows would change (re-scored server-side)
+export type ScoreDriver = { label: string; value: number; note?: string };
+export type Counterfactual = { action: string; metricDelta: number; scoreDelta: number };
+export type ScoreComponent = {
+  metric:         string;
+  label:          string;
+  value:          number;
+  weight:         number | null;   // null for flat bonuses and penalties
+  contribution:   number;
+  drivers:        ScoreDriver[];
+  counterfactual: Counterfactual | null;
+};
+export type ScoreExplanation = { score: number; components: ScoreComponent[]; notes: string[] };
+
+// How much data backs a number: sample size, 95% interval and a grade
+// (insufficient → greyed out, provisional → qualified, solid → stated plainly)
+export type Support = 'solid' | 'provisional' | 'insufficient';
+export type Confidence = { n: number; low: number; high: number; support: Support };
+
+export type TrackSkips = {
+  name:       string;
+  artist:     string;
+  plays:      number;
+  skips:      number;
+  skipRate:   number;         // 0..1
+  completion: number | null;  // mean share of the track played, 0..1
+};
+
+/** Only for sources that report ms_played / skipped (Spotify extended history). */
+export type SkipAnalytics = {
+  plays:           number;
+  skips:           number;
+  skipRate:        number;
+  completionRate:  number | null;
+  tracks:          TrackSkips[];
+  artists:         (Omit<TrackSkips, 'name'> & { tracks: number })[];
+  mostSkipped:     TrackSkips[];
+  lovedButSkipped: (TrackSkips & { why: 'saved' | 'replayed' })[];
+  byHour:          { hour: number; plays: number; skipRate: number | null }[];
+};
+
+export type Streak = { days: number; start: string; end: string };
+
+/** Temporal patterns over timestamped plays; days are UTC. */
+export type Patterns = {
+  streaks:    { longest: Streak | null; latest: Streak | null; top: Streak[] };
+  binges:     { artist: string; plays: number; start: string; end: string; hours: number }[];
+  obsessions: { name: string; artist: string; plays: number; start: string; end: string; spike: number | null }[];
+  comebacks:  { artist: string; gapDays: number; lastPlayed: string; returned: string; playsBefore: number; playsAfter: number }[];
+};
+
 export type Stats = {
   topUniqueGenres:  GenreCount[];
   discoveryTrend:   TrendPoint[];
   rareTracks:       RareTrack[];
   taste:            Taste;
   playlistRater:    PlaylistRater;
+  scoreExplanation?: ScoreExplanation;
+  confidence?:      { playlistRater: Record<keyof PlaylistRater, Confidence>; taste: Record<keyof Taste, Confidence> };
   activityTrend:    TrendPoint[];
   snob:             string;
   decadeBreakdown?: { decade: string; pct: number }[];
   genreArtists?:    { genre: string; artists: string[] }[];
   recentTracks?:    { name: string; artist: string; genres: string[]; playedAt: string }[];
   topArtists?:      { artist: string; trackCount: number; playCount: number; avgPop: number; topTrack: string }[];
+  listeningClock?:  ListeningClock;
+  skipAnalytics?:   SkipAnalytics | null;
+  patterns?:        Patterns;
   _counters?:       { uniqueTracks: number; uniquePlays: number };
   meta: {
     hash:    string;
     rows:    number;
     files:   number;    // always emitted by server
     skipped: number;    // always emitted by server
+    scoring: ScoringPreset;  // the preset the scores were computed with
     window:  { start: string; end: string };
   };
 };
 
-export type StatsResponse = { profile: string; stats: Stats };
+/** Filters and compute knobs for GET /api/stats; the server echoes back its normalised form. */
+export type StatsQuery = {
+  from?:             string;    // YYYY, YYYY-MM or YYYY-MM-DD (inclusive)
+  to?:               string;
+  year?:             number;
+  lastNDays?:        number;
+  playlist?:         string[];
+  rareMode?:         "topN" | "percentile";
+  rareN?:            number;
+  rarePercentile?:   number;
+  topGenresLimit?:   number;
+  weightedAverages?: boolean;
+  cutoffMonth?:      string;
+  skipWeight?:       number;    // 0..1, what a skipped play counts for in weighted averages
+  tz?:               string;    // IANA zone for the listening clock; defaults to the profile's setting
+  timeZone?:         string;    // how the server echoes tz back
+  scoring?:          ScoringPreset;  // defaults to the profile's, then the config's preset
+};
+
+export type ScoringPreset = 'default' | 'strict-critic' | 'generous' | 'cohesion-first' | 'explorer-first';
+
+export type StatsResponse = { profile: string; query?: StatsQuery; stats: Stats };
+
+// ─── Period comparison (GET /api/stats/compare?a=…&b=…) ──────────────────────
+
+export type Delta = { a: number; b: number; delta: number };
+
+export type ComparisonFinding = {
+  id:        string;
+  metric:    string;
+  direction: "up" | "down";
+  text:      string;
+};
+
+export type Comparison = {
+  taste:         Record<keyof Taste, Delta>;
+  playlistRater: Record<Exclude<keyof PlaylistRater, 'rarityScore'>, Delta> & { rarityScore: Delta | null };   // rarity: null unless both periods have one
+  genres:        { gained: GenreShift[]; lost: GenreShift[] };
+  artists:       { gained: { artist: string; playCount: number }[]; dropped: { artist: string; playCount: number }[] };
+  rarity:        { rarityScore: Delta | null; newRareTracks: RareTrack[] };
+  decades:       { decade: string; a: number; b: number; delta: number }[];
+  findings:      ComparisonFinding[];   // biggest shifts first
+};
+
+export type GenreShift = { genre: string; family: string; a: number; b: number; delta: number };  // % of tracks
+
+export type ComparePeriod = { label: string; query: StatsQuery; rows: number; window: { start: string; end: string } };
+
+export type CompareResponse = { profile: string; a: ComparePeriod; b: ComparePeriod; comparison: Comparison };
+
+// ─── Year in review (GET /api/wrapped?year=…) ────────────────────────────────
+
+export type Wrapped = {
+  year:          number;
+  years:         number[];   // every year with plays, newest first
+  totals:        { plays: number; tracks: number; artists: number; newArtists: number; minutes: number };
+  topArtists:    { artist: string; plays: number; tracks: number }[];
+  topTracks:     { name: string; artist: string; plays: number }[];
+  topGenres:     GenreCount[];
+  newArtists:    { artist: string; firstPlayed: string; plays: number }[];
+  busiestMonth:  { month: string; plays: number } | null;
+  busiestDay:    { date: string; plays: number } | null;
+  longestStreak: { days: number; start: string; end: string } | null;
+  obsession:     { name: string; artist: string; plays: number; start: string; end: string } | null;
+  taste:         Taste;
+  playlistRater: PlaylistRater;
+  verdict:       { title: string; text: string };
+};
+
+export type WrappedResponse = { profile: string; wrapped: Wrapped };
+
+// ─── Artist deep dive (GET /api/artists/:name) ───────────────────────────────
+
+export type ArtistTrack = {
+  name:        string;
+  album:       string;
+  plays:       number;
+  minutes:     number;
+  popularity:  number | null;
+  featured:    boolean;   // credited, but not the primary artist
+  firstPlayed: string | null;
+  lastPlayed:  string | null;
+};
+
+export type ArtistDeepDive = {
+  artist:      string;
+  totals:      { plays: number; tracks: number; albums: number; minutes: number; playlists: number };
+  firstPlayed: string | null;
+  lastPlayed:  string | null;
+  timeline:    { month: string; plays: number }[];
+  tracks:      ArtistTrack[];   // most-played first
+  albums:      { album: string; tracks: number; plays: number }[];
+  genres:      { genre: string; family: string; tracks: number }[];
+  audio:       { artist: Taste | null; you: Taste; delta: Taste | null };
+  rarity:      { avgPop: number | null; libraryAvgPop: number | null; rarerThan: number | null };
+  playlists:   { playlist: string; tracks: number }[];
+};
+
+export type ArtistResponse = { profile: string; artist: ArtistDeepDive };
+
+// ─── Taste evolution (GET /api/taste/evolution) ──────────────────────────────
+
+export type EvolutionQuarter = {
+  quarter:  string;                  // "2024-Q1"
+  plays:    number;
+  sparse:   boolean;                 // too few plays to measure drift
+  shares:   Record<string, number>;  // family → % of the quarter's plays
+  dominant: string | null;
+};
+
+export type DriftEvent = {
+  quarter:   string;
+  type:      "takeover" | "rise" | "fall";
+  family:    string;
+  from:      number;                 // share (%) the quarter before
+  to:        number;
+  previous?: string;                 // takeover: the family that lost the top spot
+};
+
+export type TasteEra = { family: string; start: string; end: string; quarters: number; plays: number; share: number };
+
+export type TasteEvolution = {
+  families:     string[];            // most-played first; the tail is folded into "Other"
+  quarters:     EvolutionQuarter[];  // oldest first
+  drift:        DriftEvent[];
+  eras:         TasteEra[];
+  unclassified: number;              // plays without genre data
+};
+
+export type EvolutionResponse = { profile: string; evolution: TasteEvolution };
+
+// ─── Benchmark (GET /api/benchmark) ──────────────────────────────────────────
+
+export type BenchmarkMetric = keyof PlaylistRater | keyof Taste;
+
+export type MetricRank = {
+  metric:     BenchmarkMetric;
+  label:      string;
+  value:      number;
+  percentile: number | null;   // share of the population below (ties half); null when not comparable
+};
+
+export type Benchmark = {
+  population: { source: "profiles" | "reference"; label: string; listeners: number | null };
+  metrics:    MetricRank[];
+  notes:      string[];
+};
+
+export type BenchmarkResponse = { profile: string; benchmark: Benchmark };
+
+// ─── Genre taxonomy (GET /api/genres/taxonomy, from server/data/genre_taxonomy.json) ──
+
+export type GenreTaxonomy = {
+  version:     number;
+  aliases:     Record<string, string>;
+  families:    { family: string; keywords: string[]; substyles: { style: string; keywords: string[] }[] }[];
+  eras:        { era: string; period: string; keywords: string[] }[];
+  otherFamily: string;
+};
@@ -6,4 +6,14 @@ export function shuffle<T>(arr:T[], seed?:string){
   for(let i=a.length-1;i>0;i--){ const j = Math.floor(rnd()*(i+1)); [a[i],a[j]]=[a[j],a[i]]; }
   return a;
 }
-export const clamp = (n:number, lo=0, hi=100)=> Math.max(lo, Math.min(hi, n));
\ No newline at end of file
+export const clamp = (n:number, lo=0, hi=100)=> Math.max(lo, Math.min(hi, n));
+/** Four tiers by percentile (top 5%, top 25%, above 40%, the rest), highest first: 3 → 0. */
+export const percentileTier = (pct:number): 0|1|2|3 => pct >= 95 ? 3 : pct >= 75 ? 2 : pct >= 40 ? 1 : 0;
+/** Wilson score interval (95%) for a share of k out of n; [0, 1] when n is 0. */
+export function wilsonInterval(k:number, n:number): [number, number]{
+  if(!n) return [0, 1];
+  const z = 1.96, p = k/n, denom = 1 + z*z/n;
+  const centre = (p + z*z/(2*n)) / denom;
+  const half = (z/denom) * Math.sqrt(p*(1-p)/n + z*z/(4*n*n));
+  return [Math.max(0, centre - half), Math.min(1, centre + half)];
+}
@@ -6,7 +6,7 @@ export type PlaylistRater = {
   variety:number; rarityScore:number; cohesion:number; creativity:number; overall:number;
 };
 export type Stats = {
-  topUniqueGenres: { genre:string; count:number }[];
+  topUniqueGenres: { genre:string; count:number; family:string }[];
   discoveryTrend: { month:string; count:number }[];
   rareTracks: { name:string; artist:string; pop:number }[];
   taste: Taste;
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { PROFILES_DIR, ROOT_DIR } from "../config/index.js";
+import { DataService } from "../services/dataService.js";
+import { StatsService } from "../services/statsService.js";
+import { BENCHMARK_METRICS, QUANTILE_STEPS, REFERENCE_FILE, metricValues, quantiles, type BenchmarkReference, type MetricValues } from "../compute/benchmark.js";
+
+/**
+ * Builds data/benchmark_reference.json (read by compute/benchmark.ts) from local profiles.
+ *
+ *   npm run benchmark                                # every profile with data
+ *   npm run benchmark -- --profile alice --profile bob --min 2
+ *   npm run benchmark -- --label "Our office" --out /tmp/reference.json
+ *
+ * Each profile is reduced to its whole-library stats under the default preset,
+ * and only per-metric quantiles (0th, 5th … 100th) are written: no names, tracks
+ * or per-listener rows. The 0th and 100th quantiles are still one listener's own
+ * value, which is why fewer than --min listeners (default 10) is refused.
+ */
+
+const USAGE = `Usage: npm run benchmark -- [--profile <name>]... [--min 10] [--label <text>] [--out <file>]`;
+
+function fail(message: string): never {
+  console.error(`[benchmark] ${message}`);
+  process.exit(1);
+}
+
+function localProfiles(): string[] {
+  if (!fs.existsSync(PROFILES_DIR)) return [];
+  return fs.readdirSync(PROFILES_DIR, { withFileTypes: true })
+    .filter(e => e.isDirectory() && DataService.getDataPath(e.name) !== null)
+    .map(e => e.name)
+    .sort();
+}
+
+async function main() {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        profile: { type: "string", multiple: true },
+        min: { type: "string", default: "10" },
+        label: { type: "string", default: "Local reference" },
+        out: { type: "string", default: REFERENCE_FILE },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }).values;
+  } catch (err: any) {
+    fail(`${err?.message || err}\n${USAGE}`);
+  }
+  if (args.help) { console.log(USAGE); return; }
+  const min = Number(args.min);
+  if (!(Number.isInteger(min) && min >= 1)) fail(`--min must be a positive integer, got ${args.min}`);
+
+  const profiles = args.profile?.length ? args.profile : localProfiles();
+  const listeners: MetricValues[] = [];
+  for (const profile of profiles) {
+    try {
+      const { stats } = await StatsService.getStats(profile, { scoring: "default" });
+      if (stats) listeners.push(metricValues(stats));
+      else console.warn(`[benchmark] ${profile}: no usable rows, skipped`);
+    } catch (err: any) {
+      if (err?.message !== "DataNotFound") throw err;
+      console.warn(`[benchmark] ${profile}: no music data, skipped`);
+    }
+  }
+  if (listeners.length < min) fail(`${listeners.length} listeners with data, need at least ${min} (--min)`);
+
+  const metrics: BenchmarkReference["metrics"] = {};
+  for (const { metric } of BENCHMARK_METRICS) {
+    const vs = listeners.map(l => l[metric]).filter((v): v is number => v !== undefined);
+    if (vs.length >= min) metrics[metric] = quantiles(vs, QUANTILE_STEPS);
+  }
+  const reference: BenchmarkReference = {
+    version: 1,
+    label: args.label!,
+    source: `Quantiles of ${listeners.length} local profiles' whole-library stats, built ${new Date().toISOString().slice(0, 10)} with \`npm run benchmark\`.`,
+    listeners: listeners.length,
+    scoring: "default",
+    metrics,
+  };
+  fs.mkdirSync(path.dirname(args.out!), { recursive: true });
+  fs.writeFileSync(args.out!, JSON.stringify(reference, null, 2) + "\n");
+  console.log(`[benchmark] ${Object.keys(metrics).length} metrics over ${listeners.length} listeners → ${path.relative(ROOT_DIR, path.resolve(args.out!))}`);
+}
+
+main().catch(err => fail(err?.stack || String(err)));
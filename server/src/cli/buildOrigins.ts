@@ -0,0 +1,295 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import readline from "readline";
+import { parseArgs } from "util";
+import { parse } from "csv-parse/sync";
+import { CONFIG, ROOT_DIR } from "../config/index.js";
+import { DataService } from "../services/dataService.js";
+import { creditedArtists } from "../compute/artistCredits.js";
+import { continentOnly, countryCode } from "../compute/geo.js";
+import type { IngestRow } from "../ingest/types.js";
+import { ORIGIN_FILE, OVERRIDES_FILE, completeOrigin, loadOverrides, originKey, type Origin } from "../compute/origin.js";
+
+/**
+ * Builds cache/artist_origin.json (read by compute/origin.ts) offline.
+ *
+ *   npm run origins -- --mb ~/Downloads/mbdump/artist
+ *   npm run origins -- --csv my-origins.csv --profile alice
+ *   npm run origins                          # coverage report only
+ *
+ * Sources, strongest first:
+ *   overrides  cache/artist_origin.overrides.json — applied at lookup time, always wins
+ *   --csv      artist,country[,continent]; country may be a code or a name
+ *   --mb       the `artist` file from a MusicBrainz JSON dump (mbdump/artist, one
+ *              artist per line; .gz is fine, extract .tar.xz first). Only artists
+ *              in the profile's library are kept.
+ *
+ * MusicBrainz matching: exact name, then alias, then fuzzy (edit-distance
+ * similarity ≥ --fuzzy on the loose origin key). Country comes from the artist's
+ * country, area or begin area (ISO codes, then area names); continent from the country.
+ *
+ * Entries from earlier runs are kept unless --fresh. Writes a coverage report for
+ * the profile's artists to cache/artist_origin.report.json; fix misses by adding
+ * them to the overrides file.
+ */
+
+const REPORT_FILE = path.join(path.dirname(ORIGIN_FILE), "artist_origin.report.json");
+const MIN_FUZZY_KEY = 5;          // shorter names only match exactly
+const MAX_LISTED_MISSES = 25;
+
+type Match = "exact" | "alias" | "fuzzy";
+type Wanted = { name: string; plays: number };
+type Candidate = { origin: Origin; match: Match; similarity: number; votes: number };
+
+type MbArea = { name?: string; "iso-3166-1-codes"?: string[]; "iso-3166-2-codes"?: string[] };
+type MbArtist = {
+  id?: string;
+  name?: string;
+  country?: string | null;
+  area?: MbArea | null;
+  "begin-area"?: MbArea | null;
+  aliases?: { name?: string }[];
+  rating?: { "votes-count"?: number };
+};
+
+const USAGE = `Usage: npm run origins -- [--mb <mbdump/artist>] [--csv <file>] [--profile <name>]... [--fresh] [--fuzzy 0.9]`;
+
+function fail(message: string): never {
+  console.error(`[origins] ${message}`);
+  process.exit(1);
+}
+
+// ── Profile artists ───────────────────────────────────────────────────────────
+
+async function profileArtists(profiles: string[]): Promise<Map<string, Wanted>> {
+  const wanted = new Map<string, Wanted>();
+  for (const profile of profiles) {
+    let rows: IngestRow[];
+    try {
+      rows = await DataService.loadData(profile);
+    } catch (err: any) {
+      fail(err?.message === "DataNotFound" ? `profile "${profile}" has no music data` : `profile "${profile}": ${err?.message || err}`);
+    }
+    for (const r of rows) {
+      for (const name of creditedArtists(r["Artist Name(s)"], r["Track Name"])) {
+        const key = originKey(name);
+        if (!key) continue;
+        const w = wanted.get(key) ?? wanted.set(key, { name, plays: 0 }).get(key)!;
+        w.plays++;
+      }
+    }
+  }
+  return wanted;
+}
+
+// ── CSV ───────────────────────────────────────────────────────────────────────
+
+function readCsvOrigins(file: string): Map<string, { name: string; origin: Origin }> {
+  const records: Record<string, string>[] = parse(fs.readFileSync(file), {
+    columns: (h: string[]) => h.map(c => c.trim().toLowerCase()),
+    skip_empty_lines: true, relax_column_count: true, bom: true, trim: true,
+  });
+  const out = new Map<string, { name: string; origin: Origin }>();
+  let bad = 0;
+  for (const rec of records) {
+    const name = rec["artist"] ?? rec["name"] ?? rec["artist name"] ?? "";
+    const origin = completeOrigin({ country: rec["country"] ?? rec["area"], continent: rec["continent"], source: "csv" });
+    if (!originKey(name) || !origin) { bad++; continue; }
+    out.set(originKey(name), { name, origin });
+  }
+  console.log(`[origins] ${path.basename(file)}: ${out.size} artists${bad ? `, ${bad} rows without a usable artist/country` : ""}`);
+  return out;
+}
+
+// ── MusicBrainz ───────────────────────────────────────────────────────────────
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const up = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = up;
+    }
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+function areaCountry(area?: MbArea | null): string | null {
+  if (!area) return null;
+  return countryCode(area["iso-3166-1-codes"]?.[0]) ?? countryCode(area["iso-3166-2-codes"]?.[0]) ?? countryCode(area.name);
+}
+
+function mbOrigin(a: MbArtist): Origin | null {
+  const country = countryCode(a.country) ?? areaCountry(a.area) ?? areaCountry(a["begin-area"]);
+  if (country) return completeOrigin({ country, source: "musicbrainz", mbid: a.id });
+  const continent = continentOnly(a.country) ?? continentOnly(a.area?.name);
+  return continent ? { continent, source: "musicbrainz", mbid: a.id } : null;
+}
+
+const RANK: Record<Match, number> = { exact: 3, alias: 2, fuzzy: 1 };
+const better = (a: Candidate, b: Candidate | undefined) =>
+  !b ? 1 : RANK[a.match] - RANK[b.match] || a.similarity - b.similarity || Number(!!a.origin.country) - Number(!!b.origin.country) || a.votes - b.votes;
+
+function dumpStream(file: string): NodeJS.ReadableStream {
+  if (!fs.existsSync(file)) fail(`${file} does not exist`);
+  if (fs.statSync(file).isDirectory()) {
+    const inner = [path.join(file, "mbdump", "artist"), path.join(file, "artist")].find(f => fs.existsSync(f));
+    if (!inner) fail(`${file} has no mbdump/artist file`);
+    return dumpStream(inner);
+  }
+  if (/\.tar(\.xz|\.bz2)?$/.test(file)) fail(`extract the dump first: tar -xJf ${path.basename(file)} mbdump/artist`);
+  const raw = fs.createReadStream(file);
+  return file.endsWith(".gz") ? raw.pipe(zlib.createGunzip()) : raw;
+}
+
+async function matchMusicBrainz(file: string, wanted: Map<string, Wanted>, fuzzyMin: number): Promise<Map<string, Candidate>> {
+  // Fuzzy candidates are blocked on the key's first two characters
+  const blocks = new Map<string, string[]>();
+  for (const key of wanted.keys()) {
+    if (key.length < MIN_FUZZY_KEY) continue;
+    (blocks.get(key.slice(0, 2)) ?? blocks.set(key.slice(0, 2), []).get(key.slice(0, 2))!).push(key);
+  }
+
+  const best = new Map<string, Candidate>();
+  const offer = (key: string, c: Candidate) => { if (better(c, best.get(key)) > 0) best.set(key, c); };
+
+  let lines = 0, unparsable = 0;
+  const input = readline.createInterface({ input: dumpStream(file), crlfDelay: Infinity });
+  for await (const line of input) {
+    if (++lines % 250_000 === 0) console.log(`[origins] ${lines.toLocaleString()} MusicBrainz artists scanned…`);
+    if (!line) continue;
+    let a: MbArtist;
+    try { a = JSON.parse(line); } catch { unparsable++; continue; }
+
+    const names: [string, Match][] = [[a.name ?? "", "exact"], ...(a.aliases ?? []).map(x => [x.name ?? "", "alias"] as [string, Match])];
+    let origin: Origin | null | undefined;
+    const votes = a.rating?.["votes-count"] ?? 0;
+    for (const [name, match] of names) {
+      const key = originKey(name);
+      if (!key) continue;
+      if (wanted.has(key)) {
+        origin ??= mbOrigin(a);
+        if (origin) offer(key, { origin, match, similarity: 1, votes });
+      }
+      if (key.length < MIN_FUZZY_KEY) continue;
+      for (const w of blocks.get(key.slice(0, 2)) ?? []) {
+        if (w === key || Math.abs(w.length - key.length) > 2) continue;
+        const sim = similarity(w, key);
+        if (sim < fuzzyMin) continue;
+        origin ??= mbOrigin(a);
+        if (origin) offer(w, { origin, match: "fuzzy", similarity: sim, votes });
+      }
+    }
+  }
+  console.log(`[origins] MusicBrainz: ${lines.toLocaleString()} artists scanned, ${best.size} of ${wanted.size} library artists matched${unparsable ? ` (${unparsable} unparsable lines)` : ""}`);
+  return best;
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+async function main() {
+  let args;
+  try {
+    args = parseArgs({
+      options: {
+        mb: { type: "string" },
+        csv: { type: "string", multiple: true },
+        profile: { type: "string", multiple: true },
+        fresh: { type: "boolean", default: false },
+        fuzzy: { type: "string", default: "0.9" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }).values;
+  } catch (err: any) {
+    fail(`${err?.message || err}\n${USAGE}`);
+  }
+  if (args.help) { console.log(USAGE); return; }
+  const fuzzyMin = Number(args.fuzzy);
+  if (!(fuzzyMin > 0 && fuzzyMin <= 1)) fail(`--fuzzy must be in (0, 1], got ${args.fuzzy}`);
+
+  const profiles = args.profile?.length ? args.profile : [CONFIG.defaultProfile];
+  const wanted = await profileArtists(profiles);
+  console.log(`[origins] ${wanted.size} artists in ${profiles.join(", ")}`);
+
+  // key → [display name, origin]
+  const db = new Map<string, [string, Origin]>();
+  if (!args.fresh && fs.existsSync(ORIGIN_FILE)) {
+    try {
+      for (const [name, o] of Object.entries(JSON.parse(fs.readFileSync(ORIGIN_FILE, "utf8")) as Record<string, Origin | null>)) {
+        if (o) db.set(originKey(name), [name, o]);
+      }
+    } catch (err: any) {
+      fail(`${ORIGIN_FILE} is unreadable (${err?.message || err}); fix it or pass --fresh`);
+    }
+  }
+
+  if (args.mb) {
+    for (const [key, c] of await matchMusicBrainz(args.mb, wanted, fuzzyMin)) {
+      db.set(key, [wanted.get(key)!.name.toLowerCase(), { ...c.origin, ...(c.match !== "exact" ? { match: c.match } : {}) }]);
+    }
+  }
+  for (const file of args.csv ?? []) {
+    if (!fs.existsSync(file)) fail(`${file} does not exist`);
+    for (const [key, { name, origin }] of readCsvOrigins(file)) db.set(key, [name.toLowerCase(), origin]);
+  }
+
+  if (args.mb || args.csv?.length || args.fresh) {
+    const out = Object.fromEntries([...db.values()].sort((a, b) => a[0].localeCompare(b[0])));
+    fs.mkdirSync(path.dirname(ORIGIN_FILE), { recursive: true });
+    fs.writeFileSync(ORIGIN_FILE, JSON.stringify(out, null, 2));
+    console.log(`[origins] wrote ${db.size} artists to ${path.relative(ROOT_DIR, ORIGIN_FILE)}`);
+  }
+
+  report(profiles, wanted, db);
+}
+
+function report(profiles: string[], wanted: Map<string, Wanted>, db: Map<string, [string, Origin]>) {
+  const overrides = new Map(Object.entries(loadOverrides()).map(([name, o]) => [originKey(name), o]));
+  const bySource: Record<string, number> = {};
+  const byContinent: Record<string, number> = {};
+  const misses: Wanted[] = [];
+  let covered = 0, playsCovered = 0, playsTotal = 0;
+
+  for (const [key, w] of wanted) {
+    playsTotal += w.plays;
+    const o = overrides.has(key) ? overrides.get(key) && completeOrigin(overrides.get(key)!) : db.get(key)?.[1];
+    if (!o) { misses.push(w); continue; }
+    const source = overrides.has(key) ? "override" : o.match ? `${o.source} (${o.match})` : o.source ?? "unknown";
+    bySource[source] = (bySource[source] || 0) + 1;
+    byContinent[o.continent ?? "Unknown"] = (byContinent[o.continent ?? "Unknown"] || 0) + 1;
+    covered++;
+    playsCovered += w.plays;
+  }
+  misses.sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name));
+
+  const pct = (n: number, d: number) => (d ? Math.round((n / d) * 1000) / 10 : 0);
+  const summary = {
+    generatedAt: new Date().toISOString(),
+    profiles,
+    artists: wanted.size,
+    covered,
+    coveragePct: pct(covered, wanted.size),
+    playCoveragePct: pct(playsCovered, playsTotal),
+    bySource,
+    byContinent,
+    misses: misses.map(m => ({ artist: m.name, plays: m.plays })),
+  };
+  fs.mkdirSync(path.dirname(REPORT_FILE), { recursive: true });
+  fs.writeFileSync(REPORT_FILE, JSON.stringify(summary, null, 2));
+
+  console.log(`\nCoverage for ${profiles.join(", ")}: ${covered}/${wanted.size} artists (${summary.coveragePct}%), ${summary.playCoveragePct}% of plays`);
+  for (const [source, n] of Object.entries(bySource).sort((a, b) => b[1] - a[1])) console.log(`  ${source.padEnd(24)} ${n}`);
+  if (misses.length) {
+    console.log(`\nMost-played artists without an origin:`);
+    for (const m of misses.slice(0, MAX_LISTED_MISSES)) console.log(`  ${String(m.plays).padStart(6)}  ${m.name}`);
+    if (misses.length > MAX_LISTED_MISSES) console.log(`  … ${misses.length - MAX_LISTED_MISSES} more in ${path.relative(ROOT_DIR, REPORT_FILE)}`);
+    console.log(`\nFix misses in ${path.relative(ROOT_DIR, OVERRIDES_FILE)}: { "Artist Name": { "country": "GB" } }`);
+  }
+}
+
+main().catch(err => fail(err?.stack || String(err)));
@@ -3,6 +3,10 @@ const ERROR_CODE = {
   DataNotFound: "SNB-1002",
   CsvMissing: "SNB-1003",
   CsvSchemaInvalid: "SNB-1004",
+  UploadModeInvalid: "SNB-1005",
+  JobNotFound: "SNB-1006",
+  JobNotRetryable: "SNB-1007",
+  QueryInvalid: "SNB-1008",
   ComputeFailed: "SNB-2001",
   CacheReadFailed: "SNB-3001",
   CacheWriteFailed: "SNB-3002",
@@ -1,24 +1,38 @@
+import type { ListeningClock } from "../compute/clock.js";
+import type { SkipAnalytics } from "../compute/skips.js";
+import type { Patterns } from "../compute/patterns.js";
+import type { ScoreExplanation } from "../compute/explain.js";
+import type { Confidence } from "../compute/confidence.js";
+
 export type Taste = {
   avgValence:number; avgEnergy:number; avgDanceability:number;
   acousticBias:number; instrumentalBias:number;
 };
 export type PlaylistRater = {
-  variety:number; rarityScore:number; cohesion:number; creativity:number; overall:number;
+  variety:number; rarityScore:number|null; cohesion:number; creativity:number; overall:number;   // rarity: null when no track has a popularity
 };
 export type Stats = {
-  topUniqueGenres: { genre:string; count:number }[];
+  topUniqueGenres: { genre:string; count:number; family:string }[];
   discoveryTrend: { month:string; count:number }[];
   rareTracks: { name:string; artist:string; pop:number }[];
   taste: Taste;
   playlistRater: PlaylistRater;
+  scoreExplanation?: ScoreExplanation;   // why playlistRater.overall is what it is
+  confidence?: {                         // sample size, 95% interval and support per metric
+    playlistRater: Record<keyof PlaylistRater, Confidence>;
+    taste: Record<keyof Taste, Confidence>;
+  };
   activityTrend: { month:string; count:number }[];
   snob: string;
   decadeBreakdown?: { decade:string; pct:number }[];
   genreArtists?:    { genre:string; artists:string[] }[];
   recentTracks?:    { name:string; artist:string; genres:string[]; playedAt:string }[];
   topArtists?:      { artist:string; trackCount:number; playCount:number; avgPop:number; topTrack:string }[];
+  listeningClock?:  ListeningClock;
+  skipAnalytics?:   SkipAnalytics | null;
+  patterns?:        Patterns;
   _counters?: { uniqueTracks:number; uniquePlays:number };
-  meta: { hash:string; rows:number; files:number; skipped:number; window:{ start:string; end:string } };
+  meta: { hash:string; rows:number; files:number; skipped:number; scoring:string; window:{ start:string; end:string } };
 };
 export type ErrorEnvelope = {
   error: { code:string; message:string; reqId:string; hint?:string; details?:unknown };
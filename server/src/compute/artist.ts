@@ -0,0 +1,206 @@
+import type { Taste } from "../common/types.js";
+import { resolveRecordings } from "../ingest/identity.js";
+import { creditedArtists, primaryArtist } from "./artistCredits.js";
+import { familyOf, splitGenres } from "./genres.js";
+import { monthKeyUTC, toPlays, type PlayRow } from "./plays.js";
+
+/**
+ * One artist across the whole profile (/api/artists/:name).
+ *
+ * A track belongs to the artist when they're credited as a main or featured
+ * artist, so "Too Good (feat. Rihanna)" shows up on Rihanna's page too,
+ * flagged `featured`. Catalog data (album, genres, popularity, audio features)
+ * comes from the richest row of each recording, as in compute(). Rarity is
+ * the artist's mean popularity against every other primary artist in the
+ * library; audio features are compared with the profile's overall `taste`.
+ */
+
+type ArtistRow = PlayRow & {
+  ["Album Name"]?: string; ["Genres"]?: string; ["Popularity"]?: number;
+  ["Valence"]?: number; ["Energy"]?: number; ["Danceability"]?: number;
+  ["Acousticness"]?: number; ["Instrumentalness"]?: number;
+  _src?: { playlist?: string };
+};
+
+export type ArtistTrack = {
+  name: string;
+  album: string;
+  plays: number;
+  minutes: number;
+  popularity: number | null;
+  featured: boolean;          // credited, but not the primary artist
+  firstPlayed: string | null;
+  lastPlayed: string | null;
+};
+
+export type ArtistDeepDive = {
+  artist: string;             // spelling as most often credited
+  totals: { plays: number; tracks: number; albums: number; minutes: number; playlists: number };
+  firstPlayed: string | null; // ISO timestamps
+  lastPlayed: string | null;
+  timeline: { month: string; plays: number }[];  // UTC months, first play to last, gaps filled with 0
+  tracks: ArtistTrack[];      // most-played first
+  albums: { album: string; tracks: number; plays: number }[];
+  genres: { genre: string; family: string; tracks: number }[];
+  audio: { artist: Taste | null; you: Taste; delta: Taste | null };  // delta = artist − you
+  rarity: {
+    avgPop: number | null;          // mean popularity of the artist's tracks
+    libraryAvgPop: number | null;   // same over the whole library
+    rarerThan: number | null;       // % of the library's artists with a higher mean popularity
+  };
+  playlists: { playlist: string; tracks: number }[];
+};
+
+const FEATURE_KEYS: [keyof Taste, "Valence" | "Energy" | "Danceability" | "Acousticness" | "Instrumentalness"][] = [
+  ["avgValence", "Valence"], ["avgEnergy", "Energy"], ["avgDanceability", "Danceability"],
+  ["acousticBias", "Acousticness"], ["instrumentalBias", "Instrumentalness"],
+];
+
+const round = (n: number, dp = 0) => { const f = 10 ** dp; return Math.round(n * f) / f; };
+const hasFeatures = (r: ArtistRow) => !!(r["Energy"] || r["Valence"] || r["Danceability"]);
+
+/** Every UTC month from `first` to `last` inclusive, YYYY-MM. */
+function monthsBetween(first: string, last: string): string[] {
+  const out: string[] = [];
+  let [y, m] = first.split("-").map(Number);
+  for (let key = first; key <= last; key = `${y}-${String(m).padStart(2, "0")}`) {
+    out.push(key);
+    if (++m > 12) { m = 1; y++; }
+  }
+  return out;
+}
+
+/** Null when the artist has no tracks in the profile. */
+export function artistDeepDive(rows: ArtistRow[], name: string, you: Taste): ArtistDeepDive | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+  const { recordingOf } = resolveRecordings(rows);
+
+  // Richest row per recording, and whether the wanted artist is credited on it
+  const score = (r: ArtistRow) => (r["Genres"] ? 2 : 0) + ((r["Popularity"] || 0) > 0 ? 1 : 0) + (hasFeatures(r) ? 1 : 0);
+  const catalog = new Map<string, ArtistRow>();
+  for (const r of rows) {
+    if (!r["Track URI"]) continue;
+    const rid = recordingOf(r["Track URI"]);
+    const prev = catalog.get(rid);
+    if (!prev || score(r) > score(prev)) catalog.set(rid, r);
+  }
+
+  const spellings = new Map<string, number>();
+  const mine = new Map<string, { row: ArtistRow; featured: boolean }>();
+  for (const [rid, r] of catalog) {
+    const credited = creditedArtists(r["Artist Name(s)"], r["Track Name"]);
+    const hit = credited.find(a => a.toLowerCase() === wanted);
+    if (!hit) continue;
+    spellings.set(hit, (spellings.get(hit) || 0) + 1);
+    mine.set(rid, { row: r, featured: primaryArtist(r["Artist Name(s)"], r["Track Name"]).toLowerCase() !== wanted });
+  }
+  if (!mine.size) return null;
+
+  // Plays
+  const plays = toPlays(rows, recordingOf).filter(p => mine.has(p.rid));
+  const perTrack = new Map<string, { plays: number; ms: number; first: Date; last: Date }>();
+  const perMonth = new Map<string, number>();
+  for (const p of plays) {
+    const t = perTrack.get(p.rid);
+    if (t) { t.plays++; t.ms += p.ms; t.last = p.at; }
+    else perTrack.set(p.rid, { plays: 1, ms: p.ms, first: p.at, last: p.at });
+    const mk = monthKeyUTC(p.at);
+    perMonth.set(mk, (perMonth.get(mk) || 0) + 1);
+  }
+  const months = [...perMonth.keys()].sort();
+  const timeline = months.length
+    ? monthsBetween(months[0], months[months.length - 1]).map(month => ({ month, plays: perMonth.get(month) || 0 }))
+    : [];
+
+  const tracks: ArtistTrack[] = [...mine.entries()].map(([rid, { row, featured }]) => {
+    const t = perTrack.get(rid);
+    return {
+      name: row["Track Name"] || "",
+      album: row["Album Name"] || "",
+      plays: t?.plays ?? 0,
+      minutes: t ? round(t.ms / 60000, 1) : 0,
+      popularity: (row["Popularity"] || 0) > 0 ? row["Popularity"]! : null,
+      featured,
+      firstPlayed: t ? t.first.toISOString() : null,
+      lastPlayed: t ? t.last.toISOString() : null,
+    };
+  }).sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name));
+
+  // Albums, genres and playlists
+  const albums = new Map<string, { tracks: number; plays: number }>();
+  for (const t of tracks) {
+    if (!t.album) continue;
+    const a = albums.get(t.album) ?? albums.set(t.album, { tracks: 0, plays: 0 }).get(t.album)!;
+    a.tracks++; a.plays += t.plays;
+  }
+  const genreCounts = new Map<string, number>();
+  for (const { row } of mine.values()) for (const g of splitGenres(row["Genres"])) genreCounts.set(g, (genreCounts.get(g) || 0) + 1);
+
+  const playlistTracks = new Map<string, Set<string>>();
+  for (const r of rows) {
+    const pl = r._src?.playlist;
+    if (!pl || !r["Track URI"]) continue;
+    const rid = recordingOf(r["Track URI"]);
+    if (!mine.has(rid)) continue;
+    (playlistTracks.get(pl) ?? playlistTracks.set(pl, new Set()).get(pl)!).add(rid);
+  }
+  const playlists = [...playlistTracks.entries()]
+    .map(([playlist, rids]) => ({ playlist, tracks: rids.size }))
+    .sort((a, b) => b.tracks - a.tracks || a.playlist.localeCompare(b.playlist));
+
+  // Audio features against the profile's taste
+  const analysed = [...mine.values()].map(x => x.row).filter(hasFeatures);
+  let audio: ArtistDeepDive["audio"] = { artist: null, you, delta: null };
+  if (analysed.length) {
+    const artist = {} as Taste, delta = {} as Taste;
+    for (const [key, col] of FEATURE_KEYS) {
+      artist[key] = round(analysed.reduce((s, r) => s + (Number(r[col]) || 0), 0) / analysed.length, 3);
+      delta[key] = round(artist[key] - you[key], 3);
+    }
+    audio = { artist, you, delta };
+  }
+
+  // Rarity: mean popularity per primary artist across the library
+  const popByArtist = new Map<string, { sum: number; n: number }>();
+  let libSum = 0, libN = 0;
+  for (const r of catalog.values()) {
+    const pop = r["Popularity"] || 0;
+    if (pop <= 0) continue;
+    libSum += pop; libN++;
+    const a = primaryArtist(r["Artist Name(s)"], r["Track Name"]).toLowerCase();
+    if (!a) continue;
+    const e = popByArtist.get(a) ?? popByArtist.set(a, { sum: 0, n: 0 }).get(a)!;
+    e.sum += pop; e.n++;
+  }
+  const popular = tracks.filter(t => t.popularity !== null);
+  const avgPop = popular.length ? round(popular.reduce((s, t) => s + t.popularity!, 0) / popular.length, 1) : null;
+  const others = [...popByArtist.entries()].filter(([a]) => a !== wanted).map(([, e]) => e.sum / e.n);
+  const rarerThan = avgPop !== null && others.length
+    ? Math.round((others.filter(p => p > avgPop).length / others.length) * 100)
+    : null;
+
+  const byCount = (a: [string, number], b: [string, number]) => b[1] - a[1] || a[0].localeCompare(b[0]);
+
+  return {
+    artist: [...spellings.entries()].sort(byCount)[0][0],
+    totals: {
+      plays: plays.length,
+      tracks: tracks.length,
+      albums: albums.size,
+      minutes: Math.round(plays.reduce((s, p) => s + p.ms, 0) / 60000),
+      playlists: playlists.length,
+    },
+    firstPlayed: plays.length ? plays[0].at.toISOString() : null,
+    lastPlayed: plays.length ? plays[plays.length - 1].at.toISOString() : null,
+    timeline,
+    tracks,
+    albums: [...albums.entries()]
+      .map(([album, a]) => ({ album, ...a }))
+      .sort((a, b) => b.plays - a.plays || b.tracks - a.tracks || a.album.localeCompare(b.album)),
+    genres: [...genreCounts.entries()].sort(byCount).map(([genre, n]) => ({ genre, family: familyOf(genre), tracks: n })),
+    audio,
+    rarity: { avgPop, libraryAvgPop: libN ? round(libSum / libN, 1) : null, rarerThan },
+    playlists,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { creditedArtists, parseArtistCredits, primaryArtist } from "./artistCredits.js";
+
+const credits = (artists: string, title?: string) =>
+  parseArtistCredits(artists, title).credits.map(c => `${c.name} (${c.role})`);
+
+describe("parseArtistCredits", () => {
+  it.each<[string, string, string | undefined, string[]]>([
+    ["splits on commas and semicolons", "Calvin Harris, Dua Lipa; Young Thug", undefined, ["Calvin Harris (main)", "Dua Lipa (main)", "Young Thug (main)"]],
+    ["splits on x and vs.", "Skrillex x Diplo vs. Justin Bieber", undefined, ["Skrillex (main)", "Diplo (main)", "Justin Bieber (main)"]],
+    ["splits on &", "Disclosure & Sam Smith", undefined, ["Disclosure (main)", "Sam Smith (main)"]],
+    ["keeps & + band suffix together", "Bob Marley & The Wailers", undefined, ["Bob Marley & The Wailers (main)"]],
+    ["keeps known names with separators", "Earth, Wind & Fire", undefined, ["Earth, Wind & Fire (main)"]],
+    ["keeps a known name inside a list", "Tyler, The Creator, Kali Uchis", undefined, ["Tyler, The Creator (main)", "Kali Uchis (main)"]],
+    ["never splits main artists on and", "Belle and Sebastian", undefined, ["Belle and Sebastian (main)"]],
+    ["feat. starts the featured artists", "Mark Ronson feat. Bruno Mars", undefined, ["Mark Ronson (main)", "Bruno Mars (featured)"]],
+    ["featured artists split on and", "DJ Khaled ft. Rihanna and Bryson Tiller", undefined, ["DJ Khaled (main)", "Rihanna (featured)", "Bryson Tiller (featured)"]],
+    ["the title re-tags a featured artist", "Drake, Rihanna", "Too Good (feat. Rihanna)", ["Drake (main)", "Rihanna (featured)"]],
+    ["the title adds a missing featured artist", "Daft Punk", "Get Lucky (feat. Pharrell Williams)", ["Daft Punk (main)", "Pharrell Williams (featured)"]],
+    ["the title names a remixer", "Dua Lipa, The Blessed Madonna", "Levitating (The Blessed Madonna Remix)", ["Dua Lipa (main)", "The Blessed Madonna (remixer)"]],
+    ["a dash remix credit", "Lorde", "Green Light - Chromeo Remix", ["Lorde (main)", "Chromeo (remixer)"]],
+    ["a year remix is a version, not a person", "Depeche Mode", "Enjoy the Silence (2004 Remix)", ["Depeche Mode (main)"]],
+    ["the title names a producer", "Kanye West", "Gorgeous (prod. No I.D.)", ["Kanye West (main)", "No I.D. (producer)"]],
+    ["the title never re-tags the first artist", "Rihanna, Drake", "Work (feat. Rihanna)", ["Rihanna (main)", "Drake (main)"]],
+    ["credits appear once", "Kendrick Lamar, SZA, Kendrick Lamar", undefined, ["Kendrick Lamar (main)", "SZA (main)"]],
+    ["an empty field", "", undefined, []],
+  ])("%s", (_, artists, title, expected) => {
+    expect(credits(artists, title)).toEqual(expected);
+  });
+});
+
+describe("primaryArtist", () => {
+  it.each<[string | undefined, string | undefined, string]>([
+    ["Calvin Harris, Dua Lipa", undefined, "Calvin Harris"],
+    ["Crosby, Stills, Nash & Young", undefined, "Crosby, Stills, Nash & Young"],
+    ["Mark Ronson feat. Bruno Mars", "Uptown Funk", "Mark Ronson"],
+    ["  Kool & The Gang ", undefined, "Kool & The Gang"],
+    [undefined, undefined, ""],
+  ])("%j → %j", (artists, title, expected) => {
+    expect(primaryArtist(artists, title)).toBe(expected);
+  });
+});
+
+describe("creditedArtists", () => {
+  it("filters by role, primary first", () => {
+    const args = ["Dua Lipa, The Blessed Madonna", "Levitating (feat. DaBaby) (The Blessed Madonna Remix)"] as const;
+    expect(creditedArtists(...args)).toEqual(["Dua Lipa", "DaBaby"]);
+    expect(creditedArtists(...args, ["remixer"])).toEqual(["The Blessed Madonna"]);
+  });
+});
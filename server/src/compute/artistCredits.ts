@@ -0,0 +1,127 @@
+/**
+ * Artist credit parsing shared by every compute module.
+ *
+ *   parseArtistCredits("Calvin Harris, Dua Lipa")
+ *     → primary "Calvin Harris"; Calvin Harris (main), Dua Lipa (main)
+ *   parseArtistCredits("Drake, Rihanna", "Too Good (feat. Rihanna)")
+ *     → Rihanna is "featured" because the title says so
+ *   parseArtistCredits("Dua Lipa, The Blessed Madonna", "Levitating (The Blessed Madonna Remix)")
+ *     → The Blessed Madonna is the "remixer"
+ *   parseArtistCredits("Earth, Wind & Fire")  → one main artist, not three
+ *
+ * Rules for the artist field:
+ *   - "," and ";" separate credited artists (Spotify/Exportify style); so do " x " and " vs. "
+ *   - "feat." / "ft." / "featuring" / "with" start the featured artists
+ *   - " & " separates artists unless the right side reads like a band suffix
+ *     ("& The Wailers", "& His Orchestra") or the whole name is in KNOWN_ARTISTS
+ *   - " and " never separates main artists (Belle and Sebastian), only featured ones
+ * The track title can add or re-tag credits: "(feat. X)", "(with X)", "(X Remix)", "(prod. X)".
+ */
+
+export type CreditRole = "main" | "featured" | "remixer" | "producer";
+export type ArtistCredit = { name: string; role: CreditRole };
+export type ArtistCredits = { primary: string; credits: ArtistCredit[] };
+
+// Artists whose names contain a separator. Matched case-insensitively as whole names.
+export const KNOWN_ARTISTS = [
+  "Earth, Wind & Fire", "Crosby, Stills, Nash & Young", "Crosby, Stills & Nash", "Emerson, Lake & Palmer",
+  "Blood, Sweat & Tears", "Peter, Paul and Mary", "Tyler, The Creator", "Simon & Garfunkel",
+  "Hall & Oates", "Daryl Hall & John Oates", "Mumford & Sons", "Chase & Status", "Above & Beyond",
+  "Macklemore & Ryan Lewis", "Brooks & Dunn", "Big & Rich", "Sam & Dave", "Sonny & Cher",
+  "Ike & Tina Turner", "Captain & Tennille", "Iron & Wine", "Eric B. & Rakim", "Ashford & Simpson",
+  "Peaches & Herb", "Sly & Robbie", "Matt & Kim", "Years & Years", "Nico & Vinz", "Love & Rockets",
+  "Dimitri Vegas & Like Mike", "Axwell /\\ Ingrosso", "Dance with the Dead", "Florence + The Machine",
+  "Dan + Shay", "Kool & The Gang",
+];
+
+const MAX_MEMO = 50_000;
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+const KNOWN_RE = new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${[...KNOWN_ARTISTS].sort((a, b) => b.length - a.length).map(escapeRe).join("|")})(?![\\p{L}\\p{N}])`,
+  "giu",
+);
+
+const FEAT_RE = /\s+(?:feat\.?|ft\.?|featuring|with)\s+/i;
+const MAIN_SEP_RE = /\s*[,;]\s*|\s+(?:x|×|vs\.?)\s+|\s+&\s+(?!(?:the|his|her|their)\s)/i;
+const FEATURED_SEP_RE = /\s*[,;&]\s*|\s+(?:and|x)\s+/i;
+
+// Title credits, each inside (...) or [...]
+const TITLE_FEAT_RE = /[([](?:feat\.?|ft\.?|featuring|with)\s+([^)\]]+)[)\]]/gi;
+const TITLE_REMIX_RE = /[([]([^)\]]+?)\s+(?:remix|rmx|rework|bootleg|flip)[)\]]|\s-\s(.+?)\s+(?:remix|rmx)\b/gi;
+const TITLE_PROD_RE = /[([](?:prod\.?|produced)(?:\s+by)?\s+([^)\]]+)[)\]]/gi;
+// "(2011 Remix)", "(Extended Remix)" — a version, not a person
+const NOT_A_REMIXER = /^(?:\d{4}|original|extended|club|radio|album|single|official|the|dub|instrumental)$/i;
+
+const memo = new Map<string, ArtistCredits>();
+
+function protect(s: string, held: string[]): string {
+  return s.replace(KNOWN_RE, m => `\uE000${held.push(m) - 1}\uE000`);
+}
+
+function restore(s: string, held: string[]): string {
+  return s.replace(/\uE000(\d+)\uE000/g, (_, i) => held[Number(i)]);
+}
+
+function splitNames(s: string, sep: RegExp, held: string[]): string[] {
+  return s.split(sep).map(x => restore(x, held).trim()).filter(Boolean);
+}
+
+function titleCredits(title: string): ArtistCredit[] {
+  const held: string[] = [];
+  const t = protect(title, held);
+  const out: ArtistCredit[] = [];
+  for (const m of t.matchAll(TITLE_FEAT_RE)) {
+    for (const name of splitNames(m[1], FEATURED_SEP_RE, held)) out.push({ name, role: "featured" });
+  }
+  for (const m of t.matchAll(TITLE_REMIX_RE)) {
+    const name = restore(m[1] ?? m[2] ?? "", held).trim();
+    if (name && !NOT_A_REMIXER.test(name)) out.push({ name, role: "remixer" });
+  }
+  for (const m of t.matchAll(TITLE_PROD_RE)) {
+    for (const name of splitNames(m[1], FEATURED_SEP_RE, held)) out.push({ name, role: "producer" });
+  }
+  return out;
+}
+
+export function parseArtistCredits(artists?: string, title?: string): ArtistCredits {
+  const key = `${artists ?? ""}\u0001${title ?? ""}`;
+  const hit = memo.get(key);
+  if (hit) return hit;
+
+  const held: string[] = [];
+  const field = protect((artists ?? "").replace(/[()[\]]/g, " ").replace(/\s+/g, " ").trim(), held);
+  const [mainPart, ...rest] = field.split(FEAT_RE);
+  const credits: ArtistCredit[] = [
+    ...splitNames(mainPart ?? "", MAIN_SEP_RE, held).map(name => ({ name, role: "main" as const })),
+    ...splitNames(rest.join(", "), FEATURED_SEP_RE, held).map(name => ({ name, role: "featured" as const })),
+  ];
+
+  // The title re-tags artists already credited (never the first one) and adds missing ones
+  const byName = new Map<string, number>();
+  credits.forEach((c, i) => { if (!byName.has(c.name.toLowerCase())) byName.set(c.name.toLowerCase(), i); });
+  for (const c of titleCredits(title ?? "")) {
+    const i = byName.get(c.name.toLowerCase());
+    if (i === undefined) {
+      byName.set(c.name.toLowerCase(), credits.push(c) - 1);
+    } else if (i > 0) {
+      credits[i] = { ...credits[i], role: c.role };
+    }
+  }
+
+  const deduped = credits.filter((c, i) => byName.get(c.name.toLowerCase()) === i);
+  const parsed = { primary: deduped.find(c => c.role === "main")?.name ?? deduped[0]?.name ?? "", credits: deduped };
+  if (memo.size >= MAX_MEMO) memo.clear();
+  memo.set(key, parsed);
+  return parsed;
+}
+
+/** The artist a track belongs to: first main credit. */
+export function primaryArtist(artists?: string, title?: string): string {
+  return parseArtistCredits(artists, title).primary;
+}
+
+/** Credited artist names with the given roles, primary first. */
+export function creditedArtists(artists?: string, title?: string, roles: CreditRole[] = ["main", "featured"]): string[] {
+  return parseArtistCredits(artists, title).credits.filter(c => roles.includes(c.role)).map(c => c.name);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { benchmark, metricValues, percentileOf, profilePopulation, quantiles, type Population } from "./benchmark.js";
+
+const reference = (rarityScore: number[], scoring: string | null = null): Population =>
+  ({ source: "reference", label: "Reference", listeners: null, scoring, samples: { rarityScore }, quantiles: true });
+
+describe("percentileOf against quantiles", () => {
+  it.each<[string, number[], number, number]>([
+    ["below the first quantile", [10, 20, 30, 40, 50], 5, 0],
+    ["on the first quantile", [10, 20, 30, 40, 50], 10, 0],
+    ["between two quantiles", [10, 20, 30, 40, 50], 25, 38],
+    ["on the last quantile", [10, 20, 30, 40, 50], 50, 100],
+    ["above the last quantile", [10, 20, 30, 40, 50], 60, 100],
+    ["on a flat run, its middle", [0, 10, 10, 10, 40], 10, 50],
+    ["just below a flat run", [0, 10, 10, 10, 40], 5, 13],
+    ["just above a flat run", [0, 10, 10, 10, 40], 25, 88],
+    ["on a flat run at the bottom", [10, 10, 10, 20, 30], 10, 25],
+    ["on a flat run at the top", [10, 20, 30, 30, 30], 30, 75],
+    ["every quantile equal", [30, 30, 30], 30, 50],
+  ])("%s", (_, qs, v, expected) => {
+    expect(percentileOf(v, "rarityScore", reference(qs))).toBe(expected);
+  });
+
+  it("is null for a metric the population has no samples for", () => {
+    expect(percentileOf(50, "variety", reference([10, 20]))).toBeNull();
+  });
+});
+
+describe("percentileOf against profiles", () => {
+  it("counts listeners below, and ties as half", () => {
+    const population = profilePopulation([{ rarityScore: 20 }, { rarityScore: 40 }, { rarityScore: 40 }, { rarityScore: 80 }], null);
+    expect([10, 40, 90].map(v => percentileOf(v, "rarityScore", population))).toEqual([0, 50, 100]);
+  });
+});
+
+describe("quantiles", () => {
+  it("interpolates evenly spaced quantiles between neighbours", () => {
+    expect(quantiles([40, 0, 20], 4)).toEqual([0, 10, 20, 30, 40]);
+    expect(quantiles([])).toEqual([]);
+  });
+});
+
+describe("metricValues", () => {
+  it("leaves out metrics that are missing or not numbers", () => {
+    expect(metricValues({ playlistRater: { rarityScore: null, variety: 60 }, taste: { avgEnergy: NaN, avgValence: 0.4 } }))
+      .toEqual({ variety: 60, avgValence: 0.4 });
+  });
+});
+
+describe("benchmark", () => {
+  it("only ranks overall against a population scored with the same preset", () => {
+    const population: Population = { ...reference([0, 100], "default"), samples: { overall: [0, 100], variety: [0, 100] } };
+    const same = benchmark({ overall: 50, variety: 25 }, population, "default");
+    const other = benchmark({ overall: 50, variety: 25 }, population, "strict-critic");
+    expect(same.metrics.map(m => m.percentile)).toEqual([25, 50]);
+    expect(other.metrics.map(m => m.percentile)).toEqual([25, null]);
+    expect(other.notes).toEqual([`Overall isn't ranked: Reference scored it with the "default" preset, these stats with "strict-critic".`]);
+  });
+
+  it("notes when there are only a few profiles to rank against", () => {
+    expect(benchmark({ variety: 50 }, profilePopulation([], null)).notes).toEqual(["No other profile has data to rank against."]);
+    expect(benchmark({ variety: 50 }, profilePopulation([{ variety: 40 }, { variety: 60 }], null)).notes)
+      .toEqual(["Only 2 other profiles to rank against, so percentiles move in big steps."]);
+  });
+});
@@ -0,0 +1,176 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { PlaylistRater, Taste } from "../common/types.js";
+import { plural } from "./explain.js";
+
+/**
+ * Percentile ranks for the library metrics (playlistRater and taste) against
+ * a reference population:
+ *
+ *   profiles   every other local profile's whole-library stats, ranked as they are
+ *   reference  server/data/benchmark_reference.json — per-metric quantiles only
+ *              (evenly spaced, 0th to 100th), so no listener's own numbers ship
+ *              with the app. `npm run benchmark` rebuilds it from local profiles.
+ *
+ * A percentile is the share of the population below the value, ties counting
+ * half: 87 reads "rarer than 87% of listeners" for rarityScore. Against
+ * quantiles the value is placed on the straight lines between them.
+ */
+
+export const BENCHMARK_POPULATIONS = ["auto", "profiles", "reference"] as const;
+export const BenchmarkPopulation = z.enum(BENCHMARK_POPULATIONS);
+export type BenchmarkPopulationName = z.infer<typeof BenchmarkPopulation>;
+
+export type BenchmarkMetricName = keyof PlaylistRater | keyof Taste;
+
+export const BENCHMARK_METRICS: { metric: BenchmarkMetricName; label: string }[] = [
+  { metric: "rarityScore",      label: "Rarity" },
+  { metric: "variety",          label: "Variety" },
+  { metric: "cohesion",         label: "Cohesion" },
+  { metric: "creativity",       label: "Creativity" },
+  { metric: "overall",          label: "Overall" },
+  { metric: "avgValence",       label: "Valence" },
+  { metric: "avgEnergy",        label: "Energy" },
+  { metric: "avgDanceability",  label: "Danceability" },
+  { metric: "acousticBias",     label: "Acousticness" },
+  { metric: "instrumentalBias", label: "Instrumentalness" },
+];
+
+export type MetricValues = Partial<Record<BenchmarkMetricName, number>>;
+
+export type Population = {
+  source: "profiles" | "reference";
+  label: string;
+  listeners: number | null;                                // null when the reference doesn't say
+  scoring: string | null;                                  // preset `overall` was computed with, when known
+  samples: Partial<Record<BenchmarkMetricName, number[]>>; // ascending
+  quantiles: boolean;                                      // samples are quantiles, not listeners
+};
+
+export type MetricRank = { metric: BenchmarkMetricName; label: string; value: number; percentile: number | null };
+
+export type Benchmark = {
+  population: { source: Population["source"]; label: string; listeners: number | null };
+  metrics: MetricRank[];   // BENCHMARK_METRICS order; only metrics the stats carry
+  notes: string[];
+};
+
+export const REFERENCE_FILE = path.resolve(process.cwd(), "data", "benchmark_reference.json");
+export const QUANTILE_STEPS = 20;   // 0th, 5th … 100th
+const FEW_LISTENERS = 10;          // fewer peers than this gets a note
+
+const Ascending = z.array(z.number()).min(2)
+  .refine(qs => qs.every((q, i) => i === 0 || q >= qs[i - 1]), "quantiles must be ascending");
+
+const ReferenceSchema = z.object({
+  version: z.number().int(),
+  label: z.string().min(1),
+  source: z.string().default(""),
+  listeners: z.number().int().positive().nullable().default(null),
+  scoring: z.string().nullable().default(null),
+  metrics: z.record(Ascending),
+});
+
+export type BenchmarkReference = z.infer<typeof ReferenceSchema>;
+
+let REFERENCE: Population | null = null;
+
+export function referencePopulation(): Population {
+  if (REFERENCE) return REFERENCE;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(REFERENCE_FILE, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Failed to read benchmark reference ${REFERENCE_FILE}: ${err?.message || err}`);
+  }
+  const parsed = ReferenceSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid benchmark reference ${REFERENCE_FILE}: ${issue.path.join(".")}: ${issue.message}`);
+  }
+  const { label, listeners, scoring, metrics } = parsed.data;
+  return (REFERENCE = { source: "reference", label, listeners, scoring, samples: metrics, quantiles: true });
+}
+
+/** The metrics benchmark() ranks, flattened out of a stats object; missing or non-finite ones are left out. */
+export function metricValues(stats: { playlistRater?: Partial<PlaylistRater>; taste?: Partial<Taste> }): MetricValues {
+  const all: Record<string, unknown> = { ...stats.taste, ...stats.playlistRater };
+  const out: MetricValues = {};
+  for (const { metric } of BENCHMARK_METRICS) {
+    const v = all[metric];
+    if (typeof v === "number" && Number.isFinite(v)) out[metric] = v;
+  }
+  return out;
+}
+
+/** A population of listeners, one MetricValues each. */
+export function profilePopulation(listeners: MetricValues[], scoring: string | null): Population {
+  const samples: Population["samples"] = {};
+  for (const { metric } of BENCHMARK_METRICS) {
+    const vs = listeners.map(l => l[metric]).filter((v): v is number => v !== undefined);
+    if (vs.length) samples[metric] = vs.sort((a, b) => a - b);
+  }
+  return { source: "profiles", label: "Local profiles", listeners: listeners.length, scoring, samples, quantiles: false };
+}
+
+/** Evenly spaced quantiles (0th … 100th) of `values`, interpolated between neighbours. */
+export function quantiles(values: number[], steps = QUANTILE_STEPS): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (!sorted.length) return [];
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const pos = (i / steps) * (sorted.length - 1);
+    const lo = Math.floor(pos), hi = Math.ceil(pos);
+    return +(sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)).toFixed(4);
+  });
+}
+
+function rankInSample(v: number, sorted: number[]): number {
+  const below = sorted.filter(x => x < v).length;
+  const equal = sorted.filter(x => x === v).length;
+  return (below + equal / 2) / sorted.length;
+}
+
+function rankInQuantiles(v: number, qs: number[]): number {
+  const last = qs.length - 1;
+  const lo = qs.findIndex(q => q >= v);   // first quantile at or above v
+  if (lo === -1) return 1;
+  let hi = lo;
+  while (hi < last && qs[hi + 1] <= v) hi++;
+  if (qs[lo] === v) return (lo + hi) / 2 / last;   // on a quantile, or a flat run of them
+  if (lo === 0) return 0;
+  return (lo - 1 + (v - qs[lo - 1]) / (qs[lo] - qs[lo - 1])) / last;
+}
+
+/** Percentile (0–100) of `v` among the population's `metric`, or null when it has no samples for it. */
+export function percentileOf(v: number, metric: BenchmarkMetricName, population: Population): number | null {
+  const sample = population.samples[metric];
+  if (!sample?.length) return null;
+  const p = population.quantiles ? rankInQuantiles(v, sample) : rankInSample(v, sample);
+  return Math.round(p * 100);
+}
+
+/**
+ * Rank each metric in `values` against `population`. `scoring` is the preset
+ * behind values.overall; `overall` is only ranked when the population's was
+ * computed the same way (other metrics don't depend on the weights).
+ */
+export function benchmark(values: MetricValues, population: Population, scoring: string | null = null): Benchmark {
+  const notes: string[] = [];
+  const comparableOverall = population.scoring === null || population.scoring === scoring;
+  const metrics: MetricRank[] = [];
+  for (const { metric, label } of BENCHMARK_METRICS) {
+    const value = values[metric];
+    if (value === undefined) continue;
+    const percentile = metric === "overall" && !comparableOverall ? null : percentileOf(value, metric, population);
+    metrics.push({ metric, label, value, percentile });
+  }
+  if (!comparableOverall) {
+    notes.push(`Overall isn't ranked: ${population.label} scored it with the "${population.scoring}" preset, these stats with ${scoring ? `"${scoring}"` : "custom weights"}.`);
+  }
+  const peers = population.listeners ?? 0;
+  if (population.source === "profiles" && peers < FEW_LISTENERS) {
+    notes.push(peers ? `Only ${plural(peers, "other profile")} to rank against, so percentiles move in big steps.` : "No other profile has data to rank against.");
+  }
+  return { population: { source: population.source, label: population.label, listeners: population.listeners }, metrics, notes };
+}
@@ -0,0 +1,109 @@
+import { familyOf, splitGenres } from "./genres.js";
+
+/**
+ * Day-of-week × hour-of-day view of listening (the stats' `listeningClock`).
+ *
+ * Exports stamp plays in UTC, so plays are placed on the profile's local
+ * clock first (IANA zone from settings.json or ?tz=). Days run Monday (0)
+ * to Sunday (6). Each cell keeps its dominant genre family and mean
+ * energy/valence over the plays whose recording has that data.
+ */
+
+export type ClockCell = {
+  day: number;              // 0 = Monday … 6 = Sunday
+  hour: number;             // 0..23, local
+  plays: number;
+  family: string | null;    // most-played genre family in this hour
+  energy: number | null;    // 0..1
+  valence: number | null;   // 0..1
+};
+
+export type ListeningClock = {
+  timeZone: string;
+  plays: number;
+  cells: ClockCell[];       // 168 cells, day-major: Monday 00:00, Monday 01:00, …
+  peak: { day: number; hour: number; plays: number } | null;
+};
+
+export type ClockPlay = { at: Date; genres?: string; energy: number; valence: number };
+
+export type LocalTime = { day: number; hour: number };
+
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export function isTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fixes the case of a valid zone ("europe/berlin" → "Europe/Berlin"). ICU may
+ * resolve a zone to an older alias (Asia/Kolkata → Asia/Calcutta), so any
+ * other spelling is kept as given.
+ */
+export function canonicalTimeZone(tz: string): string {
+  const resolved = new Intl.DateTimeFormat("en-US", { timeZone: tz }).resolvedOptions().timeZone;
+  return resolved.toLowerCase() === tz.toLowerCase() ? resolved : tz;
+}
+
+/**
+ * Weekday and hour of a UTC instant in `timeZone`. Every real UTC offset is a
+ * whole number of quarter hours, so results are memoised per quarter hour.
+ */
+export function localClock(timeZone: string): (d: Date) => LocalTime {
+  if (timeZone === "UTC") return d => ({ day: (d.getUTCDay() + 6) % 7, hour: d.getUTCHours() });
+  const fmt = new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short", hour: "numeric", hourCycle: "h23" });
+  const memo = new Map<number, LocalTime>();
+  return d => {
+    const q = Math.floor(d.getTime() / QUARTER_HOUR_MS);
+    const hit = memo.get(q);
+    if (hit) return hit;
+    const parts = fmt.formatToParts(d);
+    const out = {
+      day: WEEKDAYS.indexOf(parts.find(p => p.type === "weekday")!.value),
+      hour: Number(parts.find(p => p.type === "hour")!.value),
+    };
+    memo.set(q, out);
+    return out;
+  };
+}
+
+export function listeningClock(plays: ClockPlay[], timeZone: string): ListeningClock {
+  const clock = localClock(timeZone);
+  const acc = Array.from({ length: 7 * 24 }, () => ({
+    plays: 0, families: new Map<string, number>(), featured: 0, energy: 0, valence: 0,
+  }));
+
+  for (const p of plays) {
+    const { day, hour } = clock(p.at);
+    const c = acc[day * 24 + hour];
+    c.plays++;
+    const g = splitGenres(p.genres)[0];
+    if (g) { const f = familyOf(g); c.families.set(f, (c.families.get(f) || 0) + 1); }
+    if (p.energy > 0 || p.valence > 0) { c.featured++; c.energy += p.energy; c.valence += p.valence; }
+  }
+
+  const avg = (sum: number, n: number) => (n ? +(sum / n).toFixed(3) : null);
+  const cells: ClockCell[] = acc.map((c, i) => {
+    let family: [string, number] | null = null;
+    for (const e of c.families) if (!family || e[1] > family[1] || (e[1] === family[1] && e[0] < family[0])) family = e;
+    return {
+      day: Math.floor(i / 24), hour: i % 24, plays: c.plays,
+      family: family ? family[0] : null,
+      energy: avg(c.energy, c.featured), valence: avg(c.valence, c.featured),
+    };
+  });
+  const top = cells.reduce<ClockCell | null>((best, c) => (c.plays && (!best || c.plays > best.plays) ? c : best), null);
+
+  return {
+    timeZone,
+    plays: plays.length,
+    cells,
+    peak: top ? { day: top.day, hour: top.hour, plays: top.plays } : null,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Stats } from "../common/types.js";
+import { comparePeriods } from "./compare.js";
+
+type Changes = {
+  rater?: Partial<Stats["playlistRater"]>;
+  taste?: Partial<Stats["taste"]>;
+  shoegaze?: number;                            // tracks out of 100
+  decades?: Stats["decadeBreakdown"];
+  artists?: string[];
+};
+
+/** A period with 100 unique tracks, middling scores and 10 shoegaze tracks, from the 1990s. */
+function period({ rater, taste, shoegaze = 10, decades = [{ decade: "1990", pct: 100 }], artists = [] }: Changes = {}): Stats {
+  return {
+    topUniqueGenres: [{ genre: "shoegaze", count: shoegaze, family: "Rock" }],
+    discoveryTrend: [],
+    rareTracks: [],
+    taste: { avgValence: 0.5, avgEnergy: 0.5, avgDanceability: 0.5, acousticBias: 0.5, instrumentalBias: 0.5, ...taste },
+    playlistRater: { variety: 50, rarityScore: 50, cohesion: 50, creativity: 50, overall: 50, ...rater },
+    activityTrend: [],
+    snob: "",
+    decadeBreakdown: decades,
+    topArtists: artists.map(artist => ({ artist, trackCount: 1, playCount: 10, avgPop: 50, topTrack: "" })),
+    _counters: { uniqueTracks: 100, uniquePlays: 100 },
+    meta: { hash: "", rows: 100, files: 1, skipped: 0, scoring: "default", window: { start: "", end: "" } },
+  };
+}
+
+const findings = (a: Stats, b: Stats) => comparePeriods(a, b, { a: "2023", b: "2024" }).findings.map(f => f.id);
+
+describe("comparePeriods findings", () => {
+  it.each<[string, Changes, string[]]>([
+    ["nothing moved", {}, []],
+    ["rarity up 4", { rater: { rarityScore: 54 } }, []],
+    ["rarity up 5", { rater: { rarityScore: 55 } }, ["rarity-up"]],
+    ["rarity down 5", { rater: { rarityScore: 45 } }, ["rarity-down"]],
+    ["variety up 4", { rater: { variety: 54 } }, []],
+    ["variety down 5", { rater: { variety: 45 } }, ["variety-down"]],
+    ["cohesion isn't a finding", { rater: { cohesion: 90 } }, []],
+    ["energy up 0.049", { taste: { avgEnergy: 0.549 } }, []],
+    ["energy up 0.05", { taste: { avgEnergy: 0.55 } }, ["energy-up"]],
+    ["valence down 0.05", { taste: { avgValence: 0.45 } }, ["valence-down"]],
+    ["danceability up 0.05", { taste: { avgDanceability: 0.55 } }, ["danceability-up"]],
+    ["acousticness down 0.05", { taste: { acousticBias: 0.45 } }, ["acoustic-down"]],
+    ["instrumentalness isn't a finding", { taste: { instrumentalBias: 0.9 } }, []],
+    ["a genre up 4 points", { shoegaze: 14 }, []],
+    ["a genre up 5 points", { shoegaze: 15 }, ["genre-up"]],
+    ["a genre down 5 points", { shoegaze: 5 }, ["genre-down"]],
+    ["releases 2 years newer", { decades: [{ decade: "1990", pct: 80 }, { decade: "2000", pct: 20 }] }, []],
+    ["releases 3 years newer", { decades: [{ decade: "1990", pct: 70 }, { decade: "2000", pct: 30 }] }, ["era-up"]],
+    ["releases 10 years older", { decades: [{ decade: "1980", pct: 100 }] }, ["era-down"]],
+  ])("%s", (_, changes, expected) => {
+    expect(findings(period(), period(changes))).toEqual(expected);
+  });
+
+  it("has no rarity finding unless both periods have a rarity", () => {
+    const comparison = comparePeriods(period({ rater: { rarityScore: null } }), period({ rater: { rarityScore: 90 } }), { a: "2023", b: "2024" });
+    expect(comparison.playlistRater.rarityScore).toBeNull();
+    expect(comparison.findings).toEqual([]);
+  });
+
+  it("ranks findings by how far past their threshold they are, with artist turnover last", () => {
+    const a = period({ artists: ["Slowdive", "Ride"] });
+    const b = period({ rater: { rarityScore: 60, variety: 65 }, taste: { avgEnergy: 0.575 }, artists: ["Ride", "Lush"] });
+    expect(findings(a, b)).toEqual(["variety-up", "rarity-up", "energy-up", "artists-up", "artists-down"]);
+  });
+
+  it("words each finding for the later period", () => {
+    const [finding] = comparePeriods(period(), period({ rater: { rarityScore: 40 } }), { a: "2023", b: "2024" }).findings;
+    expect(finding).toEqual({ id: "rarity-down", metric: "rarityScore", direction: "down", text: "You got more mainstream in 2024: rarity 50 → 40." });
+  });
+});
@@ -0,0 +1,169 @@
+import type { Stats, Taste, PlaylistRater } from "../common/types.js";
+
+/**
+ * Period-over-period comparison of two compute() results (/api/stats/compare).
+ *
+ * Genres and decades are compared as shares of each period's unique tracks, so
+ * a busy year and a quiet one compare fairly; artists by membership of each
+ * period's top list. `findings` are the shifts big enough to mention, biggest
+ * first, phrased for the roast and dashboard ("you got more mainstream").
+ */
+
+export type Delta = { a: number; b: number; delta: number };
+
+export type GenreShift = { genre: string; family: string; a: number; b: number; delta: number };  // % of tracks
+export type ArtistShift = { artist: string; playCount: number };
+
+export type Finding = {
+  id: string;
+  metric: string;
+  direction: "up" | "down";
+  text: string;
+};
+
+export type Comparison = {
+  taste: Record<keyof Taste, Delta>;
+  playlistRater: Record<Exclude<keyof PlaylistRater, "rarityScore">, Delta> & { rarityScore: Delta | null };   // rarity: null unless both periods have one
+  genres: { gained: GenreShift[]; lost: GenreShift[] };
+  artists: { gained: ArtistShift[]; dropped: ArtistShift[] };
+  rarity: { rarityScore: Delta | null; newRareTracks: { name: string; artist: string; pop: number }[] };
+  decades: { decade: string; a: number; b: number; delta: number }[];
+  findings: Finding[];
+};
+
+const GENRE_SHIFT_MIN_PTS = 2;
+const MAX_LISTED = 10;
+
+// How far a metric must move before it's a finding; the ratio also ranks findings.
+const THRESHOLDS = {
+  rarityScore: 5,
+  variety: 5,
+  taste: 0.05,
+  genrePts: 5,
+  decadeYears: 3,
+};
+
+const round = (n: number, dp = 0) => { const f = 10 ** dp; return Math.round(n * f) / f; };
+const delta = (a: number, b: number, dp = 0): Delta => ({ a, b, delta: round(b - a, dp) });
+
+function deltas<T extends object>(a: T, b: T, dp = 0): Record<keyof T, Delta> {
+  const out = {} as Record<keyof T, Delta>;
+  for (const k of Object.keys(a) as (keyof T)[]) out[k] = delta(Number(a[k]) || 0, Number(b[k]) || 0, dp);
+  return out;
+}
+
+function genreShares(s: Stats): Map<string, { share: number; family: string }> {
+  const tracks = s._counters?.uniqueTracks || 1;
+  return new Map(s.topUniqueGenres.map(g => [g.genre, { share: (g.count / tracks) * 100, family: g.family }]));
+}
+
+/** Weighted mean decade midpoint, e.g. 1994 — null when no release dates were known. */
+function meanReleaseYear(decades: { decade: string; pct: number }[]): number | null {
+  const total = decades.reduce((s, d) => s + d.pct, 0);
+  if (!total) return null;
+  return decades.reduce((s, d) => s + (Number(d.decade) + 5) * d.pct, 0) / total;
+}
+
+const list = (names: string[]) =>
+  names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+
+export function comparePeriods(a: Stats, b: Stats, labels: { a: string; b: string }): Comparison {
+  const taste = deltas(a.taste, b.taste, 3);
+  const { rarityScore: ra, ...raterA } = a.playlistRater;
+  const { rarityScore: rb, ...raterB } = b.playlistRater;
+  const playlistRater = { ...deltas(raterA, raterB), rarityScore: ra === null || rb === null ? null : delta(ra, rb) };
+
+  // Genres: share of tracks within each period's top genres
+  const ga = genreShares(a);
+  const gb = genreShares(b);
+  const shifts: GenreShift[] = [...new Set([...ga.keys(), ...gb.keys()])].map(genre => {
+    const sa = ga.get(genre)?.share ?? 0;
+    const sb = gb.get(genre)?.share ?? 0;
+    return { genre, family: (gb.get(genre) ?? ga.get(genre))!.family, a: round(sa, 1), b: round(sb, 1), delta: round(sb - sa, 1) };
+  });
+  const gained = shifts.filter(g => g.delta >= GENRE_SHIFT_MIN_PTS).sort((x, y) => y.delta - x.delta).slice(0, MAX_LISTED);
+  const lost = shifts.filter(g => g.delta <= -GENRE_SHIFT_MIN_PTS).sort((x, y) => x.delta - y.delta).slice(0, MAX_LISTED);
+
+  // Artists: in one period's top list but not the other's
+  const topA = a.topArtists ?? [];
+  const topB = b.topArtists ?? [];
+  const inA = new Set(topA.map(x => x.artist.toLowerCase()));
+  const inB = new Set(topB.map(x => x.artist.toLowerCase()));
+  const artists = {
+    gained: topB.filter(x => !inA.has(x.artist.toLowerCase())).slice(0, MAX_LISTED).map(x => ({ artist: x.artist, playCount: x.playCount })),
+    dropped: topA.filter(x => !inB.has(x.artist.toLowerCase())).slice(0, MAX_LISTED).map(x => ({ artist: x.artist, playCount: x.playCount })),
+  };
+
+  // Rarity: the score plus the deep cuts that only turned up in b
+  const rareKey = (t: { name: string; artist: string }) => `${t.name}\u0001${t.artist}`.toLowerCase();
+  const rareA = new Set(a.rareTracks.map(rareKey));
+  const rarity = {
+    rarityScore: playlistRater.rarityScore,
+    newRareTracks: b.rareTracks.filter(t => !rareA.has(rareKey(t))).slice(0, MAX_LISTED),
+  };
+
+  // Decade mix, in percentage points of unique tracks
+  const da = new Map((a.decadeBreakdown ?? []).map(d => [d.decade, d.pct]));
+  const db = new Map((b.decadeBreakdown ?? []).map(d => [d.decade, d.pct]));
+  const decades = [...new Set([...da.keys(), ...db.keys()])].sort()
+    .map(decade => {
+      const pa = da.get(decade) ?? 0;
+      const pb = db.get(decade) ?? 0;
+      return { decade, a: pa, b: pb, delta: pb - pa };
+    })
+    .filter(d => d.a || d.b);
+
+  // Findings, ranked by how far past its threshold each shift is
+  const B = labels.b;
+  const A = labels.a;
+  const ranked: { finding: Finding; weight: number }[] = [];
+  const add = (id: string, metric: string, change: number, threshold: number, up: string, down: string) => {
+    if (Math.abs(change) < threshold) return;
+    const direction = change > 0 ? "up" : "down";
+    ranked.push({ finding: { id: `${id}-${direction}`, metric, direction, text: direction === "up" ? up : down }, weight: Math.abs(change) / threshold });
+  };
+  const pct = (n: number) => Math.round(n * 100);
+
+  const r = playlistRater.rarityScore;
+  if (r) add("rarity", "rarityScore", r.delta, THRESHOLDS.rarityScore,
+    `You went further underground in ${B}: rarity ${r.a} → ${r.b}.`,
+    `You got more mainstream in ${B}: rarity ${r.a} → ${r.b}.`);
+  const v = playlistRater.variety;
+  add("variety", "variety", v.delta, THRESHOLDS.variety,
+    `You spread out across more artists in ${B} (variety ${v.a} → ${v.b}).`,
+    `You narrowed in on fewer artists in ${B} (variety ${v.a} → ${v.b}).`);
+  const t = taste;
+  add("energy", "avgEnergy", t.avgEnergy.delta, THRESHOLDS.taste,
+    `${B} ran hotter: energy ${pct(t.avgEnergy.a)}% → ${pct(t.avgEnergy.b)}%.`,
+    `${B} was calmer: energy ${pct(t.avgEnergy.a)}% → ${pct(t.avgEnergy.b)}%.`);
+  add("valence", "avgValence", t.avgValence.delta, THRESHOLDS.taste,
+    `${B} sounded sunnier: happiness ${pct(t.avgValence.a)}% → ${pct(t.avgValence.b)}%.`,
+    `${B} got moodier: happiness ${pct(t.avgValence.a)}% → ${pct(t.avgValence.b)}%.`);
+  add("danceability", "avgDanceability", t.avgDanceability.delta, THRESHOLDS.taste,
+    `More to dance to in ${B}: danceability ${pct(t.avgDanceability.a)}% → ${pct(t.avgDanceability.b)}%.`,
+    `Less to dance to in ${B}: danceability ${pct(t.avgDanceability.a)}% → ${pct(t.avgDanceability.b)}%.`);
+  add("acoustic", "acousticBias", t.acousticBias.delta, THRESHOLDS.taste,
+    `You went acoustic in ${B}: ${pct(t.acousticBias.a)}% → ${pct(t.acousticBias.b)}%.`,
+    `You plugged back in in ${B}: acoustic ${pct(t.acousticBias.a)}% → ${pct(t.acousticBias.b)}%.`);
+
+  if (gained[0]) add("genre", `genre:${gained[0].genre}`, gained[0].delta, THRESHOLDS.genrePts,
+    `${gained[0].genre} took off in ${B}: ${gained[0].a}% → ${gained[0].b}% of tracks.`, "");
+  if (lost[0]) add("genre", `genre:${lost[0].genre}`, lost[0].delta, THRESHOLDS.genrePts,
+    "", `${lost[0].genre} faded in ${B}: ${lost[0].a}% → ${lost[0].b}% of tracks.`);
+
+  const ya = meanReleaseYear(a.decadeBreakdown ?? []);
+  const yb = meanReleaseYear(b.decadeBreakdown ?? []);
+  if (ya !== null && yb !== null) add("era", "releaseYear", yb - ya, THRESHOLDS.decadeYears,
+    `You got more current in ${B}: the average track dates from ~${Math.round(yb)}, up from ~${Math.round(ya)}.`,
+    `You reached further back in ${B}: the average track dates from ~${Math.round(yb)}, down from ~${Math.round(ya)}.`);
+
+  const findings = ranked.sort((x, y) => y.weight - x.weight).map(x => x.finding);
+
+  // Artist turnover isn't a magnitude; it trails the ranked shifts
+  if (artists.gained.length) findings.push({ id: "artists-up", metric: "topArtists", direction: "up",
+    text: `New in your ${B} rotation: ${list(artists.gained.slice(0, 3).map(x => x.artist))}.` });
+  if (artists.dropped.length) findings.push({ id: "artists-down", metric: "topArtists", direction: "down",
+    text: `Out of rotation since ${A}: ${list(artists.dropped.slice(0, 3).map(x => x.artist))}.` });
+
+  return { taste, playlistRater, genres: { gained, lost }, artists, rarity, decades, findings };
+}
@@ -1,100 +1,118 @@
+import { resolveRecordings } from "../ingest/identity.js";
+import { primaryArtist } from "./artistCredits.js";
+import { familyOf, splitGenres } from "./genres.js";
+import { listeningClock as buildListeningClock } from "./clock.js";
+import { completionOf, isSkipped, skipAnalytics as buildSkipAnalytics } from "./skips.js";
+import { findPatterns } from "./patterns.js";
+import { explainRater, rateConfidence, rateTracks } from "./rater.js";
+import { grade, meanInterval, SUPPORT } from "./confidence.js";
+import type { LibraryScoring } from "./scoring.js";
+
 type Row = {
   ["Track URI"]: string; ["Artist Name(s)"]: string; ["Track Name"]: string; ["Genres"]?: string;
   ["Popularity"]?: number; ["Valence"]?: number; ["Energy"]?: number; ["Danceability"]?: number;
   ["Acousticness"]?: number; ["Instrumentalness"]?: number; ["Added At"]?: string; ["Played At"]?: string; ["Release Date"]?: string;
+  ["Duration (ms)"]?: number; ["ISRC"]?: string; ["Track MBID"]?: string;
+  ["Ms Played"]?: number; ["Skipped"]?: boolean; ["Reason End"]?: string;
+  _src?: { adapter: string };
 };
 
+// Sources whose history legitimately predates Spotify — kept even when dropPreSpotify is on.
+// Override per adapter id with `dropPreSpotify: { "lastfm-csv": true, ... }`.
+const KEEP_PRE_SPOTIFY: Record<string, boolean> = { "lastfm-csv": true, "lastfm-json": true };
+
 const num = (v:any, f=0)=> (Number.isFinite(+v)? +v : f);
 const monthKey = (d:Date)=> `${d.getFullYear()}-${String(d.getMonth()+1).padStart(2,"0")}`;
 
-const GENRE_ALIASES: Record<string,string> = {
-  "hip hop":"hip-hop", "hip-hop":"hip-hop", "lo fi":"lo-fi", "lo-fi beats":"lo-fi", "lofi":"lo-fi",
-  "brooklyn drill":"drill - brooklyn", "new york drill":"drill - ny", "chicago drill":"drill - chicago"
-};
-function normGenre(g:string){
-  let s = g.trim().toLowerCase();
-  s = s.replace(/\s+/g, " ");
-  if (GENRE_ALIASES[s]) return GENRE_ALIASES[s];
-  return s;
-}
 function parseDate(r:Row){
   const ts = r["Played At"] || r["Added At"] || r["Release Date"] || "";
   const d = new Date(ts);
   return isNaN(d.getTime()) ? null : d;
 }
-function entropy(ps: number[]){
-  const sum = ps.reduce((a,b)=>a+b,0) || 1;
-  const p = ps.map(x=> x/sum).filter(x=>x>0);
-  const h = -p.reduce((a,x)=> a + x*Math.log(x), 0);
-  const hmax = Math.log(p.length || 1);
-  return hmax===0 ? 0 : (h/hmax); // normalized 0..1
-}
 
-export function compute(rows: Row[], opts?: {
-  cutoffMonth?: string, dropPreSpotify?: boolean, topGenresLimit?: number, weightedAverages?: boolean,
-  rareMode?: "topN"|"percentile", rareN?: number, rarePercentile?: number
-}){
-  const cutoffMonth = opts?.cutoffMonth ?? "2008-10";
-  const dropPre     = opts?.dropPreSpotify ?? true;
-  const topGenres   = opts?.topGenresLimit ?? 25;
-  const weighted    = opts?.weightedAverages ?? true;
-  const rareMode    = opts?.rareMode ?? "topN";
-  const rareN       = opts?.rareN ?? 25;
-  const rarePct     = opts?.rarePercentile ?? 5;
+export type ComputeOptions = {
+  cutoffMonth?: string, dropPreSpotify?: boolean | Record<string, boolean>, topGenresLimit?: number, weightedAverages?: boolean,
+  rareMode?: "topN"|"percentile", rareN?: number, rarePercentile?: number, resolveIdentities?: boolean,
+  timeZone?: string, skipWeight?: number, scoring?: LibraryScoring
+};
+
+export const COMPUTE_DEFAULTS = {
+  cutoffMonth: "2008-10", topGenresLimit: 25, weightedAverages: true,
+  rareMode: "topN" as "topN"|"percentile", rareN: 25, rarePercentile: 5,
+  skipWeight: 1,  // what a skipped play counts for in weighted averages; 0 ignores skips entirely
+};
+
+export function compute(rows: Row[], opts?: ComputeOptions){
+  const cutoffMonth = opts?.cutoffMonth ?? COMPUTE_DEFAULTS.cutoffMonth;
+  const dropPreOpt  = opts?.dropPreSpotify;
+  const topGenres   = opts?.topGenresLimit ?? COMPUTE_DEFAULTS.topGenresLimit;
+  const weighted    = opts?.weightedAverages ?? COMPUTE_DEFAULTS.weightedAverages;
+  const rareMode    = opts?.rareMode ?? COMPUTE_DEFAULTS.rareMode;
+  const rareN       = opts?.rareN ?? COMPUTE_DEFAULTS.rareN;
+  const rarePct     = opts?.rarePercentile ?? COMPUTE_DEFAULTS.rarePercentile;
+  const timeZone    = opts?.timeZone ?? "UTC";
+  const skipWeight  = opts?.skipWeight ?? COMPUTE_DEFAULTS.skipWeight;
+
+  // Canonical recording per URI: single / album / deluxe / compilation copies of a song count once
+  const recordingOf = (opts?.resolveIdentities ?? true) ? resolveRecordings(rows).recordingOf : (uri: string) => uri;
 
   // Normalize + timestamp
   const plays = rows.map(r=>{
     const d = parseDate(r);
     return {
-      ...r, _d: d, _m: d ? monthKey(d) : null,
+      ...r, _d: d, _m: d ? monthKey(d) : null, _rid: r["Track URI"] ? recordingOf(r["Track URI"]) : "",
       _pop:num(r["Popularity"]), _val:num(r["Valence"]), _eng:num(r["Energy"]),
       _dac:num(r["Danceability"]), _aco:num(r["Acousticness"]), _ins:num(r["Instrumentalness"])
     };
   });
 
-  // Apply cutoff
-  const cutoffOk = (mk:string|null) => {
+  // Apply cutoff — per source: a boolean applies to every row, a record is keyed by adapter id
+  const dropPre = (adapter = "") =>
+    typeof dropPreOpt === "boolean" ? dropPreOpt : (dropPreOpt?.[adapter] ?? !KEEP_PRE_SPOTIFY[adapter]);
+  const cutoffOk = (mk:string|null, adapter?: string) => {
     if (!mk) return false;
-    if (!dropPre) return true;
+    if (!dropPre(adapter)) return true;
     return mk >= cutoffMonth;
   };
-  const playsCut = plays.filter(p => p._m && cutoffOk(p._m));
+  const playsCut = plays.filter(p => p._m && cutoffOk(p._m, p._src?.adapter));
 
-  // Unique tracks (URI) for track-level stats
-  const seenTrack = new Set<string>();
-  const uniqueTracks = playsCut.filter(p=>{
-    if(!p["Track URI"]) return false;
-    if(seenTrack.has(p["Track URI"])) return false;
-    seenTrack.add(p["Track URI"]);
-    return true;
-  });
+  // Unique recordings for track-level stats — keep the copy with the most catalog data,
+  // since streaming-history plays carry no genres or popularity
+  const catalogScore = (p: { Genres?: string; _pop: number }) => (p["Genres"] ? 2 : 0) + (p._pop > 0 ? 1 : 0);
+  const byRecording = new Map<string, typeof playsCut[number]>();
+  for(const p of playsCut){
+    if(!p._rid) continue;
+    const prev = byRecording.get(p._rid);
+    if(!prev || catalogScore(p) > catalogScore(prev)) byRecording.set(p._rid, p);
+  }
+  const uniqueTracks = [...byRecording.values()];
 
-  // Unique (URI,timestamp) for activity
+  // Unique (recording,timestamp) for activity
   const seenPlay = new Set<string>();
   const uniquePlays = playsCut.filter(p=>{
-    if(!p["Track URI"] || !p._d) return false;
-    const k = p["Track URI"] + "|" + p._d.toISOString();
+    if(!p._rid || !p._d) return false;
+    const k = p._rid + "|" + p._d.toISOString();
     if (seenPlay.has(k)) return false;
     seenPlay.add(k);
     return true;
   });
 
-  // Per-track play count (for weighting)
+  // Per-recording play count, and the same with skipped plays discounted (for weighting)
   const playsPerTrack = new Map<string, number>();
+  const weightPerTrack = new Map<string, number>();
   for(const p of uniquePlays){
-    const key = p["Track URI"];
+    const key = p._rid;
     playsPerTrack.set(key, (playsPerTrack.get(key) || 0) + 1);
+    weightPerTrack.set(key, (weightPerTrack.get(key) || 0) + (isSkipped(p) ? skipWeight : 1));
   }
 
   // Top unique genres (count a genre once per track, normalized labels)
   const gcount = new Map<string,number>();
   for(const p of uniqueTracks){
-    const raw = (p["Genres"]||"").split(/[|,]/).map(s=>normGenre(s)).filter(Boolean);
-    const uniq = Array.from(new Set(raw));
-    for(const g of uniq) gcount.set(g,(gcount.get(g)||0)+1);
+    for(const g of splitGenres(p["Genres"])) gcount.set(g,(gcount.get(g)||0)+1);
   }
   const topUniqueGenres = Array.from(gcount.entries())
-    .sort((a,b)=>b[1]-a[1]).slice(0, topGenres).map(([genre,count])=>({genre,count}));
+    .sort((a,b)=>b[1]-a[1]).slice(0, topGenres).map(([genre,count])=>({genre,count,family:familyOf(genre)}));
 
   // Decade breakdown: what release-year eras do unique tracks come from?
   const decadeMap = new Map<string,number>();
@@ -114,10 +132,9 @@ export function compute(rows: Row[], opts?: {
   // Top 3 artists per genre (powers the genre deep-dive slide)
   const artistsByGenre = new Map<string, Map<string,number>>();
   for(const p of uniqueTracks){
-    const raw = (p["Genres"]||"").split(/[|,]/).map((s:string)=>normGenre(s)).filter(Boolean);
-    const gs  = Array.from(new Set(raw));
-    // Use only the first credited artist to avoid "feat." noise
-    const artist = (p["Artist Name(s)"]||"").split(",")[0].trim();
+    const gs = splitGenres(p["Genres"]);
+    // Use only the primary artist to avoid "feat." noise
+    const artist = primaryArtist(p["Artist Name(s)"], p["Track Name"]);
     if(!artist) continue;
     for(const g of gs){
       const m = artistsByGenre.get(g) ?? new Map<string,number>();
@@ -140,27 +157,28 @@ export function compute(rows: Row[], opts?: {
   const seenRecent = new Set<string>();
   const recentDeduped: typeof recentSorted = [];
   for (const p of recentSorted) {
-    if (!p["Track URI"] || seenRecent.has(p["Track URI"])) continue;
-    seenRecent.add(p["Track URI"]);
+    if (!p._rid || seenRecent.has(p._rid)) continue;
+    seenRecent.add(p._rid);
     recentDeduped.push(p);
     if (recentDeduped.length >= 15) break;
   }
   const recentTracks = recentDeduped.map(p => ({
     name:     p["Track Name"] || '',
-    artist:   (p["Artist Name(s)"] || '').split(',')[0].trim(),
-    genres:   (p["Genres"] || '').split(/[|,]/).map((s:string)=>normGenre(s)).filter(Boolean).slice(0, 3),
+    artist:   primaryArtist(p["Artist Name(s)"], p["Track Name"]),
+    genres:   splitGenres(p["Genres"]).slice(0, 3),
     playedAt: p._d!.toISOString(),
   }));
 
   // Top artists overall by unique-track count (for artist roast slide)
-  const artistStats = new Map<string,{ tracks:number; plays:number; popSum:number; topTrack:string }>();
+  const artistStats = new Map<string,{ tracks:number; plays:number; rated:number; popSum:number; topTrack:string }>();
   for (const p of uniqueTracks) {
-    const artist = (p["Artist Name(s)"] || '').split(',')[0].trim();
+    const artist = primaryArtist(p["Artist Name(s)"], p["Track Name"]);
     if (!artist) continue;
-    const ex = artistStats.get(artist) ?? { tracks:0, plays:0, popSum:0, topTrack:'' };
+    const ex = artistStats.get(artist) ?? { tracks:0, plays:0, rated:0, popSum:0, topTrack:'' };
     artistStats.set(artist, {
       tracks:   ex.tracks + 1,
-      plays:    ex.plays + (playsPerTrack.get(p["Track URI"]) || 1),
+      plays:    ex.plays + (playsPerTrack.get(p._rid) || 1),
+      rated:    ex.rated + (p._pop > 0 ? 1 : 0),   // streaming plays carry no popularity; leave them out of avgPop
       popSum:   ex.popSum + p._pop,
       topTrack: ex.topTrack || (p["Track Name"] || ''),
     });
@@ -168,19 +186,18 @@ export function compute(rows: Row[], opts?: {
   const topArtists = [...artistStats.entries()]
     .sort((a,b) => b[1].tracks - a[1].tracks)
     .slice(0, 20)
-    .map(([artist,{ tracks, plays, popSum, topTrack }]) => ({
+    .map(([artist,{ tracks, plays, rated, popSum, topTrack }]) => ({
       artist,
       trackCount: tracks,
       playCount:  plays,
-      avgPop:     tracks > 0 ? Math.round(popSum / tracks) : 0,
+      avgPop:     rated > 0 ? Math.round(popSum / rated) : 0,
       topTrack,
     }));
 
-  // First-play discovery per month (earliest timestamp per track)
+  // First-play discovery per month (earliest timestamp per recording)
   const firstByTrack = new Map<string, Date>();
   for(const p of uniquePlays.sort((a,b)=> (a._d!.getTime()-b._d!.getTime()))){
-    const uri = p["Track URI"];
-    if(!firstByTrack.has(uri)) firstByTrack.set(uri, p._d!);
+    if(!firstByTrack.has(p._rid)) firstByTrack.set(p._rid, p._d!);
   }
   const disc = new Map<string,number>();
   for(const d of firstByTrack.values()){
@@ -201,39 +218,52 @@ export function compute(rows: Row[], opts?: {
   // Taste (weighted or unweighted)
   const sourceForTaste = uniqueTracks;
   const n = sourceForTaste.length || 1;
-  const w = (uri:string)=> (weighted ? (playsPerTrack.get(uri)||1) : 1);
-  const sumW = sourceForTaste.reduce((s,p)=> s + w(p["Track URI"]), 0) || 1;
+  const w = (uri:string)=> (weighted ? (weightPerTrack.get(uri) ?? 1) : 1);
+  const sumW = sourceForTaste.reduce((s,p)=> s + w(p._rid), 0) || 1;
   const wavg = (k: "_val"|"_eng"|"_dac"|"_aco"|"_ins") =>
-    +((sourceForTaste.reduce((s,p)=> s + w(p["Track URI"])*p[k], 0) / sumW).toFixed(3));
+    +((sourceForTaste.reduce((s,p)=> s + w(p._rid)*p[k], 0) / sumW).toFixed(3));
   const taste = { avgValence:wavg("_val"), avgEnergy:wavg("_eng"), avgDanceability:wavg("_dac"),
                   acousticBias:wavg("_aco"), instrumentalBias:wavg("_ins") };
+  // Intervals over the same weighted averages; support counts only tracks that have audio features
+  const featured = sourceForTaste.filter(p=> p._val || p._eng || p._dac).length;
+  const tasteInterval = (k: "_val"|"_eng"|"_dac"|"_aco"|"_ins") =>
+    grade(featured, meanInterval(sourceForTaste.map(p=> p[k]), sourceForTaste.map(p=> w(p._rid))), SUPPORT.taste);
+  const tasteConfidence = { avgValence:tasteInterval("_val"), avgEnergy:tasteInterval("_eng"), avgDanceability:tasteInterval("_dac"),
+                            acousticBias:tasteInterval("_aco"), instrumentalBias:tasteInterval("_ins") };
 
-  // Playlist rater v2
-  const uniqArtists = new Set(sourceForTaste.map(p=> (p["Artist Name(s)"]||"").toLowerCase())).size;
-  const uniqTracks = new Set(sourceForTaste.map(p=> p["Track URI"])).size;
-  const variety = Math.min(100, Math.round((uniqArtists / Math.max(1, uniqTracks)) * 100));
-  const avgPop = sourceForTaste.reduce((s,p)=> s + p._pop * w(p["Track URI"]), 0)/ sumW;
-  const rarityScore = Math.round(100 - Math.min(100, avgPop));
-
-  // Cohesion via genre entropy (lower entropy => more themed). Map to 0..100 where 100 = most cohesive
-  const totalGenres = new Map<string,number>();
-  for(const p of sourceForTaste){
-    const uniq = Array.from(new Set((p["Genres"]||"").split(/[|,]/).map(normGenre).filter(Boolean)));
-    for(const g of uniq) totalGenres.set(g,(totalGenres.get(g)||0)+1);
-  }
-  const counts = Array.from(totalGenres.values());
-  const Hn = counts.length ? entropy(counts) : 0; // 0..1
-  const cohesion = Math.round((1 - Hn) * 100);    // 100 = single theme
-
-  const creativity = Math.round(0.6*variety + 0.4*rarityScore);
-  const overall = Math.round(0.35*rarityScore + 0.35*cohesion + 0.15*variety + 0.15*creativity);
-  const playlistRater = { variety, rarityScore, cohesion, creativity, overall };
+  // Playlist rater v2, with the breakdown behind its overall score
+  const uniqTracks = new Set(sourceForTaste.map(p=> p._rid)).size;
+  const playlistRater = rateTracks(sourceForTaste, w, opts?.scoring);
+  const scoreExplanation = explainRater(sourceForTaste, w, playlistRater, opts?.scoring);
+  const confidence = { playlistRater: rateConfidence(sourceForTaste, w, opts?.scoring), taste: tasteConfidence };
 
   // Activity trend: per month using unique (track,timestamp) plays
   const acts = new Map<string,number>();
   for(const p of uniquePlays){ acts.set(p._m!, (acts.get(p._m!)||0)+1); }
   const activityTrend = Array.from(acts.entries()).sort((a,b)=>a[0].localeCompare(b[0])).map(([month,count])=>({month,count}));
 
+  // Listening clock: weekday × hour of real plays (not add dates), with each recording's catalog data
+  const listeningClock = buildListeningClock(uniquePlays.filter(p => p["Played At"]).map(p => {
+    const c = byRecording.get(p._rid) ?? p;
+    return { at: p._d!, genres: c["Genres"], energy: c._eng, valence: c._val };
+  }), timeZone);
+
+  // Skips and completion, where the source reports how each play went
+  const saved = new Set(plays.filter(p => p._rid && !p["Played At"]).map(p => p._rid));
+  const skipAnalytics = buildSkipAnalytics(uniquePlays.filter(p => p["Played At"]).map(p => {
+    const c = byRecording.get(p._rid) ?? p;
+    return {
+      rid: p._rid, name: c["Track Name"] || "", artist: primaryArtist(c["Artist Name(s)"], c["Track Name"]), at: p._d!,
+      skipped: isSkipped(p), completion: completionOf({ ...p, ["Duration (ms)"]: p["Duration (ms)"] || c["Duration (ms)"] }),
+    };
+  }), saved, timeZone);
+
+  // Streaks, binges, obsessions and comebacks over real plays, oldest first
+  const patterns = findPatterns(uniquePlays.filter(p => p["Played At"]).map(p => {
+    const c = byRecording.get(p._rid) ?? p;
+    return { rid: p._rid, track: c["Track Name"] || "", artist: primaryArtist(c["Artist Name(s)"], c["Track Name"]), at: p._d! };
+  }).sort((a, b) => a.at.getTime() - b.at.getTime()));
+
   // Snob line (unchanged for now; UI toggle will handle PG-13/R)
   const snob = (() => {
     const lines = [
@@ -249,9 +279,9 @@ export function compute(rows: Row[], opts?: {
   const end   = sorted.length? sorted[sorted.length-1]._d!.toISOString() : "";
 
   return {
-    topUniqueGenres, discoveryTrend, rareTracks, taste, playlistRater, activityTrend, snob,
-    decadeBreakdown, genreArtists, recentTracks, topArtists,
+    topUniqueGenres, discoveryTrend, rareTracks, taste, playlistRater, scoreExplanation, confidence, activityTrend, snob,
+    decadeBreakdown, genreArtists, recentTracks, topArtists, listeningClock, skipAnalytics, patterns,
     _counters: { uniqueTracks: uniqTracks, uniquePlays: uniquePlays.length },
-    meta:{ hash:"", rows: uniquePlays.length, files: 0, skipped: 0, window:{start,end} }
+    meta:{ hash:"", rows: uniquePlays.length, files: 0, skipped: 0, scoring: "default", window:{start,end} }
   };
 }
\ No newline at end of file
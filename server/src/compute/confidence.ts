@@ -0,0 +1,136 @@
+/**
+ * Sample sizes, 95% intervals and a support grade for the scores, so the UI
+ * and the roast can qualify or grey out claims the data can't back.
+ *
+ *   meanInterval    analytic: weighted mean ± 1.96·SE over the effective sample
+ *                   size (Σw)²/Σw², so a few heavily-played tracks count as few
+ *   wilsonInterval  analytic: a share k of n
+ *   jackknife       delete-a-group jackknife: the scorer's input is dealt into
+ *                   `groups` groups (seeded, so the same data gives the same
+ *                   interval), re-scored without each one, and the spread of the
+ *                   re-scores is the standard error. Unlike a bootstrap it never
+ *                   duplicates rows (replay penalties count dupes) or reorders
+ *                   them (playlist flow is about neighbours). Past `maxSample`
+ *                   items it runs on an order-preserving subsample and scales
+ *                   the error by √(m/n), so it costs `groups` small runs however
+ *                   big the library is.
+ *
+ * grade() turns n and an interval into a Support:
+ *   insufficient  n below `min`: shown greyed out, never the basis for a claim
+ *   provisional   n below `solid`, or the interval wider than ±maxHalfWidth
+ *   solid         otherwise
+ */
+
+export type Support = "solid" | "provisional" | "insufficient";
+
+export type Confidence = {
+  n: number;              // sample the value rests on (tracks, plays or rows)
+  low: number;            // 95% interval
+  high: number;
+  support: Support;
+};
+
+export type SupportRule = {
+  min: number;            // below this n: insufficient
+  solid: number;          // below this n: provisional
+  maxHalfWidth: number;   // a wider ± interval is provisional too
+  max: 1 | 100;           // the metric's scale; intervals are clamped to 0..max
+};
+
+export const SUPPORT: Record<"library" | "taste" | "profile" | "playlist", SupportRule> = {
+  library:  { min: 20, solid: 200, maxHalfWidth: 8,    max: 100 },   // unique tracks
+  taste:    { min: 20, solid: 200, maxHalfWidth: 0.08, max: 1 },     // tracks with audio features
+  profile:  { min: 30, solid: 300, maxHalfWidth: 8,    max: 100 },   // rows; solid = scoring.taste.minRows
+  playlist: { min: 5,  solid: 12,  maxHalfWidth: 12,   max: 100 },   // tracks; solid = scoring.playlist.minPlaylistSize
+};
+
+const Z = 1.96;
+export const JACKKNIFE = { groups: 20, maxSample: 2000 };
+
+export function grade(n: number, [low, high]: [number, number], rule: SupportRule): Confidence {
+  const digits = rule.max === 1 ? 3 : 1;
+  const clamp = (x: number) => +Math.max(0, Math.min(rule.max, x)).toFixed(digits);
+  const support: Support = n < rule.min ? "insufficient"
+    : n < rule.solid || (high - low) / 2 > rule.maxHalfWidth ? "provisional"
+    : "solid";
+  return { n, low: clamp(low), high: clamp(high), support };
+}
+
+/** The weakest of several grades, e.g. for a claim that rests on all of them. */
+export function weakest(...supports: Support[]): Support {
+  return supports.includes("insufficient") ? "insufficient" : supports.includes("provisional") ? "provisional" : "solid";
+}
+
+export function meanInterval(values: number[], weights: number[] = values.map(() => 1)): [number, number] {
+  const sw = weights.reduce((s, w) => s + w, 0);
+  if (!sw) return [0, 0];
+  const mean = values.reduce((s, v, i) => s + weights[i] * v, 0) / sw;
+  const variance = values.reduce((s, v, i) => s + weights[i] * (v - mean) ** 2, 0) / sw;
+  const nEff = sw ** 2 / weights.reduce((s, w) => s + w * w, 0);
+  const se = Math.sqrt(variance / Math.max(1, nEff - 1));
+  return [mean - Z * se, mean + Z * se];
+}
+
+export function wilsonInterval(k: number, n: number): [number, number] {
+  if (!n) return [0, 1];
+  const p = k / n;
+  const denom = 1 + Z * Z / n;
+  const centre = (p + Z * Z / (2 * n)) / denom;
+  const half = (Z / denom) * Math.sqrt(p * (1 - p) / n + Z * Z / (4 * n * n));
+  return [centre - half, centre + half];
+}
+
+// mulberry32: small, fast and seedable
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Intervals for every number `stat` returns, centred on `full` (its value over
+ * all of `items`; computed when not passed). Pass unrounded numbers: rounding
+ * hides the spread between re-scores. Fewer than two items give a zero-width
+ * interval; grade() still marks them insufficient.
+ */
+export function jackknife<T, K extends string>(
+  items: T[], stat: (sample: T[]) => Record<K, number>,
+  opts: { full?: Record<K, number>; groups?: number; maxSample?: number } = {},
+): Record<K, [number, number]> {
+  const { groups = JACKKNIFE.groups, maxSample = JACKKNIFE.maxSample } = opts;
+  const full = opts.full ?? stat(items);
+  const keys = Object.keys(full) as K[];
+  const out = {} as Record<K, [number, number]>;
+  if (Math.min(groups, items.length) < 2) {
+    for (const k of keys) out[k] = [full[k], full[k]];
+    return out;
+  }
+
+  // Seeded by size, so the same data always gets the same interval
+  const next = rng(items.length);
+  const shuffled = items.map((_, i) => i);
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const picked = shuffled.slice(0, maxSample);
+  const kept = [...picked].sort((a, b) => a - b);   // original order, for scorers that care about it
+  const scale = Math.sqrt(kept.length / items.length);
+
+  // Deal the picked rows round-robin in shuffled order, so no group is one stretch of the data (a month, an album)
+  const g = Math.min(groups, kept.length);
+  const groupOf = new Map<number, number>();
+  picked.forEach((idx, i) => groupOf.set(idx, i % g));
+
+  const reps = Array.from({ length: g }, (_, j) => stat(kept.filter(i => groupOf.get(i) !== j).map(i => items[i])));
+  for (const k of keys) {
+    const vs = reps.map(r => r[k]);
+    const mean = vs.reduce((s, v) => s + v, 0) / g;
+    const se = scale * Math.sqrt(((g - 1) / g) * vs.reduce((s, v) => s + (v - mean) ** 2, 0));
+    out[k] = [full[k] - Z * se, full[k] + Z * se];
+  }
+  return out;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { tasteEvolution } from "./evolution.js";
+
+let uri = 0;
+/** `n` plays of distinct recordings tagged `genres`, an hour apart from `start`. */
+const plays = (start: string, n: number, genres?: string) => Array.from({ length: n }, (_, i) => ({
+  ["Track URI"]: `spotify:track:${uri++}`,
+  ["Played At"]: new Date(Date.parse(start) + i * 3600_000).toISOString(),
+  ["Genres"]: genres,
+}));
+
+describe("tasteEvolution", () => {
+  const history = tasteEvolution([
+    ...plays("2024-01-10T00:00:00Z", 40, "indie rock"),
+    ...plays("2024-04-10T00:00:00Z", 40, "shoegaze"),
+    ...plays("2024-07-10T00:00:00Z", 10, "techno"),
+    ...plays("2025-01-10T00:00:00Z", 30, "techno"),
+    ...plays("2025-02-10T00:00:00Z", 10, "indie rock"),
+    ...plays("2025-03-10T00:00:00Z", 5),
+  ])!;
+
+  it("charts every quarter from the first play to the last, marking thin ones sparse", () => {
+    expect(history.families).toEqual(["Rock", "Electronic"]);
+    expect(history.quarters.map(q => [q.quarter, q.plays, q.sparse, q.dominant])).toEqual([
+      ["2024-Q1", 40, false, "Rock"],
+      ["2024-Q2", 40, false, "Rock"],
+      ["2024-Q3", 10, true, "Electronic"],
+      ["2024-Q4", 0, true, null],
+      ["2025-Q1", 40, false, "Electronic"],
+    ]);
+    expect(history.quarters[4].shares).toEqual({ Rock: 25, Electronic: 75 });
+    expect(history.unclassified).toBe(5);
+  });
+
+  it("measures drift across sparse quarters, not from them", () => {
+    expect(history.drift).toEqual([
+      { quarter: "2025-Q1", type: "takeover", family: "Electronic", from: 0, to: 75, previous: "Rock" },
+      { quarter: "2025-Q1", type: "fall", family: "Rock", from: 100, to: 25 },
+      { quarter: "2025-Q1", type: "rise", family: "Electronic", from: 0, to: 75 },
+    ]);
+  });
+
+  it("runs quarters led by the same family into eras", () => {
+    expect(history.eras).toEqual([
+      { family: "Rock", start: "2024-Q1", end: "2024-Q2", quarters: 2, plays: 80, share: 100 },
+      { family: "Electronic", start: "2025-Q1", end: "2025-Q1", quarters: 1, plays: 40, share: 75 },
+    ]);
+  });
+
+  it("is null without any genre data", () => {
+    expect(tasteEvolution(plays("2024-01-10T00:00:00Z", 40))).toBeNull();
+  });
+});
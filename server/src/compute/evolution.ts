@@ -0,0 +1,143 @@
+import { resolveRecordings } from "../ingest/identity.js";
+import { familyOf, OTHER_FAMILY } from "./genres.js";
+import { toPlays, type PlayRow } from "./plays.js";
+import { catalogByRecording } from "./sessions.js";
+
+/**
+ * How the profile's genre families shift over time (/api/taste/evolution),
+ * by calendar quarter (UTC) of real plays rather than release years.
+ *
+ * A play counts toward the family of its recording's first genre, borrowed
+ * from the richest row of that recording as in sessions; plays whose
+ * recording has no genres are left out. Quarters with fewer than
+ * MIN_QUARTER_PLAYS classified plays are kept in the timeline but marked
+ * `sparse`, and drift is only measured between quarters that aren't.
+ *
+ *   takeover  the dominant family changed from the previous quarter
+ *   rise/fall a family's share moved DRIFT_POINTS or more
+ *
+ * "Eras" are runs of consecutive quarters with the same dominant family.
+ */
+
+type EvolutionRow = PlayRow & { ["Genres"]?: string };
+
+export type EvolutionQuarter = {
+  quarter: string;                  // "2024-Q1"
+  plays: number;                    // plays with a genre
+  sparse: boolean;
+  shares: Record<string, number>;   // family → % of the quarter's plays, over `families`
+  dominant: string | null;
+};
+
+export type DriftEvent = {
+  quarter: string;
+  type: "takeover" | "rise" | "fall";
+  family: string;
+  from: number;                     // share (%) in the previous quarter
+  to: number;
+  previous?: string;                // takeover: the family that lost the top spot
+};
+
+export type TasteEra = { family: string; start: string; end: string; quarters: number; plays: number; share: number };
+
+export type TasteEvolution = {
+  families: string[];               // most-played first; the tail is folded into OTHER_FAMILY
+  quarters: EvolutionQuarter[];     // oldest first, no gaps
+  drift: DriftEvent[];              // oldest first
+  eras: TasteEra[];                 // oldest first
+  unclassified: number;             // plays without genre data
+};
+
+const MIN_QUARTER_PLAYS = 30;
+const MAX_FAMILIES = 7;             // charted families, OTHER_FAMILY included
+const DRIFT_POINTS = 15;
+
+const quarterOf = (d: Date) => `${d.getUTCFullYear()}-Q${Math.floor(d.getUTCMonth() / 3) + 1}`;
+
+/** Every quarter from `first` to `last` inclusive. */
+function quartersBetween(first: string, last: string): string[] {
+  const out: string[] = [];
+  let y = Number(first.slice(0, 4)), q = Number(first.slice(6));
+  for (let key = first; key <= last; key = `${y}-Q${q}`) {
+    out.push(key);
+    if (++q > 4) { q = 1; y++; }
+  }
+  return out;
+}
+
+/** Null when no timestamped play has genre data. */
+export function tasteEvolution(rows: EvolutionRow[]): TasteEvolution | null {
+  const { recordingOf } = resolveRecordings(rows);
+  const catalog = catalogByRecording(rows, recordingOf);
+
+  const counts = new Map<string, Map<string, number>>();   // quarter → family → plays
+  const totals = new Map<string, number>();
+  let unclassified = 0;
+  for (const p of toPlays(rows, recordingOf)) {
+    const genre = catalog.get(p.rid)?.genres[0];
+    if (!genre) { unclassified++; continue; }
+    const family = familyOf(genre);
+    const q = quarterOf(p.at);
+    const m = counts.get(q) ?? counts.set(q, new Map()).get(q)!;
+    m.set(family, (m.get(family) || 0) + 1);
+    totals.set(family, (totals.get(family) || 0) + 1);
+  }
+  if (!counts.size) return null;
+
+  // Chart the biggest families; everything else is "Other"
+  const ranked = [...totals.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([f]) => f);
+  const kept = ranked.filter(f => f !== OTHER_FAMILY).slice(0, MAX_FAMILIES - 1);
+  const families = ranked.length > kept.length ? [...kept, OTHER_FAMILY] : kept;
+  const fold = (f: string) => (kept.includes(f) ? f : OTHER_FAMILY);
+
+  const keys = [...counts.keys()].sort();
+  const quarters: EvolutionQuarter[] = quartersBetween(keys[0], keys[keys.length - 1]).map(quarter => {
+    const folded = new Map<string, number>();
+    for (const [f, n] of counts.get(quarter) ?? []) folded.set(fold(f), (folded.get(fold(f)) || 0) + n);
+    const plays = [...folded.values()].reduce((s, n) => s + n, 0);
+    const shares: Record<string, number> = {};
+    for (const f of families) shares[f] = plays ? Math.round(((folded.get(f) || 0) / plays) * 1000) / 10 : 0;
+    // "Other" is a catch-all, so it only leads a quarter when nothing else has plays
+    const dominant = families
+      .filter(f => shares[f] > 0)
+      .sort((a, b) => (a === OTHER_FAMILY ? 1 : 0) - (b === OTHER_FAMILY ? 1 : 0) || shares[b] - shares[a])[0] ?? null;
+    return { quarter, plays, sparse: plays < MIN_QUARTER_PLAYS, shares, dominant };
+  });
+
+  // Drift between consecutive quarters with enough plays
+  const drift: DriftEvent[] = [];
+  let prev: EvolutionQuarter | null = null;
+  for (const q of quarters) {
+    if (q.sparse) continue;
+    if (prev) {
+      if (q.dominant && prev.dominant && q.dominant !== prev.dominant) {
+        drift.push({ quarter: q.quarter, type: "takeover", family: q.dominant, from: prev.shares[q.dominant], to: q.shares[q.dominant], previous: prev.dominant });
+      }
+      for (const f of families) {
+        if (f === OTHER_FAMILY) continue;
+        const delta = q.shares[f] - prev.shares[f];
+        if (Math.abs(delta) >= DRIFT_POINTS) {
+          drift.push({ quarter: q.quarter, type: delta > 0 ? "rise" : "fall", family: f, from: prev.shares[f], to: q.shares[f] });
+        }
+      }
+    }
+    prev = q;
+  }
+
+  // Eras: consecutive non-sparse quarters led by the same family
+  const eras: TasteEra[] = [];
+  let shareSum = 0;
+  for (const q of quarters) {
+    if (q.sparse || !q.dominant) continue;
+    const era = eras[eras.length - 1];
+    if (era && era.family === q.dominant) {
+      era.end = q.quarter; era.quarters++; era.plays += q.plays; shareSum += q.shares[q.dominant];
+      era.share = Math.round((shareSum / era.quarters) * 10) / 10;
+    } else {
+      shareSum = q.shares[q.dominant];
+      eras.push({ family: q.dominant, start: q.quarter, end: q.quarter, quarters: 1, plays: q.plays, share: shareSum });
+    }
+  }
+
+  return { families, quarters, drift, eras, unclassified };
+}
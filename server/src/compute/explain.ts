@@ -0,0 +1,74 @@
+/**
+ * Structured "why this score" explanations shared by the three scorers: the
+ * library rater in compute(), buildTasteProfile and scoreOnePlaylist.
+ *
+ * Every score is a weighted sum of 0..100 metrics plus flat bonuses and
+ * penalties, so each component reports its raw value, its weight (null for
+ * flat adjustments) and the points it contributed. `drivers` are the rows
+ * behind the value, worst offenders first. A counterfactual is measured by
+ * re-running the same scorer without those rows, never estimated, so a
+ * change that also moves other metrics shows up in `scoreDelta`.
+ */
+
+export type ScoreDriver = {
+  label: string;          // an artist, track, genre or transition
+  value: number;          // the number that makes it a driver (popularity, share %, tracks, …)
+  note?: string;
+};
+
+export type Counterfactual = {
+  action: string;         // "Drop these 5 artists"
+  metricDelta: number;    // change in this component's metric
+  scoreDelta: number;     // change in the overall score
+};
+
+export type ScoreComponent = {
+  metric: string;         // key in the scorer's metrics
+  label: string;
+  value: number;          // 0..100 metric, or points for a flat adjustment
+  weight: number | null;
+  contribution: number;   // points added to the score (negative for penalties)
+  drivers: ScoreDriver[];
+  counterfactual: Counterfactual | null;
+};
+
+export type ScoreExplanation = {
+  score: number;
+  components: ScoreComponent[];   // in the scorer's own order
+  notes: string[];                // caps and clamps applied after the sum
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function weighted(
+  metric: string, label: string, value: number, weight: number,
+  drivers: ScoreDriver[] = [], counterfactual: Counterfactual | null = null,
+): ScoreComponent {
+  return { metric, label, value, weight, contribution: round1(value * weight), drivers, counterfactual };
+}
+
+export function adjustment(
+  metric: string, label: string, points: number,
+  drivers: ScoreDriver[] = [], counterfactual: Counterfactual | null = null,
+): ScoreComponent {
+  return { metric, label, value: Math.abs(points), weight: null, contribution: round1(points), drivers, counterfactual };
+}
+
+/** Null when the change wouldn't move the metric or the score. */
+export function counterfactual(
+  action: string,
+  before: { metric: number; score: number },
+  after: { metric: number; score: number } | null,
+): Counterfactual | null {
+  if (!after) return null;
+  const metricDelta = round1(after.metric - before.metric);
+  const scoreDelta = round1(after.score - before.score);
+  return metricDelta || scoreDelta ? { action, metricDelta, scoreDelta } : null;
+}
+
+/** The `k` biggest positive entries, largest first. */
+export function topBy<T>(items: T[], key: (t: T) => number, k = 5): T[] {
+  return items.filter(t => key(t) > 0).sort((a, b) => key(b) - key(a)).slice(0, k);
+}
+
+export const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CompareQuerySchema, StatsQuerySchema, dayRange, filterRows, statsQueryKey } from "./filters.js";
+
+describe("dayRange", () => {
+  it.each([
+    ["2023", { first: "2023-01-01", last: "2023-12-31" }],
+    ["2023-02", { first: "2023-02-01", last: "2023-02-28" }],
+    ["2024-02", { first: "2024-02-01", last: "2024-02-29" }],
+    ["2023-12", { first: "2023-12-01", last: "2023-12-31" }],
+    ["2024-02-29", { first: "2024-02-29", last: "2024-02-29" }],
+    ["2023-02-29", null],
+    ["2023-04-31", null],
+    ["2023-13", null],
+    ["2023-00", null],
+    ["2023-01-00", null],
+  ])("%s", (value, expected) => {
+    expect(dayRange(value)).toEqual(expected);
+  });
+});
+
+describe("StatsQuerySchema", () => {
+  const parse = (q: Record<string, unknown>) => StatsQuerySchema.safeParse(q);
+  const ok = (q: Record<string, unknown>) => {
+    const r = parse(q);
+    if (!r.success) throw new Error(r.error.issues.map(i => i.message).join("; "));
+    return r.data;
+  };
+
+  beforeEach(() => { vi.useFakeTimers(); vi.setSystemTime(new Date("2024-06-30T15:00:00Z")); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it.each<[string, Record<string, unknown>, object]>([
+    ["no filters", {}, {}],
+    ["a year", { year: "2023" }, { from: "2023-01-01", to: "2023-12-31" }],
+    ["month bounds widen to whole months", { from: "2023-03", to: "2023-06" }, { from: "2023-03-01", to: "2023-06-30" }],
+    ["day bounds are inclusive", { from: "2023-03-05", to: "2023-03-05" }, { from: "2023-03-05", to: "2023-03-05" }],
+    ["an open end", { from: " 2022 " }, { from: "2022-01-01" }],
+    ["the last 90 days, today included", { lastNDays: "90" }, { from: "2024-04-02" }],
+    ["filters intersect", { year: "2024", lastNDays: "30", to: "2024-12" }, { from: "2024-06-01", to: "2024-12-31" }],
+    ["playlists are lowercased, deduped and sorted", { playlist: ["Run ", "gym", "GYM", ""] }, { playlist: ["gym", "run"] }],
+    ["a single playlist", { playlist: "Gym" }, { playlist: ["gym"] }],
+    ["knobs at their defaults are dropped", { rareN: "25", weightedAverages: "true", skipWeight: "1" }, {}],
+    ["other knobs are coerced", { rareMode: "percentile", rarePercentile: "2.5", weightedAverages: "0", skipWeight: "0.25" },
+      { rareMode: "percentile", rarePercentile: 2.5, weightedAverages: false, skipWeight: 0.25 }],
+    ["time zones are canonicalised", { tz: "europe/berlin" }, { timeZone: "Europe/Berlin" }],
+    ["a scoring preset", { scoring: "strict-critic" }, { scoring: "strict-critic" }],
+  ])("%s", (_, query, expected) => {
+    expect(ok(query)).toEqual(expected);
+  });
+
+  it("resolves equivalent filters to the same cache key", () => {
+    expect(statsQueryKey(ok({ lastNDays: "90" }))).toBe(statsQueryKey(ok({ from: "2024-04-02" })));
+    expect(statsQueryKey(ok({ playlist: ["b", "a"], rareN: "25" }))).toBe(statsQueryKey(ok({ playlist: ["A", "B"] })));
+  });
+
+  it.each<[string, Record<string, unknown>, string]>([
+    ["a malformed date", { from: "2023/01" }, "Expected YYYY, YYYY-MM or YYYY-MM-DD"],
+    ["an impossible date", { to: "2023-02-30" }, "Not a real date: 2023-02-30"],
+    ["an empty range", { from: "2024", to: "2023" }, "Empty date range: 2024-01-01 is after 2023-12-31"],
+    ["a year out of range", { year: "1800" }, "Number must be greater than or equal to 1900"],
+    ["a zero-day window", { lastNDays: "0" }, "Number must be greater than or equal to 1"],
+    ["an unknown time zone", { tz: "Mars/Olympus_Mons" }, "Unknown time zone: Mars/Olympus_Mons"],
+    ["an unknown preset", { scoring: "harsh" }, "Invalid enum value"],
+    ["a non-boolean flag", { weightedAverages: "yes" }, "Invalid enum value"],
+  ])("rejects %s", (_, query, message) => {
+    const r = parse(query);
+    expect(r.success).toBe(false);
+    expect(r.error?.issues.map(i => i.message).join("; ")).toContain(message);
+  });
+});
+
+describe("CompareQuerySchema", () => {
+  it("turns each side into its own date range and shares the other filters", () => {
+    const r = CompareQuerySchema.parse({ a: "2022", b: "2023-01..2023-03", playlist: "Gym", year: "2020" });
+    expect(r).toEqual({
+      a: { label: "2022", query: { from: "2022-01-01", to: "2022-12-31", playlist: ["gym"] } },
+      b: { label: "2023-01..2023-03", query: { from: "2023-01-01", to: "2023-03-31", playlist: ["gym"] } },
+    });
+  });
+
+  it.each([
+    [{ a: "2022" }, "b"],
+    [{ a: "last year", b: "2023" }, "a"],
+    [{ a: "2022", b: "2023-02-30" }, "b"],
+    [{ a: "2023..2022", b: "2023" }, "a"],
+  ])("blames the bad side of %j", (query, key) => {
+    const r = CompareQuerySchema.safeParse(query);
+    expect(r.success).toBe(false);
+    expect(new Set(r.error?.issues.map(i => i.path[0]))).toEqual(new Set([key]));
+  });
+});
+
+describe("filterRows", () => {
+  const rows = [
+    { id: 1, "Played At": "2023-03-01T00:00:00Z", _src: { playlist: "Gym" } },
+    { id: 2, "Played At": "2023-03-31T23:59:59Z" },
+    { id: 3, "Added At": "2023-04-01T00:00:00Z", _src: { playlist: "gym" } },
+    { id: 4 },
+  ];
+  const ids = (q: Record<string, unknown>) => filterRows(rows, StatsQuerySchema.parse(q)).map(r => r.id);
+
+  it.each<[Record<string, unknown>, number[]]>([
+    [{}, [1, 2, 3, 4]],
+    [{ from: "2023-03", to: "2023-03" }, [1, 2]],
+    [{ from: "2023-03-15" }, [2, 3]],
+    [{ playlist: "GYM" }, [1, 3]],
+    [{ playlist: "gym", to: "2023-03" }, [1]],
+  ])("%j", (query, expected) => {
+    expect(ids(query)).toEqual(expected);
+  });
+});
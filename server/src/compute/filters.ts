@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { canonicalTimeZone, isTimeZone } from "./clock.js";
+import { COMPUTE_DEFAULTS, type ComputeOptions } from "./compute.js";
+import { ScoringPreset, type ScoringPresetName } from "./scoring.js";
+
+/**
+ * Query filters for /api/stats.
+ *
+ *   ?year=2023                   plays in 2023 (UTC)
+ *   ?from=2023-03&to=2023-06     YYYY, YYYY-MM or YYYY-MM-DD, both inclusive
+ *   ?lastNDays=90                the 90 days up to and including today
+ *   ?playlist=Gym&playlist=Run   rows from these playlists only (case-insensitive)
+ *
+ * plus compute's knobs: rareMode, rareN, rarePercentile, topGenresLimit,
+ * weightedAverages, cutoffMonth, skipWeight, tz (IANA zone for the listening clock;
+ * the profile's settings.json timeZone when absent) and scoring (a named preset
+ * from scoring.ts; the profile's or the config's when absent).
+ *
+ * Date filters intersect and are resolved to one concrete day range, so
+ * `lastNDays=90` and the equivalent `from=` share a cache entry; knobs equal to
+ * compute's defaults are dropped for the same reason. A row's date is when it
+ * was played — or added, for playlist rows; date filters drop undated rows.
+ */
+
+export type StatsQuery = {
+  from?: string;          // YYYY-MM-DD
+  to?: string;            // YYYY-MM-DD
+  playlist?: string[];    // lowercased, sorted
+  rareMode?: "topN" | "percentile";
+  rareN?: number;
+  rarePercentile?: number;
+  topGenresLimit?: number;
+  weightedAverages?: boolean;
+  cutoffMonth?: string;
+  skipWeight?: number;    // 0..1
+  timeZone?: string;      // canonical IANA name
+  scoring?: ScoringPresetName;
+};
+
+type FilterableRow = { ["Played At"]?: string; ["Added At"]?: string; _src?: { playlist?: string } };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DatePart = z.string().trim().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "Expected YYYY, YYYY-MM or YYYY-MM-DD");
+const Bool = z.enum(["true", "false", "1", "0"]).transform(v => v === "true" || v === "1");
+const List = z.union([z.string(), z.array(z.string())]).transform(v => (Array.isArray(v) ? v : [v]));
+
+/** An IANA time zone name, canonicalised ("europe/berlin" → "Europe/Berlin"). */
+export const TimeZone = z.string().trim().refine(isTimeZone, v => ({ message: `Unknown time zone: ${v}` })).transform(canonicalTimeZone);
+
+const isoDay = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+/** First and last day covered by a YYYY / YYYY-MM / YYYY-MM-DD value; null for impossible dates. */
+export function dayRange(value: string): { first: string; last: string } | null {
+  const [y, m, d] = value.split("-").map(Number);
+  if (m !== undefined && (m < 1 || m > 12)) return null;
+  const first = Date.UTC(y, (m ?? 1) - 1, d ?? 1);
+  if (d !== undefined && new Date(first).getUTCDate() !== d) return null;
+  const last = d !== undefined ? first : m !== undefined ? Date.UTC(y, m, 0) : Date.UTC(y, 11, 31);
+  return { first: isoDay(first), last: isoDay(last) };
+}
+
+export const StatsQuerySchema = z.object({
+  from: DatePart.optional(),
+  to: DatePart.optional(),
+  year: z.coerce.number().int().min(1900).max(2100).optional(),
+  lastNDays: z.coerce.number().int().min(1).max(36500).optional(),
+  playlist: List.optional(),
+  rareMode: z.enum(["topN", "percentile"]).optional(),
+  rareN: z.coerce.number().int().min(1).max(1000).optional(),
+  rarePercentile: z.coerce.number().gt(0).max(100).optional(),
+  topGenresLimit: z.coerce.number().int().min(1).max(500).optional(),
+  weightedAverages: Bool.optional(),
+  cutoffMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM").optional(),
+  skipWeight: z.coerce.number().min(0).max(1).optional(),
+  tz: TimeZone.optional(),
+  scoring: ScoringPreset.optional(),
+}).transform((raw, ctx): StatsQuery => {
+  const froms: string[] = [];
+  const tos: string[] = [];
+  for (const key of ["from", "to"] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    const range = dayRange(value);
+    if (!range) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Not a real date: ${value}` });
+      continue;
+    }
+    if (key === "from") froms.push(range.first);
+    else tos.push(range.last);
+  }
+  if (raw.year !== undefined) {
+    froms.push(`${raw.year}-01-01`);
+    tos.push(`${raw.year}-12-31`);
+  }
+  if (raw.lastNDays !== undefined) {
+    froms.push(isoDay(Date.now() - (raw.lastNDays - 1) * DAY_MS));
+  }
+  const from = froms.sort().at(-1);
+  const to = tos.sort()[0];
+  if (from && to && from > to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["to"], message: `Empty date range: ${from} is after ${to}` });
+  }
+
+  const playlist = raw.playlist?.map(p => p.trim().toLowerCase()).filter(Boolean);
+  const q: StatsQuery = {
+    from,
+    to,
+    playlist: playlist?.length ? [...new Set(playlist)].sort() : undefined,
+    rareMode: raw.rareMode,
+    rareN: raw.rareN,
+    rarePercentile: raw.rarePercentile,
+    topGenresLimit: raw.topGenresLimit,
+    weightedAverages: raw.weightedAverages,
+    cutoffMonth: raw.cutoffMonth,
+    skipWeight: raw.skipWeight,
+    timeZone: raw.tz,
+    scoring: raw.scoring,
+  };
+  for (const [k, v] of Object.entries(COMPUTE_DEFAULTS)) {
+    if (q[k as keyof StatsQuery] === v) delete q[k as keyof StatsQuery];
+  }
+  for (const k of Object.keys(q) as (keyof StatsQuery)[]) {
+    if (q[k] === undefined) delete q[k];
+  }
+  return q;
+});
+
+// ── /api/stats/compare ───────────────────────────────────────────────────────
+// ?a=2022&b=2023 — each side a YYYY / YYYY-MM / YYYY-MM-DD period or a `from..to`
+// range of those; every other filter and knob applies to both sides.
+
+const Period = z.string().trim().regex(
+  /^\d{4}(-\d{2}(-\d{2})?)?(\.\.\d{4}(-\d{2}(-\d{2})?)?)?$/,
+  "Expected YYYY, YYYY-MM, YYYY-MM-DD or a from..to range of those");
+
+const DATE_KEYS = ["from", "to", "year", "lastNDays"];
+
+export type ComparePeriod = { label: string; query: StatsQuery };
+
+export const CompareQuerySchema = z.object({ a: Period, b: Period }).passthrough()
+  .transform((raw, ctx): { a: ComparePeriod; b: ComparePeriod } => {
+    const shared: Record<string, unknown> = { ...raw };
+    for (const key of ["a", "b", ...DATE_KEYS]) delete shared[key];
+
+    const side = (key: "a" | "b"): ComparePeriod | null => {
+      const [from, to = from] = raw[key].split("..");
+      const parsed = StatsQuerySchema.safeParse({ ...shared, from, to });
+      if (parsed.success) return { label: raw[key], query: parsed.data };
+      for (const issue of parsed.error.issues) {
+        const path = issue.path[0] === "from" || issue.path[0] === "to" ? [key] : issue.path;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: issue.message });
+      }
+      return null;
+    };
+    const a = side("a");
+    const b = side("b");
+    return a && b ? { a, b } : z.NEVER;
+  });
+
+/** Stable string for a normalised query — the stats cache key. */
+export function statsQueryKey(q: StatsQuery): string {
+  return JSON.stringify(Object.keys(q).sort().map(k => [k, q[k as keyof StatsQuery]]));
+}
+
+export function isFiltered(q: StatsQuery): boolean {
+  return q.from !== undefined || q.to !== undefined || q.playlist !== undefined;
+}
+
+export function filterRows<T extends FilterableRow>(rows: T[], q: StatsQuery): T[] {
+  if (!isFiltered(q)) return rows;
+  const lo = q.from ? Date.parse(`${q.from}T00:00:00Z`) : -Infinity;
+  const hi = q.to ? Date.parse(`${q.to}T00:00:00Z`) + DAY_MS : Infinity;
+  const dated = q.from !== undefined || q.to !== undefined;
+  const playlists = q.playlist ? new Set(q.playlist) : null;
+  return rows.filter(r => {
+    if (playlists && !playlists.has((r._src?.playlist ?? "").toLowerCase())) return false;
+    if (!dated) return true;
+    const t = Date.parse(r["Played At"] || r["Added At"] || "");
+    return Number.isFinite(t) && t >= lo && t < hi;
+  });
+}
+
+/** The compute() options a query sets. */
+export function computeOptions(q: StatsQuery): ComputeOptions {
+  const { rareMode, rareN, rarePercentile, topGenresLimit, weightedAverages, cutoffMonth, skipWeight, timeZone } = q;
+  return { rareMode, rareN, rarePercentile, topGenresLimit, weightedAverages, cutoffMonth, skipWeight, timeZone };
+}
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+/**
+ * Genre taxonomy shared by every compute module and the app.
+ *
+ * Reads server/data/genre_taxonomy.json:
+ *   aliases  — raw tag → canonical genre ("hip hop" → "hip-hop")
+ *   families — ordered; each with keywords and substyles (each with keywords)
+ *   eras     — era hints with keywords
+ *
+ * A canonical genre belongs to the first family with a keyword it contains,
+ * then to that family's first substyle with a matching keyword ("General <family>"
+ * otherwise); its era hints are every era with a matching keyword. The app gets
+ * the same file from /api/genres/taxonomy and applies the same rules, so the
+ * roast's families match server stats.
+ */
+
+const TAXONOMY_FILE = path.resolve(process.cwd(), "data", "genre_taxonomy.json");
+
+const Keywords = z.array(z.string().min(1).transform(s => s.toLowerCase()));
+
+const TaxonomySchema = z.object({
+  version: z.number().int(),
+  aliases: z.record(z.string()).default({}),
+  families: z.array(z.object({
+    family: z.string().min(1),
+    keywords: Keywords,
+    substyles: z.array(z.object({ style: z.string().min(1), keywords: Keywords })).default([]),
+  })),
+  eras: z.array(z.object({ era: z.string().min(1), period: z.string(), keywords: Keywords })).default([]),
+});
+
+export type GenreTaxonomy = z.infer<typeof TaxonomySchema>;
+export type GenreClass = { genre: string; family: string; substyle: string; eras: string[] };
+
+export const OTHER_FAMILY = "Other";
+
+let TAXONOMY: GenreTaxonomy | null = null;
+const classified = new Map<string, GenreClass>();
+
+export function genreTaxonomy(): GenreTaxonomy {
+  if (TAXONOMY) return TAXONOMY;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(TAXONOMY_FILE, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Failed to read genre taxonomy ${TAXONOMY_FILE}: ${err?.message || err}`);
+  }
+  const parsed = TaxonomySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid genre taxonomy ${TAXONOMY_FILE}: ${issue.path.join(".")}: ${issue.message}`);
+  }
+  const aliases = Object.fromEntries(Object.entries(parsed.data.aliases).map(([k, v]) => [squash(k), squash(v)]));
+  return (TAXONOMY = { ...parsed.data, aliases });
+}
+
+const squash = (g: string) => g.trim().toLowerCase().replace(/\s+/g, " ");
+
+/** Canonical genre label: lowercased, whitespace collapsed, aliases applied. */
+export function normGenre(g: string): string {
+  const s = squash(g);
+  return genreTaxonomy().aliases[s] ?? s;
+}
+
+/** A row's "Genres" cell as canonical genres, in order, without duplicates. */
+export function splitGenres(s?: string): string[] {
+  return [...new Set((s || "").split(/[|,]/).map(normGenre).filter(Boolean))];
+}
+
+export function classifyGenre(g: string): GenreClass {
+  const genre = normGenre(g);
+  const hit = classified.get(genre);
+  if (hit) return hit;
+
+  const { families, eras } = genreTaxonomy();
+  const matches = (keywords: string[]) => keywords.some(k => genre.includes(k));
+  const fam = families.find(f => matches(f.keywords));
+  const family = fam?.family ?? OTHER_FAMILY;
+  const substyle = fam?.substyles.find(s => matches(s.keywords))?.style ?? `General ${family}`;
+  const out = { genre, family, substyle, eras: eras.filter(e => matches(e.keywords)).map(e => e.era) };
+  classified.set(genre, out);
+  return out;
+}
+
+export const familyOf = (g: string) => classifyGenre(g).family;
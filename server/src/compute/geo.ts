@@ -0,0 +1,79 @@
+/**
+ * Country → continent resolution for artist origins.
+ *
+ *   continentOf("GB")        → "EU"
+ *   countryCode("England")   → "GB"
+ *   countryCode("us")        → "US"
+ *
+ * Continents use two-letter codes: AF, AN, AS, EU, NA, OC, SA. Country names are
+ * resolved through Intl.DisplayNames (English), plus the historical/sub-national
+ * names MusicBrainz areas and hand-made CSVs tend to use.
+ */
+
+const CONTINENT_COUNTRIES: Record<string, string> = {
+  AF: "DZ AO BJ BW BF BI CV CM CF TD KM CG CD CI DJ EG GQ ER SZ ET GA GM GH GN GW KE LS LR LY MG MW ML MR MU YT MA MZ NA NE NG RE RW SH ST SN SC SL SO ZA SS SD TZ TG TN UG EH ZM ZW",
+  AN: "AQ BV GS HM TF",
+  AS: "AF AM AZ BH BD BT BN KH CN CY GE HK IN ID IR IQ IL JP JO KZ KW KG LA LB MO MY MV MN MM NP KP OM PK PS PH QA SA SG KR LK SY TW TJ TH TL TR TM AE UZ VN YE IO CC CX",
+  EU: "AX AL AD AT BY BE BA BG HR CZ DK EE FO FI FR DE GI GR GG VA HU IS IE IM IT JE XK LV LI LT LU MT MD MC ME NL MK NO PL PT RO RU SM RS SK SI ES SJ SE CH UA GB SU YU CS DD",
+  NA: "AI AG AW BS BB BZ BM BQ VG CA KY CR CU CW DM DO SV GL GD GP GT HT HN JM MQ MX MS NI PA PR BL KN LC MF PM VC SX TT TC US VI UM",
+  OC: "AS AU CK FJ PF GU KI MH FM NR NC NZ NU NF MP PW PG PN WS SB TK TO TV VU WF",
+  SA: "AR BO BR CL CO EC FK GF GY PY PE SR UY VE",
+};
+
+const CONTINENT_OF = new Map<string, string>(
+  Object.entries(CONTINENT_COUNTRIES).flatMap(([cont, codes]) => codes.split(" ").map(c => [c, cont] as [string, string])),
+);
+
+// Names Intl doesn't produce: constituent countries, old states, common short forms.
+const EXTRA_NAMES: Record<string, string> = {
+  "england": "GB", "scotland": "GB", "wales": "GB", "northern ireland": "GB", "great britain": "GB",
+  "uk": "GB", "united kingdom of great britain and northern ireland": "GB",
+  "usa": "US", "united states of america": "US", "america": "US",
+  "soviet union": "SU", "ussr": "SU", "yugoslavia": "YU", "czechoslovakia": "CS",
+  "serbia and montenegro": "CS", "east germany": "DD", "west germany": "DE",
+  "czech republic": "CZ", "holland": "NL", "ivory coast": "CI", "korea": "KR",
+  "republic of korea": "KR", "burma": "MM", "swaziland": "SZ", "macedonia": "MK",
+  "russian federation": "RU", "viet nam": "VN", "cape verde": "CV", "the netherlands": "NL",
+};
+
+// MusicBrainz pseudo-areas that only tell us the continent
+const CONTINENT_ONLY: Record<string, string> = { XE: "EU", europe: "EU", africa: "AF", asia: "AS", oceania: "OC", "south america": "SA", "north america": "NA" };
+
+let nameIndex: Map<string, string> | null = null;
+
+const squash = (s: string) => s.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase().replace(/\s+/g, " ");
+
+function names(): Map<string, string> {
+  if (nameIndex) return nameIndex;
+  const index = new Map<string, string>();
+  const display = new Intl.DisplayNames(["en"], { type: "region" });
+  for (const code of CONTINENT_OF.keys()) {
+    try {
+      const name = display.of(code);
+      if (name && name !== code) index.set(squash(name), code);
+    } catch {
+      // historical codes (SU, YU…) aren't valid regions for Intl
+    }
+  }
+  for (const [name, code] of Object.entries(EXTRA_NAMES)) index.set(name, code);
+  return (nameIndex = index);
+}
+
+/** ISO 3166-1 alpha-2 code for a code, ISO 3166-2 subdivision ("US-CA") or country name; null if unknown. */
+export function countryCode(value?: string | null): string | null {
+  const v = (value ?? "").trim();
+  if (!v) return null;
+  const code = v.toUpperCase().match(/^([A-Z]{2})(?:-[A-Z0-9]{1,3})?$/)?.[1];
+  if (code && CONTINENT_OF.has(code)) return code;
+  return names().get(squash(v)) ?? null;
+}
+
+export function continentOf(country?: string | null): string | null {
+  return country ? CONTINENT_OF.get(country.toUpperCase()) ?? null : null;
+}
+
+/** Continent for an area that isn't a country ("Europe", MusicBrainz "XE"). */
+export function continentOnly(value?: string | null): string | null {
+  const v = (value ?? "").trim();
+  return CONTINENT_ONLY[v.toUpperCase()] ?? CONTINENT_ONLY[squash(v)] ?? null;
+}
@@ -1,20 +1,21 @@
-import type { RowEx } from "../ingest/readAll.js";
+import type { IngestRow } from "../ingest/types.js";
+import { primaryArtist } from "./artistCredits.js";
+import { splitGenres } from "./genres.js";
 
-const splitGenres = (s?: string) => (s || "").split(/[|,]/).map(x => x.trim()).filter(Boolean);
 const yearOf = (z?: string) => {
   if (!z) return NaN;
   const d = new Date(z);
   return isNaN(d.getTime()) ? NaN : d.getUTCFullYear();
 };
 
-export function analyzeLibrary(rowsIn: RowEx[]) {
-  const rows: RowEx[] = Array.isArray(rowsIn) ? rowsIn : [];
+export function analyzeLibrary(rowsIn: IngestRow[]) {
+  const rows: IngestRow[] = Array.isArray(rowsIn) ? rowsIn : [];
   const nowYear = new Date().getUTCFullYear();
   const minSpotifyYear = 2008;
 
   const listenYears: number[] = [];
-  const vintage: RowEx[] = [];
-  const modern: RowEx[] = [];
+  const vintage: IngestRow[] = [];
+  const modern: IngestRow[] = [];
 
   for (const r of rows) {
     const yListen = yearOf(r?.["Played At"] || r?.["Added At"]);
@@ -80,8 +81,8 @@ function jaccardContrast(a: Set<string>, b: Set<string>) {
   return Math.round((1 - j) * 100);
 }
 
-function topArtistsPerGenre(rowsIn: RowEx[], topGenres = 8, artistsPer = 5) {
-  const rows: RowEx[] = Array.isArray(rowsIn) ? rowsIn : [];
+function topArtistsPerGenre(rowsIn: IngestRow[], topGenres = 8, artistsPer = 5) {
+  const rows: IngestRow[] = Array.isArray(rowsIn) ? rowsIn : [];
   const genreCounts = new Map<string, number>();
   for (const r of rows) for (const g of splitGenres(r?.["Genres"])) {
     genreCounts.set(g, (genreCounts.get(g) || 0) + 1);
@@ -92,7 +93,7 @@ function topArtistsPerGenre(rowsIn: RowEx[], topGenres = 8, artistsPer = 5) {
   for (const g of genres) byGenre.set(g, new Map());
 
   for (const r of rows) {
-    const artist = (r?.["Artist Name(s)"] || "").toLowerCase();
+    const artist = primaryArtist(r?.["Artist Name(s)"], r?.["Track Name"]).toLowerCase();
     if (!artist) continue;
     for (const g of splitGenres(r?.["Genres"])) {
       if (!byGenre.has(g)) continue;
@@ -1,30 +1,75 @@
 import fs from "fs";
 import path from "path";
+import { continentOf, countryCode } from "./geo.js";
 
 /**
  * Lightweight, free origin resolver:
- * - Reads optional JSON: cache/artist_origin.json
+ * - Reads optional JSON: cache/artist_origin.json (built by `npm run origins`, see cli/buildOrigins.ts)
  *   Format: { "artist name lowercase": { country: "US", continent: "NA" }, ... }
+ * - Then cache/artist_origin.overrides.json, hand-edited, which wins:
+ *   { "Artist Name": { country: "GB" }, "Other Artist": null }   (null = force Unknown)
+ * - Names match loosely (case, accents, "&"/"and", a leading "The", punctuation).
  * - If missing, returns null and we bucket as "Unknown".
  */
-export type Origin = { country?: string; continent?: string };
-const CACHE_FILE = path.resolve(process.cwd(), "..", "cache", "artist_origin.json");
+export type Origin = { country?: string; continent?: string; source?: string; mbid?: string; match?: string };
+export const ORIGIN_FILE = path.resolve(process.cwd(), "..", "cache", "artist_origin.json");
+export const OVERRIDES_FILE = path.resolve(process.cwd(), "..", "cache", "artist_origin.overrides.json");
+const RECHECK_MS = 10_000;
 
-let DB: Record<string, Origin> | null = null;
-function loadDb(){
-  if(DB !== null) return;
+/** Loose artist key: "The Beatles" / "beatles", "Beyoncé" / "Beyonce", "Simon & Garfunkel" / "Simon and Garfunkel". */
+export function originKey(name: string): string {
+  return (name || "")
+    .normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/^\s*the\s+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/** Fill in the continent from the country and normalise the country code. */
+export function completeOrigin(o: Origin): Origin | null {
+  const country = countryCode(o.country) ?? undefined;
+  const continent = (o.continent || continentOf(country) || "").toUpperCase() || undefined;
+  if (!country && !continent) return null;
+  return { ...o, country, continent };
+}
+
+function readJson(file: string): Record<string, Origin | null> {
   try{
-    if(fs.existsSync(CACHE_FILE)){
-      DB = JSON.parse(fs.readFileSync(CACHE_FILE,"utf8"));
-    } else {
-      DB = {};
-    }
-  }catch{ DB = {}; }
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file,"utf8")) : {};
+  }catch(err: any){
+    console.warn(`[origin] ${file}: unreadable, ignoring — ${err?.message || err}`);
+    return {};
+  }
+}
+
+export function loadOverrides(): Record<string, Origin | null> {
+  return readJson(OVERRIDES_FILE);
+}
+
+const mtime = (file: string) => { try { return fs.statSync(file).mtimeMs; } catch { return 0; } };
+
+let DB: Map<string, Origin | null> | null = null;
+let stamp = "";
+let checkedAt = 0;
+function loadDb(){
+  // A rebuild or an edited overrides file is picked up without a restart.
+  if(DB !== null && Date.now() - checkedAt < RECHECK_MS) return;
+  checkedAt = Date.now();
+  const next = `${mtime(ORIGIN_FILE)}:${mtime(OVERRIDES_FILE)}`;
+  if(DB !== null && next === stamp) return;
+  stamp = next;
+  DB = new Map();
+  for(const [name, o] of Object.entries(readJson(ORIGIN_FILE))){
+    if(o) DB.set(originKey(name), o);
+  }
+  for(const [name, o] of Object.entries(loadOverrides())){
+    DB.set(originKey(name), o ? completeOrigin(o) : null);
+  }
 }
 
 export function lookupOrigin(artistName: string): Origin | null {
   loadDb();
   if(!artistName) return null;
-  const key = artistName.trim().toLowerCase();
-  return (DB as any)?.[key] ?? null;
-}
\ No newline at end of file
+  return DB?.get(originKey(artistName)) ?? null;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { biggestObsession, findPatterns, longestStreak, streaks, type PatternPlay } from "./patterns.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `n` plays of one track, `everyMs` apart from `start`. */
+const repeat = (n: number, start: string, everyMs: number, rid = "spotify:track:a", artist = "Slowdive"): PatternPlay[] =>
+  Array.from({ length: n }, (_, i) => ({ rid, track: `Song ${rid.slice(-1)}`, artist, at: new Date(Date.parse(start) + i * everyMs) }));
+
+describe("streaks", () => {
+  it("runs consecutive days together, counting each day once", () => {
+    expect(streaks(["2024-01-04", "2024-01-01", "2024-01-02", "2024-01-02"])).toEqual([
+      { days: 2, start: "2024-01-01", end: "2024-01-02" },
+      { days: 1, start: "2024-01-04", end: "2024-01-04" },
+    ]);
+  });
+
+  it("runs across a month end", () => {
+    expect(longestStreak(["2024-02-28", "2024-02-29", "2024-03-01"])).toEqual({ days: 3, start: "2024-02-28", end: "2024-03-01" });
+  });
+
+  it("keeps the earliest of two equally long runs", () => {
+    expect(longestStreak(["2024-05-01", "2024-05-02", "2024-01-01", "2024-01-02"])?.start).toBe("2024-01-01");
+    expect(longestStreak([])).toBeNull();
+  });
+});
+
+describe("biggestObsession", () => {
+  it("is the most plays of one recording inside 7 days", () => {
+    const plays = [...repeat(3, "2024-01-01T12:00:00Z", DAY_MS), ...repeat(5, "2024-03-01T12:00:00Z", DAY_MS, "spotify:track:b")];
+    expect(biggestObsession(plays)).toEqual({ name: "Song b", artist: "Slowdive", plays: 5, start: "2024-03-01", end: "2024-03-05" });
+  });
+
+  it("needs a recording played more than once", () => {
+    expect(biggestObsession(repeat(1, "2024-01-01T12:00:00Z", DAY_MS))).toBeNull();
+  });
+});
+
+describe("findPatterns", () => {
+  it.each<[string, number, number, number[]]>([
+    ["12 plays inside 4 hours", 12, 20 * 60000, [12]],
+    ["11 plays inside 4 hours", 11, 20 * 60000, []],
+    ["12 plays over more than 4 hours", 12, 22 * 60000, []],
+  ])("binges: %s", (_, n, everyMs, expected) => {
+    const { binges } = findPatterns(repeat(n, "2024-01-01T18:00:00Z", everyMs));
+    expect(binges.map(b => b.plays)).toEqual(expected);
+  });
+
+  it("dates a binge by its first and last play", () => {
+    expect(findPatterns(repeat(12, "2024-01-01T18:00:00Z", 20 * 60000)).binges).toEqual([
+      { artist: "Slowdive", plays: 12, start: "2024-01-01T18:00:00.000Z", end: "2024-01-01T21:40:00.000Z", hours: 3.7 },
+    ]);
+  });
+
+  it.each<[string, PatternPlay[], number | null | undefined]>([
+    ["a week of 8 plays and nothing else", repeat(8, "2024-06-01T12:00:00Z", DAY_MS / 2), null],
+    ["8 in a week against one a week", [...repeat(20, "2024-01-01T12:00:00Z", 7 * DAY_MS), ...repeat(8, "2024-06-01T12:00:00Z", DAY_MS / 2)], 8.5],
+    ["8 in a week against three a week", [...repeat(60, "2024-01-01T12:00:00Z", 7 * DAY_MS / 3), ...repeat(8, "2024-06-01T12:00:00Z", DAY_MS / 2)], undefined],
+    ["7 in a week", repeat(7, "2024-06-01T12:00:00Z", DAY_MS / 2), undefined],
+  ])("obsessions: %s", (_, plays, spike) => {
+    const { obsessions } = findPatterns(plays);
+    expect(obsessions.map(o => o.spike)).toEqual(spike === undefined ? [] : [spike]);
+  });
+
+  it.each<[string, number, number, number, number | null]>([
+    ["3 plays, 200 days away, 3 plays", 3, 200, 3, 200],
+    ["3 plays, 179 days away, 3 plays", 3, 179, 3, null],
+    ["2 plays, 200 days away, 3 plays", 2, 200, 3, null],
+    ["3 plays, 200 days away, 2 plays", 3, 200, 2, null],
+  ])("comebacks: %s", (_, before, gapDays, after, expected) => {
+    const first = repeat(before, "2023-01-01T12:00:00Z", DAY_MS);
+    const back = new Date(first[first.length - 1].at.getTime() + gapDays * DAY_MS).toISOString();
+    const { comebacks } = findPatterns([...first, ...repeat(after, back, DAY_MS)]);
+    expect(comebacks.map(c => c.gapDays)).toEqual(expected === null ? [] : [expected]);
+  });
+});
@@ -0,0 +1,165 @@
+import { dayKey } from "./plays.js";
+
+/**
+ * Temporal patterns in listening (the stats' `patterns`, Wrapped's streak and
+ * obsession): consecutive-day streaks, artist binges, track obsessions and
+ * artist comebacks. Works on timestamped plays, oldest first, one per
+ * (recording, timestamp) — compute()'s `uniquePlays`. Days are UTC.
+ *
+ *   binge      BINGE_MIN_PLAYS+ plays of one artist inside BINGE_WINDOW_HOURS
+ *   obsession  a track's best 7-day run, at least OBSESSION_SPIKE× its usual
+ *              weekly rate over the rest of its life in the history
+ *   comeback   an artist played again after COMEBACK_MIN_DAYS+ of silence
+ */
+
+export type PatternPlay = { rid: string; track: string; artist: string; at: Date };
+
+export type Streak = { days: number; start: string; end: string };
+
+export type Binge = { artist: string; plays: number; start: string; end: string; hours: number };
+
+export type Obsession = {
+  name: string;
+  artist: string;
+  plays: number;            // in the week
+  start: string;            // YYYY-MM-DD
+  end: string;
+  spike: number | null;     // × the track's usual weekly plays; null when it was never played otherwise
+};
+
+export type Comeback = { artist: string; gapDays: number; lastPlayed: string; returned: string; playsBefore: number; playsAfter: number };
+
+export type Patterns = {
+  streaks: { longest: Streak | null; latest: Streak | null; top: Streak[] };
+  binges: Binge[];
+  obsessions: Obsession[];
+  comebacks: Comeback[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const OBSESSION_WINDOW_DAYS = 7;
+const OBSESSION_MIN_PLAYS = 8;
+const OBSESSION_SPIKE = 3;
+const BINGE_WINDOW_HOURS = 4;
+const BINGE_MIN_PLAYS = 12;
+const COMEBACK_MIN_DAYS = 180;
+const COMEBACK_MIN_PLAYS = 3;     // on each side of the gap
+const MAX_LISTED = 10;
+
+function groupBy(plays: PatternPlay[], key: (p: PatternPlay) => string): Map<string, PatternPlay[]> {
+  const out = new Map<string, PatternPlay[]>();
+  for (const p of plays) {
+    const k = key(p);
+    if (!k) continue;
+    (out.get(k) ?? out.set(k, []).get(k)!).push(p);
+  }
+  return out;
+}
+
+/** Most plays inside any window of `windowMs`, sliding over oldest-first plays. */
+function peakWindow<T extends PatternPlay>(list: T[], windowMs: number): { plays: number; first: T; last: T } | null {
+  let best: { plays: number; first: T; last: T } | null = null;
+  let lo = 0;
+  for (let hi = 0; hi < list.length; hi++) {
+    while (list[hi].at.getTime() - list[lo].at.getTime() >= windowMs) lo++;
+    const n = hi - lo + 1;
+    if (!best || n > best.plays) best = { plays: n, first: list[lo], last: list[hi] };
+  }
+  return best;
+}
+
+/** Every run of consecutive days with at least one play, oldest first. */
+export function streaks(days: string[]): Streak[] {
+  const sorted = [...new Set(days)].sort();
+  const out: Streak[] = [];
+  for (const day of sorted) {
+    const run = out[out.length - 1];
+    if (run && Date.parse(day) - Date.parse(run.end) === DAY_MS) { run.days++; run.end = day; }
+    else out.push({ days: 1, start: day, end: day });
+  }
+  return out;
+}
+
+const longestOf = (runs: Streak[]) => runs.reduce<Streak | null>((best, s) => (!best || s.days > best.days ? s : best), null);
+
+/** Longest run of consecutive days with at least one play; the earliest on a tie. */
+export const longestStreak = (days: string[]) => longestOf(streaks(days));
+
+/** The recording with the most plays inside any 7-day window. */
+export function biggestObsession(plays: PatternPlay[]): Omit<Obsession, "spike"> | null {
+  let best: Omit<Obsession, "spike"> | null = null;
+  for (const list of groupBy(plays, p => p.rid).values()) {
+    const peak = peakWindow(list, OBSESSION_WINDOW_DAYS * DAY_MS);
+    if (peak && (!best || peak.plays > best.plays)) {
+      best = { name: peak.last.track, artist: peak.last.artist, plays: peak.plays, start: dayKey(peak.first.at), end: dayKey(peak.last.at) };
+    }
+  }
+  return best && best.plays > 1 ? best : null;
+}
+
+function binges(plays: PatternPlay[]): Binge[] {
+  const out: Binge[] = [];
+  for (const list of groupBy(plays, p => p.artist.toLowerCase()).values()) {
+    const peak = peakWindow(list, BINGE_WINDOW_HOURS * HOUR_MS);
+    if (!peak || peak.plays < BINGE_MIN_PLAYS) continue;
+    out.push({
+      artist: peak.last.artist, plays: peak.plays,
+      start: peak.first.at.toISOString(), end: peak.last.at.toISOString(),
+      hours: Math.round(((peak.last.at.getTime() - peak.first.at.getTime()) / HOUR_MS) * 10) / 10,
+    });
+  }
+  return out.sort((a, b) => b.plays - a.plays || a.start.localeCompare(b.start)).slice(0, MAX_LISTED);
+}
+
+function obsessions(plays: PatternPlay[]): Obsession[] {
+  const out: Obsession[] = [];
+  for (const list of groupBy(plays, p => p.rid).values()) {
+    if (list.length < OBSESSION_MIN_PLAYS) continue;
+    const peak = peakWindow(list, OBSESSION_WINDOW_DAYS * DAY_MS);
+    if (!peak || peak.plays < OBSESSION_MIN_PLAYS) continue;
+    // Usual rate: the rest of the track's plays over the rest of its span, per week
+    const rest = list.length - peak.plays;
+    const spanWeeks = (list[list.length - 1].at.getTime() - list[0].at.getTime()) / (OBSESSION_WINDOW_DAYS * DAY_MS);
+    const restWeeks = Math.max(1, spanWeeks - 1);
+    const usual = rest / restWeeks;
+    const spike = usual > 0 ? Math.round((peak.plays / usual) * 10) / 10 : null;
+    if (spike !== null && spike < OBSESSION_SPIKE) continue;
+    out.push({ name: peak.last.track, artist: peak.last.artist, plays: peak.plays, start: dayKey(peak.first.at), end: dayKey(peak.last.at), spike });
+  }
+  return out.sort((a, b) => b.plays - a.plays || a.start.localeCompare(b.start)).slice(0, MAX_LISTED);
+}
+
+function comebacks(plays: PatternPlay[]): Comeback[] {
+  const out: Comeback[] = [];
+  for (const list of groupBy(plays, p => p.artist.toLowerCase()).values()) {
+    let best: Comeback | null = null;
+    for (let i = 1; i < list.length; i++) {
+      const gapDays = Math.floor((list[i].at.getTime() - list[i - 1].at.getTime()) / DAY_MS);
+      if (gapDays < COMEBACK_MIN_DAYS || i < COMEBACK_MIN_PLAYS || list.length - i < COMEBACK_MIN_PLAYS) continue;
+      if (!best || gapDays > best.gapDays) {
+        best = {
+          artist: list[i].artist, gapDays,
+          lastPlayed: dayKey(list[i - 1].at), returned: dayKey(list[i].at),
+          playsBefore: i, playsAfter: list.length - i,
+        };
+      }
+    }
+    if (best) out.push(best);
+  }
+  return out.sort((a, b) => b.gapDays - a.gapDays || a.artist.localeCompare(b.artist)).slice(0, MAX_LISTED);
+}
+
+export function findPatterns(plays: PatternPlay[]): Patterns {
+  const runs = streaks(plays.map(p => dayKey(p.at)));
+  return {
+    streaks: {
+      longest: longestOf(runs),
+      latest: runs[runs.length - 1] ?? null,
+      top: [...runs].sort((a, b) => b.days - a.days || a.start.localeCompare(b.start)).filter(s => s.days > 1).slice(0, 5),
+    },
+    binges: binges(plays),
+    obsessions: obsessions(plays),
+    comebacks: comebacks(plays),
+  };
+}
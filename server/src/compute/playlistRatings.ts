@@ -1,7 +1,9 @@
-import type { RowEx } from "../ingest/readAll.js";
+import type { IngestRow } from "../ingest/types.js";
+import { primaryArtist } from "./artistCredits.js";
+import { splitGenres } from "./genres.js";
+import { DEFAULT_SCORING, type RatingsScoring } from "./scoring.js";
 
 type Count = { [k: string]: number };
-const splitGenres = (s?: string) => (s || "").split(/[|,]/).map(x => x.trim()).filter(Boolean);
 
 export type PlaylistRating = {
   name: string;
@@ -16,17 +18,17 @@ export type PlaylistRating = {
   topGenres: { genre: string; count: number }[];
 };
 
-export function computePlaylistRatings(rows: RowEx[]): PlaylistRating[] {
-  const byList = new Map<string, RowEx[]>();
+export function computePlaylistRatings(rows: IngestRow[], cfg: RatingsScoring = DEFAULT_SCORING.ratings): PlaylistRating[] {
+  const byList = new Map<string, IngestRow[]>();
   for (const r of rows) {
-    const list = (r as any).__playlist || "unknown";
+    const list = r._src?.playlist || "unknown";
     if (!byList.has(list)) byList.set(list, []);
     byList.get(list)!.push(r);
   }
 
   const ratings: PlaylistRating[] = [];
   for (const [name, arr] of byList) {
-    if (arr.length < 5) continue;
+    if (arr.length < cfg.minTracks) continue;
 
     const uniqTracks = new Set(arr.map(r => r["Track URI"])).size;
     const artistCounts: Count = {};
@@ -34,14 +36,14 @@ export function computePlaylistRatings(rows: RowEx[]): PlaylistRating[] {
     let popSum = 0, lowPop = 0;
 
     for (const r of arr) {
-      const a = (r["Artist Name(s)"] || "").toLowerCase();
+      const a = primaryArtist(r["Artist Name(s)"], r["Track Name"]).toLowerCase();
       artistCounts[a] = (artistCounts[a] || 0) + 1;
       for (const g of splitGenres(r["Genres"])) {
         genreCounts[g] = (genreCounts[g] || 0) + 1;
       }
       const pop = Number(r["Popularity"] || 0);
       popSum += pop;
-      if (pop <= 20) lowPop++;
+      if (pop <= cfg.lowPopThreshold) lowPop++;
     }
 
     const topArtistCount = Object.values(artistCounts).sort((a,b)=>b-a)[0] || 0;
@@ -58,7 +60,8 @@ export function computePlaylistRatings(rows: RowEx[]): PlaylistRating[] {
     const creativity = Math.max(0, Math.min(100, Math.round(0.6 * crossGenre + 0.4 * deepCutBoost)));
 
     // Cohesion heavier for individual playlists (your preference)
-    const overall = Math.round(0.45 * cohesion + 0.15 * variety + 0.25 * rarity + 0.15 * creativity);
+    const W = cfg.weights;
+    const overall = Math.round(W.cohesion * cohesion + W.variety * variety + W.rarity * rarity + W.creativity * creativity);
 
     const topArtists = Object.entries(artistCounts).sort((a,b)=>b[1]-a[1]).slice(0,5).map(([name,count])=>({ name, count }));
     const topGenres  = Object.entries(genreCounts).sort((a,b)=>b[1]-a[1]).slice(0,5).map(([genre,count])=>({ genre, count }));
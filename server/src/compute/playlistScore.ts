@@ -1,29 +1,16 @@
 import type { RowLike, PlaylistScore } from "./types";
-import { DefaultEras } from "./eras";
-
-// ---- Tunable knobs (easy to tweak) ----
-export const ScoringConfig = {
-  flowTarget: 60,                    // you: Flow is 60 (quality bar)
-  minConsistency: 75,                // must be over 75 to be considered "on theme"
-  minGenreDiversity: 55,             // at least 55
-  minPlaylistSize: 12,               // at least 12 tracks to be judged fully
-  mainstreamThresh: 71,              // >=71 mainstream, <=35 niche
-  nicheThresh: 35,
-  featureArtistWeight: 0.25,         // features count as 0.25 toward artist share
-  capPerPlaylistTracks: 80,          // analyze first 80 tracks to avoid big-list bias
-  replayPenalty: { mild: 5, medium: 10, strong: 20 }, // you picked mild
-  intlUnknownTinyBonus: 0.5,         // small + when origin unknown (lenient)
-  // Megastar settings
-  megastarMaxShare: 25,              // if an artist >25% of a playlist → penalty
-  // Category dampeners
-  penalizePop: true,
-  penalizeEDMBig15: true,
-  penalizeModernCountryBig: true,
-  // Rare scene gating
-  rareWellCuratedMinScore: 82,       // you set 82
-  rareRequiredPlaylists: 3,          // at least 3
-  rareMinTracksEach: 10,             // each has >=10
-};
+import type { Era } from "./eras";
+import { parseArtistCredits, type ArtistCredit } from "./artistCredits.js";
+import { splitGenres as splitGenreCell } from "./genres.js";
+import { DEFAULT_SCORING, type PlaylistScoring, type Scoring } from "./scoring.js";
+import { adjustment, counterfactual, plural, topBy, weighted, type ScoreDriver, type ScoreExplanation } from "./explain.js";
+import { grade, jackknife, SUPPORT } from "./confidence.js";
+
+// Tunable knobs live in scoring.ts (config, settings.json and presets)
+type PlaylistRules = Pick<Scoring, "playlist" | "eras">;
+
+// Points taken off when a playlist repeats tracks
+const ReplayPoints = { off: 0, mild: 5, medium: 10, strong: 20 };
 
 // Big-name clusters to slightly dampen when dominating
 const BigPop = new Set(["taylor swift","dua lipa","ed sheeran","justin bieber","olivia rodrigo","katy perry","ariana grande","maroon 5","bruno mars","the weeknd"]);
@@ -38,14 +25,17 @@ function yearOf(r:RowLike): number {
   const m = d.match(/^(\d{4})/); return m? Number(m[1]): 0;
 }
 
-function splitArtists(r:RowLike): string[] {
+function splitArtists(r:RowLike): ArtistCredit[] {
   const raw = r["Artist Name(s)"] ?? r["Artists"] ?? r["Artist"] ?? "";
-  return String(raw).split(/[,&]/).map(s=>s.trim().toLowerCase()).filter(Boolean);
+  // producers aren't performers; they don't count toward artist share
+  return parseArtistCredits(String(raw), String(r["Track Name"] ?? "")).credits
+    .filter(c=>c.role!=="producer")
+    .map(c=>({ name:c.name.toLowerCase(), role:c.role }));
 }
 
 function splitGenres(r:RowLike): string[] {
   const raw = r["Genres"] ?? "";
-  return String(raw).toLowerCase().split(/[|,\/]/).map(s=>s.trim()).filter(Boolean);
+  return splitGenreCell(String(raw));
 }
 
 function popularityOf(r:RowLike): number {
@@ -55,9 +45,9 @@ function popularityOf(r:RowLike): number {
   return a || 0;
 }
 
-function featureWeightFor(artistIndex:number, totalArtists:number): number {
-  // first artist = main; others considered "features"
-  return artistIndex===0 ? 1 : ScoringConfig.featureArtistWeight;
+function featureWeightFor(credit:ArtistCredit, cfg:PlaylistScoring): number {
+  // main artists count fully; featured artists and remixers are "features"
+  return credit.role==="main" ? 1 : cfg.featureArtistWeight;
 }
 
 function vector(r:RowLike){ // for crude "flow" calc
@@ -74,8 +64,8 @@ function dist(a:number[], b:number[]){
   return d; // 0..~1.732
 }
 
-function flowScore(rows: RowLike[]): number {
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+function flowScore(rows: RowLike[], cfg: PlaylistScoring): number {
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   if (n < 2) return 50;
   let total = 0; let steps = 0;
   for(let i=1;i<n;i++){
@@ -89,10 +79,10 @@ function flowScore(rows: RowLike[]): number {
   return Math.round(score);
 }
 
-function consistencyPercent(rows: RowLike[]): number {
+function consistencyPercent(rows: RowLike[], cfg: PlaylistScoring): number {
   // use top genre/theme share
   const cnt = new Map<string, number>();
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   for(let i=0;i<n;i++){
     const gs = splitGenres(rows[i]); const g = gs[0] || "unknown";
     cnt.set(g,(cnt.get(g)||0)+1);
@@ -101,9 +91,9 @@ function consistencyPercent(rows: RowLike[]): number {
   return Math.round(100 * (top / Math.max(1,n)));
 }
 
-function genreDiversity(rows: RowLike[]): number {
+function genreDiversity(rows: RowLike[], cfg: PlaylistScoring): number {
   const set = new Set<string>();
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   for(let i=0;i<n;i++){ splitGenres(rows[i]).slice(0,2).forEach(g=>set.add(g)); }
   const distinct = set.size;
   // 1 genre ~ 10, 2 ~ 25, 4 ~ 55, 8 ~ 75, 12+ ~ 90+
@@ -111,43 +101,44 @@ function genreDiversity(rows: RowLike[]): number {
   return rough;
 }
 
-function eraIdOf(year:number){
-  const e = DefaultEras.find(e=> year>=e.start && year<=e.end);
+function eraIdOf(year:number, eras:Era[]){
+  const e = eras.find(e=> year>=e.start && year<=e.end);
   return e? e.id : "unknown";
 }
-function eraDiversity(rows: RowLike[]): number {
+function eraDiversity(rows: RowLike[], cfg: PlaylistScoring, eras: Era[]): number {
   const set = new Set<string>();
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
-  for(let i=0;i<n;i++){ set.add(eraIdOf(yearOf(rows[i]))); }
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
+  for(let i=0;i<n;i++){ set.add(eraIdOf(yearOf(rows[i]), eras)); }
   const distinct = set.size;
   return Math.min(100, Math.round(distinct * 18)); // 1 era=18, 5 eras~90
 }
 
-function shares(rows: RowLike[]){
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+function shares(rows: RowLike[], cfg: PlaylistScoring){
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   const artistCounts = new Map<string, number>();
   let mainstream=0, niche=0;
   for(let i=0;i<n;i++){
     const arts = splitArtists(rows[i]);
-    arts.forEach((a,idx)=>{
-      artistCounts.set(a,(artistCounts.get(a)||0)+featureWeightFor(idx, arts.length));
+    arts.forEach(a=>{
+      artistCounts.set(a.name,(artistCounts.get(a.name)||0)+featureWeightFor(a, cfg));
     });
     const pop = popularityOf(rows[i]);
-    if (pop>=ScoringConfig.mainstreamThresh) mainstream++;
-    if (pop<ScoringConfig.nicheThresh) niche++;
+    if (pop>=cfg.mainstreamThresh) mainstream++;
+    if (pop<cfg.nicheThresh) niche++;
   }
   const totalWeighted = [...artistCounts.values()].reduce((s,v)=>s+v,0) || 1;
-  const megastarShare = [...artistCounts.entries()].reduce((m,[,v])=> Math.max(m, v/totalWeighted), 0);
+  const [megastar, megastarWeight] = [...artistCounts.entries()].reduce((m,e)=> e[1]>m[1]? e : m, ["", 0]);
   return {
     mainstreamShare: Math.round(100 * mainstream/Math.max(1,n)),
     nicheShare: Math.round(100 * niche/Math.max(1,n)),
-    megastarShare: Math.round(100 * megastarShare)
+    megastarShare: Math.round(100 * megastarWeight/totalWeighted),
+    megastar
   };
 }
 
-function replayPenalty(rows: RowLike[]): number {
+function replayPenalty(rows: RowLike[], cfg: PlaylistScoring): number {
   const seen = new Map<string, number>();
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   let dupes = 0;
   for(let i=0;i<n;i++){
     const key = (rows[i]["Track Name"]||"") + "—" + (rows[i]["Artist Name(s)"]||rows[i]["Artist"]||"");
@@ -155,11 +146,11 @@ function replayPenalty(rows: RowLike[]): number {
     if (c>1) dupes++;
   }
   if (dupes===0) return 0;
-  return ScoringConfig.replayPenalty.mild; // your choice
+  return ReplayPoints[cfg.replayPenalty];
 }
 
-function intlBonus(rows: RowLike[]): number {
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+function intlBonus(rows: RowLike[], cfg: PlaylistScoring): number {
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   if (n===0) return 0;
   let us=0, non=0, unk=0;
   for(let i=0;i<n;i++){
@@ -168,19 +159,19 @@ function intlBonus(rows: RowLike[]): number {
   }
   let bonus = 0;
   if (non>0) bonus += Math.min(3, Math.round(non*0.5)); // tiny up to +3
-  if (unk>0) bonus += ScoringConfig.intlUnknownTinyBonus; // lenient for missing
+  if (unk>0) bonus += cfg.intlUnknownTinyBonus; // lenient for missing
   return bonus;
 }
 
-function dampeners(rows: RowLike[]): number {
+function dampeners(rows: RowLike[], cfg: PlaylistScoring): number {
   // Slightly reduce score if dominated by massive stars or specific clusters
-  const n = Math.min(rows.length, ScoringConfig.capPerPlaylistTracks);
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
   const countByArtist = new Map<string, number>();
   for(let i=0;i<n;i++){
     const arts = splitArtists(rows[i]);
-    arts.forEach((a,idx)=>{
-      const w = featureWeightFor(idx, arts.length);
-      countByArtist.set(a,(countByArtist.get(a)||0)+w);
+    arts.forEach(a=>{
+      const w = featureWeightFor(a, cfg);
+      countByArtist.set(a.name,(countByArtist.get(a.name)||0)+w);
     });
   }
   const total = [...countByArtist.values()].reduce((s,v)=>s+v,0) || 1;
@@ -188,45 +179,58 @@ function dampeners(rows: RowLike[]): number {
 
   let penalty = 0;
   // Big pop set
-  if (ScoringConfig.penalizePop) {
+  if (cfg.penalizePop) {
     for (const a of BigPop) { if (share(a) > 0.18) { penalty += 4; break; } }
   }
   // EDM top 15
-  if (ScoringConfig.penalizeEDMBig15) {
+  if (cfg.penalizeEDMBig15) {
     for (const a of BigEDM15) { if (share(a) > 0.18) { penalty += 4; break; } }
   }
   // Modern country cluster
-  if (ScoringConfig.penalizeModernCountryBig) {
+  if (cfg.penalizeModernCountryBig) {
     for (const a of ModernCountryBig) { if (share(a) > 0.18) { penalty += 3; break; } }
   }
   return penalty;
 }
 
-export function scoreOnePlaylist(name:string, rows: RowLike[]): PlaylistScore {
+export function scoreOnePlaylist(name:string, rows: RowLike[], rules: PlaylistRules = DEFAULT_SCORING): PlaylistScore {
+  const scored = scorePlaylist(name, rows, rules);
+  // How much the score leans on individual tracks; under minPlaylistSize it's provisional at best
+  const interval = jackknife(rows, sample => ({ score: scorePlaylist(name, sample, rules).score })).score;
+  const confidence = grade(rows.length, interval, { ...SUPPORT.playlist, solid: rules.playlist.minPlaylistSize });
+  if (confidence.support === "insufficient") scored.reasons.push(`Too few tracks to rate (<${SUPPORT.playlist.min}); treat the score as a guess`);
+  else if (confidence.support === "provisional" && rows.length >= rules.playlist.minPlaylistSize) {
+    scored.reasons.push(`Provisional: a few tracks swing it, anywhere from ${Math.round(confidence.low)} to ${Math.round(confidence.high)}`);
+  }
+  return { ...scored, confidence, explanation: explainPlaylist(rows, scored, rules) };
+}
+
+function scorePlaylist(name:string, rows: RowLike[], rules: PlaylistRules): PlaylistScore {
+  const cfg = rules.playlist;
   const size = rows.length;
-  const flow = flowScore(rows);
-  const consistency = consistencyPercent(rows);
-  const genreDiv = genreDiversity(rows);
-  const eraDiv = eraDiversity(rows);
-  const s = shares(rows);
-  const replay = replayPenalty(rows);
-  const intl = intlBonus(rows);
-  const damp = dampeners(rows);
+  const flow = flowScore(rows, cfg);
+  const consistency = consistencyPercent(rows, cfg);
+  const genreDiv = genreDiversity(rows, cfg);
+  const eraDiv = eraDiversity(rows, cfg, rules.eras);
+  const s = shares(rows, cfg);
+  const replay = replayPenalty(rows, cfg);
+  const intl = intlBonus(rows, cfg);
+  const damp = dampeners(rows, cfg);
 
   const reasons:string[] = [];
 
   // Base score: start from weighted sum
   let score =
-    flow * 0.30 +
-    Math.min(consistency, 100) * 0.20 +
-    genreDiv * 0.18 +
-    eraDiv * 0.12 +
-    (100 - s.mainstreamShare) * 0.10 +  // less mainstream = higher
-    s.nicheShare * 0.10;
+    flow * cfg.weights.flow +
+    Math.min(consistency, 100) * cfg.weights.consistency +
+    genreDiv * cfg.weights.genreDiversity +
+    eraDiv * cfg.weights.eraDiversity +
+    (100 - s.mainstreamShare) * cfg.weights.mainstream +  // less mainstream = higher
+    s.nicheShare * cfg.weights.niche;
 
   // Megastar domination penalty
-  if (s.megastarShare*1 >= ScoringConfig.megastarMaxShare) {
-    score -= 12;
+  if (s.megastarShare*1 >= cfg.megastarMaxShare) {
+    score -= cfg.megastarPenalty;
     reasons.push(`Megastar domination: ${s.megastarShare}% from one artist`);
   }
 
@@ -239,22 +243,22 @@ export function scoreOnePlaylist(name:string, rows: RowLike[]): PlaylistScore {
   if (intl>0){ score += intl; reasons.push(`Internationality bonus: +${intl.toFixed(1)}`); }
 
   // Size floor
-  if (size < ScoringConfig.minPlaylistSize) {
-    reasons.push(`Too small to judge fully (<${ScoringConfig.minPlaylistSize})`);
-    score = Math.min(score, 65); // soft cap
+  if (size < cfg.minPlaylistSize) {
+    reasons.push(`Too small to judge fully (<${cfg.minPlaylistSize})`);
+    score = Math.min(score, cfg.smallPlaylistCap); // soft cap
   }
 
   // Normalization & clamp
   score = Math.max(0, Math.min(100, Math.round(score)));
 
   // Qualitative notes
-  if (flow >= ScoringConfig.flowTarget && consistency >= ScoringConfig.minConsistency) {
+  if (flow >= cfg.flowTarget && consistency >= cfg.minConsistency) {
     reasons.push(`Strong flow (${flow}) with on-theme consistency (${consistency}%)`);
   } else {
-    if (flow < ScoringConfig.flowTarget) reasons.push(`Flow below target (${flow} < ${ScoringConfig.flowTarget})`);
-    if (consistency < ScoringConfig.minConsistency) reasons.push(`Consistency below target (${consistency}% < ${ScoringConfig.minConsistency}%)`);
+    if (flow < cfg.flowTarget) reasons.push(`Flow below target (${flow} < ${cfg.flowTarget})`);
+    if (consistency < cfg.minConsistency) reasons.push(`Consistency below target (${consistency}% < ${cfg.minConsistency}%)`);
   }
-  if (genreDiv >= ScoringConfig.minGenreDiversity) reasons.push(`Good genre diversity (${genreDiv})`);
+  if (genreDiv >= cfg.minGenreDiversity) reasons.push(`Good genre diversity (${genreDiv})`);
   return {
     name, size, score, reasons,
     metrics: {
@@ -265,13 +269,97 @@ export function scoreOnePlaylist(name:string, rows: RowLike[]): PlaylistScore {
   };
 }
 
+function trackLabel(r:RowLike): string {
+  const artist = String(r["Artist Name(s)"] ?? r["Artists"] ?? r["Artist"] ?? "");
+  return `${r["Track Name"]||"?"}${artist ? ` — ${artist}` : ""}`;
+}
+
+// Why the score: the weighted base metrics plus each bonus and penalty. Counterfactuals
+// re-score the playlist without the driving rows, through the same rules.
+function explainPlaylist(rows: RowLike[], scored: PlaylistScore, rules: PlaylistRules): ScoreExplanation {
+  const cfg = rules.playlist;
+  const m = scored.metrics;
+  const n = Math.min(rows.length, cfg.capPerPlaylistTracks);
+  const analysed = rows.slice(0, n);
+  const rescore = (metric: (p: PlaylistScore)=>number, keep: (r:RowLike)=>boolean) => {
+    const rest = rows.filter(keep);
+    if (!rest.length) return null;
+    const p = scorePlaylist(scored.name, rest, rules);
+    return { metric: metric(p), score: p.score };
+  };
+  const counted = (keyOf: (r:RowLike)=>string, note: string, label: (k:string)=>string = k=>k): ScoreDriver[] => {
+    const cnt = new Map<string, number>();
+    for (const r of analysed) { const k = keyOf(r); cnt.set(k,(cnt.get(k)||0)+1); }
+    return [...cnt.entries()].sort((a,b)=>b[1]-a[1]).slice(0,3)
+      .map(([k,c])=>({ label: label(k), value: Math.round(100*c/Math.max(1,n)), note }));
+  };
+
+  // Flow: the roughest hand-offs between neighbouring tracks
+  const jumps = analysed.slice(1).map((r,i)=>({ from: analysed[i], to: r, d: dist(vector(analysed[i]), vector(r)) }));
+  const flow = weighted("flow", "Flow", m.flow, cfg.weights.flow,
+    topBy(jumps, j=>j.d, 3).map(j=>({ label: `${trackLabel(j.from)} → ${trackLabel(j.to)}`, value: Math.round(j.d*100)/100, note: "audio-feature jump" })));
+
+  const consistency = weighted("consistency", "Consistency", Math.min(m.consistency, 100), cfg.weights.consistency,
+    counted(r=>splitGenres(r)[0] || "unknown", "% of tracks"));
+
+  const genres = new Set<string>();
+  analysed.forEach(r=>splitGenres(r).slice(0,2).forEach(g=>genres.add(g)));
+  const genreDiv = weighted("genreDiversity", "Genre diversity", m.genreDiversity, cfg.weights.genreDiversity,
+    [{ label: "distinct genres", value: genres.size }]);
+
+  const eraLabel = (id:string)=> rules.eras.find(e=>e.id===id)?.label ?? "Unknown era";
+  const eraDiv = weighted("eraDiversity", "Era diversity", m.eraDiversity, cfg.weights.eraDiversity,
+    counted(r=>eraIdOf(yearOf(r), rules.eras), "% of tracks", eraLabel));
+
+  // Mainstream: the biggest hits, and the playlist without any of them
+  const isMainstream = (r:RowLike)=> popularityOf(r) >= cfg.mainstreamThresh;
+  const hits = rows.filter(isMainstream).length;
+  const mainstream = weighted("mainstreamShare", "Not mainstream", 100 - m.mainstreamShare, cfg.weights.mainstream,
+    topBy(analysed.filter(isMainstream), popularityOf).map(r=>({ label: trackLabel(r), value: popularityOf(r), note: "popularity" })),
+    hits ? counterfactual(`Drop the ${plural(hits, "mainstream track")}`, { metric: 100 - m.mainstreamShare, score: scored.score },
+      rescore(p=>100 - p.metrics.mainstreamShare, r=>!isMainstream(r))) : null);
+
+  const niche = weighted("nicheShare", "Niche share", m.nicheShare, cfg.weights.niche);
+
+  const components = [flow, consistency, genreDiv, eraDiv, mainstream, niche];
+
+  // Flat bonuses and penalties, in the order they're applied
+  const s = shares(rows, cfg);
+  if (m.megastarShare >= cfg.megastarMaxShare) {
+    const star = (r:RowLike)=> splitArtists(r).some(a=>a.name===s.megastar);
+    components.push(adjustment("megastarShare", "Megastar domination", -cfg.megastarPenalty,
+      [{ label: s.megastar, value: m.megastarShare, note: "% of artist credits" }],
+      counterfactual(`Drop ${s.megastar}`, { metric: m.megastarShare, score: scored.score }, rescore(p=>p.metrics.megastarShare, r=>!star(r)))));
+  }
+  if (m.replayPenalty > 0) {
+    const key = (r:RowLike)=> (r["Track Name"]||"") + "—" + (r["Artist Name(s)"]||r["Artist"]||"");
+    const copies = new Map<string, { row: RowLike; count: number }>();
+    for (const r of analysed) { const c = copies.get(key(r)); if (c) c.count++; else copies.set(key(r), { row: r, count: 1 }); }
+    const dupes = topBy([...copies.values()], c=>c.count-1).map(c=>({ label: trackLabel(c.row), value: c.count, note: "copies" }));
+    const seen = new Set<string>();
+    components.push(adjustment("replayPenalty", "Duplicate tracks", -m.replayPenalty, dupes,
+      counterfactual("Remove the duplicates", { metric: m.replayPenalty, score: scored.score },
+        rescore(p=>p.metrics.replayPenalty, r=>{ const k = key(r); if (seen.has(k)) return false; seen.add(k); return true; }))));
+  }
+  const damp = dampeners(rows, cfg);
+  if (damp > 0) components.push(adjustment("dampener", "Mainstream cluster dampener", -damp));
+  if (m.internationalBonus > 0) components.push(adjustment("internationalBonus", "Internationality bonus", m.internationalBonus));
+
+  const notes: string[] = [];
+  if (rows.length > n) notes.push(`Only the first ${n} of ${rows.length} tracks are scored`);
+  if (scored.size < cfg.minPlaylistSize) {
+    notes.push(`Capped at ${cfg.smallPlaylistCap}: fewer than ${cfg.minPlaylistSize} tracks`);
+  }
+  return { score: scored.score, components, notes };
+}
+
 // Rare scene gate:
 // - at least 3 playlists
 // - each >=10 tracks
 // - and each score >= 82 (well curated)
-export function rareEligibilityFromPlaylists(pl: PlaylistScore[]): { rareEligible: boolean; suggestedTop3: string[] } {
-  const qualified = pl.filter(p=> p.size>=ScoringConfig.rareMinTracksEach && p.score>=ScoringConfig.rareWellCuratedMinScore);
-  const rareEligible = qualified.length >= ScoringConfig.rareRequiredPlaylists;
+export function rareEligibilityFromPlaylists(pl: PlaylistScore[], cfg: PlaylistScoring = DEFAULT_SCORING.playlist): { rareEligible: boolean; suggestedTop3: string[] } {
+  const qualified = pl.filter(p=> p.size>=cfg.rareMinTracksEach && p.score>=cfg.rareWellCuratedMinScore);
+  const rareEligible = qualified.length >= cfg.rareRequiredPlaylists;
   const suggestedTop3 = pl.slice().sort((a,b)=>b.score-a.score).slice(0,3).map(p=>p.name);
   return { rareEligible, suggestedTop3 };
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { resolveRecordings } from "../ingest/identity.js";
+import { primaryArtist } from "./artistCredits.js";
+
+/**
+ * Listening events: rows with a parseable "Played At", one per
+ * (recording, timestamp) — the same dedupe compute() uses for activity, so a
+ * play exported twice (say, JSON and a scrobble CSV) counts once. Oldest first.
+ */
+
+export type PlayRow = {
+  ["Track URI"]: string; ["Track Name"]?: string; ["Artist Name(s)"]?: string; ["Played At"]?: string;
+  ["Ms Played"]?: number; ["Duration (ms)"]?: number;
+  ["ISRC"]?: string; ["Track MBID"]?: string;
+};
+
+export type Play<R extends PlayRow = PlayRow> = {
+  rid: string;        // canonical recording
+  track: string;
+  artist: string;     // primary artist
+  at: Date;
+  ms: number;         // time listened when the source says, else track length; 0 if unknown
+  row: R;
+};
+
+/** UTC calendar day, YYYY-MM-DD. */
+export const dayKey = (d: Date) => d.toISOString().slice(0, 10);
+/** UTC month, YYYY-MM. */
+export const monthKeyUTC = (d: Date) => d.toISOString().slice(0, 7);
+
+/** Pass `recordingOf` when the caller already resolved recordings for these rows. */
+export function toPlays<R extends PlayRow>(rows: R[], recordingOf = resolveRecordings(rows).recordingOf): Play<R>[] {
+  const seen = new Set<string>();
+  const out: Play<R>[] = [];
+  for (const row of rows) {
+    if (!row["Played At"] || !row["Track URI"]) continue;
+    const at = new Date(row["Played At"]);
+    if (isNaN(at.getTime())) continue;
+    const rid = recordingOf(row["Track URI"]);
+    const key = rid + "|" + at.toISOString();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({
+      rid,
+      track: row["Track Name"] || "",
+      artist: primaryArtist(row["Artist Name(s)"], row["Track Name"]),
+      at,
+      ms: row["Ms Played"] ?? row["Duration (ms)"] ?? 0,
+      row,
+    });
+  }
+  return out.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { explainRater, rateConfidence, rateTracks, type RatedTrack } from "./rater.js";
+import { DEFAULT_SCORING, type LibraryScoring } from "./scoring.js";
+
+const GENRES = ["indie rock", "shoegaze", "dream pop", "post-punk"];
+
+/** `size` recordings by 40 artists; the first `popular` have a popularity, the first `tagged` have genres. */
+function library(size: number, { popular = size, tagged = size } = {}): RatedTrack[] {
+  return Array.from({ length: size }, (_, i) => ({
+    _rid: `spotify:track:${i}`,
+    _pop: i < popular ? 10 + (i * 37) % 60 : 0,
+    "Artist Name(s)": `Artist ${i % 40}`,
+    "Track Name": `Song ${i}`,
+    "Genres": i < tagged ? GENRES[i % GENRES.length] : undefined,
+  }));
+}
+
+const once = () => 1;
+const support = (tracks: RatedTrack[], cfg?: LibraryScoring) =>
+  Object.fromEntries(Object.entries(rateConfidence(tracks, once, cfg)).map(([m, c]) => [m, `${c.n} ${c.support}`]));
+
+describe("rateTracks", () => {
+  it("leaves recordings without a popularity out of rarity", () => {
+    const playlist = library(20);
+    const streamed = library(40).slice(20).map(t => ({ ...t, _pop: 0, "Genres": undefined }));
+    expect(rateTracks([...playlist, ...streamed], once).rarityScore).toBe(rateTracks(playlist, once).rarityScore);
+  });
+
+  it("has no rarity without any popularity, and shares its weight over the rest", () => {
+    const r = rateTracks(library(40, { popular: 0 }), once);
+    expect(r.rarityScore).toBeNull();
+    expect(r.creativity).toBe(r.variety);
+    const { weights: W } = DEFAULT_SCORING.library;
+    const rest = W.cohesion + W.variety + W.creativity;
+    expect(r.overall).toBe(Math.round((W.cohesion*r.cohesion + W.variety*r.variety + W.creativity*r.creativity) / rest));
+  });
+
+  it("drops the rarity component from the explanation when there is none", () => {
+    const tracks = library(40, { popular: 0 });
+    const { components, notes } = explainRater(tracks, once, rateTracks(tracks, once));
+    expect(components.map(c => c.metric)).toEqual(["cohesion", "variety", "creativity"]);
+    expect(notes).toHaveLength(1);
+  });
+});
+
+describe("rateConfidence", () => {
+  it.each<[string, RatedTrack[], Record<string, string>]>([
+    ["a big catalog library", library(400), {
+      variety: "400 solid", rarityScore: "400 solid", cohesion: "400 solid", creativity: "400 solid", overall: "400 solid",
+    }],
+    ["a streaming-only library has no popularity or genres to grade", library(400, { popular: 0, tagged: 0 }), {
+      variety: "400 solid", rarityScore: "0 insufficient", cohesion: "0 insufficient", creativity: "400 solid", overall: "0 insufficient",
+    }],
+    ["a few tagged tracks make cohesion and overall provisional", library(400, { tagged: 60 }), {
+      variety: "400 solid", rarityScore: "400 solid", cohesion: "60 provisional", creativity: "400 solid", overall: "60 provisional",
+    }],
+    ["a small library", library(12), {
+      variety: "12 insufficient", rarityScore: "12 insufficient", cohesion: "12 insufficient", creativity: "12 insufficient", overall: "12 insufficient",
+    }],
+  ])("%s", (_, tracks, expected) => {
+    expect(support(tracks)).toEqual(expected);
+  });
+
+  it("ignores inputs a custom scoring gives no weight", () => {
+    const cfg: LibraryScoring = {
+      weights: { ...DEFAULT_SCORING.library.weights, rarityScore: 0 },
+      creativity: { variety: 1, rarityScore: 0 },
+    };
+    expect(support(library(400, { popular: 0 }), cfg)).toMatchObject({
+      rarityScore: "0 insufficient", creativity: "400 solid", overall: "400 solid",
+    });
+  });
+
+  it("brackets the rarity it grades, measured on the same tracks", () => {
+    const tracks = [...library(300), ...library(600).slice(300).map(t => ({ ...t, _pop: 0 }))];
+    const { rarityScore } = rateTracks(tracks, once);
+    const c = rateConfidence(tracks, once).rarityScore;
+    expect(rarityScore).toBe(rateTracks(tracks.slice(0, 300), once).rarityScore);
+    expect(c.n).toBe(300);
+    expect(c.low).toBeLessThanOrEqual(rarityScore!);
+    expect(c.high).toBeGreaterThanOrEqual(rarityScore!);
+    expect(c.high - c.low).toBeLessThan(10);
+  });
+
+  it("keeps the interval on the metric's scale", () => {
+    for (const c of Object.values(rateConfidence(library(400), once))) {
+      expect(0 <= c.low && c.low <= c.high && c.high <= 100).toBe(true);
+    }
+  });
+});
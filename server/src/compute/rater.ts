@@ -0,0 +1,203 @@
+import type { PlaylistRater } from "../common/types.js";
+import { primaryArtist } from "./artistCredits.js";
+import { splitGenres } from "./genres.js";
+import { DEFAULT_SCORING, type LibraryScoring } from "./scoring.js";
+import { counterfactual, plural, topBy, weighted, type ScoreExplanation } from "./explain.js";
+import { grade, jackknife, SUPPORT, type Confidence } from "./confidence.js";
+
+/**
+ * The library-wide rater behind compute()'s `playlistRater`, over unique
+ * recordings weighted by their plays (skipped plays discounted):
+ *
+ *   variety     distinct primary artists per recording
+ *   rarity      100 − weighted mean popularity, over the recordings that have
+ *               one (streaming plays and scrobbles don't); null when none do
+ *   cohesion    100 − normalized genre entropy (100 = a single genre)
+ *   creativity  0.6·variety + 0.4·rarity
+ *   overall     0.35·rarity + 0.35·cohesion + 0.15·variety + 0.15·creativity
+ *
+ * Those are the default weights; `scoring.library` (see scoring.ts) changes them.
+ * Without a rarity, its weight is shared out over the other metrics in proportion.
+ * explainRater() breaks `overall` down per component. Its counterfactuals
+ * re-rate the library without the driving rows, so dropping popular artists
+ * also shows what it does to variety and creativity. rateConfidence() puts a
+ * jackknife interval around every metric, graded on the tracks that metric
+ * can actually see.
+ */
+
+export type RatedTrack = {
+  _rid: string; _pop: number;
+  ["Artist Name(s)"]: string; ["Track Name"]: string; ["Genres"]?: string;
+};
+
+function entropy(ps: number[]){
+  const sum = ps.reduce((a,b)=>a+b,0) || 1;
+  const p = ps.map(x=> x/sum).filter(x=>x>0);
+  const h = -p.reduce((a,x)=> a + x*Math.log(x), 0);
+  const hmax = Math.log(p.length || 1);
+  return hmax===0 ? 0 : (h/hmax); // normalized 0..1
+}
+
+const artistKey = (t: RatedTrack) => primaryArtist(t["Artist Name(s)"], t["Track Name"]).toLowerCase();
+
+const hasPop = (t: RatedTrack) => t._pop > 0;
+
+// Null when no recording has a popularity, rather than counting each one as the rarest possible
+function weightedPop(tracks: RatedTrack[], weightOf: (rid: string) => number): number | null {
+  const rated = tracks.filter(hasPop);
+  if (!rated.length) return null;
+  const sumW = rated.reduce((s, t) => s + weightOf(t._rid), 0) || 1;
+  return rated.reduce((s, t) => s + t._pop * weightOf(t._rid), 0) / sumW;
+}
+
+// `weights` with rarity's share handed to the other metrics when there is no rarity
+function rebalance<K extends string>(weights: Record<K, number>, hasRarity: boolean): Record<K, number> {
+  if (hasRarity) return weights;
+  const keys = Object.keys(weights) as K[];
+  const total = keys.reduce((s, k) => s + weights[k], 0);
+  const kept = total - ((weights as Record<string, number>).rarityScore ?? 0);
+  const out = {} as Record<K, number>;
+  for (const k of keys) out[k] = k === "rarityScore" || !kept ? 0 : weights[k] * total / kept;
+  return out;
+}
+
+// creativity and overall from the measured metrics; rateTracks() rounds creativity before it counts
+function blend(cfg: LibraryScoring, { variety, rarityScore, cohesion }: ReturnType<typeof rawRating>, round = (n: number) => n) {
+  const W = rebalance(cfg.weights, rarityScore !== null);
+  const C = rebalance(cfg.creativity, rarityScore !== null);
+  const creativity = round(C.variety*variety + C.rarityScore*(rarityScore ?? 0));
+  const overall = round(W.rarityScore*(rarityScore ?? 0) + W.cohesion*cohesion + W.variety*variety + W.creativity*creativity);
+  return { creativity, overall };
+}
+
+export function rateTracks(tracks: RatedTrack[], weightOf: (rid: string) => number, cfg: LibraryScoring = DEFAULT_SCORING.library): PlaylistRater {
+  const raw = rawRating(tracks, weightOf);
+  const variety = Math.round(raw.variety);
+  const cohesion = Math.round(raw.cohesion);
+  const rarityScore = raw.rarityScore === null ? null : Math.round(raw.rarityScore);
+  return { variety, rarityScore, cohesion, ...blend(cfg, { variety, rarityScore, cohesion }, Math.round) };
+}
+
+// The three measured metrics before rounding; rateConfidence() needs the spread rounding would hide
+function rawRating(tracks: RatedTrack[], weightOf: (rid: string) => number) {
+  const uniqArtists = new Set(tracks.map(artistKey)).size;
+  const uniqTracks = new Set(tracks.map(t => t._rid)).size;
+  const variety = Math.min(100, (uniqArtists / Math.max(1, uniqTracks)) * 100);
+  const pop = weightedPop(tracks, weightOf);
+  const rarityScore = pop === null ? null : 100 - Math.min(100, pop);
+
+  // Cohesion via genre entropy (lower entropy => more themed)
+  const totalGenres = new Map<string, number>();
+  for (const t of tracks) {
+    for (const g of splitGenres(t["Genres"])) totalGenres.set(g, (totalGenres.get(g) || 0) + 1);
+  }
+  const counts = [...totalGenres.values()];
+  const cohesion = (1 - (counts.length ? entropy(counts) : 0)) * 100;
+  return { variety, rarityScore, cohesion };
+}
+
+/** 95% interval and support for each metric, over the same recordings and weights (see confidence.ts). */
+export function rateConfidence(
+  tracks: RatedTrack[], weightOf: (rid: string) => number, cfg: LibraryScoring = DEFAULT_SCORING.library,
+): Record<keyof PlaylistRater, Confidence> {
+  const full = rawRating(tracks, weightOf);
+  // Rarity only moves with the tracks that have a popularity; a resample that drew none keeps
+  // the full value, and without any the interval collapses to 0 under an n of 0
+  const intervals = jackknife(tracks, sample => {
+    const raw = rawRating(sample, weightOf);
+    raw.rarityScore ??= full.rarityScore;
+    return { ...raw, ...blend(cfg, raw), rarityScore: raw.rarityScore ?? 0 };
+  });
+  // Each metric rests on the tracks that feed it: rarity on those with a popularity, cohesion on
+  // those with genres. The blends rest on the thinnest input they give any weight to.
+  const W = rebalance(cfg.weights, full.rarityScore !== null);
+  const C = rebalance(cfg.creativity, full.rarityScore !== null);
+  const measured = {
+    variety: tracks.length,
+    rarityScore: tracks.filter(hasPop).length,
+    cohesion: tracks.filter(t => splitGenres(t["Genres"]).length).length,
+  };
+  const thinnest = (...inputs: [weight: number, n: number][]) =>
+    Math.min(tracks.length, ...inputs.filter(([w]) => w > 0).map(([, n]) => n));
+  const creativity = thinnest([C.variety, measured.variety], [C.rarityScore, measured.rarityScore]);
+  const n: Record<keyof PlaylistRater, number> = {
+    ...measured, creativity,
+    overall: thinnest([W.variety, measured.variety], [W.rarityScore, measured.rarityScore], [W.cohesion, measured.cohesion], [W.creativity, creativity]),
+  };
+  const out = {} as Record<keyof PlaylistRater, Confidence>;
+  for (const [metric, interval] of Object.entries(intervals) as [keyof PlaylistRater, [number, number]][]) {
+    out[metric] = grade(n[metric], interval, SUPPORT.library);
+  }
+  return out;
+}
+
+export function explainRater(
+  tracks: RatedTrack[], weightOf: (rid: string) => number, rater: PlaylistRater, cfg: LibraryScoring = DEFAULT_SCORING.library,
+): ScoreExplanation {
+  const W = rebalance(cfg.weights, rater.rarityScore !== null);
+  const C = rebalance(cfg.creativity, rater.rarityScore !== null);
+  type Metric = Exclude<keyof PlaylistRater, "overall">;
+  const before = (m: Metric) => ({ metric: rater[m] ?? 0, score: rater.overall });
+  const rerate = (m: Metric, keep: (t: RatedTrack, i: number) => boolean) => {
+    const rest = tracks.filter(keep);
+    if (!rest.length) return null;
+    const r = rateTracks(rest, weightOf, cfg);
+    return r[m] === null ? null : { metric: r[m], score: r.overall };
+  };
+  const these = (n: number) => (n === 1 ? "this artist" : `these ${n} artists`);
+
+  const byArtist = new Map<string, { name: string; tracks: number; rated: number; popSum: number; pull: number }>();
+  const avgPop = weightedPop(tracks, weightOf);
+  for (const t of tracks) {
+    const key = artistKey(t);
+    const a = byArtist.get(key) ?? byArtist.set(key, { name: primaryArtist(t["Artist Name(s)"], t["Track Name"]), tracks: 0, rated: 0, popSum: 0, pull: 0 }).get(key)!;
+    a.tracks++;
+    if (avgPop === null || !hasPop(t)) continue;
+    a.rated++; a.popSum += t._pop;
+    a.pull += weightOf(t._rid) * (t._pop - avgPop);
+  }
+  const keys = (names: { name: string }[]) => new Set(names.map(a => a.name.toLowerCase()));
+
+  // Rarity: the artists pulling the weighted mean popularity up the most; left out when nothing has a popularity
+  const offenders = topBy([...byArtist.values()], a => a.pull);
+  const dropped = keys(offenders);
+  const rarity = rater.rarityScore === null ? null : weighted("rarityScore", "Rarity", rater.rarityScore, W.rarityScore,
+    offenders.map(a => ({ label: a.name, value: Math.round(a.popSum / a.rated), note: `mean popularity over ${plural(a.rated, "track")}` })),
+    offenders.length ? counterfactual(`Drop ${these(offenders.length)}`, before("rarityScore"), rerate("rarityScore", t => !dropped.has(artistKey(t)))) : null);
+
+  // Cohesion: how much of the genre tagging the biggest genres hold; the tail is what spreads it
+  const genreCounts = new Map<string, number>();
+  let tags = 0;
+  for (const t of tracks) for (const g of splitGenres(t["Genres"])) { genreCounts.set(g, (genreCounts.get(g) || 0) + 1); tags++; }
+  const topGenres = [...genreCounts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, 5);
+  const core = new Set(topGenres.map(([g]) => g));
+  const offTheme = (t: RatedTrack) => { const gs = splitGenres(t["Genres"]); return gs.length > 0 && !gs.some(g => core.has(g)); };
+  const tail = tracks.filter(offTheme).length;
+  const cohesion = weighted("cohesion", "Cohesion", rater.cohesion, W.cohesion,
+    topGenres.map(([g, n]) => ({ label: g, value: Math.round((n / Math.max(1, tags)) * 100), note: "% of genre tags" })),
+    tail ? counterfactual(`Drop the ${plural(tail, "track")} outside your top ${core.size} genres`, before("cohesion"), rerate("cohesion", t => !offTheme(t))) : null);
+
+  // Variety: artists with the most recordings pull artists-per-track down
+  const repeaters = topBy([...byArtist.values()], a => a.tracks - 1);
+  const trimmed = keys(repeaters);
+  const seen = new Set<string>();
+  const variety = weighted("variety", "Variety", rater.variety, W.variety,
+    repeaters.map(a => ({ label: a.name, value: a.tracks, note: "tracks" })),
+    repeaters.length ? counterfactual(`Keep one track each from ${these(repeaters.length)}`, before("variety"), rerate("variety", t => {
+      const key = artistKey(t);
+      if (!trimmed.has(key)) return true;
+      if (seen.has(key)) return false;
+      seen.add(key); return true;
+    })) : null);
+
+  const creativity = weighted("creativity", "Creativity", rater.creativity, W.creativity, [
+    { label: "Variety", value: rater.variety, note: `× ${+C.variety.toFixed(2)}` },
+    ...rater.rarityScore === null ? [] : [{ label: "Rarity", value: rater.rarityScore, note: `× ${C.rarityScore}` }],
+  ]);
+
+  return {
+    score: rater.overall,
+    components: rarity ? [rarity, cohesion, variety, creativity] : [cohesion, variety, creativity],
+    notes: rarity ? [] : ["No track has a Spotify popularity, so rarity is left out and its weight shared over the rest."],
+  };
+}
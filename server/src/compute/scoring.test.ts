@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCORING, resolveScoring, type ScoringPresetName, type ScoringSettings } from "./scoring.js";
+
+describe("resolveScoring", () => {
+  it.each<[string, ScoringPresetName | undefined, (ScoringSettings | undefined)[], ScoringPresetName]>([
+    ["nothing set", undefined, [undefined, undefined], "default"],
+    ["the config's preset", undefined, [{ preset: "generous" }, undefined], "generous"],
+    ["the profile's preset beats the config's", undefined, [{ preset: "generous" }, { preset: "explorer-first" }], "explorer-first"],
+    ["a profile without one keeps the config's", undefined, [{ preset: "generous" }, { taste: { minRows: 50 } }], "generous"],
+    ["?scoring= beats both", "cohesion-first", [{ preset: "generous" }, { preset: "explorer-first" }], "cohesion-first"],
+  ])("picks %s", (_, query, layers, expected) => {
+    expect(resolveScoring(query, ...layers).preset).toBe(expected);
+  });
+
+  it("starts from the preset and puts the overrides on top", () => {
+    const { scoring } = resolveScoring(undefined, undefined, { preset: "strict-critic", playlist: { minPlaylistSize: 15 } });
+    expect(scoring.playlist.minPlaylistSize).toBe(15);
+    expect(scoring.playlist.replayPenalty).toBe("strong");
+  });
+
+  it("holds an override whichever preset the request picks", () => {
+    const profile: ScoringSettings = { playlist: { minPlaylistSize: 15 }, library: { weights: { cohesion: 0.5 } } };
+    for (const preset of ["default", "strict-critic", "generous", "cohesion-first"] as const) {
+      const { scoring } = resolveScoring(preset, undefined, profile);
+      expect(scoring.playlist.minPlaylistSize).toBe(15);
+      expect(scoring.library.weights.cohesion).toBe(0.5);
+    }
+  });
+
+  it("lets the profile override the config, field by field", () => {
+    const { scoring } = resolveScoring(undefined,
+      { playlist: { minPlaylistSize: 15, flowTarget: 55 } },
+      { playlist: { minPlaylistSize: 10 } });
+    expect(scoring.playlist).toMatchObject({ minPlaylistSize: 10, flowTarget: 55 });
+    expect(scoring.playlist.minConsistency).toBe(DEFAULT_SCORING.playlist.minConsistency);
+  });
+
+  it("digests the overrides, not the preset", () => {
+    expect(resolveScoring("strict-critic").overrides).toBe("");
+    const a = resolveScoring(undefined, undefined, { preset: "generous", taste: { minRows: 50 } });
+    const b = resolveScoring("strict-critic", undefined, { taste: { minRows: 50 } });
+    expect(a.overrides).toMatch(/^[0-9a-f]{10}$/);
+    expect(b.overrides).toBe(a.overrides);
+  });
+});
@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { DefaultEras, type Era } from "./eras.js";
+
+/**
+ * Every knob the scorers use, in one place so it can be tuned without code:
+ *
+ *   library   compute()'s playlistRater (the dashboard's overall score)
+ *   taste     buildTasteProfile (/api/taste-profile)
+ *   playlist  scoreOnePlaylist and the rare-scene gate (/api/playlist-scores)
+ *   ratings   computePlaylistRatings (/api/debug)
+ *   eras      the era map playlist era diversity counts against
+ *
+ * Layers, later wins: these defaults, `scoring` in snobify.config.json, then
+ * `scoring` in profiles/<name>/settings.json, then the named preset picked by
+ * ?scoring=, else the profile's `preset`, else the config's. Objects merge key
+ * by key; arrays (eras, userAliases) replace. Weights are used as given, so a
+ * set that doesn't add up to 1 stretches or shrinks the 0..100 scale.
+ */
+
+export type LibraryScoring = {
+  weights: { rarityScore: number; cohesion: number; variety: number; creativity: number };
+  creativity: { variety: number; rarityScore: number };   // creativity = variety·a + rarity·b
+};
+
+export type TasteScoring = {
+  weights: { cohesion: number; rarity: number; variety: number; exploration: number; internationality: number; eraBalance: number };
+  nichePopularityThreshold: number;   // "Spotify - 9" (assuming ~40 as common niche cutoff)
+  recencyBoostMax: number;            // cap = 0.10 (10%)
+  notYouDownweight: number;           // 0.5 when Added By != you (off if no aliases)
+  userAliases: string[];              // lowercase usernames treated as "you"
+  playlistWeightCapPct: number;       // at most 35% weight from a single playlist/source
+  minRows: number;                    // fewer rows → provisional profile
+};
+
+export type PlaylistScoring = {
+  weights: { flow: number; consistency: number; genreDiversity: number; eraDiversity: number; mainstream: number; niche: number };
+  flowTarget: number;                 // Flow quality bar
+  minConsistency: number;             // must be over this to be considered "on theme"
+  minGenreDiversity: number;
+  minPlaylistSize: number;            // tracks needed to be judged fully
+  mainstreamThresh: number;           // >= mainstream, < nicheThresh niche
+  nicheThresh: number;
+  featureArtistWeight: number;        // features count this much toward artist share
+  capPerPlaylistTracks: number;       // analyze the first N tracks to avoid big-list bias
+  replayPenalty: "off" | "mild" | "medium" | "strong";
+  intlUnknownTinyBonus: number;       // small + when origin unknown (lenient)
+  megastarMaxShare: number;           // an artist above this % of a playlist → penalty
+  megastarPenalty: number;
+  smallPlaylistCap: number;           // soft cap for playlists under minPlaylistSize
+  penalizePop: boolean;               // category dampeners
+  penalizeEDMBig15: boolean;
+  penalizeModernCountryBig: boolean;
+  rareWellCuratedMinScore: number;    // rare-scene gate
+  rareRequiredPlaylists: number;
+  rareMinTracksEach: number;
+};
+
+export type RatingsScoring = {
+  weights: { cohesion: number; variety: number; rarity: number; creativity: number };
+  lowPopThreshold: number;            // popularity at or below this is a deep cut
+  minTracks: number;                  // smaller playlists aren't rated
+};
+
+export type Scoring = {
+  library: LibraryScoring;
+  taste: TasteScoring;
+  playlist: PlaylistScoring;
+  ratings: RatingsScoring;
+  eras: Era[];
+};
+
+export const DEFAULT_SCORING: Scoring = {
+  library: {
+    weights: { rarityScore: 0.35, cohesion: 0.35, variety: 0.15, creativity: 0.15 },
+    creativity: { variety: 0.6, rarityScore: 0.4 },
+  },
+  taste: {
+    weights: { cohesion: 0.30, rarity: 0.25, variety: 0.15, exploration: 0.15, internationality: 0.10, eraBalance: 0.05 },
+    nichePopularityThreshold: 31,
+    recencyBoostMax: 0.10,
+    notYouDownweight: 0.5,
+    userAliases: [],
+    playlistWeightCapPct: 35,
+    minRows: 300,
+  },
+  playlist: {
+    weights: { flow: 0.30, consistency: 0.20, genreDiversity: 0.18, eraDiversity: 0.12, mainstream: 0.10, niche: 0.10 },
+    flowTarget: 60,
+    minConsistency: 75,
+    minGenreDiversity: 55,
+    minPlaylistSize: 12,
+    mainstreamThresh: 71,
+    nicheThresh: 35,
+    featureArtistWeight: 0.25,
+    capPerPlaylistTracks: 80,
+    replayPenalty: "mild",
+    intlUnknownTinyBonus: 0.5,
+    megastarMaxShare: 25,
+    megastarPenalty: 12,
+    smallPlaylistCap: 65,
+    penalizePop: true,
+    penalizeEDMBig15: true,
+    penalizeModernCountryBig: true,
+    rareWellCuratedMinScore: 82,
+    rareRequiredPlaylists: 3,
+    rareMinTracksEach: 10,
+  },
+  ratings: {
+    weights: { cohesion: 0.45, variety: 0.15, rarity: 0.25, creativity: 0.15 },
+    lowPopThreshold: 20,
+    minTracks: 5,
+  },
+  eras: DefaultEras,
+};
+
+// ── Overrides (config, settings.json) ─────────────────────────────────────────
+
+const Weight = z.number().min(0).max(1);
+const Score = z.number().min(0).max(100);
+const Count = z.number().int().min(1);
+
+const EraSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  start: z.number().int(),
+  end: z.number().int(),
+  genreHints: z.array(z.string()).optional(),
+}).refine(e => e.start <= e.end, { message: "An era must start before it ends" });
+
+export const SCORING_PRESETS = ["default", "strict-critic", "generous", "cohesion-first", "explorer-first"] as const;
+export const ScoringPreset = z.enum(SCORING_PRESETS);
+export type ScoringPresetName = z.infer<typeof ScoringPreset>;
+
+export const ScoringOverridesSchema = z.object({
+  library: z.object({
+    weights: z.object({ rarityScore: Weight, cohesion: Weight, variety: Weight, creativity: Weight }).partial(),
+    creativity: z.object({ variety: Weight, rarityScore: Weight }).partial(),
+  }).partial(),
+  taste: z.object({
+    weights: z.object({ cohesion: Weight, rarity: Weight, variety: Weight, exploration: Weight, internationality: Weight, eraBalance: Weight }).partial(),
+    nichePopularityThreshold: Score,
+    recencyBoostMax: Weight,
+    notYouDownweight: Weight,
+    userAliases: z.array(z.string().trim().toLowerCase()),
+    playlistWeightCapPct: Score,
+    minRows: Count,
+  }).partial(),
+  playlist: z.object({
+    weights: z.object({ flow: Weight, consistency: Weight, genreDiversity: Weight, eraDiversity: Weight, mainstream: Weight, niche: Weight }).partial(),
+    flowTarget: Score,
+    minConsistency: Score,
+    minGenreDiversity: Score,
+    minPlaylistSize: Count,
+    mainstreamThresh: Score,
+    nicheThresh: Score,
+    featureArtistWeight: Weight,
+    capPerPlaylistTracks: Count,
+    replayPenalty: z.enum(["off", "mild", "medium", "strong"]),
+    intlUnknownTinyBonus: z.number().min(0).max(10),
+    megastarMaxShare: Score,
+    megastarPenalty: Score,
+    smallPlaylistCap: Score,
+    penalizePop: z.boolean(),
+    penalizeEDMBig15: z.boolean(),
+    penalizeModernCountryBig: z.boolean(),
+    rareWellCuratedMinScore: Score,
+    rareRequiredPlaylists: Count,
+    rareMinTracksEach: Count,
+  }).partial(),
+  ratings: z.object({
+    weights: z.object({ cohesion: Weight, variety: Weight, rarity: Weight, creativity: Weight }).partial(),
+    lowPopThreshold: Score,
+    minTracks: Count,
+  }).partial(),
+  eras: z.array(EraSchema).min(1),
+}).partial();
+export type ScoringOverrides = z.infer<typeof ScoringOverridesSchema>;
+
+/** `scoring` in the config and in settings.json: a preset to start from, plus overrides. */
+export const ScoringSettingsSchema = ScoringOverridesSchema.extend({ preset: ScoringPreset.optional() });
+export type ScoringSettings = z.infer<typeof ScoringSettingsSchema>;
+
+// ── Presets ───────────────────────────────────────────────────────────────────
+
+const PRESETS: Record<ScoringPresetName, ScoringOverrides> = {
+  default: {},
+  // Higher bars, heavier penalties, popularity punished harder
+  "strict-critic": {
+    library: { weights: { rarityScore: 0.45, cohesion: 0.30, variety: 0.10, creativity: 0.15 } },
+    taste: { weights: { cohesion: 0.25, rarity: 0.35, variety: 0.10, exploration: 0.15, internationality: 0.10, eraBalance: 0.05 }, minRows: 500 },
+    playlist: {
+      flowTarget: 70, minConsistency: 85, minPlaylistSize: 20, mainstreamThresh: 60, nicheThresh: 30,
+      replayPenalty: "strong", megastarMaxShare: 15, megastarPenalty: 20, smallPlaylistCap: 50, rareWellCuratedMinScore: 90,
+    },
+    ratings: { lowPopThreshold: 15 },
+  },
+  // Lower bars, light penalties, no cluster dampeners
+  generous: {
+    taste: { minRows: 150 },
+    playlist: {
+      flowTarget: 50, minConsistency: 60, minPlaylistSize: 8, replayPenalty: "off", megastarMaxShare: 40, megastarPenalty: 6,
+      smallPlaylistCap: 80, penalizePop: false, penalizeEDMBig15: false, penalizeModernCountryBig: false, rareWellCuratedMinScore: 75,
+    },
+    ratings: { lowPopThreshold: 30 },
+  },
+  // A tight theme beats range
+  "cohesion-first": {
+    library: { weights: { rarityScore: 0.25, cohesion: 0.55, variety: 0.10, creativity: 0.10 } },
+    taste: { weights: { cohesion: 0.45, rarity: 0.20, variety: 0.10, exploration: 0.10, internationality: 0.10, eraBalance: 0.05 } },
+    playlist: { weights: { flow: 0.30, consistency: 0.35, genreDiversity: 0.05, eraDiversity: 0.10, mainstream: 0.10, niche: 0.10 } },
+    ratings: { weights: { cohesion: 0.60, variety: 0.10, rarity: 0.20, creativity: 0.10 } },
+  },
+  // Range and discovery beat a tight theme
+  "explorer-first": {
+    library: { weights: { rarityScore: 0.25, cohesion: 0.10, variety: 0.35, creativity: 0.30 } },
+    taste: { weights: { cohesion: 0.10, rarity: 0.15, variety: 0.25, exploration: 0.30, internationality: 0.15, eraBalance: 0.05 } },
+    playlist: { weights: { flow: 0.20, consistency: 0.10, genreDiversity: 0.30, eraDiversity: 0.20, mainstream: 0.10, niche: 0.10 } },
+    ratings: { weights: { cohesion: 0.15, variety: 0.30, rarity: 0.25, creativity: 0.30 } },
+  },
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+function merge<T>(base: T, over: unknown): T {
+  if (!isObject(over)) return base;
+  const out: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [k, v] of Object.entries(over)) {
+    if (v === undefined) continue;
+    out[k] = isObject(v) && isObject(out[k]) ? merge(out[k], v) : v;
+  }
+  return out as T;
+}
+
+export type ResolvedScoring = {
+  preset: ScoringPresetName;
+  scoring: Scoring;
+  overrides: string;      // digest of the config and profile overrides, "" when there are none
+};
+
+/**
+ * Scoring for one request. `preset` is the ?scoring= choice when given; the
+ * layers are the config's and the profile's settings, in that order, and
+ * their overrides go on top of the preset.
+ */
+export function resolveScoring(preset: ScoringPresetName | undefined, ...layers: (ScoringSettings | undefined)[]): ResolvedScoring {
+  const chosen = preset ?? [...layers].reverse().find(l => l?.preset)?.preset ?? "default";
+  const overrides = layers.map(l => {
+    const rest: ScoringSettings = { ...l };
+    delete rest.preset;
+    return rest;
+  });
+  const scoring = [PRESETS[chosen], ...overrides].reduce<Scoring>((s, o) => merge(s, o), DEFAULT_SCORING);
+  const custom = overrides.some(o => Object.keys(o).length);
+  return {
+    preset: chosen,
+    scoring,
+    overrides: custom ? createHash("sha1").update(JSON.stringify(overrides)).digest("hex").slice(0, 10) : "",
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { buildSessions } from "./sessions.js";
+
+type Features = { ["Energy"]: number; ["Valence"]: number; ["Danceability"]: number; ["Instrumentalness"]?: number };
+
+/** `n` three-minute plays of distinct tracks from `start`, `everyMin` minutes apart. */
+function plays(start: string, n: number, { everyMin = 3, features }: { everyMin?: number; features?: Features } = {}) {
+  const t0 = Date.parse(start);
+  return Array.from({ length: n }, (_, i) => ({
+    ["Track URI"]: `spotify:track:${start}-${i}`,
+    ["Track Name"]: `Song ${i}`,
+    ["Artist Name(s)"]: "Artist",
+    ["Played At"]: new Date(t0 + i * everyMin * 60000).toISOString(),
+    ["Ms Played"]: 180_000,
+    ...features,
+  }));
+}
+
+const at = (...isos: string[]) => isos.map((iso, i) => ({
+  ["Track URI"]: `spotify:track:${i}`, ["Artist Name(s)"]: "Artist", ["Played At"]: iso, ["Ms Played"]: 180_000,
+}));
+
+describe("buildSessions", () => {
+  it("splits only where consecutive plays are more than the gap apart", () => {
+    const rows = at("2024-03-04T08:00:00Z", "2024-03-04T08:20:00Z", "2024-03-04T08:50:00Z", "2024-03-04T09:21:00Z");
+    const { sessions, totals } = buildSessions(rows);
+    expect(sessions.map(s => [s.start, s.tracks, s.spanMinutes])).toEqual([
+      ["2024-03-04T09:21:00.000Z", 1, 0],
+      ["2024-03-04T08:00:00.000Z", 3, 50],
+    ]);
+    expect(totals).toEqual({ sessions: 2, plays: 4, minutes: 12 });
+  });
+
+  it("takes the gap from the options", () => {
+    const rows = at("2024-03-04T08:00:00Z", "2024-03-04T08:20:00Z", "2024-03-04T08:50:00Z", "2024-03-04T09:21:00Z");
+    expect(buildSessions(rows, { gapMinutes: 10 }).sessions).toHaveLength(4);
+    expect(buildSessions(rows, { gapMinutes: 60 }).sessions).toHaveLength(1);
+  });
+
+  it("counts a play exported twice once", () => {
+    const rows = at("2024-03-04T08:00:00Z");
+    expect(buildSessions([...rows, ...rows]).totals.plays).toBe(1);
+  });
+
+  it.each<[string, ReturnType<typeof plays>, string, string]>([
+    // 05:30 UTC on a Monday: 06:30 in Berlin, 00:30 in New York
+    ["a weekday rush hour, on the local clock", plays("2024-03-04T05:30:00Z", 5), "Europe/Berlin", "commute"],
+    ["the same plays in UTC", plays("2024-03-04T05:30:00Z", 5), "UTC", "casual"],
+    ["the same plays before dawn", plays("2024-03-04T05:30:00Z", 5), "America/New_York", "casual"],
+    ["a Saturday morning", plays("2024-03-09T07:00:00Z", 5), "UTC", "casual"],
+    ["a long rush-hour ride", plays("2024-03-04T07:00:00Z", 30), "UTC", "casual"],
+    ["loud and danceable", plays("2024-03-09T22:00:00Z", 12, { features: { ["Energy"]: 0.8, ["Valence"]: 0.7, ["Danceability"]: 0.8 } }), "UTC", "party"],
+    ["an hour of quiet, even in rush hour", plays("2024-03-04T07:00:00Z", 25, { features: { ["Energy"]: 0.3, ["Valence"]: 0.4, ["Danceability"]: 0.3 } }), "UTC", "deep-focus"],
+  ])("%s", (_, rows, timeZone, archetype) => {
+    const { sessions } = buildSessions(rows, { timeZone });
+    expect(sessions.map(s => s.archetype)).toEqual([archetype]);
+  });
+
+  it("tallies archetypes and the time zone it read them in", () => {
+    const rows = [...plays("2024-03-04T05:30:00Z", 5), ...plays("2024-03-05T05:30:00Z", 5), ...plays("2024-03-09T12:00:00Z", 5)];
+    const summary = buildSessions(rows, { timeZone: "Europe/Berlin" });
+    expect(summary.timeZone).toBe("Europe/Berlin");
+    expect(summary.archetypes).toEqual([
+      { archetype: "commute", sessions: 2, share: 67, avgMinutes: 15 },
+      { archetype: "casual", sessions: 1, share: 33, avgMinutes: 15 },
+    ]);
+  });
+});
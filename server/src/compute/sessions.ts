@@ -0,0 +1,194 @@
+import { resolveRecordings } from "../ingest/identity.js";
+import { localClock, type LocalTime } from "./clock.js";
+import { familyOf, splitGenres } from "./genres.js";
+import { toPlays, type Play, type PlayRow } from "./plays.js";
+
+/**
+ * Listening sessions (/api/sessions): runs of plays where no two consecutive
+ * plays are more than `gapMinutes` apart.
+ *
+ * Streaming-history plays carry no genres or audio features, so each play
+ * borrows them from the richest row of its recording (usually a playlist or
+ * library copy) — the same trick compute() uses for unique tracks. Mood and
+ * the party / deep-focus archetypes need audio features; sessions without
+ * any can still be a commute, or fall through to "casual". Commute hours are
+ * read on the profile's local clock (`timeZone`, default UTC).
+ */
+
+type SessionRow = PlayRow & {
+  ["Genres"]?: string; ["Popularity"]?: number;
+  ["Energy"]?: number; ["Valence"]?: number; ["Danceability"]?: number; ["Instrumentalness"]?: number;
+};
+
+export type Mood = "euphoric" | "intense" | "mellow" | "melancholy";
+export type Archetype = "commute" | "deep-focus" | "party" | "casual";
+
+export type Session = {
+  start: string;            // ISO timestamp of the first play
+  end: string;              // ISO timestamp of the last play
+  minutes: number;          // time listened (Ms Played, else track length)
+  spanMinutes: number;      // first play to last play
+  tracks: number;           // plays in the session
+  uniqueTracks: number;
+  dominantGenre: { genre: string; family: string; share: number } | null;  // share = % of plays
+  mood: Mood | null;
+  energy: number | null;    // 0..1, mean over plays with audio features
+  valence: number | null;
+  archetype: Archetype;
+};
+
+export type SessionsSummary = {
+  gapMinutes: number;
+  timeZone: string;
+  totals: { sessions: number; plays: number; minutes: number };
+  avgMinutes: number;
+  avgTracks: number;
+  medianMinutes: number;
+  longest: Session | null;
+  sessionsPerWeek: number;
+  archetypes: { archetype: Archetype; sessions: number; share: number; avgMinutes: number }[];
+  sessions: Session[];      // newest first
+};
+
+export type SessionOptions = { gapMinutes?: number; timeZone?: string };
+
+export const SESSION_DEFAULTS = { gapMinutes: 30, timeZone: "UTC" };
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Archetype rules, checked in order; the first that matches wins
+const PARTY = { minEnergy: 0.65, minDance: 0.65, minMinutes: 30 };
+const FOCUS = { minMinutes: 60, maxEnergy: 0.5, minInstrumental: 0.4 };
+const COMMUTE = { minMinutes: 10, maxMinutes: 75, hours: [[6, 10], [16, 20]] as const };
+
+const round = (n: number, dp = 0) => { const f = 10 ** dp; return Math.round(n * f) / f; };
+
+type Catalog = { genres: string[]; energy?: number; valence?: number; dance?: number; instrumental?: number };
+
+/** Richest catalog data per recording: genres first, then audio features. Shared with the taste evolution. */
+export function catalogByRecording(rows: SessionRow[], recordingOf: (uri: string) => string): Map<string, Catalog> {
+  const hasFeatures = (r: SessionRow) => !!(r["Energy"] || r["Valence"] || r["Danceability"]);
+  const score = (r: SessionRow) => (r["Genres"] ? 2 : 0) + (hasFeatures(r) ? 1 : 0);
+  const best = new Map<string, SessionRow>();
+  for (const r of rows) {
+    if (!r["Track URI"]) continue;
+    const rid = recordingOf(r["Track URI"]);
+    const prev = best.get(rid);
+    if (!prev || score(r) > score(prev)) best.set(rid, r);
+  }
+  const out = new Map<string, Catalog>();
+  for (const [rid, r] of best) {
+    out.set(rid, hasFeatures(r)
+      ? { genres: splitGenres(r["Genres"]), energy: Number(r["Energy"]) || 0, valence: Number(r["Valence"]) || 0,
+          dance: Number(r["Danceability"]) || 0, instrumental: Number(r["Instrumentalness"]) || 0 }
+      : { genres: splitGenres(r["Genres"]) });
+  }
+  return out;
+}
+
+function moodOf(energy: number, valence: number): Mood {
+  if (energy >= 0.5) return valence >= 0.5 ? "euphoric" : "intense";
+  return valence >= 0.5 ? "mellow" : "melancholy";
+}
+
+function archetypeOf(s: Omit<Session, "archetype">, first: LocalTime, features: { dance: number; instrumental: number } | null): Archetype {
+  if (features && s.energy !== null) {
+    if (s.energy >= PARTY.minEnergy && features.dance >= PARTY.minDance && s.minutes >= PARTY.minMinutes) return "party";
+    if (s.minutes >= FOCUS.minMinutes && (s.energy < FOCUS.maxEnergy || features.instrumental >= FOCUS.minInstrumental)) return "deep-focus";
+  }
+  const { day, hour } = first;
+  const weekday = day <= 4;   // Monday = 0
+  if (weekday && s.minutes >= COMMUTE.minMinutes && s.minutes <= COMMUTE.maxMinutes
+      && COMMUTE.hours.some(([from, to]) => hour >= from && hour < to)) return "commute";
+  return "casual";
+}
+
+function toSession(plays: Play<SessionRow>[], catalog: Map<string, Catalog>, clock: (d: Date) => LocalTime): Session {
+  const first = plays[0].at;
+  const last = plays[plays.length - 1].at;
+
+  const genreCounts = new Map<string, number>();
+  let withFeatures = 0, energy = 0, valence = 0, dance = 0, instrumental = 0;
+  for (const p of plays) {
+    const c = catalog.get(p.rid);
+    if (!c) continue;
+    for (const g of c.genres) genreCounts.set(g, (genreCounts.get(g) || 0) + 1);
+    if (c.energy === undefined) continue;
+    withFeatures++;
+    energy += c.energy; valence += c.valence!; dance += c.dance!; instrumental += c.instrumental!;
+  }
+
+  let top: [string, number] | null = null;
+  for (const e of genreCounts) if (!top || e[1] > top[1] || (e[1] === top[1] && e[0] < top[0])) top = e;
+
+  const avg = (sum: number) => round(sum / withFeatures, 3);
+  const base: Omit<Session, "archetype"> = {
+    start: first.toISOString(),
+    end: last.toISOString(),
+    minutes: round(plays.reduce((s, p) => s + p.ms, 0) / 60000, 1),
+    spanMinutes: round((last.getTime() - first.getTime()) / 60000, 1),
+    tracks: plays.length,
+    uniqueTracks: new Set(plays.map(p => p.rid)).size,
+    dominantGenre: top ? { genre: top[0], family: familyOf(top[0]), share: Math.round((top[1] / plays.length) * 100) } : null,
+    mood: withFeatures ? moodOf(energy / withFeatures, valence / withFeatures) : null,
+    energy: withFeatures ? avg(energy) : null,
+    valence: withFeatures ? avg(valence) : null,
+  };
+  const features = withFeatures ? { dance: dance / withFeatures, instrumental: instrumental / withFeatures } : null;
+  return { ...base, archetype: archetypeOf(base, clock(first), features) };
+}
+
+export function buildSessions(rows: SessionRow[], opts?: SessionOptions): SessionsSummary {
+  const gapMinutes = opts?.gapMinutes ?? SESSION_DEFAULTS.gapMinutes;
+  const timeZone = opts?.timeZone ?? SESSION_DEFAULTS.timeZone;
+  const clock = localClock(timeZone);
+  const { recordingOf } = resolveRecordings(rows);
+  const plays = toPlays(rows, recordingOf);
+  const catalog = catalogByRecording(rows, recordingOf);
+
+  // Split wherever consecutive plays are further apart than the gap
+  const sessions: Session[] = [];
+  let run: Play<SessionRow>[] = [];
+  for (const p of plays) {
+    if (run.length && p.at.getTime() - run[run.length - 1].at.getTime() > gapMinutes * 60000) {
+      sessions.push(toSession(run, catalog, clock));
+      run = [];
+    }
+    run.push(p);
+  }
+  if (run.length) sessions.push(toSession(run, catalog, clock));
+
+  const n = sessions.length;
+  const minutes = sessions.reduce((s, x) => s + x.minutes, 0);
+  const sortedMinutes = sessions.map(s => s.minutes).sort((a, b) => a - b);
+  const median = !n ? 0 : n % 2 ? sortedMinutes[(n - 1) / 2] : (sortedMinutes[n / 2 - 1] + sortedMinutes[n / 2]) / 2;
+  const longest = sessions.reduce<Session | null>((best, s) => (!best || s.minutes > best.minutes ? s : best), null);
+
+  // Sessions per week across the whole span of the history (at least one week)
+  const spanMs = n ? Date.parse(sessions[n - 1].end) - Date.parse(sessions[0].start) : 0;
+  const weeks = Math.max(1, spanMs / WEEK_MS);
+
+  const byArchetype = new Map<Archetype, Session[]>();
+  for (const s of sessions) (byArchetype.get(s.archetype) ?? byArchetype.set(s.archetype, []).get(s.archetype)!).push(s);
+  const archetypes = [...byArchetype.entries()]
+    .map(([archetype, list]) => ({
+      archetype,
+      sessions: list.length,
+      share: Math.round((list.length / n) * 100),
+      avgMinutes: round(list.reduce((s, x) => s + x.minutes, 0) / list.length, 1),
+    }))
+    .sort((a, b) => b.sessions - a.sessions);
+
+  return {
+    gapMinutes,
+    timeZone,
+    totals: { sessions: n, plays: plays.length, minutes: Math.round(minutes) },
+    avgMinutes: n ? round(minutes / n, 1) : 0,
+    avgTracks: n ? round(plays.length / n, 1) : 0,
+    medianMinutes: round(median, 1),
+    longest,
+    sessionsPerWeek: round(n / weeks, 1),
+    archetypes,
+    sessions: sessions.reverse(),
+  };
+}
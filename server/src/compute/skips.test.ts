@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { RowSchema } from "../ingest/readCsv.js";
+import { completionOf, isSkipped } from "./skips.js";
+
+describe("isSkipped", () => {
+  it.each<[string, Parameters<typeof isSkipped>[0], boolean | null]>([
+    ["flagged by the source", { ["Skipped"]: true, ["Ms Played"]: 240_000 }, true],
+    ["ended on the next button", { ["Reason End"]: "fwdbtn", ["Ms Played"]: 240_000 }, true],
+    ["under 30 s, length unknown", { ["Ms Played"]: 12_000 }, true],
+    ["30 s or more, length unknown", { ["Ms Played"]: 30_000 }, false],
+    ["a whole 20-second interlude", { ["Ms Played"]: 20_000, ["Duration (ms)"]: 20_000 }, false],
+    ["past half of the track", { ["Ms Played"]: 110_000, ["Duration (ms)"]: 200_000 }, false],
+    ["short of half of the track", { ["Ms Played"]: 90_000, ["Duration (ms)"]: 200_000 }, true],
+    ["no time played and no flag", {}, null],
+    ["no time played, flagged as not skipped", { ["Skipped"]: false }, false],
+  ])("%s", (_, row, expected) => {
+    expect(isSkipped(row)).toBe(expected);
+  });
+
+  it("treats a blank Ms Played cell as unknown, not as a skip", () => {
+    const row = RowSchema.parse({ ["Track URI"]: "spotify:track:a", ["Ms Played"]: " ", ["Duration (ms)"]: "200000" });
+    expect(row["Ms Played"]).toBeUndefined();
+    expect(isSkipped(row)).toBeNull();
+    expect(completionOf(row)).toBeNull();
+  });
+});
+
+describe("completionOf", () => {
+  it.each<[string, Parameters<typeof completionOf>[0], number | null]>([
+    ["time played over length", { ["Ms Played"]: 50_000, ["Duration (ms)"]: 200_000 }, 0.25],
+    ["capped at 1", { ["Ms Played"]: 250_000, ["Duration (ms)"]: 200_000 }, 1],
+    ["length unknown", { ["Ms Played"]: 50_000 }, null],
+    ["time played unknown", { ["Duration (ms)"]: 200_000 }, null],
+  ])("%s", (_, row, expected) => {
+    expect(completionOf(row)).toBe(expected);
+  });
+});
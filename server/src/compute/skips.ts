@@ -0,0 +1,142 @@
+import { localClock } from "./clock.js";
+
+/**
+ * Skip and completion analytics (the stats' `skipAnalytics`), for sources that
+ * say how a play went — Spotify extended history carries ms_played, skipped
+ * and reason_end; playlist exports and scrobbles carry none of it, and their
+ * plays are left out rather than counted as complete.
+ *
+ * A play is skipped when the source flags it or when it ended on the next
+ * button. Otherwise it is judged on time played: against the track's length
+ * when that is known (skipped below half of it), else against Spotify's
+ * 30-second stream threshold. A play with no time played is unknown.
+ * Completion is time played over track length, capped at 1.
+ */
+
+type SkipRow = {
+  ["Skipped"]?: boolean; ["Reason End"]?: string; ["Ms Played"]?: number; ["Duration (ms)"]?: number;
+};
+
+export type SkipPlay = {
+  rid: string;
+  name: string;
+  artist: string;
+  at: Date;
+  skipped: boolean | null;    // null = the source doesn't say
+  completion: number | null;  // 0..1
+};
+
+export type TrackSkips = {
+  name: string;
+  artist: string;
+  plays: number;
+  skips: number;
+  skipRate: number;           // 0..1, of plays with skip data
+  completion: number | null;  // mean, 0..1
+};
+
+export type SkipAnalytics = {
+  plays: number;              // plays with skip or duration data
+  skips: number;
+  skipRate: number;
+  completionRate: number | null;
+  tracks: TrackSkips[];       // most-played first
+  artists: (Omit<TrackSkips, "name"> & { tracks: number })[];
+  mostSkipped: TrackSkips[];
+  lovedButSkipped: (TrackSkips & { why: "saved" | "replayed" })[];
+  byHour: { hour: number; plays: number; skipRate: number | null }[];  // local hours, 0..23
+};
+
+export const SKIP_MIN_MS = 30_000;
+export const SKIP_MAX_COMPLETION = 0.5;   // of a known track length
+const MIN_PLAYS = 3;              // before a track's skip rate means anything
+const LOVED_MIN_PLAYS = 10;       // "replayed": this many plays in the window
+const CONTRADICTION_RATE = 0.5;   // loved, yet skipped at least this often
+const MAX_LISTED = 20;
+
+export function isSkipped(r: SkipRow): boolean | null {
+  if (r["Skipped"] === true) return true;
+  if (r["Reason End"] === "fwdbtn") return true;
+  const ms = r["Ms Played"];
+  if (ms === undefined || !Number.isFinite(ms)) return r["Skipped"] === false ? false : null;
+  const length = Number(r["Duration (ms)"]) || 0;
+  return length > 0 ? ms / length < SKIP_MAX_COMPLETION : ms < SKIP_MIN_MS;
+}
+
+export function completionOf(r: SkipRow): number | null {
+  const ms = r["Ms Played"];
+  const length = Number(r["Duration (ms)"]) || 0;
+  if (ms === undefined || !Number.isFinite(ms) || length <= 0) return null;
+  return Math.min(1, Math.max(0, ms / length));
+}
+
+const round = (n: number, dp = 3) => { const f = 10 ** dp; return Math.round(n * f) / f; };
+
+type Tally = { plays: number; known: number; skips: number; completion: number; completed: number };
+const tally = (): Tally => ({ plays: 0, known: 0, skips: 0, completion: 0, completed: 0 });
+
+function add(t: Tally, p: SkipPlay) {
+  t.plays++;
+  if (p.skipped !== null) { t.known++; if (p.skipped) t.skips++; }
+  if (p.completion !== null) { t.completed++; t.completion += p.completion; }
+}
+
+const rates = (t: Tally) => ({
+  plays: t.plays,
+  skips: t.skips,
+  skipRate: t.known ? round(t.skips / t.known) : 0,
+  completion: t.completed ? round(t.completion / t.completed) : null,
+});
+
+/** `saved` holds recordings that are also in a playlist or library export. Null when no play has skip data. */
+export function skipAnalytics(plays: SkipPlay[], saved: Set<string>, timeZone = "UTC"): SkipAnalytics | null {
+  const measured = plays.filter(p => p.skipped !== null || p.completion !== null);
+  if (!measured.length) return null;
+
+  const clock = localClock(timeZone);
+  const total = tally();
+  const byTrack = new Map<string, { name: string; artist: string; t: Tally }>();
+  const byArtist = new Map<string, { artist: string; t: Tally; rids: Set<string> }>();
+  const byHour = Array.from({ length: 24 }, tally);
+
+  for (const p of measured) {
+    add(total, p);
+    const track = byTrack.get(p.rid) ?? byTrack.set(p.rid, { name: p.name, artist: p.artist, t: tally() }).get(p.rid)!;
+    add(track.t, p);
+    if (p.artist) {
+      const k = p.artist.toLowerCase();
+      const a = byArtist.get(k) ?? byArtist.set(k, { artist: p.artist, t: tally(), rids: new Set() }).get(k)!;
+      add(a.t, p);
+      a.rids.add(p.rid);
+    }
+    add(byHour[clock(p.at).hour], p);
+  }
+
+  const tracks = [...byTrack.entries()].map(([rid, x]) => ({ rid, row: { name: x.name, artist: x.artist, ...rates(x.t) } }));
+  const listed = tracks.filter(x => x.row.plays >= MIN_PLAYS);
+
+  const lovedButSkipped = listed
+    .filter(x => x.row.skipRate >= CONTRADICTION_RATE && (saved.has(x.rid) || x.row.plays >= LOVED_MIN_PLAYS))
+    .sort((a, b) => b.row.skips - a.row.skips || b.row.plays - a.row.plays)
+    .slice(0, MAX_LISTED)
+    .map(x => ({ ...x.row, why: saved.has(x.rid) ? "saved" as const : "replayed" as const }));
+
+  const all = rates(total);
+  return {
+    plays: all.plays,
+    skips: all.skips,
+    skipRate: all.skipRate,
+    completionRate: all.completion,
+    tracks: tracks.map(x => x.row).sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name)).slice(0, MAX_LISTED),
+    artists: [...byArtist.values()]
+      .map(a => ({ artist: a.artist, tracks: a.rids.size, ...rates(a.t) }))
+      .sort((a, b) => b.plays - a.plays || a.artist.localeCompare(b.artist))
+      .slice(0, MAX_LISTED),
+    mostSkipped: listed.map(x => x.row)
+      .filter(t => t.skips > 0)
+      .sort((a, b) => b.skips - a.skips || b.skipRate - a.skipRate)
+      .slice(0, MAX_LISTED),
+    lovedButSkipped,
+    byHour: byHour.map((t, hour) => ({ hour, plays: t.plays, skipRate: t.known ? round(t.skips / t.known) : null })),
+  };
+}
@@ -1,7 +1,14 @@
 import { lookupOrigin } from "./origin.js";
+import { creditedArtists, primaryArtist } from "./artistCredits.js";
+import { splitGenres } from "./genres.js";
+import { isSkipped } from "./skips.js";
+import { counterfactual, plural, topBy, weighted, type ScoreExplanation } from "./explain.js";
+import { DEFAULT_SCORING, type TasteScoring } from "./scoring.js";
+import { grade, jackknife, SUPPORT, type Confidence, type Support } from "./confidence.js";
 import type { TrackRow } from "../ingest/readCsv.js";
+import type { Provenance } from "../ingest/types.js";
 
-type Row = TrackRow & { _srcFile?: string };
+type Row = TrackRow & { _src?: Provenance };
 
 export type TasteOptions = {
   nichePopularityThreshold: number;   // default 31 (40 - 9)
@@ -11,7 +18,9 @@ export type TasteOptions = {
   notYouDownweight: number;           // 0.5 when Added By != you (off if no aliases)
   userAliases: string[];              // lowercase usernames treated as "you"
   playlistWeightCapPct: number;       // cap max influence by any single source (e.g., 35%)
-  minRows: number;                    // e.g., 300
+  skippedPlayWeight: number;          // 1 = a skipped play counts fully, 0 = not at all
+  minRows: number;                    // e.g., 300; fewer rows → provisional
+  weights: TasteScoring["weights"];   // aggregate score weights per metric
 };
 
 export type TasteProfile = {
@@ -35,15 +44,16 @@ export type TasteProfile = {
     favoritesPerGenre: { genre: string; artists: { name:string; count:number }[] }[];
   };
   evidence: string[];                 // Why this profile (bullets)
-  provisional?: boolean;              // true if < min data
+  explanation?: ScoreExplanation;     // Why this score (per-metric contributions)
+  support: Support;                   // insufficient below SUPPORT.profile.min rows, provisional below minRows
+  confidence?: { score: Confidence; metrics: Record<keyof TasteProfile["metrics"], Confidence> };
+  provisional?: boolean;              // true unless support is solid
   rudeMessage?: string;               // snark if provisional
 };
 
 const now = ()=> new Date();
 const yr = (d: Date)=> d.getUTCFullYear();
 
-const splitGenres = (s?: string) => (s || "").split(/[|,]/).map(x=>x.trim()).filter(Boolean);
-const splitArtists = (s?: string) => (s || "").split(",").map(x=>x.trim()).filter(Boolean);
 
 function safeDate(s?: string){
   if(!s) return null;
@@ -97,32 +107,52 @@ function clamp(n:number, lo=0, hi=100){ return Math.max(lo, Math.min(hi, n)); }
 
 export function buildTasteProfile(rowsIn: Row[], opts?: Partial<TasteOptions>): TasteProfile {
   const cfg: TasteOptions = {
-    nichePopularityThreshold: 31, // "Spotify - 9" (assuming ~40 as common niche cutoff)
+    ...DEFAULT_SCORING.taste,     // thresholds, aliases, caps and weights (scoring.ts)
     playWeight: 0.7,
     uniqueWeight: 0.3,
-    recencyBoostMax: 0.10,
-    notYouDownweight: 0.5,
-    userAliases: [],              // set in config if you want downweight to apply
-    playlistWeightCapPct: 35,     // at most 35% weight from a single playlist/source
-    minRows: 300,
+    skippedPlayWeight: 1,         // no discount unless asked; only history with skip data is affected
     ...(opts||{})
   };
 
   const rows = Array.isArray(rowsIn) ? rowsIn : [];
-  const total = rows.length;
-
-  if(total < cfg.minRows){
+  const rule = { ...SUPPORT.profile, solid: cfg.minRows };
+  if(rows.length < rule.min){
     return {
-      label: "Insufficient Data (Provisional)",
+      label: "Insufficient Data",
       score: 0,
       metrics: { variety:0, rarity:0, cohesion:0, exploration:0, internationality:0, eraBalance:0, replayRate:0 },
       breakdowns: { byDecade:[], by5y:[], countries:[], continents:[], topGenres:[], favoritesPerGenre:[] },
       evidence: [],
+      support: "insufficient",
       provisional: true,
-      rudeMessage: "Come back when your library isn’t a kiddie pool. I need at least 300 real plays to judge you properly."
+      rudeMessage: `Come back when your library isn’t a kiddie pool. I need at least ${cfg.minRows} real plays to judge you properly.`
     };
   }
 
+  // Below minRows the profile is still built, but graded provisional with its intervals to show how loose it is
+  const tp = profileOf(rows, cfg);
+  const precise = (sample: Row[]) => { const p = profileOf(sample, cfg, x => x); return { ...p.metrics, score: p.score }; };
+  const intervals = jackknife(rows, precise);
+  const { score, ...metrics } = Object.fromEntries(
+    Object.entries(intervals).map(([k, iv]) => [k, grade(rows.length, iv as [number, number], rule)])
+  ) as Record<keyof TasteProfile["metrics"] | "score", Confidence>;
+  tp.confidence = { score, metrics };
+  tp.support = score.support;
+  if(tp.support !== "solid"){
+    tp.provisional = true;
+    tp.label = `${tp.label} (Provisional)`;
+    tp.rudeMessage = rows.length < cfg.minRows
+      ? `${rows.length} plays is a sample, not a verdict. Give me ${cfg.minRows} and I’ll stop hedging.`
+      : `Your plays don’t agree with each other: this score could be anywhere from ${Math.round(score.low)} to ${Math.round(score.high)}.`;
+  }
+  tp.explanation = explainScore(rows, cfg, tp);
+  return tp;
+}
+
+// `round` is identity for the confidence re-scores, whose spread rounding would hide
+function profileOf(rows: Row[], cfg: TasteOptions, round: (n: number) => number = Math.round): TasteProfile {
+  const total = rows.length;
+
   // === weights per row ===
   // base: each play counts; boost recency up to 10%; downweight if not added-by you (if aliases set)
   const sourceWeight = new Map<string, number>();
@@ -144,7 +174,7 @@ export function buildTasteProfile(rowsIn: Row[], opts?: Partial<TasteOptions>):
     const yRelease = safeDate(r["Release Date"]); if(yRelease) yearsRelease.push(yr(yRelease));
 
     const g = splitGenres(r["Genres"]); genreList.push(...g);
-    const artists = splitArtists(r["Artist Name(s)"]).map(a=>a.toLowerCase());
+    const artists = creditedArtists(r["Artist Name(s)"], r["Track Name"]).map(a=>a.toLowerCase());
 
     const rec = recencyBoost(played, cfg.recencyBoostMax); // ≤ 10%
     // Optional "not you" downweight if aliases provided
@@ -155,9 +185,10 @@ export function buildTasteProfile(rowsIn: Row[], opts?: Partial<TasteOptions>):
     }
     let w = 1 + rec;
     if(!byYou && cfg.userAliases.length) w *= cfg.notYouDownweight;
+    if(isSkipped(r)) w *= cfg.skippedPlayWeight;
 
-    // cap influence of any single *source file* if present
-    const src = String((r as any)._srcFile || "");
+    // cap influence of any single playlist if present
+    const src = r._src?.playlist || "";
     if(src){
       const prev = sourceWeight.get(src) || 0;
       const cap = Math.max(1, Math.round(total * (cfg.playlistWeightCapPct/100)));
@@ -189,41 +220,42 @@ export function buildTasteProfile(rowsIn: Row[], opts?: Partial<TasteOptions>):
   // Variety (genre spread, normalized)
   const gCounts = new Map<string, number>();
   for(const g of genreList){ gCounts.set(g, (gCounts.get(g)||0)+1); }
-  const variety = clamp(Math.round(100 * (gCounts.size / Math.max(10, genreList.length/10)))); // heuristic
+  const variety = clamp(round(100 * (gCounts.size / Math.max(10, genreList.length/10)))); // heuristic
 
   // Cohesion (inverse entropy of genres)
   const counts = [...gCounts.values()];
   const Hn = entropyNorm(counts);        // 0..1 (1 means very diverse)
-  const cohesion = clamp(Math.round((1 - Hn) * 100));
+  const cohesion = clamp(round((1 - Hn) * 100));
 
   // Rarity (lower avg popularity -> higher rarity)
   const avgPop = popSum/(total||1);
-  const rarity = clamp(Math.round(100 - avgPop)); // 0..100
+  const rarity = clamp(round(100 - avgPop)); // 0..100
 
   // Replay vs Exploration
   const uniqueArtists = artistHits.size || 1;
   const repeats = [...artistHits.values()].filter(n=>n>1).reduce((s,n)=>s+n-1,0);
-  const replayRate = clamp(Math.round(100 * (repeats / total)));
+  const replayRate = clamp(round(100 * (repeats / total)));
   // Exploration: share of artists first seen in the most recent 20% time window
   const firsts = [...artistFirstSeen.values()].filter(x=>x>0).sort((a,b)=>a-b);
   const cutIdx = Math.floor(firsts.length*0.8);
   const recentNew = firsts.slice(cutIdx).length;
-  const exploration = clamp(Math.round(100 * (recentNew / Math.max(1, uniqueArtists))));
+  const exploration = clamp(round(100 * (recentNew / Math.max(1, uniqueArtists))));
 
   // Internationality
   const nonUS = (countryCounts.get("US") ? (wTotal - (countryCounts.get("US")||0)) : wTotal);
-  const internationality = clamp(Math.round(100 * (nonUS / Math.max(1, wTotal))));
+  const internationality = clamp(round(100 * (nonUS / Math.max(1, wTotal))));
 
   // Era balance: higher score = releases spread across many eras (true balance).
   // entropyNorm returns 0 for a single era, 1 for perfectly even spread.
   const d5 = by5y(yearsRelease);
   const dec = byDecade(yearsRelease);
-  const eraBalance = clamp(Math.round(entropyNorm(d5.map(x=>x.count)) * 100));
+  const eraBalance = clamp(round(entropyNorm(d5.map(x=>x.count)) * 100));
 
-  // Weighted aggregate (your weights)
-  // Cohesion 30%, Rarity 25%, Variety 15%, Exploration 15%, Internationality 10%, Era Balance 5%
-  const score = Math.round(
-    cohesion*0.30 + rarity*0.25 + variety*0.15 + exploration*0.15 + internationality*0.10 + eraBalance*0.05
+  // Weighted aggregate; by default Cohesion 30%, Rarity 25%, Variety 15%, Exploration 15%, Internationality 10%, Era Balance 5%
+  const W = cfg.weights;
+  const score = round(
+    cohesion*W.cohesion + rarity*W.rarity + variety*W.variety +
+    exploration*W.exploration + internationality*W.internationality + eraBalance*W.eraBalance
   );
 
   // Persona label (playful but descriptive)
@@ -262,7 +294,69 @@ export function buildTasteProfile(rowsIn: Row[], opts?: Partial<TasteOptions>):
       topGenres,
       favoritesPerGenre: favs
     },
-    evidence
+    evidence,
+    support: "solid"
+  };
+}
+
+// Why the score: each metric's contribution, the rows behind rarity and cohesion,
+// and what dropping those rows would do (re-profiled, so only while enough rows are left)
+function explainScore(rows: Row[], cfg: TasteOptions, tp: TasteProfile): ScoreExplanation {
+  type Metric = keyof TasteOptions["weights"];
+  const W = cfg.weights;
+  const before = (m: Metric) => ({ metric: tp.metrics[m], score: tp.score });
+  const reprofile = (m: Metric, keep: (r: Row) => boolean) => {
+    const rest = rows.filter(keep);
+    if(rest.length < SUPPORT.profile.min) return null;
+    const p = profileOf(rest, cfg);
+    return { metric: p.metrics[m], score: p.score };
+  };
+
+  // Rarity: artists whose plays pull the mean popularity up the most
+  const avgPop = rows.reduce((s,r)=> s + Number(r["Popularity"]||0), 0) / (rows.length||1);
+  const byArtist = new Map<string, { name:string; plays:number; popSum:number; pull:number }>();
+  for(const r of rows){
+    const name = primaryArtist(r["Artist Name(s)"], r["Track Name"]);
+    if(!name) continue;
+    const pop = Number(r["Popularity"]||0);
+    const a = byArtist.get(name.toLowerCase()) ?? byArtist.set(name.toLowerCase(), { name, plays:0, popSum:0, pull:0 }).get(name.toLowerCase())!;
+    a.plays++; a.popSum += pop; a.pull += pop - avgPop;
+  }
+  const offenders = topBy([...byArtist.values()], a=>a.pull);
+  const dropped = new Set(offenders.map(a=>a.name.toLowerCase()));
+  const rarity = weighted("rarity", "Rarity", tp.metrics.rarity, W.rarity,
+    offenders.map(a=>({ label: a.name, value: Math.round(a.popSum/a.plays), note: `mean popularity over ${plural(a.plays, "play")}` })),
+    offenders.length
+      ? counterfactual(`Drop ${offenders.length===1 ? "this artist" : `these ${offenders.length} artists`}`, before("rarity"),
+          reprofile("rarity", r=> !dropped.has(primaryArtist(r["Artist Name(s)"], r["Track Name"]).toLowerCase())))
+      : null);
+
+  // Cohesion: the biggest genres' share of all genre tags; plays outside them spread it
+  const gCounts = new Map<string, number>();
+  let tags = 0;
+  for(const r of rows) for(const g of splitGenres(r["Genres"])){ gCounts.set(g,(gCounts.get(g)||0)+1); tags++; }
+  const topGenres = [...gCounts.entries()].sort((a,b)=>b[1]-a[1] || a[0].localeCompare(b[0])).slice(0,5);
+  const core = new Set(topGenres.map(([g])=>g));
+  const offTheme = (r: Row)=>{ const gs = splitGenres(r["Genres"]); return gs.length>0 && !gs.some(g=>core.has(g)); };
+  const tail = rows.filter(offTheme).length;
+  const cohesion = weighted("cohesion", "Cohesion", tp.metrics.cohesion, W.cohesion,
+    topGenres.map(([g,n])=>({ label: g, value: Math.round(100*n/Math.max(1,tags)), note: "% of genre tags" })),
+    tail ? counterfactual(`Drop the ${plural(tail, "play")} outside your top ${core.size} genres`, before("cohesion"), reprofile("cohesion", r=>!offTheme(r))) : null);
+
+  return {
+    score: tp.score,
+    components: [
+      cohesion,
+      rarity,
+      weighted("variety", "Variety", tp.metrics.variety, W.variety,
+        [{ label: "distinct genres", value: gCounts.size, note: `over ${plural(tags, "genre tag")}` }]),
+      weighted("exploration", "Exploration", tp.metrics.exploration, W.exploration),
+      weighted("internationality", "Internationality", tp.metrics.internationality, W.internationality,
+        tp.breakdowns.countries.slice(0,3).map(c=>({ label: c.name, value: c.count, note: "artist credits" }))),
+      weighted("eraBalance", "Era balance", tp.metrics.eraBalance, W.eraBalance,
+        [...tp.breakdowns.by5y].sort((a,b)=>b.count-a.count).slice(0,3).map(b=>({ label: b.band, value: b.count, note: "releases" }))),
+    ],
+    notes: []
   };
 }
 
@@ -271,7 +365,7 @@ function favoritesPerGenre(rows: Row[]){
   const gTotal = new Map<string, number>();
   for(const r of rows){
     const gs = splitGenres(r["Genres"]);
-    const artists = splitArtists(r["Artist Name(s)"]).map(a=>a.toLowerCase());
+    const artists = creditedArtists(r["Artist Name(s)"], r["Track Name"]).map(a=>a.toLowerCase());
     for(const g of gs){
       const m = gMap.get(g) || new Map<string, number>();
       for(const a of artists){ m.set(a,(m.get(a)||0)+1); }
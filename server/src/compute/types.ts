@@ -1,3 +1,6 @@
+import type { ScoreExplanation } from "./explain.js";
+import type { Confidence } from "./confidence.js";
+
 export type RowLike = {
   ["Track Name"]?: string;
   ["Artist Name(s)"]?: string;
@@ -25,6 +28,8 @@ export type PlaylistScore = {
   size: number;
   score: number;            // 0..100
   reasons: string[];
+  explanation?: ScoreExplanation;
+  confidence?: Confidence;  // n = tracks; jackknife interval around `score`
   metrics: {
     flow: number;           // 0..100
     consistency: number;    // dominant genre/theme %
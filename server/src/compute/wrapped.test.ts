@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { Stats } from "../common/types.js";
+import type { Play } from "./plays.js";
+import { computeWrapped } from "./wrapped.js";
+
+const play = (at: string, artist: string, track = "Song"): Play => {
+  const rid = `spotify:track:${artist}-${track}`;
+  return { rid, track, artist, at: new Date(at), ms: 180_000, row: { ["Track URI"]: rid } };
+};
+
+const stats = (rater: Partial<Stats["playlistRater"]> = {}): Stats => ({
+  topUniqueGenres: [{ genre: "shoegaze", count: 4, family: "Rock" }],
+  discoveryTrend: [],
+  rareTracks: [],
+  taste: { avgValence: 0.5, avgEnergy: 0.5, avgDanceability: 0.5, acousticBias: 0.5, instrumentalBias: 0.5 },
+  playlistRater: { variety: 60, rarityScore: 50, cohesion: 50, creativity: 50, overall: 50, ...rater },
+  activityTrend: [],
+  snob: "",
+  meta: { hash: "", rows: 0, files: 1, skipped: 0, scoring: "default", window: { start: "", end: "" } },
+});
+
+/** Ten artists with one play each in June 2024, so none of them dominates. */
+const spread = Array.from({ length: 10 }, (_, i) => play(`2024-06-${String(i + 10)}T12:00:00Z`, `Band ${i}`));
+
+/** `n` plays of one song, an hour apart from 1 February 2024. */
+const hourly = (n: number, artist: string) =>
+  Array.from({ length: n }, (_, i) => ({ ...play("2024-02-01T00:00:00Z", artist), at: new Date(Date.parse("2024-02-01T00:00:00Z") + i * 3600_000) }));
+
+describe("computeWrapped", () => {
+  const history = [
+    play("2023-05-01T12:00:00Z", "Slowdive", "Alison"),
+    play("2024-03-01T12:00:00Z", "Slowdive", "Alison"),
+    play("2024-03-02T12:00:00Z", "Slowdive", "When the Sun Hits"),
+    play("2024-03-03T12:00:00Z", "Slowdive", "Alison"),
+    play("2024-03-03T18:00:00Z", "Ride", "Vapour Trail"),
+    ...spread,
+  ];
+  const wrapped = computeWrapped(2024, history, stats());
+
+  it("counts only the year's plays", () => {
+    expect(wrapped.years).toEqual([2024, 2023]);
+    expect(wrapped.totals).toEqual({ plays: 14, tracks: 13, artists: 12, newArtists: 11, minutes: 42 });
+    expect(wrapped.topArtists[0]).toEqual({ artist: "Slowdive", plays: 3, tracks: 2 });
+    expect(wrapped.topTracks[0]).toEqual({ name: "Alison", artist: "Slowdive", plays: 2 });
+  });
+
+  it("only counts artists first played that year as new", () => {
+    expect(wrapped.newArtists.map(a => a.artist)).not.toContain("Slowdive");
+    expect(wrapped.newArtists[0]).toEqual({ artist: "Ride", firstPlayed: "2024-03-03", plays: 1 });
+  });
+
+  it("finds the busiest month and day, and the longest streak", () => {
+    expect(wrapped.busiestMonth).toEqual({ month: "2024-06", plays: 10 });
+    expect(wrapped.busiestDay).toEqual({ date: "2024-03-03", plays: 2 });
+    expect(wrapped.longestStreak).toEqual({ days: 10, start: "2024-06-10", end: "2024-06-19" });
+  });
+
+  it.each<[string, Play[], Partial<Stats["playlistRater"]>, string]>([
+    ["a week on one song", [...spread, ...hourly(25, "Slowdive")], {}, "The Year of the Loop"],
+    ["one artist's year", [...spread, ...hourly(3, "Band 0")], {}, "A One-Artist Year"],
+    ["rare all year", spread, { rarityScore: 70 }, "Underground All Year"],
+    ["pop all year", spread, { rarityScore: 34 }, "The Year You Went Pop"],
+    ["middling", spread, {}, "A Respectable Year"],
+    ["no rarity to judge", spread, { rarityScore: null }, "A Respectable Year"],
+  ])("verdict: %s", (_, plays, rater, title) => {
+    expect(computeWrapped(2024, plays, stats(rater)).verdict.title).toBe(title);
+  });
+
+  it("leaves rarity out of the verdict when there is none", () => {
+    expect(computeWrapped(2024, spread, stats({ rarityScore: null })).verdict.text).toMatch(/^Variety 60\. 2024 was/);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Stats } from "../common/types.js";
+import { biggestObsession, longestStreak } from "./patterns.js";
+import { dayKey, monthKeyUTC, type Play } from "./plays.js";
+
+/**
+ * "Snobify Wrapped": one calendar year (UTC) of listening.
+ *
+ * Play-level figures — top artists and tracks, streaks, the obsession — come
+ * from the year's plays; genres, taste and rarity from compute() over the same
+ * window. "New artists" are artists whose first play in the whole history
+ * falls in the year, so they need every play, not just the year's.
+ */
+
+export type WrappedArtist = { artist: string; plays: number; tracks: number };
+export type WrappedTrack = { name: string; artist: string; plays: number };
+
+export type Wrapped = {
+  year: number;
+  years: number[];                         // every year with plays, newest first
+  totals: { plays: number; tracks: number; artists: number; newArtists: number; minutes: number };
+  topArtists: WrappedArtist[];
+  topTracks: WrappedTrack[];
+  topGenres: { genre: string; family: string; count: number }[];
+  newArtists: { artist: string; firstPlayed: string; plays: number }[];
+  busiestMonth: { month: string; plays: number } | null;
+  busiestDay: { date: string; plays: number } | null;
+  longestStreak: { days: number; start: string; end: string } | null;
+  obsession: { name: string; artist: string; plays: number; start: string; end: string } | null;
+  taste: Stats["taste"];
+  playlistRater: Stats["playlistRater"];
+  verdict: { title: string; text: string };
+};
+
+const TOP_N = 10;
+
+const yearOf = (p: Play) => p.at.getUTCFullYear();
+const artistKey = (artist: string) => artist.toLowerCase();
+
+export function playYears(plays: Play[]): number[] {
+  return [...new Set(plays.map(yearOf))].sort((a, b) => b - a);
+}
+
+function countBy<T>(items: T[], key: (t: T) => string): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const t of items) { const k = key(t); m.set(k, (m.get(k) || 0) + 1); }
+  return m;
+}
+
+function busiest(counts: Map<string, number>): [string, number] | null {
+  let best: [string, number] | null = null;
+  for (const e of counts) if (!best || e[1] > best[1] || (e[1] === best[1] && e[0] < best[0])) best = e;
+  return best;
+}
+
+function verdictFor(w: Omit<Wrapped, "verdict">): Wrapped["verdict"] {
+  const { year, playlistRater: pr, obsession, totals, topArtists } = w;
+  const top = topArtists[0];
+  const topShare = top && totals.plays ? Math.round((top.plays / totals.plays) * 100) : 0;
+  const rarity = pr.rarityScore;
+
+  let title: string;
+  let opener: string;
+  if (obsession && obsession.plays >= 25) {
+    title = "The Year of the Loop";
+    opener = `${obsession.plays} plays of "${obsession.name}" in a single week. That isn't a favourite song, it's a coping mechanism.`;
+  } else if (topShare >= 20) {
+    title = "A One-Artist Year";
+    opener = `${top.artist} took ${topShare}% of your ${year}. The Snob hopes they know how much rent they're owed.`;
+  } else if (rarity !== null && rarity >= 70) {
+    title = "Underground All Year";
+    opener = `Rarity ${rarity} across ${year}. The charts happened without you and you'd like that noted.`;
+  } else if (rarity !== null && rarity < 35) {
+    title = "The Year You Went Pop";
+    opener = `Rarity ${rarity}. ${year} was the year you stopped fighting the algorithm and let it drive.`;
+  } else if (totals.newArtists >= 50) {
+    title = "The Explorer's Year";
+    opener = `${totals.newArtists} artists you'd never played before. Restless, curious, possibly unable to commit.`;
+  } else {
+    title = "A Respectable Year";
+    opener = `${rarity !== null ? `Rarity ${rarity}, variety` : "Variety"} ${pr.variety}. ${year} was neither an embarrassment nor a triumph. The Snob will allow it.`;
+  }
+
+  const minutesNote = totals.minutes > 0 ? ` ${totals.minutes.toLocaleString("en-US")} minutes in total.` : "";
+  return { title, text: `${opener}${minutesNote}` };
+}
+
+/** `allPlays` is the whole history (for first plays); `stats` is compute() over the year. */
+export function computeWrapped(year: number, allPlays: Play[], stats: Stats): Wrapped {
+  const yearPlays = allPlays.filter(p => yearOf(p) === year);
+
+  // Top artists and tracks by play count
+  const artistPlays = new Map<string, { artist: string; plays: number; rids: Set<string> }>();
+  for (const p of yearPlays) {
+    if (!p.artist) continue;
+    const k = artistKey(p.artist);
+    const a = artistPlays.get(k) ?? { artist: p.artist, plays: 0, rids: new Set<string>() };
+    a.plays++;
+    a.rids.add(p.rid);
+    artistPlays.set(k, a);
+  }
+  const topArtists = [...artistPlays.values()]
+    .sort((a, b) => b.plays - a.plays || a.artist.localeCompare(b.artist))
+    .slice(0, TOP_N)
+    .map(a => ({ artist: a.artist, plays: a.plays, tracks: a.rids.size }));
+
+  const trackPlays = new Map<string, WrappedTrack>();
+  for (const p of yearPlays) {
+    const t = trackPlays.get(p.rid) ?? { name: p.track, artist: p.artist, plays: 0 };
+    t.plays++;
+    trackPlays.set(p.rid, t);
+  }
+  const topTracks = [...trackPlays.values()]
+    .sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name))
+    .slice(0, TOP_N);
+
+  // Artists first heard this year
+  const firstPlay = new Map<string, Date>();
+  for (const p of allPlays) {
+    const k = artistKey(p.artist);
+    if (p.artist && !firstPlay.has(k)) firstPlay.set(k, p.at);
+  }
+  const newArtists = [...artistPlays.entries()]
+    .filter(([k]) => firstPlay.get(k)!.getUTCFullYear() === year)
+    .map(([k, a]) => ({ artist: a.artist, firstPlayed: dayKey(firstPlay.get(k)!), plays: a.plays }))
+    .sort((a, b) => b.plays - a.plays || a.firstPlayed.localeCompare(b.firstPlayed));
+
+  const month = busiest(countBy(yearPlays, p => monthKeyUTC(p.at)));
+  const day = busiest(countBy(yearPlays, p => dayKey(p.at)));
+
+  const w: Omit<Wrapped, "verdict"> = {
+    year,
+    years: playYears(allPlays),
+    totals: {
+      plays: yearPlays.length,
+      tracks: trackPlays.size,
+      artists: artistPlays.size,
+      newArtists: newArtists.length,
+      minutes: Math.round(yearPlays.reduce((s, p) => s + p.ms, 0) / 60000),
+    },
+    topArtists,
+    topTracks,
+    topGenres: stats.topUniqueGenres.slice(0, TOP_N),
+    newArtists: newArtists.slice(0, TOP_N * 2),
+    busiestMonth: month ? { month: month[0], plays: month[1] } : null,
+    busiestDay: day ? { date: day[0], plays: day[1] } : null,
+    longestStreak: longestStreak(yearPlays.map(p => dayKey(p.at))),
+    obsession: biggestObsession(yearPlays),
+    taste: stats.taste,
+    playlistRater: stats.playlistRater,
+  };
+  return { ...w, verdict: verdictFor(w) };
+}
@@ -0,0 +1,37 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { PROFILES_DIR } from "./index.js";
+import { TimeZone } from "../compute/filters.js";
+import { ScoringSettingsSchema } from "../compute/scoring.js";
+
+// Per-profile settings (profiles/<name>/settings.json), edited from the API.
+// Unknown keys are dropped on load; an unreadable file counts as empty.
+const SETTINGS_FILE = "settings.json";
+
+export const ProfileSettingsSchema = z.object({
+    // IANA zone the profile listens in; exports stamp plays in UTC
+    timeZone: TimeZone.optional(),
+    // Scoring preset and overrides on top of the config's; ?scoring= still picks the preset
+    scoring: ScoringSettingsSchema.optional(),
+});
+export type ProfileSettings = z.infer<typeof ProfileSettingsSchema>;
+
+export function loadProfileSettings(profile: string): ProfileSettings {
+    const file = path.join(PROFILES_DIR, profile, SETTINGS_FILE);
+    if (!fs.existsSync(file)) return {};
+    try {
+        const parsed = ProfileSettingsSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+        if (parsed.success) return parsed.data;
+        console.warn(`[profileSettings] ${file}: invalid, ignoring — ${parsed.error.issues.map(i => i.message).join("; ")}`);
+    } catch (err: any) {
+        console.warn(`[profileSettings] ${file}: unreadable, ignoring — ${err?.message || err}`);
+    }
+    return {};
+}
+
+export function saveProfileSettings(profile: string, settings: ProfileSettings): void {
+    const dir = path.join(PROFILES_DIR, profile);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, SETTINGS_FILE), JSON.stringify(settings, null, 2));
+}
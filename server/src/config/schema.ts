@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { ScoringSettingsSchema } from "../compute/scoring.js";
+import { BenchmarkPopulation } from "../compute/benchmark.js";
 export const ConfigSchema = z.object({
   profilesDir: z.string().default("profiles"),
   defaultProfile: z.string().default("default"),
@@ -8,6 +10,20 @@ export const ConfigSchema = z.object({
     level: z.string().default("info"), 
     pretty: z.boolean().default(true) 
   }).default({ level:"info", pretty:true }),
+  ingest: z.object({
+    // Extra CSV header aliases, canonical field → source header names (see ingest/columnAliases.ts)
+    headerAliases: z.record(z.array(z.string())).default({}),
+    // Per-source pre-Spotify cutoff, adapter id → drop plays before 2008-10 (compute's dropPreSpotify)
+    dropPreSpotify: z.record(z.boolean()).default({})
+  }).default({ headerAliases: {}, dropPreSpotify: {} }),
+  // Scorer weights and thresholds for every profile: a preset plus overrides (see compute/scoring.ts)
+  scoring: ScoringSettingsSchema.default({}),
+  // Percentile ranks (see compute/benchmark.ts): "auto" ranks against the other local
+  // profiles once there are minProfiles of them, else against the bundled reference
+  benchmark: z.object({
+    population: BenchmarkPopulation.default("auto"),
+    minProfiles: z.number().int().min(1).default(5)
+  }).default({ population: "auto", minProfiles: 5 }),
   ml: z.object({
     enabled: z.boolean().default(true),
     models: z.object({
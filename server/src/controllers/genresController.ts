@@ -0,0 +1,24 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { logger } from "../observability/logger.js";
+import { incRequest, incError } from "../observability/metrics.js";
+import { sendError } from "../errors/respond.js";
+import { genreTaxonomy, OTHER_FAMILY } from "../compute/genres.js";
+
+const reqId = () => Math.random().toString(36).slice(2, 9);
+
+export class GenresController {
+    /** The genre taxonomy (aliases, families → substyles, era hints) the app classifies genres with. */
+    static async getTaxonomy(_request: FastifyRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/genres/taxonomy");
+        reply.header("x-req-id", id);
+
+        try {
+            reply.send({ ...genreTaxonomy(), otherFamily: OTHER_FAMILY });
+        } catch (err: any) {
+            incError("/api/genres/taxonomy");
+            logger.error({ err: String(err), reqId: id }, "genre taxonomy failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+}
@@ -0,0 +1,90 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { logger } from "../observability/logger.js";
+import { incRequest, incError } from "../observability/metrics.js";
+import { sendError } from "../errors/respond.js";
+import { JobService, type Job } from "../services/jobService.js";
+
+const reqId = () => Math.random().toString(36).slice(2, 9);
+
+const HEARTBEAT_MS = 15_000;
+
+type JobRequest = FastifyRequest<{ Params: { id: string } }>;
+
+const jobParam = (request: JobRequest) => request.params.id ?? "";
+
+export class JobsController {
+    static async getJob(request: JobRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/jobs/:id");
+        reply.header("x-req-id", id);
+
+        const job = JobService.get(jobParam(request));
+        if (!job) return sendError(reply, "JobNotFound", "Job not found", id);
+        reply.send({ job: JobService.publicJob(job) });
+    }
+
+    /**
+     * Server-Sent Events: a `job` event with the full job on connect and after
+     * every change, closed once the job is done or failed. After a retry the
+     * client simply reconnects.
+     */
+    static async streamEvents(request: JobRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/jobs/:id/events");
+
+        const job = JobService.get(jobParam(request));
+        if (!job) {
+            reply.header("x-req-id", id);
+            return sendError(reply, "JobNotFound", "Job not found", id);
+        }
+
+        reply.hijack();
+        const res = reply.raw;
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "x-req-id": id,
+            ...(request.headers.origin ? { "Access-Control-Allow-Origin": request.headers.origin } : {}),
+        });
+
+        let closed = false;
+        const send = (j: Job) => {
+            if (closed) return;
+            res.write(`event: job\ndata: ${JSON.stringify(JobService.publicJob(j))}\n\n`);
+            if (JobService.isFinished(j)) close();
+        };
+        const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+        const unsubscribe = JobService.subscribe(job.id, send);
+        function close() {
+            if (closed) return;
+            closed = true;
+            clearInterval(heartbeat);
+            unsubscribe();
+            res.end();
+        }
+        request.raw.on("close", close);
+        send(job);
+    }
+
+    /** Re-run a failed job from the stage that failed, with the files it already received. */
+    static async retryJob(request: JobRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/jobs/:id/retry");
+        reply.header("x-req-id", id);
+
+        try {
+            const job = JobService.get(jobParam(request));
+            if (!job) return sendError(reply, "JobNotFound", "Job not found", id);
+            if (!JobService.retry(job)) {
+                return sendError(reply, "JobNotRetryable", `Job is ${job.state}${job.state === "failed" ? " and cannot be retried" : ""}`, id,
+                    job.state === "failed" ? "Its files are gone — upload them again." : undefined);
+            }
+            reply.status(202).send({ job: JobService.publicJob(job) });
+        } catch (err: any) {
+            incError("/api/jobs/:id/retry");
+            logger.error({ err: String(err), reqId: id }, "job retry failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+}
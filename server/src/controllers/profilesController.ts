@@ -1,8 +1,26 @@
 import { FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
 import fs from "fs";
 import path from "path";
 import { CONFIG, PROFILES_DIR, ROOT_DIR } from "../config/index.js";
 import { DataService } from "../services/dataService.js";
+import { summarizeReports } from "../ingest/registry.js";
+import { canonicalFields, loadColumnMap, saveColumnMap, type ColumnMap } from "../ingest/columnAliases.js";
+import { ProfileSettingsSchema, loadProfileSettings, saveProfileSettings } from "../config/profileSettings.js";
+import { TimeZone } from "../compute/filters.js";
+import { ScoringSettingsSchema } from "../compute/scoring.js";
+import { logger } from "../observability/logger.js";
+import { incRequest, incError } from "../observability/metrics.js";
+import { sendError } from "../errors/respond.js";
+
+const reqId = () => Math.random().toString(36).slice(2, 9);
+
+type ProfileRequest = FastifyRequest<{ Params: { name: string } }>;
+
+const profileParam = (request: ProfileRequest) =>
+    (request.params.name ?? "").replace(/[^a-zA-Z0-9_-]/g, "");
+
+const profileExists = (profile: string) => !!profile && fs.existsSync(path.join(PROFILES_DIR, profile));
 
 export class ProfilesController {
     static async getProfiles(_request: FastifyRequest, reply: FastifyReply) {
@@ -38,4 +56,110 @@ export class ProfilesController {
             });
         }
     }
+
+    /** What happened to every file in the profile's data: accepted rows, rejections by reason, samples, column mapping. */
+    static async getIngestReport(request: ProfileRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/profiles/:name/ingest-report");
+        reply.header("x-req-id", id);
+
+        const profile = profileParam(request);
+        if (!profileExists(profile)) {
+            return sendError(reply, "ProfileNotFound", `Profile "${profile}" does not exist`, id);
+        }
+
+        try {
+            const { files } = await DataService.ingest(profile);
+            const dataPath = DataService.getDataPath(profile);
+            reply.send({
+                profile,
+                dataType: dataPath?.type ?? null,
+                dataPath: dataPath ? path.relative(ROOT_DIR, dataPath.path) : null,
+                totals: summarizeReports(files),
+                files,
+            });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id,
+                    "Upload playlist CSVs or Streaming_History_Audio_*.json files for this profile first.");
+            }
+            incError("/api/profiles/:name/ingest-report");
+            logger.error({ err: String(err), reqId: id }, "ingest report failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    /** The profile's saved CSV header mapping, plus the fields a header can map to. */
+    static async getColumnMap(request: ProfileRequest, reply: FastifyReply) {
+        const id = reqId();
+        reply.header("x-req-id", id);
+        const profile = profileParam(request);
+        if (!profileExists(profile)) {
+            return sendError(reply, "ProfileNotFound", `Profile "${profile}" does not exist`, id);
+        }
+        reply.send({ profile, columnMap: loadColumnMap(profile), fields: canonicalFields() });
+    }
+
+    /** Merge header → field choices into the saved mapping; the next ingest re-reads every file with it. */
+    static async putColumnMap(request: ProfileRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/profiles/:name/column-map");
+        reply.header("x-req-id", id);
+        const profile = profileParam(request);
+        if (!profileExists(profile)) {
+            return sendError(reply, "ProfileNotFound", `Profile "${profile}" does not exist`, id);
+        }
+
+        const fields = canonicalFields() as [string, ...string[]];
+        const Body = z.object({ columnMap: z.record(z.enum(fields).nullable()) });
+        const parsed = Body.safeParse(request.body);
+        if (!parsed.success) {
+            return sendError(reply, "CsvSchemaInvalid", "Invalid column mapping", id,
+                `Each header must map to one of: ${fields.join(", ")} — or null to ignore it.`, parsed.error.issues);
+        }
+
+        const columnMap = { ...loadColumnMap(profile), ...parsed.data.columnMap } as ColumnMap;
+        saveColumnMap(profile, columnMap);
+        logger.info({ profile, reqId: id }, "column map saved");
+        reply.send({ profile, columnMap });
+    }
+
+    /** The profile's settings.json (time zone, …). */
+    static async getSettings(request: ProfileRequest, reply: FastifyReply) {
+        const id = reqId();
+        reply.header("x-req-id", id);
+        const profile = profileParam(request);
+        if (!profileExists(profile)) {
+            return sendError(reply, "ProfileNotFound", `Profile "${profile}" does not exist`, id);
+        }
+        reply.send({ profile, settings: loadProfileSettings(profile) });
+    }
+
+    /** Merge into the saved settings; a null value clears that setting. Stats pick the change up on the next request. */
+    static async putSettings(request: ProfileRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/profiles/:name/settings");
+        reply.header("x-req-id", id);
+        const profile = profileParam(request);
+        if (!profileExists(profile)) {
+            return sendError(reply, "ProfileNotFound", `Profile "${profile}" does not exist`, id);
+        }
+
+        const Body = z.object({ settings: ProfileSettingsSchema.extend({
+            timeZone: TimeZone.nullable().optional(),
+            scoring: ScoringSettingsSchema.nullable().optional(),
+        }) });
+        const parsed = Body.safeParse(request.body);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid settings", id,
+                "timeZone must be an IANA zone such as \"Europe/Berlin\", or null to use UTC; scoring takes a preset and weight/threshold overrides, or null to clear them.",
+                parsed.error.issues);
+        }
+
+        const settings: Record<string, unknown> = { ...loadProfileSettings(profile), ...parsed.data.settings };
+        for (const [k, v] of Object.entries(settings)) if (v === null || v === undefined) delete settings[k];
+        saveProfileSettings(profile, settings);
+        logger.info({ profile, reqId: id }, "profile settings saved");
+        reply.send({ profile, settings });
+    }
 }
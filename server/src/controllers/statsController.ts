@@ -1,180 +1,389 @@
 import { FastifyRequest, FastifyReply } from "fastify";
-import fs from "fs";
+import { z } from "zod";
 import { DataService } from "../services/dataService.js";
+import { StatsService } from "../services/statsService.js";
 import { CONFIG } from "../config/index.js";
 import { logger } from "../observability/logger.js";
 import { incRequest, incError, Timer } from "../observability/metrics.js";
 import { sendError } from "../errors/respond.js";
-import { compute } from "../compute/compute.js";
 import { analyzeLibrary } from "../compute/libraryAnalysis.js";
 import { buildTasteProfile } from "../compute/tasteProfile.js";
 import { computePlaylistRatings } from "../compute/playlistRatings.js";
 import { scoreOnePlaylist, rareEligibilityFromPlaylists } from "../compute/playlistScore.js";
-import { readPlaylistsAsMapLoose } from "../ingest/readAll.js";
+import { StatsQuerySchema, CompareQuerySchema, TimeZone } from "../compute/filters.js";
+import { comparePeriods } from "../compute/compare.js";
+import { ScoringPreset } from "../compute/scoring.js";
+import { BenchmarkPopulation } from "../compute/benchmark.js";
+import { summarizeReports } from "../ingest/registry.js";
+import { resolveRecordings } from "../ingest/identity.js";
+import type { IngestRow } from "../ingest/types.js";
+import type { Stats } from "../common/types.js";
 
 const reqId = () => Math.random().toString(36).slice(2, 9);
 
-// ── In-process stats cache ────────────────────────────────────────────────────
-// Key = "profile:fingerprint" where fingerprint = mtime+size of all CSV files.
-// A new upload changes mtime, instantly busting the cache without needing a TTL.
-interface CacheEntry { stats: any; fingerprint: string; cachedAt: number }
-const statsCache = new Map<string, CacheEntry>();
-const CACHE_MAX_AGE_MS = 10 * 60 * 1000; // safety ceiling: 10 minutes
-
-function fingerprint(dataPath: { isDirectory: boolean; path: string }): string {
-    try {
-        if (dataPath.isDirectory) {
-            const files = fs.readdirSync(dataPath.path).filter(f => f.toLowerCase().endsWith(".csv")).sort();
-            return files.map(f => {
-                const s = fs.statSync(`${dataPath.path}/${f}`);
-                return `${f}:${s.mtimeMs}:${s.size}`;
-            }).join("|");
-        }
-        const s = fs.statSync(dataPath.path);
-        return `${s.mtimeMs}:${s.size}`;
-    } catch {
-        return String(Date.now()); // on error, don't cache
-    }
-}
-
-function getCachedStats(profile: string, fp: string): any | null {
-    const entry = statsCache.get(profile);
-    if (!entry) return null;
-    if (entry.fingerprint !== fp) { statsCache.delete(profile); return null; }
-    if (Date.now() - entry.cachedAt > CACHE_MAX_AGE_MS) { statsCache.delete(profile); return null; }
-    return entry.stats;
-}
-
-function setCachedStats(profile: string, fp: string, stats: any): void {
-    statsCache.set(profile, { stats, fingerprint: fp, cachedAt: Date.now() });
-}
-
-function countCsvFiles(dirPath: string): number {
-    try {
-        return fs.readdirSync(dirPath).filter(f => f.toLowerCase().endsWith(".csv")).length;
-    } catch {
-        return 1;
+// The query string as Fastify parses it; each handler's zod schema narrows it from there
+type RawQuery = Record<string, string | string[] | undefined>;
+type QueryRequest = FastifyRequest<{ Querystring: RawQuery }>;
+
+const WrappedQuery = z.object({ year: z.coerce.number().int().min(1900).max(2100).optional() });
+const SessionsQuery = z.object({
+    gap: z.coerce.number().int().min(1).max(24 * 60).optional(),     // minutes of silence that end a session
+    limit: z.coerce.number().int().min(0).max(1000).default(50),      // sessions listed, newest first
+    tz: TimeZone.optional(),                                           // else the profile's settings.json
+});
+const ArtistParams = z.object({ name: z.string().trim().min(1).max(200) });
+const TasteQuery = z.object({
+    skipWeight: z.coerce.number().min(0).max(1).default(1),   // weight of a skipped play
+    scoring: ScoringPreset.optional(),                         // else the profile's or the config's preset
+});
+const PlaylistScoresQuery = z.object({ scoring: ScoringPreset.optional() });
+const BenchmarkQuery = z.object({
+    population: BenchmarkPopulation.optional(),   // else CONFIG.benchmark.population
+    scoring: ScoringPreset.optional(),
+});
+
+function groupByPlaylist(rows: IngestRow[]): Map<string, IngestRow[]> {
+    const out = new Map<string, IngestRow[]>();
+    for (const r of rows) {
+        const name = r._src.playlist;
+        if (!name) continue;
+        if (!out.has(name)) out.set(name, []);
+        out.get(name)!.push(r);
     }
+    return out;
 }
 
 export class StatsController {
-    static async getStats(request: FastifyRequest, reply: FastifyReply) {
+    static async getStats(request: QueryRequest, reply: FastifyReply) {
         const id = reqId();
         incRequest("/api/stats");
         const timer = new Timer();
         reply.header("x-req-id", id);
 
-        const q = (request.query as any) || {};
+        const q = request.query ?? {};
         const profile = String(q.profile || CONFIG.defaultProfile);
         reply.header("x-snobify-profile", profile);
 
+        const parsed = StatsQuerySchema.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid stats query", id,
+                "Dates are YYYY, YYYY-MM or YYYY-MM-DD; year, lastNDays, rareN and topGenresLimit are positive integers.",
+                parsed.error.issues);
+        }
+        const query = parsed.data;
+
         try {
-            const dataPath = DataService.getDataPath(profile);
-            if (!dataPath) {
+            const { stats, cached, files } = await StatsService.getStats(profile, query, {
+                onStage: stage => { if (stage === "compute") timer.lap("ingest"); },
+            });
+            reply.header("x-snobify-cache", cached ? "HIT" : "MISS");
+            timer.lap(cached ? "cache-hit" : "compute");
+
+            if (!stats) {
+                return sendError(reply, "CsvSchemaInvalid", "CSV was loaded but contained 0 valid rows", id,
+                    `Make sure your CSV has a 'Track URI' column, or upload Streaming_History_Audio_*.json files from the Spotify privacy export. See /api/profiles/${profile}/ingest-report for why rows were rejected.`,
+                    summarizeReports(files));
+            }
+
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, query, stats });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
                 return sendError(reply, "DataNotFound", "No music data found", id,
                     "Place CSV files in Music data/spotify_playlists/ or profiles/<name>/history.csv");
             }
+            incError("/api/stats");
+            const msg = err?.message || String(err);
+            console.error(`[stats] profile=${profile} error:`, msg);
+            logger.error({ err: msg, reqId: id }, "stats failed");
+            return sendError(reply, "Unknown", msg, id,
+                msg.includes("required column") ? "Your CSV may be in the wrong format. Snobify needs Spotify playlist export CSVs with a 'Track URI' column or extended streaming history JSON." : undefined);
+        }
+    }
+
+    /** Stats for two periods (?a=2022&b=2023) and what changed between them. */
+    static async getCompare(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/stats/compare");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
+
+        const parsed = CompareQuerySchema.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid comparison query", id,
+                "Pass two periods as a and b: YYYY, YYYY-MM, YYYY-MM-DD or a from..to range, e.g. ?a=2022&b=2023.",
+                parsed.error.issues);
+        }
+        const { a, b } = parsed.data;
 
-            // ── Cache check ──────────────────────────────────────────────────
-            const fp = fingerprint(dataPath);
-            const cached = getCachedStats(profile, fp);
-            if (cached) {
-                timer.lap("cache-hit");
-                reply.header("x-snobify-cache", "HIT");
-                reply.header("Server-Timing", timer.header());
-                reply.send({ profile, stats: cached });
-                return;
+        try {
+            const sa = await StatsService.getStats(profile, a.query);
+            const sb = await StatsService.getStats(profile, b.query);
+            timer.lap("stats");
+            // Both sides read the same ingest, so a null side means the profile itself has no rows
+            if (!sa.stats || !sb.stats) {
+                return sendError(reply, "CsvSchemaInvalid", `Profile "${profile}" has no valid rows to compare`, id,
+                    `See /api/profiles/${profile}/ingest-report for why rows were rejected.`,
+                    summarizeReports(sa.stats ? sb.files : sa.files));
+            }
+            for (const [key, p, stats] of [["a", a, sa.stats], ["b", b, sb.stats]] as const) {
+                if (stats.meta.rows === 0) {
+                    return sendError(reply, "QueryInvalid", `No plays in period ${key} (${p.label})`, id,
+                        "Pick a period inside the profile's listening history.", { period: key, label: p.label });
+                }
             }
-            reply.header("x-snobify-cache", "MISS");
 
-            const rows = await DataService.loadData(profile);
+            const comparison = comparePeriods(sa.stats, sb.stats, { a: a.label, b: b.label });
+            timer.lap("compare");
+
+            const side = (p: typeof a, { meta }: Stats) => ({ label: p.label, query: p.query, rows: meta.rows, window: meta.window });
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, a: side(a, sa.stats), b: side(b, sb.stats), comparison });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/stats/compare");
+            logger.error({ err: String(err), reqId: id }, "stats compare failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
 
-            console.log(`Loaded ${rows.length} tracks from ${dataPath.type}`);
+    /** Year-in-review ("Snobify Wrapped") for ?year=, defaulting to the latest year with plays. */
+    static async getWrapped(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/wrapped");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
 
-            if (rows.length === 0) {
-                return sendError(reply, "CsvSchemaInvalid", "CSV was loaded but contained 0 valid rows", id,
-                    "Make sure your CSV has a 'Track URI' column. Spotify extended history format may need conversion.");
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
+
+        const parsed = WrappedQuery.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid year", id, "Pass a four-digit year, e.g. ?year=2024.", parsed.error.issues);
+        }
+
+        try {
+            const { wrapped, years, cached } = await StatsService.getWrapped(profile, parsed.data.year);
+            reply.header("x-snobify-cache", cached ? "HIT" : "MISS");
+            timer.lap(cached ? "cache-hit" : "compute");
+
+            if (!wrapped && !years.length) {
+                return sendError(reply, "DataNotFound", "No listening history", id,
+                    "Wrapped needs timestamped plays — upload Streaming_History_Audio_*.json from the Spotify privacy export, or a Last.fm scrobble export.");
+            }
+            if (!wrapped) {
+                return sendError(reply, "QueryInvalid", `No plays in ${parsed.data.year}`, id,
+                    `Years with plays: ${years.join(", ")}`, { years });
             }
 
-            const dts = rows
-                .map((r: any) => new Date(r?.["Played At"] || r?.["Added At"] || r?.["Release Date"] || ""))
-                .filter((d: any) => !isNaN(d.getTime()))
-                .sort((a: any, b: any) => a.getTime() - b.getTime());
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, wrapped });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/wrapped");
+            logger.error({ err: String(err), reqId: id }, "wrapped failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    static async getSessions(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/sessions");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
 
-            const fileCount = dataPath.isDirectory ? countCsvFiles(dataPath.path) : 1;
+        const parsed = SessionsQuery.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid sessions query", id,
+                "gap is minutes between plays (1-1440), limit the number of sessions listed (0-1000), tz an IANA zone.", parsed.error.issues);
+        }
 
-            const stats = compute(rows);
-            stats.meta.files = fileCount;
-            timer.lap("compute");
+        try {
+            const { sessions, cached } = await StatsService.getSessions(profile, parsed.data.gap, parsed.data.tz);
+            reply.header("x-snobify-cache", cached ? "HIT" : "MISS");
+            timer.lap(cached ? "cache-hit" : "compute");
 
-            // plug a stable hash if missing
-            if (!stats?.meta?.hash) {
-                const firstDateISO = (dates: Date[]) => dates.length ? dates[0].toISOString() : "";
-                const lastDateISO  = (dates: Date[]) => dates.length ? dates[dates.length - 1].toISOString() : "";
-                const h = String(rows.length) + ":" + firstDateISO(dts) + ":" + lastDateISO(dts);
-                (stats as any).meta = { ...(stats as any).meta, hash: Buffer.from(h).toString("base64url") };
+            if (!sessions) {
+                return sendError(reply, "DataNotFound", "No listening history", id,
+                    "Sessions need timestamped plays — upload Streaming_History_Audio_*.json from the Spotify privacy export, or a Last.fm scrobble export.");
             }
 
-            setCachedStats(profile, fp, stats);
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, sessions: { ...sessions, sessions: sessions.sessions.slice(0, parsed.data.limit) } });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/sessions");
+            logger.error({ err: String(err), reqId: id }, "sessions failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    /** Everything about one artist: plays over time, tracks, albums, genres, audio features, rarity, playlists. */
+    static async getArtist(request: FastifyRequest<{ Querystring: RawQuery; Params: { name: string } }>, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/artists/:name");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
+
+        const parsed = ArtistParams.safeParse(request.params);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid artist name", id,
+                "Pass the artist's name, URL-encoded, e.g. /api/artists/Boards%20of%20Canada.", parsed.error.issues);
+        }
+        const { name } = parsed.data;
+
+        try {
+            const { artist, cached } = await StatsService.getArtist(profile, name);
+            reply.header("x-snobify-cache", cached ? "HIT" : "MISS");
+            timer.lap(cached ? "cache-hit" : "compute");
+
+            if (!artist) {
+                return sendError(reply, "DataNotFound", `No tracks by "${name}"`, id,
+                    "Artists are matched by name, case-insensitively, as credited on the track (main or featured).");
+            }
 
             reply.header("Server-Timing", timer.header());
-            reply.send({ profile, stats });
+            reply.send({ profile, artist });
         } catch (err: any) {
             if (err.message === "DataNotFound") {
-                return sendError(reply, "DataNotFound", "No music data found", id,
-                    "Place CSV files in Music data/spotify_playlists/ or profiles/<name>/history.csv");
+                return sendError(reply, "DataNotFound", "No music data found", id);
             }
-            incError("/api/stats");
-            const msg = err?.message || String(err);
-            console.error(`[stats] profile=${profile} error:`, msg);
-            logger.error({ err: msg, reqId: id }, "stats failed");
-            return sendError(reply, "Unknown", msg, id,
-                msg.includes("required column") ? "Your CSV may be in the wrong format. Snobify needs Spotify playlist export CSVs with a 'Track URI' column." : undefined);
+            incError("/api/artists/:name");
+            logger.error({ err: String(err), reqId: id }, "artist failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    /** Genre-family shares per quarter of listening, where the taste drifted, and the eras in between. */
+    static async getEvolution(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/taste/evolution");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
+
+        try {
+            const { evolution, cached } = await StatsService.getEvolution(profile);
+            reply.header("x-snobify-cache", cached ? "HIT" : "MISS");
+            timer.lap(cached ? "cache-hit" : "compute");
+
+            if (!evolution) {
+                return sendError(reply, "DataNotFound", "No listening history with genres", id,
+                    "The timeline needs timestamped plays (streaming history or scrobbles) plus a playlist or library export that carries genres for those tracks.");
+            }
+
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, evolution });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/taste/evolution");
+            logger.error({ err: String(err), reqId: id }, "taste evolution failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
         }
     }
 
-    static async getDebug(request: FastifyRequest, reply: FastifyReply) {
+    /** Percentile ranks of every library metric against the local profiles or the bundled reference. */
+    static async getBenchmark(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/benchmark");
+        const timer = new Timer();
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
+
+        const parsed = BenchmarkQuery.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid benchmark query", id,
+                "population is auto, profiles or reference; scoring is a preset name.", parsed.error.issues);
+        }
+
+        try {
+            const { benchmark } = await StatsService.getBenchmark(profile, parsed.data.population, parsed.data.scoring);
+            timer.lap("benchmark");
+            if (!benchmark) {
+                return sendError(reply, "CsvSchemaInvalid", "CSV was loaded but contained 0 valid rows", id,
+                    `See /api/profiles/${profile}/ingest-report for why rows were rejected.`);
+            }
+
+            reply.header("Server-Timing", timer.header());
+            reply.send({ profile, benchmark });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/benchmark");
+            logger.error({ err: String(err), reqId: id }, "benchmark failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    static async getDebug(request: QueryRequest, reply: FastifyReply) {
         const id = reqId();
         incRequest("/api/debug");
         reply.header("x-req-id", id);
 
-        const q = (request.query as any) || {};
+        const q = request.query ?? {};
         const profile = String(q.profile || CONFIG.defaultProfile);
         const histOnly = String(q.histOnly ?? "1") !== "0";
         reply.header("x-snobify-profile", profile);
 
         try {
-            const rowsAll = await DataService.loadData(profile);
+            const { rows: rowsAll, files } = await DataService.ingest(profile);
             const dataPath = DataService.getDataPath(profile);
 
             const libraryRows = histOnly
-                ? rowsAll.filter((r: any) => String(r?.["Played At"] || "").trim() !== "")
+                ? rowsAll.filter(r => String(r["Played At"] || "").trim() !== "")
                 : rowsAll;
 
-            let playlistRatings: any[] = [];
-            try { playlistRatings = computePlaylistRatings(rowsAll); }
+            let playlistRatings: ReturnType<typeof computePlaylistRatings> = [];
+            try { playlistRatings = computePlaylistRatings(rowsAll, StatsService.scoringOf(profile).scoring.ratings); }
             catch (e) { logger.error({ err: String(e), where: "computePlaylistRatings", reqId: id }); playlistRatings = []; }
 
-            let library: any = { timeDepth: {}, vintageGenresTop: [], topGenresAll: [], topGenresModern: [], genreContrast: 0, favoritesPerGenre: [] };
+            let library: ReturnType<typeof analyzeLibrary> = { timeDepth: { earliestYear: null, latestYear: null, spanYears: 0, decades: [] }, vintageGenresTop: [], topGenresAll: [], topGenresModern: [], genreContrast: 0, favoritesPerGenre: [] };
             try { library = analyzeLibrary(libraryRows); }
             catch (e) { logger.error({ err: String(e), where: "analyzeLibrary", reqId: id }); }
 
             const dates = libraryRows
-                .map((r: any) => new Date(r?.["Played At"] || r?.["Added At"] || r?.["Release Date"] || ""))
-                .filter((d: any) => !isNaN(d.getTime()))
-                .sort((a: any, b: any) => a.getTime() - b.getTime());
-
-            const fileCount = dataPath?.isDirectory ? countCsvFiles(dataPath.path) : 1;
+                .map(r => new Date(r["Played At"] || r["Added At"] || r["Release Date"] || ""))
+                .filter(d => !isNaN(d.getTime()))
+                .sort((a, b) => a.getTime() - b.getTime());
 
             const meta = {
-                files: fileCount,
+                files: summarizeReports(files).recognised,
                 rows: rowsAll.length,
                 window: {
                     start: dates.length ? dates[0].toISOString() : "",
                     end: dates.length ? dates[dates.length - 1].toISOString() : ""
                 },
                 dataPath: dataPath?.path,
-                dataType: dataPath?.type
+                dataType: dataPath?.type,
+                ingest: files
             };
 
             reply.send({ profile, playlistRatings, library, meta });
@@ -188,37 +397,77 @@ export class StatsController {
         }
     }
 
-    static async getTasteProfile(request: FastifyRequest, reply: FastifyReply) {
+    /** How URIs were clustered into canonical recordings — the grouping compute() counts by. */
+    static async getIdentities(request: QueryRequest, reply: FastifyReply) {
+        const id = reqId();
+        incRequest("/api/debug/identities");
+        reply.header("x-req-id", id);
+
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        const limit = Math.max(1, Math.min(1000, Number(q.limit) || 100));
+        reply.header("x-snobify-profile", profile);
+
+        try {
+            const rows = await DataService.loadData(profile);
+            const { recordingOf, clusters } = resolveRecordings(rows);
+            const uris = new Set(rows.map(r => r["Track URI"]));
+            const recordings = new Set([...uris].map(recordingOf));
+
+            reply.send({
+                profile,
+                tracks: uris.size,
+                recordings: recordings.size,
+                merged: clusters.length,
+                clusters: clusters.slice(0, limit),
+            });
+        } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
+            incError("/api/debug/identities");
+            logger.error({ err: String(err), reqId: id }, "identity debug failed");
+            return sendError(reply, "Unknown", err?.message || "Unknown error", id);
+        }
+    }
+
+    static async getTasteProfile(request: QueryRequest, reply: FastifyReply) {
         const id = reqId();
         incRequest("/api/taste-profile");
         const timer = new Timer();
         reply.header("x-req-id", id);
 
-        const q = (request.query as any) || {};
+        const q = request.query ?? {};
         const profile = String(q.profile || CONFIG.defaultProfile);
         reply.header("x-snobify-profile", profile);
 
+        const parsed = TasteQuery.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid taste-profile query", id,
+                "skipWeight is between 0 (ignore skipped plays) and 1; scoring is default, strict-critic, generous, cohesion-first or explorer-first.",
+                parsed.error.issues);
+        }
+
         try {
             const rowsAll = await DataService.loadData(profile);
             timer.lap("read");
 
+            const { preset, scoring } = StatsService.scoringOf(profile, parsed.data.scoring);
             const tp = buildTasteProfile(Array.isArray(rowsAll) ? rowsAll : [], {
-                nichePopularityThreshold: 31,
+                ...scoring.taste,
                 playWeight: 0.7, uniqueWeight: 0.3,
-                recencyBoostMax: 0.10,
-                notYouDownweight: 0.5, userAliases: [],
-                playlistWeightCapPct: 35,
-                minRows: 300
+                skippedPlayWeight: parsed.data.skipWeight,
             });
 
             const dates = (Array.isArray(rowsAll) ? rowsAll : [])
-                .map((r: any) => new Date((r as any)?.["Played At"] || (r as any)?.["Added At"] || (r as any)?.["Release Date"] || ""))
-                .filter((d: any) => !isNaN(d.getTime()))
-                .sort((a: any, b: any) => a.getTime() - b.getTime());
+                .map(r => new Date(r["Played At"] || r["Added At"] || r["Release Date"] || ""))
+                .filter(d => !isNaN(d.getTime()))
+                .sort((a, b) => a.getTime() - b.getTime());
 
             reply.send({
                 profile, taste: tp, meta: {
                     rows: Array.isArray(rowsAll) ? rowsAll.length : 0,
+                    scoring: preset,
                     window: { start: dates.length ? dates[0].toISOString() : "", end: dates.length ? dates[dates.length - 1].toISOString() : "" }
                 }
             });
@@ -232,31 +481,36 @@ export class StatsController {
         }
     }
 
-    static async getPlaylistScores(request: FastifyRequest, reply: FastifyReply) {
+    static async getPlaylistScores(request: QueryRequest, reply: FastifyReply) {
         const id = reqId();
         incRequest("/api/playlist-scores");
         const timer = new Timer();
         reply.header("x-req-id", id);
 
-        try {
-            const q = (request.query as any) || {};
-            const profile = String(q.profile || CONFIG.defaultProfile);
-            reply.header("x-snobify-profile", profile);
+        const q = request.query ?? {};
+        const profile = String(q.profile || CONFIG.defaultProfile);
+        reply.header("x-snobify-profile", profile);
 
-            const dataPath = DataService.getDataPath(profile);
-            if (!dataPath) {
-                return sendError(reply, "DataNotFound", "No music data found", id);
-            }
+        const parsed = PlaylistScoresQuery.safeParse(q);
+        if (!parsed.success) {
+            return sendError(reply, "QueryInvalid", "Invalid playlist-scores query", id,
+                "scoring is default, strict-critic, generous, cohesion-first or explorer-first.", parsed.error.issues);
+        }
 
-            const by = await readPlaylistsAsMapLoose(dataPath.path);
-            const scores = [...by.entries()].map(([name, rows]) => scoreOnePlaylist(name, rows));
+        try {
+            const { preset, scoring } = StatsService.scoringOf(profile, parsed.data.scoring);
+            const by = groupByPlaylist(await DataService.loadData(profile));
+            const scores = [...by.entries()].map(([name, rows]) => scoreOnePlaylist(name, rows, scoring));
             scores.sort((a, b) => b.score - a.score);
 
-            const rare = rareEligibilityFromPlaylists(scores);
+            const rare = rareEligibilityFromPlaylists(scores, scoring.playlist);
 
             reply.header("server-timing", timer.total("playlist-scores"));
-            reply.send({ profile, rare, scores, meta: { playlists: scores.length } });
+            reply.send({ profile, rare, scores, meta: { playlists: scores.length, scoring: preset } });
         } catch (err: any) {
+            if (err.message === "DataNotFound") {
+                return sendError(reply, "DataNotFound", "No music data found", id);
+            }
             incError("/api/playlist-scores");
             logger?.error?.({ err: String(err), reqId: id }, "playlist-scores failed");
             return sendError(reply, "Unknown", err?.message || "Unknown error", id);
@@ -17,6 +17,10 @@ function httpCode(code: keyof typeof ERROR_CODE): number {
     case "DataNotFound":    return 404;
     case "CsvMissing":      return 400;
     case "CsvSchemaInvalid": return 422;
+    case "UploadModeInvalid": return 400;
+    case "QueryInvalid": return 400;
+    case "JobNotFound":     return 404;
+    case "JobNotRetryable": return 409;
     case "SpotifyNotConfigured": return 400;
     default: return 500;
   }
@@ -4,10 +4,14 @@ import multipart from "@fastify/multipart";
 import fs from "fs";
 import { pipeline } from "stream/promises";
 import path from "path";
-import { CONFIG, PROFILES_DIR, ROOT_DIR } from "./config/index.js";
+import { CONFIG, PROFILES_DIR } from "./config/index.js";
 import { metricsText } from "./observability/metrics.js";
 import { statsRoutes } from "./routes/statsRoutes.js";
 import { mlRoutes } from "./routes/mlRoutes.js";
+import { UPLOAD_MODES, UploadService } from "./services/uploadService.js";
+import { JobService } from "./services/jobService.js";
+import { jobRoutes } from "./routes/jobRoutes.js";
+import { sendError } from "./errors/respond.js";
 
 // ---------- crash guards ----------
 process.on("uncaughtException", (err) => {
@@ -53,39 +57,43 @@ app.get("/api/health", async (_req, reply) => {
 });
 
 // ── File upload endpoint ──
-// Accepts one or more CSV files via multipart form-data.
-// Query param: ?profile=<name> (defaults to "default")
+// Accepts playlist CSVs, Spotify extended streaming history JSON files
+// (Streaming_History_Audio_*.json) and .zip archives of either (the Spotify
+// privacy export, Exportify bulk zips) via multipart form-data.
+// Query params:
+//   ?profile=<name>                    (defaults to "default")
+//   ?mode=append|replace|merge         (defaults to "append")
 //
-// Single file  → saved as profiles/<profile>/history.csv
-// Multi files  → saved into  profiles/<profile>/history/<name>.csv
-//
-// Files are streamed directly to disk — no full-file buffering in memory.
+// Files are streamed straight into a new upload job's directory — no
+// full-file buffering in memory. Once the request body has arrived the reply
+// is 202 with the job; detection, placing files into profiles/<profile>/history/,
+// ingest and stats run in the background (services/uploadService.ts). Follow
+// along on GET /api/jobs/:id or the SSE stream at /api/jobs/:id/events; the
+// finished job's `result` lists what was added, replaced and ignored.
 app.post("/api/upload", async (req, reply) => {
   const q = (req.query as any) || {};
   const rawProfile = String(q.profile || CONFIG.defaultProfile).replace(/[^a-zA-Z0-9_-]/g, "");
   const profile = rawProfile || CONFIG.defaultProfile; // guard against all-special-char names becoming ""
-  const profileDir = path.join(PROFILES_DIR, profile);
-  fs.mkdirSync(profileDir, { recursive: true });
-
-  // First pass: collect filenames and stream each to a temp path so we know
-  // how many files arrived before deciding single-vs-multi layout.
-  const tmpDir = path.join(profileDir, ".upload_tmp");
-  fs.mkdirSync(tmpDir, { recursive: true });
+  const mode = String(q.mode || "append").toLowerCase();
+  if (!UploadService.isMode(mode)) {
+    return sendError(reply, "UploadModeInvalid", `Unknown upload mode "${mode}"`, "upload",
+      `Use one of: ${UPLOAD_MODES.join(", ")}.`);
+  }
 
-  const incoming: { name: string; tmpPath: string; size: number }[] = [];
+  const job = UploadService.createJob(profile, mode);
+  const jobDir = JobService.dir(job);
   const parts = req.parts();
 
-  // Use a numeric prefix on every temp file so collisions in sanitised names
+  // Use a numeric prefix on every staged file so collisions in sanitised names
   // never cause a second write to overwrite the first.
   let partIdx = 0;
   for await (const part of parts) {
     if (part.type !== "file") continue;
-    const name = (part.filename || "upload.csv").replace(/[^a-zA-Z0-9._-]/g, "_");
-    const tmpPath = path.join(tmpDir, `${partIdx++}_${name}`);   // always unique
+    const name = UploadService.safeName(part.filename || "upload.csv");
+    const tmpPath = path.join(jobDir, `${partIdx++}_${name}`);   // always unique
     try {
       await pipeline(part.file, fs.createWriteStream(tmpPath));
-      const size = fs.statSync(tmpPath).size;
-      incoming.push({ name, tmpPath, size });
+      UploadService.received(job, { name, tmpPath, size: fs.statSync(tmpPath).size });
     } catch (streamErr) {
       // Clean up partial file; continue with other files
       fs.rmSync(tmpPath, { force: true });
@@ -93,67 +101,20 @@ app.post("/api/upload", async (req, reply) => {
     }
   }
 
-  if (incoming.length === 0) {
-    fs.rmSync(tmpDir, { recursive: true, force: true });
-    return reply.status(400).send({
-      error: { code: "SNB-1003", message: "No files uploaded", reqId: "upload", hint: "Attach at least one .csv file." }
-    });
+  if (job.checkpoint.staged.length === 0) {
+    JobService.discard(job);
+    return sendError(reply, "CsvMissing", "No files uploaded", "upload",
+      "Attach at least one playlist .csv (with a 'Track URI' column), Streaming_History_Audio_*.json file, or a .zip of them.");
   }
 
-  const saved: { filename: string; size: number; path: string }[] = [];
-
-  if (incoming.length === 1) {
-    // Single file → profiles/<profile>/history.csv
-    const dest = path.join(profileDir, "history.csv");
-    fs.renameSync(incoming[0].tmpPath, dest);
-    saved.push({ filename: "history.csv", size: incoming[0].size, path: path.relative(ROOT_DIR, dest) });
-  } else {
-    // Multiple files → profiles/<profile>/history/<name>.csv
-    const histDir = path.join(profileDir, "history");
-    // Clear previous uploads in this directory
-    if (fs.existsSync(histDir)) {
-      for (const f of fs.readdirSync(histDir)) {
-        if (f.toLowerCase().endsWith(".csv")) fs.unlinkSync(path.join(histDir, f));
-      }
-    }
-    fs.mkdirSync(histDir, { recursive: true });
-    const usedDestNames = new Set<string>();
-    for (const file of incoming) {
-      // Deduplicate destination names (two playlists can share a sanitised name)
-      let destName = file.name;
-      if (usedDestNames.has(destName)) {
-        const ext = path.extname(destName);
-        const base = destName.slice(0, destName.length - ext.length);
-        let n = 1;
-        while (usedDestNames.has(`${base}_${n}${ext}`)) n++;
-        destName = `${base}_${n}${ext}`;
-      }
-      usedDestNames.add(destName);
-      const dest = path.join(histDir, destName);
-      fs.renameSync(file.tmpPath, dest);
-      saved.push({ filename: destName, size: file.size, path: path.relative(ROOT_DIR, dest) });
-    }
-    // Remove single-file history.csv so DataService picks the directory
-    const singlePath = path.join(profileDir, "history.csv");
-    if (fs.existsSync(singlePath)) fs.unlinkSync(singlePath);
-  }
-
-  // Clean up temp directory
-  fs.rmSync(tmpDir, { recursive: true, force: true });
-
-  const totalBytes = saved.reduce((s, f) => s + f.size, 0);
-  console.log(`[upload] profile=${profile}, files=${saved.length}, totalBytes=${totalBytes}`);
-
-  reply.send({
-    profile,
-    uploaded: saved.length,
-    files: saved,
-  });
+  UploadService.submit(job);
+  reply.status(202).send({ job: JobService.publicJob(job) });
 });
 
 // Register routes
 await app.register(statsRoutes);
 await app.register(mlRoutes);
+await app.register(jobRoutes);
 
 const PORT = Number(process.env.PORT || 8899);
 try {
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { isUsableMapping, resolveColumns, type ColumnMap } from "./columnAliases.js";
+
+const fields = (headers: string[], saved?: ColumnMap) => resolveColumns(headers, saved).map(m => m.field);
+
+describe("resolveColumns", () => {
+  it.each([
+    ["Exportify", ["Track URI", "Track Name", "Artist Name(s)", "Added At"], ["Track URI", "Track Name", "Artist Name(s)", "Added At"]],
+    ["TuneMyMusic", ["Track name", "Artist name", "Album", "Playlist name", "Spotify - id"], ["Track Name", "Artist Name(s)", "Album Name", null, "Track URI"]],
+    ["Soundiiz", ["Title", "Artist", "Album", "ISRC"], ["Track Name", "Artist Name(s)", "Album Name", "ISRC"]],
+    ["Apple Music", ["Name", "Artist", "Date Added", "Total Time", "Genre"], ["Track Name", "Artist Name(s)", "Added At", "Duration (ms)", "Genres"]],
+    ["case and punctuation", ["track_uri", "ARTIST NAMES", "duration-ms"], ["Track URI", "Artist Name(s)", "Duration (ms)"]],
+    ["unknown headers", ["Mood", "", "Notes"], [null, null, null]],
+  ])("%s", (_, headers, expected) => {
+    expect(fields(headers)).toEqual(expected);
+  });
+
+  it("lets the first header claiming a field win", () => {
+    expect(fields(["Title", "Track Name", "Song"])).toEqual(["Track Name", null, null]);
+  });
+
+  it.each([
+    ["maps a header the aliases don't know", ["Titel", "Künstler"], { Titel: "Track Name", Künstler: "Artist Name(s)" }, ["Track Name", "Artist Name(s)"]],
+    ["overrides an alias", ["Album", "Date"], { Date: "Added At" }, ["Album Name", "Added At"]],
+    ["ignores a column mapped to null", ["Track", "Artist"], { Artist: null }, ["Track Name", null]],
+  ])("saved mapping %s", (_, headers, saved, expected) => {
+    expect(fields(headers, saved as ColumnMap)).toEqual(expected);
+  });
+
+  it("keeps the source header next to each field", () => {
+    expect(resolveColumns(["Song", "Mood"])).toEqual([{ source: "Song", field: "Track Name" }, { source: "Mood", field: null }]);
+  });
+});
+
+describe("isUsableMapping", () => {
+  it.each([
+    [["Track URI"], true],
+    [["Title", "Artist"], true],
+    [["Title", "Album"], false],
+    [["Artist", "Genre"], false],
+    [[], false],
+  ])("%j → %s", (headers, expected) => {
+    expect(isUsableMapping(resolveColumns(headers))).toBe(expected);
+  });
+});
@@ -0,0 +1,110 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { CONFIG, PROFILES_DIR } from "../config/index.js";
+import { RowSchema } from "./readCsv.js";
+import type { ColumnMapping } from "./types.js";
+
+/**
+ * Header alias layer: maps the column names used by different exporters onto
+ * the canonical RowSchema fields, so one CSV reader handles all of them.
+ *
+ * Resolution order for each source header:
+ *   1. the profile's saved mapping (profiles/<name>/column-map.json, set from the setup UI)
+ *   2. an exact canonical field name
+ *   3. CONFIG.ingest.headerAliases, then DEFAULT_ALIASES
+ * Matching is case/punctuation-insensitive ("Artist Name(s)" ≈ "artist_names").
+ */
+
+export type CanonicalField = keyof typeof RowSchema.shape;
+
+/** A profile's saved choices: source header → canonical field, or null to ignore the column. */
+export type ColumnMap = Record<string, CanonicalField | null>;
+
+const COLUMN_MAP_FILE = "column-map.json";
+
+// readCsv imports this module too, so RowSchema is only touched lazily.
+export const canonicalFields = () => Object.keys(RowSchema.shape) as CanonicalField[];
+
+export const DEFAULT_ALIASES: Partial<Record<CanonicalField, string[]>> = {
+  // Exportify uses the canonical names; the rest are
+  // TuneMyMusic ("Track name", "Artist name", "Album", "Playlist name", "Spotify - id"),
+  // Soundiiz ("Title", "Artist", "Album", "ISRC"),
+  // Last.fm scrobble exports ("track", "artist", "album", "utc_time"),
+  // Apple Music library CSV ("Name", "Artist", "Album", "Date Added", "Total Time", "Genre").
+  "Track URI":      ["Spotify URI", "Spotify - id", "Spotify ID", "Spotify Track URI", "URI"],
+  "Track Name":     ["Track", "Track name", "Title", "Name", "Song", "Song Name"],
+  "Artist Name(s)": ["Artist", "Artists", "Artist name", "Artist Names", "Album Artist"],
+  "Album Name":     ["Album", "Album name", "Album Title"],
+  "Release Date":   ["Release date", "Year", "Album Release Date"],
+  "Duration (ms)":  ["Duration", "Duration ms", "Length (ms)", "Total Time"],
+  "Popularity":     ["Track Popularity"],
+  "Added At":       ["Date Added", "Added", "Added Date", "Creation date"],
+  "Genres":         ["Genre", "Artist Genres"],
+  "Record Label":   ["Label"],
+  "Played At":      ["Played", "utc_time", "Date", "Scrobble Time", "Timestamp"],
+  "Ms Played":      ["ms_played", "Play Time (ms)"],
+  "ISRC":           ["Track ISRC", "isrc code"],
+  "Track MBID":     ["track_mbid", "MBID", "Recording MBID"],
+  "Artist MBID":    ["artist_mbid"],
+  "Album MBID":     ["album_mbid", "Release MBID"],
+};
+
+const norm = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+let aliasIndex: Map<string, CanonicalField> | null = null;
+
+function aliases(): Map<string, CanonicalField> {
+  if (aliasIndex) return aliasIndex;
+  const index = new Map<string, CanonicalField>();
+  const add = (alias: string, field: CanonicalField) => { if (!index.has(norm(alias))) index.set(norm(alias), field); };
+  const fields = canonicalFields();
+  for (const f of fields) add(f, f);
+  for (const table of [CONFIG.ingest.headerAliases, DEFAULT_ALIASES] as Partial<Record<string, string[]>>[]) {
+    for (const [field, list] of Object.entries(table)) {
+      if (!fields.includes(field as CanonicalField)) continue;
+      for (const a of list ?? []) add(a, field as CanonicalField);
+    }
+  }
+  return (aliasIndex = index);
+}
+
+/** Resolve each header to a canonical field; the first header claiming a field wins. */
+export function resolveColumns(headers: string[], saved: ColumnMap = {}): ColumnMapping[] {
+  const taken = new Set<string>();
+  return headers.map(source => {
+    const field = source in saved ? saved[source] : aliases().get(norm(source)) ?? null;
+    if (!field || taken.has(field)) return { source, field: null };
+    taken.add(field);
+    return { source, field };
+  });
+}
+
+/** Enough to identify a track: a URI, or a title plus an artist for a synthetic ID. */
+export function isUsableMapping(mapping: ColumnMapping[]): boolean {
+  const fields = new Set(mapping.map(m => m.field));
+  return fields.has("Track URI") || (fields.has("Track Name") && fields.has("Artist Name(s)"));
+}
+
+export function loadColumnMap(profile: string): ColumnMap {
+  const file = path.join(PROFILES_DIR, profile, COLUMN_MAP_FILE);
+  if (!fs.existsSync(file)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err: any) {
+    console.warn(`[columnAliases] ${file}: unreadable, ignoring — ${err?.message || err}`);
+    return {};
+  }
+}
+
+export function saveColumnMap(profile: string, map: ColumnMap): void {
+  const dir = path.join(PROFILES_DIR, profile);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, COLUMN_MAP_FILE), JSON.stringify(map, null, 2));
+}
+
+/** Stable digest of a saved mapping, so the track store can tell when it changed. */
+export function columnMapHash(map: ColumnMap): string {
+  const sorted = Object.keys(map).sort().map(k => [k, map[k]]);
+  return crypto.createHash("sha1").update(JSON.stringify(sorted)).digest("hex").slice(0, 12);
+}
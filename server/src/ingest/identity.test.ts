@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { resolveRecordings } from "./identity.js";
+
+type Row = Parameters<typeof resolveRecordings>[0][number];
+
+const row = (uri: string, title: string, artist: string, extra: Partial<Row> = {}): Row =>
+  ({ "Track URI": uri, "Track Name": title, "Artist Name(s)": artist, ...extra });
+
+/** The recordings `rows` resolve to, as sorted groups of URIs (singletons included). */
+function groups(rows: Row[]): string[][] {
+  const { recordingOf } = resolveRecordings(rows);
+  const by = new Map<string, string[]>();
+  for (const uri of new Set(rows.map(r => r["Track URI"]))) {
+    const id = recordingOf(uri);
+    (by.get(id) ?? by.set(id, []).get(id)!).push(uri);
+  }
+  return [...by.values()].map(g => g.sort()).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+describe("resolveRecordings", () => {
+  it.each<[string, Row[], string[][]]>([
+    ["same ISRC, whatever the title", [
+      row("spotify:track:single", "Hey Ya!", "OutKast", { "ISRC": "USAR10300924" }),
+      row("spotify:track:album", "Hey Ya! - Radio Mix / Club Mix", "Outkast", { "ISRC": " usar10300924 " }),
+    ], [["spotify:track:album", "spotify:track:single"]]],
+    ["different ISRCs with the same title are kept apart by duration", [
+      row("spotify:track:studio", "Creep", "Radiohead", { "ISRC": "GBAYE9200070", "Duration (ms)": 238640 }),
+      row("spotify:track:acoustic", "Creep", "Radiohead", { "ISRC": "GBAYE9300001", "Duration (ms)": 262000 }),
+    ], [["spotify:track:acoustic"], ["spotify:track:studio"]]],
+    ["same MusicBrainz recording", [
+      row("snobify:track:a", "Windowlicker", "Aphex Twin", { "Track MBID": "b1c2" }),
+      row("snobify:track:b", "Windowlicker (Edit)", "Aphex Twin", { "Track MBID": "b1c2" }),
+    ], [["snobify:track:a", "snobify:track:b"]]],
+    ["title and primary artist within 5 seconds", [
+      row("spotify:track:a", "Heroes - 2017 Remaster", "David Bowie", { "Duration (ms)": 371000 }),
+      row("spotify:track:b", "Heroes", "David Bowie", { "Duration (ms)": 374500 }),
+    ], [["spotify:track:a", "spotify:track:b"]]],
+    ["title and artist, but a different cut", [
+      row("spotify:track:single", "Heroes", "David Bowie", { "Duration (ms)": 214000 }),
+      row("spotify:track:album", "Heroes", "David Bowie", { "Duration (ms)": 371000 }),
+    ], [["spotify:track:album"], ["spotify:track:single"]]],
+    ["long tracks get 3% instead of 5 seconds", [
+      row("spotify:track:a", "Echoes", "Pink Floyd", { "Duration (ms)": 1410000 }),
+      row("spotify:track:b", "Echoes", "Pink Floyd", { "Duration (ms)": 1450000 }),
+    ], [["spotify:track:a", "spotify:track:b"]]],
+    ["featured credits don't split a recording", [
+      row("spotify:track:a", "Get Lucky", "Daft Punk, Pharrell Williams, Nile Rodgers"),
+      row("snobify:track:b", "Get Lucky (feat. Pharrell Williams)", "Daft Punk"),
+    ], [["snobify:track:b", "spotify:track:a"]]],
+    ["same title by different artists", [
+      row("spotify:track:a", "Hurt", "Nine Inch Nails"),
+      row("spotify:track:b", "Hurt", "Johnny Cash"),
+    ], [["spotify:track:a"], ["spotify:track:b"]]],
+  ])("%s", (_, rows, expected) => {
+    expect(groups(rows)).toEqual(expected);
+  });
+
+  it("puts rows without a duration in the group's biggest cluster", () => {
+    const rows = [
+      row("spotify:track:radio", "Heroes", "David Bowie", { "Duration (ms)": 214000 }),
+      row("spotify:track:album", "Heroes", "David Bowie", { "Duration (ms)": 371000 }),
+      row("spotify:track:album", "Heroes", "David Bowie"),
+      row("spotify:track:remaster", "Heroes", "David Bowie", { "Duration (ms)": 372000 }),
+      row("snobify:track:scrobble", "Heroes", "David Bowie"),
+    ];
+    expect(groups(rows)).toEqual([
+      ["snobify:track:scrobble", "spotify:track:album", "spotify:track:remaster"],
+      ["spotify:track:radio"],
+    ]);
+  });
+
+  it("names a cluster after its most-seen Spotify URI and says how it matched", () => {
+    const { recordingOf, clusters } = resolveRecordings([
+      row("snobify:track:x", "Song", "Band", { "ISRC": "QZ0000000001" }),
+      row("snobify:track:x", "Song", "Band"),
+      row("snobify:track:x", "Song", "Band"),
+      row("spotify:track:b", "Song", "Band", { "ISRC": "QZ0000000001" }),
+      row("spotify:track:a", "Song", "Band"),
+      row("spotify:track:a", "Song", "Band"),
+    ]);
+    expect(recordingOf("snobify:track:x")).toBe("spotify:track:a");
+    expect(clusters).toEqual([expect.objectContaining({
+      id: "spotify:track:a", rows: 6, matchedBy: expect.arrayContaining(["isrc", "title"]),
+    })]);
+  });
+
+  it("maps unclustered and unknown URIs to themselves", () => {
+    const { recordingOf, clusters } = resolveRecordings([row("spotify:track:a", "Song", "Band")]);
+    expect(clusters).toEqual([]);
+    expect(recordingOf("spotify:track:a")).toBe("spotify:track:a");
+    expect(recordingOf("spotify:track:nope")).toBe("spotify:track:nope");
+  });
+});
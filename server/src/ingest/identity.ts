@@ -0,0 +1,223 @@
+import { normText, syntheticTrackUri } from "./normalize.js";
+import { primaryArtist } from "../compute/artistCredits.js";
+import type { IngestRow } from "./types.js";
+
+/**
+ * Links rows that only have a synthetic `snobify:track:` ID (Last.fm scrobbles,
+ * CSVs without URIs) to Spotify rows for the same song, matched on normalised
+ * primary artist + title.
+ *
+ * A linked row takes the Spotify URI and borrows catalog data it lacks
+ * (genres, popularity, audio features…), so a 2009 scrobble counts toward the
+ * same track as a 2023 Spotify play. Linked scrobbles that sit within a few
+ * minutes of a Spotify streaming-history play of that track are the same
+ * listen reported twice (Spotify scrobbles to Last.fm) and are dropped.
+ */
+
+const SYNTHETIC_PREFIX = "snobify:track:";
+const SAME_LISTEN_WINDOW_MS = 10 * 60 * 1000;
+
+// Catalog fields a linked row may borrow when its own value is empty/zero
+const CATALOG_FIELDS = [
+  "Album Name", "Release Date", "Duration (ms)", "Popularity", "Genres", "Record Label",
+  "Danceability", "Energy", "Key", "Loudness", "Mode", "Speechiness", "Acousticness",
+  "Instrumentalness", "Liveness", "Valence", "Tempo", "Time Signature",
+] as const;
+
+export const isSyntheticUri = (uri: string) => uri.startsWith(SYNTHETIC_PREFIX);
+
+/** Is this row a real listen (vs a playlist/library entry)? */
+const isStreamingPlay = (r: IngestRow) => r._src.adapter === "spotify-extended-history" && !!r["Played At"];
+
+function richness(r: IngestRow): number {
+  return (r["Genres"] ? 2 : 0) + (r["Popularity"] ? 1 : 0) + (r["Release Date"] ? 1 : 0);
+}
+
+export function linkIdentities(rows: IngestRow[]): IngestRow[] {
+  // synthetic key → best Spotify row for that song
+  const spotifyBySynthetic = new Map<string, IngestRow>();
+  // Spotify URI → sorted streaming-history play times
+  const playTimes = new Map<string, number[]>();
+  for (const r of rows) {
+    const uri = r["Track URI"];
+    if (isSyntheticUri(uri)) continue;
+    const key = syntheticTrackUri(r["Artist Name(s)"], r["Track Name"]);
+    if (key) {
+      const prev = spotifyBySynthetic.get(key);
+      if (!prev || richness(r) > richness(prev)) spotifyBySynthetic.set(key, r);
+    }
+    if (isStreamingPlay(r)) {
+      const t = Date.parse(r["Played At"]!);
+      if (!isNaN(t)) (playTimes.get(uri) ?? playTimes.set(uri, []).get(uri)!).push(t);
+    }
+  }
+  if (spotifyBySynthetic.size === 0) return rows;
+  for (const ts of playTimes.values()) ts.sort((a, b) => a - b);
+
+  const out: IngestRow[] = [];
+  for (const r of rows) {
+    const match = isSyntheticUri(r["Track URI"]) ? spotifyBySynthetic.get(r["Track URI"]) : undefined;
+    if (!match) { out.push(r); continue; }
+
+    const uri = match["Track URI"];
+    const t = r["Played At"] ? Date.parse(r["Played At"]) : NaN;
+    if (!isNaN(t) && nearest(playTimes.get(uri), t) <= SAME_LISTEN_WINDOW_MS) continue;
+
+    const linked: IngestRow = { ...r, "Track URI": uri };
+    for (const f of CATALOG_FIELDS) {
+      if (!linked[f] && match[f]) (linked as Record<string, unknown>)[f] = match[f];
+    }
+    out.push(linked);
+  }
+  return out;
+}
+
+/** Distance from `t` to the closest value in sorted `ts`. */
+function nearest(ts: number[] | undefined, t: number): number {
+  if (!ts?.length) return Infinity;
+  let lo = 0, hi = ts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (ts[mid] < t) lo = mid + 1; else hi = mid;
+  }
+  return Math.min(Math.abs(ts[lo] - t), lo > 0 ? Math.abs(ts[lo - 1] - t) : Infinity);
+}
+
+// ── Canonical recordings ──────────────────────────────────────────────────────
+//
+// One song reaches us under many URIs: the single, the album cut, the deluxe
+// edition, a compilation. resolveRecordings clusters URIs into recordings:
+//   1. same ISRC (or MusicBrainz recording ID) → same recording
+//   2. otherwise same normalised title + primary artist, with durations within
+//      tolerance; rows without a duration join the group's largest cluster.
+
+const DURATION_TOLERANCE_MS = 5000;
+const DURATION_TOLERANCE_PCT = 0.03;
+
+type IdentityRow = {
+  "Track URI": string;
+  "Track Name"?: string;
+  "Artist Name(s)"?: string;
+  "Duration (ms)"?: number;
+  "ISRC"?: string;
+  "Track MBID"?: string;
+};
+
+export type RecordingCluster = {
+  id: string;               // canonical URI — a Spotify URI when the cluster has one
+  title: string;
+  artist: string;
+  uris: string[];
+  rows: number;
+  matchedBy: ("isrc" | "mbid" | "title")[];
+};
+
+export type RecordingIndex = {
+  /** Canonical recording id for a URI (the URI itself when it's unclustered). */
+  recordingOf: (uri: string) => string;
+  clusters: RecordingCluster[];
+};
+
+type TrackInfo = { uri: string; title: string; artist: string; duration: number; isrc: string; mbid: string; rows: number };
+
+export function resolveRecordings(rows: IdentityRow[]): RecordingIndex {
+  const tracks = new Map<string, TrackInfo>();
+  for (const r of rows) {
+    const uri = r["Track URI"];
+    if (!uri) continue;
+    const t = tracks.get(uri);
+    if (!t) {
+      tracks.set(uri, {
+        uri, title: r["Track Name"] ?? "", artist: r["Artist Name(s)"] ?? "",
+        duration: Number(r["Duration (ms)"]) || 0,
+        isrc: (r["ISRC"] ?? "").trim().toUpperCase(), mbid: (r["Track MBID"] ?? "").trim(), rows: 1,
+      });
+      continue;
+    }
+    t.rows++;
+    t.duration ||= Number(r["Duration (ms)"]) || 0;
+    t.isrc ||= (r["ISRC"] ?? "").trim().toUpperCase();
+    t.mbid ||= (r["Track MBID"] ?? "").trim();
+  }
+
+  // Union-find over URIs
+  const parent = new Map<string, string>();
+  const find = (u: string): string => {
+    let root = u;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    while (parent.get(u) !== root) { const next = parent.get(u)!; parent.set(u, root); u = next; }
+    return root;
+  };
+  const how = new Map<string, Set<RecordingCluster["matchedBy"][number]>>();
+  const union = (a: string, b: string, by: RecordingCluster["matchedBy"][number]) => {
+    const ra = find(a), rb = find(b);
+    const reasons = new Set([...(how.get(ra) ?? []), ...(how.get(rb) ?? []), by]);
+    if (ra !== rb) parent.set(rb, ra);
+    how.set(ra, reasons);
+  };
+  for (const uri of tracks.keys()) parent.set(uri, uri);
+
+  const byId = (key: "isrc" | "mbid") => {
+    const first = new Map<string, string>();
+    for (const t of tracks.values()) {
+      if (!t[key]) continue;
+      const seen = first.get(t[key]);
+      if (seen) union(seen, t.uri, key); else first.set(t[key], t.uri);
+    }
+  };
+  byId("isrc");
+  byId("mbid");
+
+  const groups = new Map<string, TrackInfo[]>();
+  for (const t of tracks.values()) {
+    const title = normText(t.title), artist = normText(primaryArtist(t.artist));
+    if (!title || !artist) continue;
+    const key = `${artist}|${title}`;
+    (groups.get(key) ?? groups.set(key, []).get(key)!).push(t);
+  }
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const timed = members.filter(t => t.duration > 0).sort((a, b) => a.duration - b.duration);
+    const untimed = members.filter(t => t.duration === 0);
+
+    // Chain durations into clusters; track the biggest for the untimed rows
+    let biggest: { head: string; rows: number } | null = null;
+    let head: string | null = null, headDuration = 0, clusterRows = 0;
+    for (const t of timed) {
+      const tol = Math.max(DURATION_TOLERANCE_MS, headDuration * DURATION_TOLERANCE_PCT);
+      if (head && t.duration - headDuration <= tol) {
+        union(head, t.uri, "title");
+        clusterRows += t.rows;
+      } else {
+        head = t.uri; headDuration = t.duration; clusterRows = t.rows;
+      }
+      if (!biggest || clusterRows > biggest.rows) biggest = { head: head!, rows: clusterRows };
+    }
+    const anchor = biggest?.head ?? untimed[0].uri;
+    for (const t of untimed) if (t.uri !== anchor) union(anchor, t.uri, "title");
+  }
+
+  // Collect clusters; the canonical id prefers a real Spotify URI, then the most-seen one
+  const members = new Map<string, TrackInfo[]>();
+  for (const t of tracks.values()) {
+    const root = find(t.uri);
+    (members.get(root) ?? members.set(root, []).get(root)!).push(t);
+  }
+  const canonical = new Map<string, string>();
+  const clusters: RecordingCluster[] = [];
+  for (const [root, ts] of members) {
+    const best = [...ts].sort((a, b) =>
+      Number(isSyntheticUri(a.uri)) - Number(isSyntheticUri(b.uri)) || b.rows - a.rows || a.uri.localeCompare(b.uri))[0];
+    for (const t of ts) canonical.set(t.uri, best.uri);
+    if (ts.length > 1) {
+      clusters.push({
+        id: best.uri, title: best.title, artist: best.artist,
+        uris: ts.map(t => t.uri), rows: ts.reduce((s, t) => s + t.rows, 0),
+        matchedBy: [...(how.get(root) ?? [])],
+      });
+    }
+  }
+  clusters.sort((a, b) => b.uris.length - a.uris.length || b.rows - a.rows);
+
+  return { recordingOf: uri => canonical.get(uri) ?? uri, clusters };
+}
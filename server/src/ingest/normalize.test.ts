@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { normText, normalizeTrackUri, syntheticTrackUri } from "./normalize.js";
+
+describe("normText", () => {
+  it.each([
+    ["Café del Mar (Remastered 2011)", "cafe del mar"],
+    ["Creep - Live", "creep"],
+    ["Blinding Lights (feat. Rosalía)", "blinding lights"],
+    ["Song 2 - 2012 Remaster", "song 2"],
+    ["Beyoncé & JAY-Z", "beyonce and jay z"],
+    ["  Mötley   Crüe!! ", "motley crue"],
+    ["Кино — Группа крови", "кино группа крови"],
+    ["Ελένη Καραΐνδρου", "ελενη καραινδρου"],
+    ["宇多田ヒカル「First Love」", "宇多田ヒカル first love"],
+    ["فيروز", "فيروز"],
+    ["אריק איינשטיין", "אריק איינשטיין"],
+    ["!!!", ""],
+  ])("%s → %s", (input, expected) => {
+    expect(normText(input)).toBe(expected.normalize("NFKD"));
+  });
+});
+
+describe("syntheticTrackUri", () => {
+  const id = (artists: string, title: string) => syntheticTrackUri(artists, title);
+
+  it.each([
+    ["credits", ["Daft Punk", "One More Time"], ["Daft Punk, Romanthony", "One More Time"]],
+    ["version suffixes", ["Radiohead", "Creep"], ["Radiohead", "Creep - Live"]],
+    ["case and accents", ["Sigur Rós", "Hoppípolla"], ["SIGUR ROS", "hoppipolla"]],
+    ["non-Latin punctuation", ["Кино", "Группа крови"], ["Кино", "Группа крови!"]],
+  ])("collapses %s", (_, a, b) => {
+    expect(id(a[0], a[1])).toMatch(/^snobify:track:[0-9a-f]{22}$/);
+    expect(id(a[0], a[1])).toBe(id(b[0], b[1]));
+  });
+
+  it.each([
+    ["坂本龍一", "Merry Christmas Mr. Lawrence"],
+    ["Кино", "Кукушка"],
+    ["فيروز", "نسم علينا الهوى"],
+  ])("builds an ID from a non-Latin %s", (artist, title) => {
+    expect(id(artist, title)).not.toBeNull();
+  });
+
+  it("tells different songs apart", () => {
+    expect(id("Кино", "Кукушка")).not.toBe(id("Кино", "Группа крови"));
+    expect(id("坂本龍一", "Energy Flow")).not.toBe(id("宇多田ヒカル", "Energy Flow"));
+  });
+
+  it.each([
+    ["", "Song"],
+    ["Artist", ""],
+    ["!!!", "???"],
+  ])("is null without an artist and a title (%j, %j)", (artist, title) => {
+    expect(id(artist, title)).toBeNull();
+  });
+});
+
+describe("normalizeTrackUri", () => {
+  it.each([
+    ["spotify:track:4uLU6hMCjMI75M1A2tKUQC", "spotify:track:4uLU6hMCjMI75M1A2tKUQC"],
+    ["4uLU6hMCjMI75M1A2tKUQC", "spotify:track:4uLU6hMCjMI75M1A2tKUQC"],
+    ["https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC?si=abc", "spotify:track:4uLU6hMCjMI75M1A2tKUQC"],
+    ["https://open.spotify.com/intl-de/track/4uLU6hMCjMI75M1A2tKUQC", "spotify:track:4uLU6hMCjMI75M1A2tKUQC"],
+    [" snobify:track:abc ", "snobify:track:abc"],
+  ])("%s", (input, expected) => {
+    expect(normalizeTrackUri(input)).toBe(expected);
+  });
+});
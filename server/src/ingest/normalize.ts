@@ -0,0 +1,47 @@
+import crypto from "crypto";
+import { primaryArtist } from "../compute/artistCredits.js";
+
+/**
+ * Text normalisation for matching tracks across sources that don't share IDs.
+ *
+ *   normText("Café del Mar (Remastered 2011)")  → "cafe del mar"
+ *   normText("Creep - Live")                     → "creep"
+ *   normText("Кино — Группа крови")              → "кино группа крови"
+ *
+ * Artist matching uses the primary artist from compute/artistCredits.ts.
+ */
+
+// Version/credit suffixes that don't change which song it is
+const VERSION_WORDS = "remaster(?:ed)?|radio edit|single version|album version|mono|stereo|live|deluxe(?: edition)?|bonus track|explicit|clean";
+const SUFFIX_RE = new RegExp(`\\s*[([][^)\\]]*\\b(?:feat|ft|with|${VERSION_WORDS})\\b[^)\\]]*[)\\]]`, "gi");
+const DASH_SUFFIX_RE = new RegExp(`\\s+-\\s+(?:\\d{4}\\s+)?(?:${VERSION_WORDS})\\b.*$`, "i");
+
+export function normText(s: string): string {
+  return (s || "")
+    .normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .replace(SUFFIX_RE, "")
+    .replace(DASH_SUFFIX_RE, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    // Fold punctuation only: letters in any script stay, and so do the marks
+    // Indic and kana spellings need (Latin accents are already gone above)
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Stable ID for rows without a Spotify URI, so the same song from two exports collapses. */
+export function syntheticTrackUri(artists: string, title: string): string | null {
+  const a = normText(primaryArtist(artists));
+  const t = normText(title);
+  if (!a || !t) return null;
+  return "snobify:track:" + crypto.createHash("sha1").update(`${a}|${t}`).digest("hex").slice(0, 22);
+}
+
+/** Accept bare IDs and open.spotify.com links as well as spotify:track: URIs. */
+export function normalizeTrackUri(value: string): string {
+  const v = (value || "").trim();
+  const link = v.match(/open\.spotify\.com\/(?:intl-[a-z]+\/)?track\/([A-Za-z0-9]{22})/);
+  if (link) return `spotify:track:${link[1]}`;
+  if (/^[A-Za-z0-9]{22}$/.test(v)) return `spotify:track:${v}`;
+  return v;
+}
@@ -1,7 +1,15 @@
 import fs from "fs";
-import path from "path";
 import { parse } from "csv-parse";
+import { parse as parseSync } from "csv-parse/sync";
 import { z } from "zod";
+import { resolveColumns, type ColumnMap } from "./columnAliases.js";
+import { normalizeTrackUri, syntheticTrackUri } from "./normalize.js";
+import type { ColumnMapping, RowReporter } from "./types.js";
+
+// CSV cells arrive as "true"/"false" strings, JSON exports carry real booleans.
+const boolish = z.union([z.boolean(), z.string().transform(s => s.trim().toLowerCase() === "true")]).optional();
+// A blank cell means the source didn't say, not zero.
+const optionalNumber = z.preprocess(v => (typeof v === "string" && v.trim() === "" ? undefined : v), z.coerce.number().optional());
 
 const RowSchema = z.object({
   "Track URI": z.string().min(1),
@@ -28,88 +36,97 @@ const RowSchema = z.object({
   "Valence": z.coerce.number().optional().default(0),
   "Tempo": z.coerce.number().optional().default(0),
   "Time Signature": z.string().optional(),
-  "Played At": z.string().optional()
+  "Played At": z.string().optional(),
+  // Play-event fields — only present for sources with real listening history
+  // (e.g. Spotify extended streaming history), absent for playlist exports.
+  "Ms Played": optionalNumber,
+  "Skipped": boolish,
+  "Shuffle": boolish,
+  "Reason Start": z.string().optional(),
+  "Reason End": z.string().optional(),
+  "Platform": z.string().optional(),
+  // Recording identity — ISRC from playlist exports that carry it (Exportify, Soundiiz),
+  // MusicBrainz IDs from Last.fm scrobbles
+  "ISRC": z.string().optional(),
+  "Track MBID": z.string().optional(),
+  "Artist MBID": z.string().optional(),
+  "Album MBID": z.string().optional()
 });
 export type TrackRow = z.infer<typeof RowSchema>;
 
-const readCsv = async (file: string): Promise<TrackRow[]> => {
-  if (!fs.existsSync(file)) throw new Error("CSV not found at " + file);
-  const out: TrackRow[] = [];
-  let skipped = 0;
-  let hasTrackUriColumn = false;
-
-  return new Promise((resolve, reject) => {
-    const stream = fs.createReadStream(file);
-    const parser = parse({ columns: true, skip_empty_lines: true, relax_column_count: true });
+/** Truncate source text for reject samples. */
+const clip = (s: string, n = 200) => (s.length > n ? s.slice(0, n) + "…" : s).trim();
 
-    stream.on("error", (err) => reject(new Error("Failed to read file: " + err.message)));
-    parser.on("error", (err) => {
-      // Non-fatal parse errors: log and resolve with what we have
-      console.warn(`[readCsv] Parse warning in ${file}: ${err.message} (${out.length} rows kept, ${skipped} skipped)`);
-      resolve(out);
-    });
-
-    parser.on("readable", () => {
-      let rec: any;
-      while ((rec = parser.read()) !== null) {
-        // Detect Track URI column on first record
-        if (!hasTrackUriColumn && typeof rec === "object" && rec !== null) {
-          hasTrackUriColumn = "Track URI" in rec;
-          if (!hasTrackUriColumn) {
-            // Fatal: wrong CSV format — reject immediately
-            parser.destroy();
-            stream.destroy();
-            reject(new Error("CSV missing required column: 'Track URI'"));
-            return;
-          }
-        }
-        // Skip rows with empty Track URI
-        if (!rec["Track URI"] || String(rec["Track URI"]).trim() === "") {
-          skipped++;
-          continue;
-        }
-        try {
-          const obj = RowSchema.parse(rec);
-          out.push(obj);
-        } catch {
-          // Skip malformed rows silently
-          skipped++;
-        }
-      }
-    });
+/** First date field that is set but doesn't parse, if any. */
+function badDateField(row: TrackRow): "Played At" | "Added At" | null {
+  for (const f of ["Played At", "Added At"] as const) {
+    const v = row[f];
+    if (v && isNaN(Date.parse(v))) return f;
+  }
+  return null;
+}
 
-    parser.on("end", () => {
-      if (skipped > 0) {
-        console.warn(`[readCsv] ${file}: ${out.length} valid rows, ${skipped} skipped`);
-      }
-      resolve(out);
-    });
+/** Header row of a CSV from the first few KB of it. */
+function csvHeaders(head: string): string[] {
+  const firstLine = head.split(/\r?\n/).find(l => l.trim().length > 0) ?? "";
+  try {
+    return (parseSync(firstLine, { bom: true, relax_column_count: true, relax_quotes: true }) as string[][])[0] ?? [];
+  } catch {
+    return [];
+  }
+}
 
-    stream.pipe(parser);
-  });
-};
+/** Re-key a parsed record by canonical field; the URI falls back to a synthetic artist+title ID. */
+function canonicalRecord(rec: Record<string, string>, mapping: ColumnMapping[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const { source, field } of mapping) {
+    if (field && out[field] === undefined && rec[source] !== undefined) out[field] = rec[source];
+  }
+  const uri = normalizeTrackUri(out["Track URI"] ?? "");
+  out["Track URI"] = uri || (syntheticTrackUri(out["Artist Name(s)"] ?? "", out["Track Name"] ?? "") ?? "");
+  return out;
+}
 
 /**
- * Read a path that may be a single CSV file OR a directory of CSVs.
- * Bad files are skipped; good ones are concatenated.
+ * Streams validated rows from one CSV. Headers are mapped onto RowSchema fields
+ * through the alias layer (plus the profile's saved `columnMap`). Rows with
+ * neither a Track URI nor artist+title, that fail the schema, or whose dates
+ * don't parse go to `report.skip` with the offending line; a mid-file parse
+ * error ends the stream with whatever was read so far (reported via
+ * `report.warn`).
  */
-async function readCsvAny(p: string): Promise<TrackRow[]> {
-  if (!fs.existsSync(p)) throw new Error("Path not found: " + p);
-  const stat = fs.statSync(p);
-  if (stat.isDirectory()) {
-    const files = fs.readdirSync(p).filter(f => f.toLowerCase().endsWith(".csv"));
-    const out: TrackRow[] = [];
-    for (const f of files) {
-      const fp = path.join(p, f);
-      try {
-        const rows = await readCsv(fp);
-        out.push(...rows);
-      } catch { /* skip bad CSV */ }
+async function* streamCsv(file: string, report?: RowReporter, columnMap?: ColumnMap): AsyncGenerator<TrackRow> {
+  const parser = fs.createReadStream(file)
+    .pipe(parse({ columns: true, skip_empty_lines: true, relax_column_count: true, bom: true, info: true, raw: true }));
+  let mapping: ColumnMapping[] | null = null;
+  try {
+    for await (const { record, info, raw } of parser) {
+      if (!mapping) {
+        mapping = resolveColumns(info.columns.map((c: { name: string }) => c.name), columnMap);
+        report?.columns(mapping);
+      }
+      const at = `line ${info.lines}`;
+      const rec = canonicalRecord(record, mapping);
+      if (!rec["Track URI"]) {
+        report?.skip("missing_uri", { at, detail: "no Track URI, and no artist + title to build an ID from", raw: clip(raw) });
+        continue;
+      }
+      const parsed = RowSchema.safeParse(rec);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        report?.skip("schema", { at, detail: `${issue.path.join(".")}: ${issue.message}`, raw: clip(raw) });
+        continue;
+      }
+      const badDate = badDateField(parsed.data);
+      if (badDate) {
+        report?.skip("bad_date", { at, detail: `${badDate} "${parsed.data[badDate]}" is not a date`, raw: clip(raw) });
+        continue;
+      }
+      yield parsed.data;
     }
-    return out;
+  } catch (err: any) {
+    report?.warn(`Parse error, file truncated: ${err?.message || err}`);
   }
-  return await readCsv(p);
 }
 
-export { readCsv, readCsvAny };
-export default readCsv;
\ No newline at end of file
+export { streamCsv, csvHeaders, RowSchema, badDateField, clip };
@@ -0,0 +1,182 @@
+import fs from "fs";
+import { parse } from "csv-parse";
+import { RowSchema, badDateField, clip, type TrackRow } from "./readCsv.js";
+import { syntheticTrackUri } from "./normalize.js";
+import type { ColumnMapping, RejectSample, RowReporter } from "./types.js";
+
+/**
+ * Last.fm scrobble readers. Every scrobble becomes one play event with
+ * "Played At" set from its unix timestamp, so a decade of pre-Spotify history
+ * lands in the same timeline as Spotify plays.
+ *
+ * CSV — the common exporter layout (lastfm.ghan.nl and friends):
+ *   uts,utc_time,artist,artist_mbid,album,album_mbid,track,track_mbid
+ *
+ * JSON — user.getRecentTracks responses saved to disk, one page per file or an
+ * array of pages:
+ *   { recenttracks: { track: [ { artist: { "#text", mbid }, album: { "#text", mbid },
+ *                                name, mbid, date: { uts } }, … ] } }
+ *   (`extended=1` responses carry artist.name instead of artist["#text"].)
+ *
+ * Scrobbles have no Spotify URI; they get a synthetic artist+title ID and are
+ * linked to Spotify rows later by ingest/identity.ts.
+ */
+
+type Scrobble = {
+  uts?: number;
+  time?: string;
+  artist: string;
+  artistMbid?: string;
+  album?: string;
+  albumMbid?: string;
+  track: string;
+  trackMbid?: string;
+};
+
+// CSV header (lowercased) → canonical field, for the ingest report
+const CSV_COLUMNS: Record<string, string> = {
+  uts: "Played At", utc_time: "Played At", date: "Played At",
+  artist: "Artist Name(s)", artist_mbid: "Artist MBID",
+  album: "Album Name", album_mbid: "Album MBID",
+  track: "Track Name", track_mbid: "Track MBID",
+};
+
+/** A header row made only of Last.fm export columns, with artist, track and a time. */
+export function isLastfmHeader(headers: string[]): boolean {
+  const h = headers.map(c => c.trim().toLowerCase());
+  return h.length > 0
+    && h.every(c => c in CSV_COLUMNS)
+    && h.includes("artist") && h.includes("track")
+    && (h.includes("uts") || h.includes("utc_time") || h.includes("date"));
+}
+
+function playedAt(s: Scrobble): string | null {
+  if (s.uts && Number.isFinite(s.uts) && s.uts > 0) return new Date(s.uts * 1000).toISOString();
+  if (s.time) {
+    // "31 Jan 2020, 12:34" — Last.fm's display format is UTC
+    const t = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(s.time) ? s.time : `${s.time} UTC`);
+    if (!isNaN(t)) return new Date(t).toISOString();
+  }
+  return null;
+}
+
+function toRow(s: Scrobble, report: RowReporter | undefined, sample: () => Omit<RejectSample, "reason" | "detail">): TrackRow | null {
+  const uri = syntheticTrackUri(s.artist, s.track);
+  if (!uri) {
+    const detail = !s.artist.trim() || !s.track.trim()
+      ? "scrobble without artist or track name"
+      : `no letters or digits in "${s.artist}" / "${s.track}" to build a track ID from`;
+    report?.skip("missing_uri", { ...sample(), detail });
+    return null;
+  }
+  const ts = playedAt(s);
+  if (!ts) {
+    report?.skip("bad_date", { ...sample(), detail: s.time ? `"${s.time}" is not a date` : "no timestamp (now playing?)" });
+    return null;
+  }
+  const parsed = RowSchema.safeParse({
+    "Track URI": uri,
+    "Track Name": s.track,
+    "Artist Name(s)": s.artist,
+    "Album Name": s.album ?? "",
+    "Played At": ts,
+    "Track MBID": s.trackMbid || undefined,
+    "Artist MBID": s.artistMbid || undefined,
+    "Album MBID": s.albumMbid || undefined,
+  });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    report?.skip("schema", { ...sample(), detail: `${issue.path.join(".")}: ${issue.message}` });
+    return null;
+  }
+  if (badDateField(parsed.data)) {
+    report?.skip("bad_date", { ...sample(), detail: `"${ts}" is not a date` });
+    return null;
+  }
+  return parsed.data;
+}
+
+export async function* streamLastfmCsv(file: string, report?: RowReporter): AsyncGenerator<TrackRow> {
+  const parser = fs.createReadStream(file)
+    .pipe(parse({ columns: (h: string[]) => h.map(c => c.trim().toLowerCase()), skip_empty_lines: true, relax_column_count: true, bom: true, info: true, raw: true }));
+  let mapped = false;
+  try {
+    for await (const { record, info, raw } of parser) {
+      if (!mapped) {
+        const columns: ColumnMapping[] = info.columns.map((c: { name: string }) => ({ source: c.name, field: CSV_COLUMNS[c.name] ?? null }));
+        report?.columns(columns);
+        mapped = true;
+      }
+      const s: Scrobble = {
+        uts: record.uts ? Number(record.uts) : undefined,
+        time: record.utc_time || record.date || undefined,
+        artist: record.artist ?? "",
+        artistMbid: record.artist_mbid,
+        album: record.album,
+        albumMbid: record.album_mbid,
+        track: record.track ?? "",
+        trackMbid: record.track_mbid,
+      };
+      const row = toRow(s, report, () => ({ at: `line ${info.lines}`, raw: clip(raw) }));
+      if (row) yield row;
+    }
+  } catch (err: any) {
+    report?.warn(`Parse error, file truncated: ${err?.message || err}`);
+  }
+}
+
+type ApiText = string | { "#text"?: string; name?: string; mbid?: string } | undefined;
+type ApiTrack = {
+  name?: string;
+  mbid?: string;
+  artist?: ApiText;
+  album?: ApiText;
+  date?: { uts?: string | number; "#text"?: string };
+  "@attr"?: { nowplaying?: string };
+};
+
+const text = (v: ApiText) => (typeof v === "string" ? v : v?.["#text"] ?? v?.name ?? "");
+const mbid = (v: ApiText) => (typeof v === "object" ? v?.mbid : undefined);
+
+/** Flatten a saved page, an array of pages, or a bare array of tracks into tracks. */
+function apiTracks(data: unknown): ApiTrack[] {
+  if (Array.isArray(data)) return data.flatMap(d => (d && typeof d === "object" && "recenttracks" in d ? apiTracks(d) : [d as ApiTrack]));
+  const t = (data as any)?.recenttracks?.track;
+  return Array.isArray(t) ? t : t ? [t] : [];
+}
+
+export async function* streamLastfmJson(file: string, report?: RowReporter): AsyncGenerator<TrackRow> {
+  let data: unknown;
+  try {
+    data = JSON.parse((await fs.promises.readFile(file, "utf8")).replace(/^\uFEFF/, ""));
+  } catch (err: any) {
+    throw new Error(`Failed to parse ${file}: ${err?.message || err}`);
+  }
+  report?.columns([
+    { source: "date.uts", field: "Played At" },
+    { source: "name", field: "Track Name" },
+    { source: "artist", field: "Artist Name(s)" },
+    { source: "album", field: "Album Name" },
+    { source: "mbid", field: "Track MBID" },
+    { source: "artist.mbid", field: "Artist MBID" },
+    { source: "album.mbid", field: "Album MBID" },
+  ]);
+  for (const [i, t] of apiTracks(data).entries()) {
+    const sample = () => ({ at: `track ${i + 1}`, raw: clip(JSON.stringify(t)) });
+    if (t?.["@attr"]?.nowplaying === "true" && !t.date) {
+      report?.skip("bad_date", { ...sample(), detail: "now playing — not scrobbled yet" });
+      continue;
+    }
+    const row = toRow({
+      uts: t?.date?.uts !== undefined ? Number(t.date.uts) : undefined,
+      time: t?.date?.["#text"],
+      artist: text(t?.artist),
+      artistMbid: mbid(t?.artist),
+      album: text(t?.album),
+      albumMbid: mbid(t?.album),
+      track: t?.name ?? "",
+      trackMbid: t?.mbid,
+    }, report, sample);
+    if (row) yield row;
+  }
+}
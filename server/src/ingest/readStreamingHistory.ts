@@ -0,0 +1,105 @@
+import fs from "fs";
+import { RowSchema, badDateField, clip, type TrackRow } from "./readCsv.js";
+import type { ColumnMapping, RowReporter } from "./types.js";
+
+/**
+ * Spotify "Extended streaming history" (privacy export) reader.
+ *
+ * Each Streaming_History_Audio_*.json file is a JSON array of play events:
+ *   { ts, ms_played, spotify_track_uri, master_metadata_track_name,
+ *     master_metadata_album_artist_name, master_metadata_album_album_name,
+ *     reason_start, reason_end, shuffle, skipped, platform, ... }
+ *
+ * Every event becomes one TrackRow with "Played At" set to the real play time,
+ * so the compute layer sees listening events instead of playlist add dates.
+ * Podcast/audiobook entries (no spotify_track_uri) are skipped.
+ */
+
+type StreamingEvent = {
+  ts?: string;
+  ms_played?: number;
+  spotify_track_uri?: string | null;
+  master_metadata_track_name?: string | null;
+  master_metadata_album_artist_name?: string | null;
+  master_metadata_album_album_name?: string | null;
+  reason_start?: string | null;
+  reason_end?: string | null;
+  shuffle?: boolean | null;
+  skipped?: boolean | null;
+  platform?: string | null;
+};
+
+// Fixed export schema, so the column mapping is static.
+const COLUMNS: ColumnMapping[] = [
+  { source: "ts", field: "Played At" },
+  { source: "ms_played", field: "Ms Played" },
+  { source: "spotify_track_uri", field: "Track URI" },
+  { source: "master_metadata_track_name", field: "Track Name" },
+  { source: "master_metadata_album_artist_name", field: "Artist Name(s)" },
+  { source: "master_metadata_album_album_name", field: "Album Name" },
+  { source: "reason_start", field: "Reason Start" },
+  { source: "reason_end", field: "Reason End" },
+  { source: "shuffle", field: "Shuffle" },
+  { source: "skipped", field: "Skipped" },
+  { source: "platform", field: "Platform" },
+];
+
+function toRow(ev: StreamingEvent): TrackRow | null {
+  const uri = String(ev.spotify_track_uri || "").trim();
+  if (!uri || !ev.ts) return null;
+  return RowSchema.parse({
+    "Track URI": uri,
+    "Track Name": ev.master_metadata_track_name ?? "",
+    "Album Name": ev.master_metadata_album_album_name ?? "",
+    "Artist Name(s)": ev.master_metadata_album_artist_name ?? "",
+    "Played At": ev.ts,
+    "Ms Played": ev.ms_played ?? undefined,
+    "Skipped": ev.skipped ?? undefined,
+    "Shuffle": ev.shuffle ?? undefined,
+    "Reason Start": ev.reason_start ?? undefined,
+    "Reason End": ev.reason_end ?? undefined,
+    "Platform": ev.platform ?? undefined,
+  });
+}
+
+async function readEvents(file: string): Promise<StreamingEvent[]> {
+  if (!fs.existsSync(file)) throw new Error("Streaming history not found at " + file);
+
+  let data: unknown;
+  try {
+    data = JSON.parse((await fs.promises.readFile(file, "utf8")).replace(/^\uFEFF/, ""));
+  } catch (err: any) {
+    throw new Error(`Failed to parse ${file}: ${err?.message || err}`);
+  }
+  if (!Array.isArray(data) || (data.length > 0 && !("ts" in (data[0] ?? {})))) {
+    throw new Error("JSON is not a Spotify extended streaming history export (missing 'ts')");
+  }
+  return data as StreamingEvent[];
+}
+
+/** Streams one row per track play; non-track and malformed events go to `report.skip`. */
+export async function* streamStreamingHistory(file: string, report?: RowReporter): AsyncGenerator<TrackRow> {
+  const events = await readEvents(file);
+  report?.columns(COLUMNS);
+  for (const [i, ev] of events.entries()) {
+    const at = `event ${i + 1}`;
+    const raw = () => clip(JSON.stringify(ev));
+    if (!String(ev?.spotify_track_uri || "").trim()) {
+      report?.skip("not_a_track", { at, detail: "no spotify_track_uri (podcast/audiobook)", raw: raw() });
+      continue;
+    }
+    let row: TrackRow | null;
+    try {
+      row = toRow(ev);
+    } catch (err: any) {
+      const issue = err?.issues?.[0];
+      report?.skip("schema", { at, detail: issue ? `${issue.path.join(".")}: ${issue.message}` : String(err?.message || err), raw: raw() });
+      continue;
+    }
+    if (!row || badDateField(row)) {
+      report?.skip("bad_date", { at, detail: ev.ts ? `ts "${ev.ts}" is not a date` : "missing ts", raw: raw() });
+      continue;
+    }
+    yield row;
+  }
+}
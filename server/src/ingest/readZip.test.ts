@@ -0,0 +1,90 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { extractZipEntry, isZipFile, listZipEntries } from "./readZip.js";
+
+// Built with Python's zipfile: a directory, a deflated JSON, a stored CSV with a
+// UTF-8 name, an empty deflated entry and a 20-byte archive comment.
+const FIXTURE = path.join(import.meta.dirname, "__fixtures__", "export.zip");
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "snobify-zip-"));
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+/** A copy of the fixture with `edit` applied; `dir` is the central directory's offset. */
+function patched(name: string, edit: (buf: Buffer, dir: number, eocd: number) => Buffer | void): string {
+  const buf = fs.readFileSync(FIXTURE);
+  const eocd = buf.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const file = path.join(tmp, name);
+  fs.writeFileSync(file, edit(buf, buf.readUInt32LE(eocd + 16), eocd) ?? buf);
+  return file;
+}
+
+/** Offsets of each central directory header, in archive order. */
+function centralHeaders(buf: Buffer, dir: number): number[] {
+  const out: number[] = [];
+  for (let p = dir; buf.readUInt32LE(p) === 0x02014b50; p += 46 + buf.readUInt16LE(p + 28) + buf.readUInt16LE(p + 30) + buf.readUInt16LE(p + 32)) {
+    out.push(p);
+  }
+  return out;
+}
+
+const entry = (file: string, name: string) => listZipEntries(file).find(e => e.name === name)!;
+
+describe("listZipEntries", () => {
+  it("reads the central directory", () => {
+    expect(listZipEntries(FIXTURE).map(({ name, method, size, directory, encrypted }) => ({ name, method, size, directory, encrypted }))).toEqual([
+      { name: "Spotify Extended Streaming History/", method: 0, size: 0, directory: true, encrypted: false },
+      { name: "Spotify Extended Streaming History/Streaming_History_Audio_2024.json", method: 8, size: 110, directory: false, encrypted: false },
+      { name: "Playlists/été 2024.csv", method: 0, size: 85, directory: false, encrypted: false },
+      { name: "empty.txt", method: 8, size: 0, directory: false, encrypted: false },
+    ]);
+  });
+
+  it.each<[string, (buf: Buffer, dir: number, eocd: number) => Buffer | void, RegExp]>([
+    ["no end record", buf => buf.subarray(0, 100), /not a zip archive/],
+    ["a central directory past the end", (buf, dir) => buf.subarray(dir), /truncated zip archive/],
+    ["a broken central header", (buf, dir) => { buf.writeUInt32LE(0, dir); }, /corrupt zip central directory/],
+    ["zip64 markers", (buf, _, eocd) => { buf.writeUInt16LE(0xffff, eocd + 10); }, /zip64 archives are not supported/],
+  ])("rejects %s", (name, edit, error) => {
+    expect(() => listZipEntries(patched(`${name}.zip`, edit))).toThrow(error);
+  });
+});
+
+describe("extractZipEntry", () => {
+  it.each([
+    ["Spotify Extended Streaming History/Streaming_History_Audio_2024.json", /^\[\{"ts":"2024-01-01T10:00:00Z"/],
+    ["Playlists/été 2024.csv", /^Track URI,Track Name,Artist Name\(s\)\nspotify:track:/],
+    ["empty.txt", /^$/],
+  ])("inflates %s", async (name, content) => {
+    const e = entry(FIXTURE, name);
+    const dest = path.join(tmp, path.basename(name));
+    await extractZipEntry(FIXTURE, e, dest);
+    expect(fs.statSync(dest).size).toBe(e.size);
+    expect(fs.readFileSync(dest, "utf8")).toMatch(content);
+  });
+
+  const JSON_ENTRY = "Spotify Extended Streaming History/Streaming_History_Audio_2024.json";
+
+  it.each<[string, (buf: Buffer, dir: number) => void, string, RegExp]>([
+    ["a directory", () => {}, "Spotify Extended Streaming History/", /is a directory/],
+    ["an encrypted entry", (buf, dir) => {
+      const p = centralHeaders(buf, dir)[1];
+      buf.writeUInt16LE(buf.readUInt16LE(p + 8) | 0x1, p + 8);
+    }, JSON_ENTRY, /encrypted entries are not supported/],
+    ["an entry inflating past its declared size", (buf, dir) => {
+      buf.writeUInt32LE(10, centralHeaders(buf, dir)[1] + 24);
+    }, JSON_ENTRY, /inflates past its declared 10 bytes/],
+  ])("refuses %s", async (label, edit, name, error) => {
+    const file = patched(`${label}.zip`, edit);
+    await expect(extractZipEntry(file, entry(file, name), path.join(tmp, "out"))).rejects.toThrow(error);
+  });
+});
+
+describe("isZipFile", () => {
+  it("checks the magic number, not the extension", () => {
+    const csv = path.join(tmp, "playlist.zip");
+    fs.writeFileSync(csv, "Track URI\n");
+    expect(isZipFile(FIXTURE)).toBe(true);
+    expect(isZipFile(csv)).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+import fs from "fs";
+import zlib from "zlib";
+import { Transform, type TransformCallback } from "stream";
+import { pipeline } from "stream/promises";
+
+/**
+ * Minimal zip reader for uploaded archives (Spotify privacy export, Exportify bulk zips).
+ *
+ * Reads the central directory at the end of the file, then streams single
+ * entries to disk through inflateRaw — nothing is buffered whole. Handles the
+ * two methods real exports use (stored, deflate); zip64, encrypted entries
+ * and other methods are reported, not guessed at.
+ */
+
+export type ZipEntry = {
+  name: string;             // path inside the archive, "/"-separated
+  method: number;           // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;             // uncompressed, as declared by the archive
+  offset: number;           // local header offset
+  encrypted: boolean;
+  directory: boolean;
+};
+
+const EOCD_SIG = 0x06054b50;
+const CENTRAL_SIG = 0x02014b50;
+const LOCAL_SIG = 0x04034b50;
+const EOCD_BYTES = 22;
+const MAX_COMMENT = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Cheap magic-number check: local file header or an empty archive's end record. */
+export function isZipFile(file: string): boolean {
+  const fd = fs.openSync(file, "r");
+  try {
+    const buf = Buffer.alloc(4);
+    if (fs.readSync(fd, buf, 0, 4, 0) < 4) return false;
+    const sig = buf.readUInt32LE(0);
+    return sig === LOCAL_SIG || sig === EOCD_SIG;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+export function listZipEntries(file: string): ZipEntry[] {
+  const fd = fs.openSync(file, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+    const tailLen = Math.min(size, EOCD_BYTES + MAX_COMMENT);
+    const tail = Buffer.alloc(tailLen);
+    fs.readSync(fd, tail, 0, tailLen, size - tailLen);
+
+    let eocd = -1;
+    for (let i = tailLen - EOCD_BYTES; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIG) { eocd = i; break; }
+    }
+    if (eocd < 0) throw new Error("not a zip archive (no end of central directory)");
+
+    const count = tail.readUInt16LE(eocd + 10);
+    const dirSize = tail.readUInt32LE(eocd + 12);
+    const dirOffset = tail.readUInt32LE(eocd + 16);
+    if (count === 0xffff || dirSize === 0xffffffff || dirOffset === 0xffffffff) {
+      throw new Error("zip64 archives are not supported — re-zip without zip64 or upload the files directly");
+    }
+    if (dirOffset + dirSize > size) throw new Error("truncated zip archive");
+
+    const dir = Buffer.alloc(dirSize);
+    fs.readSync(fd, dir, 0, dirSize, dirOffset);
+
+    const entries: ZipEntry[] = [];
+    let p = 0;
+    for (let i = 0; i < count; i++) {
+      if (p + 46 > dir.length || dir.readUInt32LE(p) !== CENTRAL_SIG) throw new Error("corrupt zip central directory");
+      const flags = dir.readUInt16LE(p + 8);
+      const nameLen = dir.readUInt16LE(p + 28);
+      const extraLen = dir.readUInt16LE(p + 30);
+      const commentLen = dir.readUInt16LE(p + 32);
+      // Bit 11 marks UTF-8 names; older tools write CP437, which latin1 approximates.
+      const name = dir.subarray(p + 46, p + 46 + nameLen).toString(flags & 0x800 ? "utf8" : "latin1").replace(/\\/g, "/");
+      entries.push({
+        name,
+        method: dir.readUInt16LE(p + 10),
+        compressedSize: dir.readUInt32LE(p + 20),
+        size: dir.readUInt32LE(p + 24),
+        offset: dir.readUInt32LE(p + 42),
+        encrypted: (flags & 0x1) !== 0,
+        directory: name.endsWith("/"),
+      });
+      p += 46 + nameLen + extraLen + commentLen;
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Fails the stream once more bytes come out than the entry declared (zip bombs, corrupt sizes). */
+function sizeGuard(limit: number, name: string): Transform {
+  let seen = 0;
+  return new Transform({
+    transform(chunk: Buffer, _enc: BufferEncoding, cb: TransformCallback) {
+      seen += chunk.length;
+      if (seen > limit) cb(new Error(`${name}: inflates past its declared ${limit} bytes`));
+      else cb(null, chunk);
+    },
+  });
+}
+
+/** Stream one entry's contents to `dest`. */
+export async function extractZipEntry(file: string, entry: ZipEntry, dest: string): Promise<void> {
+  if (entry.directory) throw new Error(`${entry.name}: is a directory`);
+  if (entry.encrypted) throw new Error(`${entry.name}: encrypted entries are not supported`);
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new Error(`${entry.name}: unsupported compression method ${entry.method}`);
+  }
+
+  // The local header repeats name/extra with its own lengths; data starts after it.
+  const header = Buffer.alloc(30);
+  const fd = fs.openSync(file, "r");
+  try {
+    if (fs.readSync(fd, header, 0, 30, entry.offset) < 30 || header.readUInt32LE(0) !== LOCAL_SIG) {
+      throw new Error(`${entry.name}: corrupt local header`);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  const start = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+  if (entry.compressedSize === 0) {
+    fs.writeFileSync(dest, "");
+    return;
+  }
+  const source = fs.createReadStream(file, { start, end: start + entry.compressedSize - 1 });
+  const out = fs.createWriteStream(dest);
+  if (entry.method === METHOD_DEFLATE) {
+    await pipeline(source, zlib.createInflateRaw(), sizeGuard(entry.size, entry.name), out);
+  } else {
+    await pipeline(source, sizeGuard(entry.size, entry.name), out);
+  }
+}
@@ -0,0 +1,201 @@
+import fs from "fs";
+import path from "path";
+import { csvHeaders, streamCsv } from "./readCsv.js";
+import { isUsableMapping, resolveColumns, type ColumnMap } from "./columnAliases.js";
+import { streamStreamingHistory } from "./readStreamingHistory.js";
+import { isLastfmHeader, streamLastfmCsv, streamLastfmJson } from "./readLastfm.js";
+import type { FileProbe, FileReport, IngestAdapter, IngestResult, IngestRow, RejectReason, RejectSample } from "./types.js";
+
+/**
+ * Ingest registry — the single entry point for turning files on disk into rows.
+ *
+ * Each adapter declares which files it recognises (extension + header / JSON
+ * shape sniffing on the first few KB) and streams normalised TrackRows. The
+ * registry tags every row with `_src` provenance and collects a per-file
+ * report, so controllers never need to re-read directories themselves.
+ *
+ * Adapters are tried in registration order; the first whose `detect` returns
+ * true owns the file.
+ */
+
+const PROBE_BYTES = 64 * 1024;
+const SAMPLES_PER_REASON = 3;
+const adapters: IngestAdapter[] = [];
+
+export function registerAdapter(adapter: IngestAdapter): void {
+  if (adapters.some(a => a.id === adapter.id)) throw new Error(`Ingest adapter already registered: ${adapter.id}`);
+  adapters.push(adapter);
+}
+
+export function listAdapters(): readonly IngestAdapter[] {
+  return adapters;
+}
+
+/** Cheap, name-only filter: could any registered adapter read a file with this extension? */
+export function isSupportedFile(name: string): boolean {
+  const ext = path.extname(name).toLowerCase();
+  return adapters.some(a => a.extensions.includes(ext));
+}
+
+export function probeFile(filePath: string, columnMap?: ColumnMap): FileProbe {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buf = Buffer.alloc(PROBE_BYTES);
+    const n = fs.readSync(fd, buf, 0, PROBE_BYTES, 0);
+    return {
+      name: path.basename(filePath),
+      path: filePath,
+      ext: path.extname(filePath).toLowerCase(),
+      head: buf.subarray(0, n).toString("utf8").replace(/^\uFEFF/, ""),
+      columnMap,
+    };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function findAdapter(probe: FileProbe): IngestAdapter | null {
+  return adapters.find(a => a.extensions.includes(probe.ext) && a.detect(probe)) ?? null;
+}
+
+export function detectAdapter(filePath: string, columnMap?: ColumnMap): IngestAdapter | null {
+  return findAdapter(probeFile(filePath, columnMap));
+}
+
+/** How an adapter for this extension would read the columns, for files no adapter claimed. */
+export function describeColumns(probe: FileProbe) {
+  const adapter = adapters.find(a => a.extensions.includes(probe.ext) && a.columnsOf);
+  return adapter?.columnsOf?.(probe) ?? [];
+}
+
+/** Count a rejected row against `report`, keeping the first few samples per reason. */
+export function recordReject(report: FileReport, reason: RejectReason, sample?: Omit<RejectSample, "reason">): void {
+  report.skipped++;
+  report.rejected[reason] = (report.rejected[reason] ?? 0) + 1;
+  if (sample && report.samples.filter(s => s.reason === reason).length < SAMPLES_PER_REASON) {
+    report.samples.push({ reason, ...sample });
+  }
+}
+
+/** Ingest one file, appending its rows to `out`. Never throws — problems land in the report. */
+export async function ingestFile(filePath: string, out: IngestRow[], columnMap?: ColumnMap): Promise<FileReport> {
+  const report: FileReport = {
+    file: path.basename(filePath), adapter: null, rows: 0, skipped: 0,
+    rejected: {}, samples: [], columns: [], warnings: [],
+  };
+  let probe: FileProbe;
+  try {
+    probe = probeFile(filePath, columnMap);
+  } catch (err: any) {
+    report.warnings.push(`Could not read file: ${err?.message || err}`);
+    return report;
+  }
+
+  const adapter = findAdapter(probe);
+  if (!adapter) {
+    report.warnings.push("Unrecognised format — no ingest adapter claimed this file");
+    report.columns = describeColumns(probe);
+    return report;
+  }
+  report.adapter = adapter.id;
+
+  const src = {
+    adapter: adapter.id,
+    file: probe.name,
+    path: filePath,
+    ...(adapter.playlistFromFile ? { playlist: path.basename(probe.name, probe.ext) } : {}),
+  };
+  const reporter = {
+    warn: (message: string) => { report.warnings.push(message); },
+    skip: (reason: RejectReason, sample?: Omit<RejectSample, "reason">) => recordReject(report, reason, sample),
+    columns: (mapping: FileReport["columns"]) => { report.columns = mapping; },
+  };
+
+  try {
+    for await (const row of adapter.read(probe, reporter)) {
+      out.push({ ...row, _src: src });
+      report.rows++;
+    }
+  } catch (err: any) {
+    report.warnings.push(`Read failed: ${err?.message || err}`);
+  }
+  if (report.warnings.length || report.skipped) {
+    console.warn(`[ingest] ${report.file} (${report.adapter ?? "unrecognised"}): ${report.rows} rows, ${report.skipped} skipped${report.warnings.length ? ` — ${report.warnings.join("; ")}` : ""}`);
+  }
+  return report;
+}
+
+/** Totals across per-file reports, for the ingest-report endpoint and stats meta. */
+export function summarizeReports(files: FileReport[]) {
+  const byReason: Partial<Record<RejectReason, number>> = {};
+  for (const f of files) {
+    for (const [reason, n] of Object.entries(f.rejected) as [RejectReason, number][]) {
+      byReason[reason] = (byReason[reason] ?? 0) + n;
+    }
+  }
+  return {
+    files: files.length,
+    recognised: files.filter(f => f.adapter !== null).length,
+    accepted: files.reduce((s, f) => s + f.rows, 0),
+    rejected: files.reduce((s, f) => s + f.skipped, 0),
+    byReason,
+  };
+}
+
+/** Supported files at `p` — every matching file in a directory (non-recursive), or `p` itself. */
+export function listSupportedFiles(p: string): string[] {
+  return fs.statSync(p).isDirectory()
+    ? fs.readdirSync(p).filter(isSupportedFile).sort().map(f => path.join(p, f))
+    : [p];
+}
+
+/** Ingest a single file or every supported file in a directory (non-recursive). */
+export async function ingestPath(p: string, columnMap?: ColumnMap): Promise<IngestResult> {
+  if (!fs.existsSync(p)) throw new Error("Path not found: " + p);
+
+  const rows: IngestRow[] = [];
+  const reports: FileReport[] = [];
+  for (const f of listSupportedFiles(p)) {
+    reports.push(await ingestFile(f, rows, columnMap));
+  }
+  return { rows, files: reports };
+}
+
+// ── Built-in adapters ─────────────────────────────────────────────────────────
+
+// Last.fm goes first: its "artist,track,…" header would also satisfy the generic CSV aliases.
+registerAdapter({
+  id: "lastfm-csv",
+  label: "Last.fm scrobble export (CSV)",
+  extensions: [".csv"],
+  detect: probe => isLastfmHeader(csvHeaders(probe.head)),
+  read: (probe, report) => streamLastfmCsv(probe.path, report),
+});
+
+registerAdapter({
+  id: "lastfm-json",
+  label: "Last.fm user.getRecentTracks pages (JSON)",
+  extensions: [".json"],
+  detect: probe => probe.head.includes('"recenttracks"') || (/^\s*\[/.test(probe.head) && probe.head.includes('"#text"') && probe.head.includes('"uts"')),
+  read: (probe, report) => streamLastfmJson(probe.path, report),
+});
+
+const csvColumns = (probe: FileProbe) => resolveColumns(csvHeaders(probe.head), probe.columnMap);
+
+registerAdapter({
+  id: "playlist-csv",
+  label: "Playlist / library CSV (Exportify, TuneMyMusic, Soundiiz, Apple Music…)",
+  extensions: [".csv"],
+  detect: probe => isUsableMapping(csvColumns(probe)),
+  read: (probe, report) => streamCsv(probe.path, report, probe.columnMap),
+  columnsOf: csvColumns,
+  playlistFromFile: true,
+});
+
+registerAdapter({
+  id: "spotify-extended-history",
+  label: "Spotify extended streaming history (JSON)",
+  extensions: [".json"],
+  detect: probe => /^\s*\[/.test(probe.head) && probe.head.includes('"ts"') && probe.head.includes('"ms_played"'),
+  read: (probe, report) => streamStreamingHistory(probe.path, report),
+});
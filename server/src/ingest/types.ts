@@ -0,0 +1,74 @@
+import type { TrackRow } from "./readCsv.js";
+import type { ColumnMap } from "./columnAliases.js";
+
+/** Where a normalised row came from. Replaces the old `__playlist` / `_srcFile` tags. */
+export type Provenance = {
+  adapter: string;          // id of the adapter that produced the row
+  file: string;             // base file name, e.g. "Chill.csv"
+  path: string;             // absolute path on disk
+  playlist?: string;        // set only by playlist-shaped sources
+};
+
+export type IngestRow = TrackRow & { _src: Provenance };
+
+/** Why a row didn't make it into the store. */
+export type RejectReason =
+  | "missing_uri"           // no Track URI
+  | "schema"                // zod coercion / validation failure
+  | "bad_date"              // Played At / Added At missing where required, or unparseable
+  | "not_a_track"           // podcast / audiobook events in streaming history
+  | "duplicate";            // same dedupe key already stored, or repeated within the file
+
+/** One offending row, kept so users can see what was wrong with their file. */
+export type RejectSample = {
+  reason: RejectReason;
+  at: string;               // "line 12" for CSV, "event 5" for JSON arrays
+  detail: string;
+  raw: string;              // the source text, truncated
+};
+
+/** How a source column was interpreted; `field` is null when the column is ignored. */
+export type ColumnMapping = { source: string; field: string | null };
+
+/** Passed to adapters so they can report problems without throwing. */
+export type RowReporter = {
+  warn: (message: string) => void;
+  skip: (reason: RejectReason, sample?: Omit<RejectSample, "reason">) => void;
+  columns: (mapping: ColumnMapping[]) => void;
+};
+
+/** Cheap view of a file used for format detection. */
+export type FileProbe = {
+  name: string;
+  path: string;
+  ext: string;              // lowercase, with dot: ".csv"
+  head: string;             // first few KB decoded as utf8 (BOM stripped)
+  columnMap?: ColumnMap;    // the profile's saved header mapping, if any
+};
+
+export interface IngestAdapter {
+  id: string;
+  label: string;
+  extensions: string[];     // lowercase, with dot
+  /** Decide from name/extension/header/JSON shape whether this adapter owns the file. */
+  detect: (probe: FileProbe) => boolean;
+  /** Stream normalised rows; malformed rows go to `report.skip`, never thrown. */
+  read: (probe: FileProbe, report: RowReporter) => AsyncIterable<TrackRow>;
+  /** Column mapping the adapter would apply, even when `detect` fails — lets the setup UI offer a manual mapping. */
+  columnsOf?: (probe: FileProbe) => ColumnMapping[];
+  /** Playlist-shaped sources get `_src.playlist` set from the file name. */
+  playlistFromFile?: boolean;
+}
+
+export type FileReport = {
+  file: string;
+  adapter: string | null;   // null when no adapter recognised the file
+  rows: number;             // rows accepted
+  skipped: number;          // rows rejected, all reasons
+  rejected: Partial<Record<RejectReason, number>>;
+  samples: RejectSample[];  // a few per reason
+  columns: ColumnMapping[];
+  warnings: string[];
+};
+
+export type IngestResult = { rows: IngestRow[]; files: FileReport[] };
@@ -0,0 +1,8 @@
+import { FastifyInstance } from "fastify";
+import { JobsController } from "../controllers/jobsController.js";
+
+export async function jobRoutes(fastify: FastifyInstance) {
+    fastify.get("/api/jobs/:id", JobsController.getJob);
+    fastify.get("/api/jobs/:id/events", JobsController.streamEvents);
+    fastify.post("/api/jobs/:id/retry", JobsController.retryJob);
+}
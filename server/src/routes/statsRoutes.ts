@@ -1,11 +1,25 @@
 import { FastifyInstance } from "fastify";
 import { StatsController } from "../controllers/statsController.js";
 import { ProfilesController } from "../controllers/profilesController.js";
+import { GenresController } from "../controllers/genresController.js";
 
 export async function statsRoutes(fastify: FastifyInstance) {
     fastify.get("/api/stats", StatsController.getStats);
+    fastify.get("/api/stats/compare", StatsController.getCompare);
+    fastify.get("/api/wrapped", StatsController.getWrapped);
+    fastify.get("/api/sessions", StatsController.getSessions);
+    fastify.get("/api/artists/:name", StatsController.getArtist);
     fastify.get("/api/debug", StatsController.getDebug);
+    fastify.get("/api/debug/identities", StatsController.getIdentities);
     fastify.get("/api/taste-profile", StatsController.getTasteProfile);
+    fastify.get("/api/taste/evolution", StatsController.getEvolution);
     fastify.get("/api/playlist-scores", StatsController.getPlaylistScores);
+    fastify.get("/api/benchmark", StatsController.getBenchmark);
+    fastify.get("/api/genres/taxonomy", GenresController.getTaxonomy);
     fastify.get("/api/profiles", ProfilesController.getProfiles);
+    fastify.get("/api/profiles/:name/ingest-report", ProfilesController.getIngestReport);
+    fastify.get("/api/profiles/:name/column-map", ProfilesController.getColumnMap);
+    fastify.put("/api/profiles/:name/column-map", ProfilesController.putColumnMap);
+    fastify.get("/api/profiles/:name/settings", ProfilesController.getSettings);
+    fastify.put("/api/profiles/:name/settings", ProfilesController.putSettings);
 }
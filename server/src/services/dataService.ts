@@ -1,8 +1,8 @@
 import path from "path";
 import fs from "fs";
 import { CONFIG, ROOT_DIR } from "../config/index.js";
-import readCsv from "../ingest/readCsv.js";
-import { readAllCsvs } from "../ingest/readAll.js";
+import { TrackStore, type SyncProgress } from "./trackStore.js";
+import type { IngestResult, IngestRow } from "../ingest/types.js";
 
 export interface DataPath {
     isDirectory: boolean;
@@ -48,21 +48,17 @@ export class DataService {
         return null;
     }
 
-    static async loadData(profile: string): Promise<any[]> {
+    /** Rows plus the per-file ingest report for a profile, served from its persistent track store. */
+    static async ingest(profile: string, onProgress?: (p: SyncProgress) => void): Promise<IngestResult> {
         const dataPath = this.getDataPath(profile);
         if (!dataPath) {
             throw new Error("DataNotFound");
         }
 
-        let rows: any[] = [];
-        if (dataPath.isDirectory) {
-            console.log(`Reading data from directory: ${dataPath.path}`);
-            rows = await readAllCsvs(dataPath.path);
-        } else {
-            console.log(`Reading data from file: ${dataPath.path}`);
-            rows = await readCsv(dataPath.path);
-        }
+        return TrackStore.sync(profile, dataPath.path, onProgress);
+    }
 
-        return Array.isArray(rows) ? rows : [];
+    static async loadData(profile: string): Promise<IngestRow[]> {
+        return (await this.ingest(profile)).rows;
     }
 }
@@ -0,0 +1,238 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { PROFILES_DIR } from "../config/index.js";
+
+/**
+ * Background jobs with progress (uploads today).
+ *
+ * A job is a list of named stages run by the runner registered for its kind.
+ * Every change is mirrored to `profiles/<name>/.jobs/<id>/job.json`, next to
+ * whatever files the job staged there, and pushed to subscribers (the SSE
+ * endpoint). Runners keep resume state in `checkpoint`; `step` skips stages
+ * that already finished, so retrying a failed job — even after a restart —
+ * picks up at the stage that failed without the client re-sending anything.
+ *
+ * Jobs run one at a time. A job's directory is removed when it succeeds;
+ * finished jobs stay queryable in memory (the most recent MAX_FINISHED).
+ */
+
+export type JobState = "queued" | "running" | "done" | "failed";
+export type StageState = "pending" | "running" | "done" | "failed";
+export type JobError = { code: string; message: string; hint?: string };
+
+export type JobProgress = {
+    filesReceived: number;
+    bytesReceived: number;
+    filesAccepted: number;
+    filesToIngest: number;
+    filesIngested: number;
+    rowsParsed: number;
+    rowsRejected: number;
+    currentFile: string | null;
+};
+
+export interface Job<C = unknown, R = unknown> {
+    id: string;
+    kind: string;
+    profile: string;
+    state: JobState;
+    stages: { name: string; state: StageState }[];
+    progress: JobProgress;
+    attempts: number;
+    retryable: boolean;
+    createdAt: string;
+    updatedAt: string;
+    result?: R;
+    error?: JobError;
+    checkpoint: C;          // runner resume state; never sent to clients
+}
+
+export type PublicJob = Omit<Job, "checkpoint">;
+
+export interface JobRunner<C = unknown, R = unknown> {
+    run(job: Job<C, R>): Promise<R>;
+    /** How a thrown error is reported, and whether retrying could help. */
+    describeError(err: unknown): JobError & { retryable: boolean };
+}
+
+const JOBS_DIRNAME = ".jobs";
+const JOB_FILE = "job.json";
+const MAX_FINISHED = 50;
+const ID_RE = /^[a-f0-9-]{36}$/;
+
+const jobs = new Map<string, Job>();
+const runners = new Map<string, JobRunner>();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+let queue: Promise<void> = Promise.resolve();
+
+const emptyProgress = (): JobProgress => ({
+    filesReceived: 0, bytesReceived: 0, filesAccepted: 0, filesToIngest: 0,
+    filesIngested: 0, rowsParsed: 0, rowsRejected: 0, currentFile: null,
+});
+
+export class JobService {
+    static registerRunner<C, R>(kind: string, runner: JobRunner<C, R>): void {
+        if (runners.has(kind)) throw new Error(`Job runner already registered: ${kind}`);
+        runners.set(kind, runner);
+    }
+
+    static create<C, R = unknown>(kind: string, profile: string, stages: string[], checkpoint: C): Job<C, R> {
+        const now = new Date().toISOString();
+        const job: Job<C, R> = {
+            id: crypto.randomUUID(),
+            kind,
+            profile,
+            state: "queued",
+            stages: stages.map(name => ({ name, state: "pending" })),
+            progress: emptyProgress(),
+            attempts: 0,
+            retryable: false,
+            createdAt: now,
+            updatedAt: now,
+            checkpoint,
+        };
+        fs.mkdirSync(this.dir(job), { recursive: true });
+        jobs.set(job.id, job);
+        this.update(job);
+        return job;
+    }
+
+    /** Where the job keeps job.json and its staged files. */
+    static dir(job: Pick<Job, "id" | "profile">): string {
+        return path.join(PROFILES_DIR, job.profile, JOBS_DIRNAME, job.id);
+    }
+
+    /** A job by id: in memory, or a failed/interrupted one left on disk by an earlier run. */
+    static get(id: string): Job | null {
+        if (!ID_RE.test(id)) return null;
+        const known = jobs.get(id);
+        if (known) return known;
+        if (!fs.existsSync(PROFILES_DIR)) return null;
+        for (const profile of fs.readdirSync(PROFILES_DIR)) {
+            const file = path.join(PROFILES_DIR, profile, JOBS_DIRNAME, id, JOB_FILE);
+            if (!fs.existsSync(file)) continue;
+            try {
+                const job: Job = JSON.parse(fs.readFileSync(file, "utf8"));
+                if (job.state === "queued" || job.state === "running") {
+                    // The process died mid-run; treat it as failed so it can be retried.
+                    job.state = "failed";
+                    job.retryable = true;
+                    job.error = { code: "SNB-9001", message: "Interrupted by a server restart" };
+                    for (const s of job.stages) if (s.state === "running") s.state = "failed";
+                }
+                jobs.set(id, job);
+                return job;
+            } catch (err) {
+                console.warn(`[jobs] ${file}: unreadable — ${err instanceof Error ? err.message : err}`);
+                return null;
+            }
+        }
+        return null;
+    }
+
+    static publicJob(job: Job): PublicJob {
+        const out: Partial<Job> = { ...job };
+        delete out.checkpoint;
+        return out as PublicJob;
+    }
+
+    /** Record a change: bump updatedAt, persist while the job dir exists, notify subscribers. */
+    static update(job: Job): void {
+        job.updatedAt = new Date().toISOString();
+        const dir = this.dir(job);
+        if (fs.existsSync(dir)) {
+            const tmp = path.join(dir, JOB_FILE + ".tmp");
+            fs.writeFileSync(tmp, JSON.stringify(job, null, 2));
+            fs.renameSync(tmp, path.join(dir, JOB_FILE));
+        }
+        events.emit(job.id, job);
+    }
+
+    /** Listen for changes to a job; returns the unsubscribe function. */
+    static subscribe(id: string, listener: (job: Job) => void): () => void {
+        events.on(id, listener);
+        return () => { events.off(id, listener); };
+    }
+
+    static isFinished(job: Job): boolean {
+        return job.state === "done" || job.state === "failed";
+    }
+
+    static setStage(job: Job, name: string, state: StageState): void {
+        const stage = job.stages.find(s => s.name === name);
+        if (!stage) throw new Error(`Unknown stage ${name} for ${job.kind} job`);
+        stage.state = state;
+        this.update(job);
+    }
+
+    /** Run `fn` as stage `name`, unless an earlier attempt already finished it. */
+    static async step(job: Job, name: string, fn: () => Promise<void> | void): Promise<void> {
+        if (job.stages.find(s => s.name === name)?.state === "done") return;
+        this.setStage(job, name, "running");
+        try {
+            await fn();
+        } catch (err) {
+            this.setStage(job, name, "failed");
+            throw err;
+        }
+        this.setStage(job, name, "done");
+    }
+
+    /** Drop a job that never started (e.g. an upload that carried no files). */
+    static discard(job: Job): void {
+        jobs.delete(job.id);
+        fs.rmSync(this.dir(job), { recursive: true, force: true });
+    }
+
+    /** Queue the job behind any running one. */
+    static start(job: Job): void {
+        queue = queue
+            .then(() => this.execute(job))
+            .catch(err => console.error(`[jobs] ${job.kind} job ${job.id}:`, err?.message || err));
+    }
+
+    /** Re-run a failed job from the stage that failed. Returns false if it can't be retried. */
+    static retry(job: Job): boolean {
+        if (job.state !== "failed" || !job.retryable || !runners.has(job.kind)) return false;
+        jobs.set(job.id, job);
+        job.state = "queued";
+        job.error = undefined;
+        for (const s of job.stages) if (s.state === "failed") s.state = "pending";
+        this.update(job);
+        this.start(job);
+        return true;
+    }
+
+    private static async execute(job: Job): Promise<void> {
+        const runner = runners.get(job.kind);
+        if (!runner) throw new Error(`No runner registered for ${job.kind} jobs`);
+
+        job.state = "running";
+        job.attempts++;
+        this.update(job);
+        try {
+            job.result = await runner.run(job);
+            job.state = "done";
+            job.progress.currentFile = null;
+            fs.rmSync(this.dir(job), { recursive: true, force: true });
+            this.update(job);
+            this.forgetOldJobs();
+        } catch (err) {
+            const { retryable, ...error } = runner.describeError(err);
+            console.error(`[jobs] ${job.kind} job ${job.id} failed (attempt ${job.attempts}):`, err instanceof Error ? err.message : err);
+            job.state = "failed";
+            job.error = error;
+            job.retryable = retryable;
+            if (!retryable) fs.rmSync(this.dir(job), { recursive: true, force: true });
+            this.update(job);
+        }
+    }
+
+    private static forgetOldJobs(): void {
+        const finished = [...jobs.values()].filter(j => this.isFinished(j) && !(j.state === "failed" && j.retryable));
+        for (const j of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED))) jobs.delete(j.id);
+    }
+}
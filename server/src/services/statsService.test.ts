@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const ROOT_DIR = await vi.hoisted(async () => {
+  const [fs, os, path] = await Promise.all([import("fs"), import("os"), import("path")]);
+  return fs.mkdtempSync(path.join(os.tmpdir(), "snobify-stats-"));
+});
+vi.mock("../config/index.js", async importOriginal => {
+  const config = await importOriginal<typeof import("../config/index.js")>();
+  return { ...config, ROOT_DIR, PROFILES_DIR: `${ROOT_DIR}/profiles`, CONFIG: { ...config.CONFIG, profilesDir: "profiles" } };
+});
+
+const { StatsService } = await import("./statsService.js");
+const { saveColumnMap } = await import("../ingest/columnAliases.js");
+
+afterAll(() => fs.rmSync(ROOT_DIR, { recursive: true, force: true }));
+
+describe("StatsService.getStats", () => {
+  it("recomputes once a saved column map changes how the files read", async () => {
+    const history = path.join(ROOT_DIR, "profiles", "remapped", "history");
+    fs.mkdirSync(history, { recursive: true });
+    fs.writeFileSync(path.join(history, "mix.csv"), [
+      "Track URI,Track Name,Artist Name(s),Added At,Hotness",
+      "spotify:track:a,Song A,Artist A,2020-01-01T00:00:00Z,20",
+      "spotify:track:b,Song B,Artist B,2020-02-01T00:00:00Z,40",
+    ].join("\n") + "\n");
+
+    const first = await StatsService.getStats("remapped");
+    expect(first.stats?.playlistRater.rarityScore).toBeNull();
+    expect((await StatsService.getStats("remapped")).cached).toBe(true);
+
+    saveColumnMap("remapped", { Hotness: "Popularity" });
+    const remapped = await StatsService.getStats("remapped");
+    expect(remapped.cached).toBe(false);
+    expect(remapped.stats?.playlistRater.rarityScore).toBe(70);
+  });
+});
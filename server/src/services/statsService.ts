@@ -0,0 +1,286 @@
+import fs from "fs";
+import { CONFIG, PROFILES_DIR } from "../config/index.js";
+import { artistDeepDive, type ArtistDeepDive } from "../compute/artist.js";
+import { benchmark, metricValues, profilePopulation, referencePopulation, type Benchmark, type BenchmarkPopulationName, type MetricValues } from "../compute/benchmark.js";
+import { compute } from "../compute/compute.js";
+import { tasteEvolution, type TasteEvolution } from "../compute/evolution.js";
+import { filterRows, computeOptions, isFiltered, statsQueryKey, type StatsQuery } from "../compute/filters.js";
+import { toPlays } from "../compute/plays.js";
+import { buildSessions, SESSION_DEFAULTS, type SessionsSummary } from "../compute/sessions.js";
+import { loadProfileSettings } from "../config/profileSettings.js";
+import { resolveScoring, type ResolvedScoring, type ScoringPresetName } from "../compute/scoring.js";
+import { computeWrapped, playYears, type Wrapped } from "../compute/wrapped.js";
+import { columnMapHash, loadColumnMap } from "../ingest/columnAliases.js";
+import { isSupportedFile, summarizeReports } from "../ingest/registry.js";
+import type { Stats } from "../common/types.js";
+import type { FileReport } from "../ingest/types.js";
+import { DataService, type DataPath } from "./dataService.js";
+import type { SyncProgress } from "./trackStore.js";
+
+// ── In-process stats cache ────────────────────────────────────────────────────
+// Key = "profile|normalised query[|scoring:<overrides digest>]" (or "profile|wrapped:<year>", "profile|sessions:<gap>:<tz>", "profile|artist:<name>", "profile|evolution"); each entry remembers the fingerprint (mtime+size
+// of all history files, plus the saved column map) it was computed from. A new
+// upload or a re-mapped header busts the cache instantly, without needing a TTL.
+interface CacheEntry { stats: unknown; fingerprint: string; cachedAt: number }
+const statsCache = new Map<string, CacheEntry>();
+const CACHE_MAX_AGE_MS = 10 * 60 * 1000; // safety ceiling: 10 minutes
+const CACHE_MAX_ENTRIES = 100;           // filtered views add up; evict the oldest
+
+function fingerprint(profile: string, dataPath: { isDirectory: boolean; path: string }): string {
+    const map = `map:${columnMapHash(loadColumnMap(profile))}`;
+    try {
+        if (dataPath.isDirectory) {
+            const files = fs.readdirSync(dataPath.path).filter(isSupportedFile).sort();
+            return [...files.map(f => {
+                const s = fs.statSync(`${dataPath.path}/${f}`);
+                return `${f}:${s.mtimeMs}:${s.size}`;
+            }), map].join("|");
+        }
+        const s = fs.statSync(dataPath.path);
+        return `${s.mtimeMs}:${s.size}|${map}`;
+    } catch {
+        return String(Date.now()); // on error, don't cache
+    }
+}
+
+function getCachedStats<T>(key: string, fp: string): T | null {
+    const entry = statsCache.get(key);
+    if (!entry) return null;
+    if (entry.fingerprint !== fp) { statsCache.delete(key); return null; }
+    if (Date.now() - entry.cachedAt > CACHE_MAX_AGE_MS) { statsCache.delete(key); return null; }
+    return entry.stats as T;
+}
+
+function setCachedStats<T>(key: string, fp: string, stats: T): void {
+    statsCache.delete(key);
+    statsCache.set(key, { stats, fingerprint: fp, cachedAt: Date.now() });
+    if (statsCache.size > CACHE_MAX_ENTRIES) statsCache.delete(statsCache.keys().next().value!);
+}
+
+export type StatsStage = "ingest" | "compute";
+
+export interface StatsHooks {
+    onStage?: (stage: StatsStage) => void;
+    onIngest?: (p: SyncProgress) => void;
+}
+
+/**
+ * `stats` is null when the profile's files held no usable rows; `files` then
+ * carries the ingest reports explaining why. A query that matches nothing
+ * still gets stats, with zero rows.
+ */
+export type StatsResult = { stats: Stats | null; cached: boolean; dataPath: DataPath; files: FileReport[] };
+
+/** `wrapped` is null when the requested year has no plays; `years` lists the ones that do. */
+export type WrappedResult = { wrapped: Wrapped | null; years: number[]; cached: boolean };
+
+/** `sessions` is null when the profile has no timestamped plays. */
+export type SessionsResult = { sessions: SessionsSummary | null; cached: boolean };
+
+/** `artist` is null when no track in the profile credits them. */
+export type ArtistResult = { artist: ArtistDeepDive | null; cached: boolean };
+
+/** `evolution` is null when no timestamped play has genre data. */
+export type EvolutionResult = { evolution: TasteEvolution | null; cached: boolean };
+
+/** `benchmark` is null when the profile's files held no usable rows. */
+export type BenchmarkResult = { benchmark: Benchmark | null };
+
+/** Every other profile with data, by directory name. */
+function peerProfiles(profile: string): string[] {
+    if (!fs.existsSync(PROFILES_DIR)) return [];
+    return fs.readdirSync(PROFILES_DIR, { withFileTypes: true })
+        .filter(e => e.isDirectory() && e.name !== profile && DataService.getDataPath(e.name) !== null)
+        .map(e => e.name)
+        .sort();
+}
+
+/** Drop the zone when it's UTC, compute's default, so both spellings share a cache entry. */
+function withTimeZone(query: StatsQuery, timeZone: string): StatsQuery {
+    const q: StatsQuery = { ...query, timeZone };
+    if (timeZone === "UTC") delete q.timeZone;
+    return q;
+}
+
+/** Pin the resolved preset into the query; "default" is dropped so it shares the unset entry. */
+function withScoring(query: StatsQuery, preset: ScoringPresetName): StatsQuery {
+    const q: StatsQuery = { ...query, scoring: preset };
+    if (preset === "default") delete q.scoring;
+    return q;
+}
+
+export class StatsService {
+    /** The zone plays are read in: an explicit ?tz=, else the profile's settings.json, else UTC. */
+    static timeZoneOf(profile: string, tz?: string): string {
+        return tz ?? loadProfileSettings(profile).timeZone ?? "UTC";
+    }
+
+    /** Scorer weights and thresholds: the ?scoring= preset, else the profile's, else the config's, over both layers of overrides. */
+    static scoringOf(profile: string, preset?: ScoringPresetName): ResolvedScoring {
+        return resolveScoring(preset, CONFIG.scoring, loadProfileSettings(profile).scoring);
+    }
+
+    /** Stats for a profile, computed once per query and version of its files. Throws "DataNotFound". */
+    static async getStats(profile: string, query: StatsQuery = {}, hooks: StatsHooks = {}): Promise<StatsResult> {
+        const dataPath = DataService.getDataPath(profile);
+        if (!dataPath) {
+            throw new Error("DataNotFound");
+        }
+        query = withTimeZone(query, this.timeZoneOf(profile, query.timeZone));
+        const scoring = this.scoringOf(profile, query.scoring);
+        query = withScoring(query, scoring.preset);
+
+        const key = `${profile}|${statsQueryKey(query)}${scoring.overrides ? `|scoring:${scoring.overrides}` : ""}`;
+        const fp = fingerprint(profile, dataPath);
+        const cached = getCachedStats<Stats>(key, fp);
+        if (cached) return { stats: cached, cached: true, dataPath, files: [] };
+
+        hooks.onStage?.("ingest");
+        const { rows: allRows, files } = await DataService.ingest(profile, hooks.onIngest);
+        console.log(`Loaded ${allRows.length} tracks from ${dataPath.type}`);
+        if (allRows.length === 0) return { stats: null, cached: false, dataPath, files };
+        const rows = filterRows(allRows, query);
+
+        hooks.onStage?.("compute");
+        const dts = rows
+            .map(r => new Date(r["Played At"] || r["Added At"] || r["Release Date"] || ""))
+            .filter(d => !isNaN(d.getTime()))
+            .sort((a, b) => a.getTime() - b.getTime());
+
+        const stats = compute(rows, {
+            ...computeOptions(query), dropPreSpotify: CONFIG.ingest.dropPreSpotify, scoring: scoring.scoring.library,
+        });
+        const ingest = summarizeReports(files);
+        stats.meta.files = ingest.recognised;
+        stats.meta.skipped = ingest.rejected;
+        stats.meta.scoring = scoring.preset;
+
+        // plug a stable hash if missing
+        if (!stats.meta.hash) {
+            const firstDateISO = (dates: Date[]) => dates.length ? dates[0].toISOString() : "";
+            const lastDateISO  = (dates: Date[]) => dates.length ? dates[dates.length - 1].toISOString() : "";
+            const h = String(rows.length) + ":" + firstDateISO(dts) + ":" + lastDateISO(dts)
+                + (isFiltered(query) ? ":" + statsQueryKey(query) : "");
+            stats.meta.hash = Buffer.from(h).toString("base64url");
+        }
+
+        setCachedStats(key, fp, stats);
+        return { stats, cached: false, dataPath, files };
+    }
+
+    /** Year-in-review for `year`, or the latest year with plays. Throws "DataNotFound". */
+    static async getWrapped(profile: string, year?: number): Promise<WrappedResult> {
+        const dataPath = DataService.getDataPath(profile);
+        if (!dataPath) {
+            throw new Error("DataNotFound");
+        }
+
+        const fp = fingerprint(profile, dataPath);
+        if (year !== undefined) {
+            const cached = getCachedStats<Wrapped>(`${profile}|wrapped:${year}`, fp);
+            if (cached) return { wrapped: cached, years: cached.years, cached: true };
+        }
+
+        const { rows } = await DataService.ingest(profile);
+        const plays = toPlays(rows);
+        const years = playYears(plays);
+        const y = year ?? years[0];
+        if (y === undefined || !years.includes(y)) return { wrapped: null, years, cached: false };
+
+        const { stats } = await this.getStats(profile, { from: `${y}-01-01`, to: `${y}-12-31` });
+        if (!stats) return { wrapped: null, years, cached: false };
+        const wrapped = computeWrapped(y, plays, stats);
+        setCachedStats(`${profile}|wrapped:${y}`, fp, wrapped);
+        return { wrapped, years, cached: false };
+    }
+
+    /** Listening sessions split at `gapMinutes` of silence. Throws "DataNotFound". */
+    static async getSessions(profile: string, gapMinutes = SESSION_DEFAULTS.gapMinutes, tz?: string): Promise<SessionsResult> {
+        const dataPath = DataService.getDataPath(profile);
+        if (!dataPath) {
+            throw new Error("DataNotFound");
+        }
+
+        const timeZone = this.timeZoneOf(profile, tz);
+        const key = `${profile}|sessions:${gapMinutes}:${timeZone}`;
+        const fp = fingerprint(profile, dataPath);
+        const cached = getCachedStats<SessionsSummary>(key, fp);
+        if (cached) return { sessions: cached, cached: true };
+
+        const { rows } = await DataService.ingest(profile);
+        const sessions = buildSessions(rows, { gapMinutes, timeZone });
+        if (!sessions.totals.sessions) return { sessions: null, cached: false };
+
+        setCachedStats(key, fp, sessions);
+        return { sessions, cached: false };
+    }
+
+    /** Deep dive on one artist, matched case-insensitively. Throws "DataNotFound". */
+    static async getArtist(profile: string, name: string): Promise<ArtistResult> {
+        const dataPath = DataService.getDataPath(profile);
+        if (!dataPath) {
+            throw new Error("DataNotFound");
+        }
+
+        const key = `${profile}|artist:${name.trim().toLowerCase()}`;
+        const fp = fingerprint(profile, dataPath);
+        const cached = getCachedStats<ArtistDeepDive>(key, fp);
+        if (cached) return { artist: cached, cached: true };
+
+        const { stats } = await this.getStats(profile);
+        if (!stats) return { artist: null, cached: false };
+        const { rows } = await DataService.ingest(profile);
+        const artist = artistDeepDive(rows, name, stats.taste);
+        if (!artist) return { artist: null, cached: false };
+
+        setCachedStats(key, fp, artist);
+        return { artist, cached: false };
+    }
+
+    /** Genre-family shares by quarter of play, with drift and eras. Throws "DataNotFound". */
+    static async getEvolution(profile: string): Promise<EvolutionResult> {
+        const dataPath = DataService.getDataPath(profile);
+        if (!dataPath) {
+            throw new Error("DataNotFound");
+        }
+
+        const key = `${profile}|evolution`;
+        const fp = fingerprint(profile, dataPath);
+        const cached = getCachedStats<TasteEvolution>(key, fp);
+        if (cached) return { evolution: cached, cached: true };
+
+        const { rows } = await DataService.ingest(profile);
+        const evolution = tasteEvolution(rows);
+        if (!evolution) return { evolution: null, cached: false };
+
+        setCachedStats(key, fp, evolution);
+        return { evolution, cached: false };
+    }
+
+    /**
+     * Percentile ranks of the profile's whole-library metrics. "auto" ranks
+     * against the other local profiles once there are CONFIG.benchmark.minProfiles
+     * of them, else against the bundled reference. Peers are scored with the same
+     * preset; each one's stats come from (and fill) the stats cache. Throws "DataNotFound".
+     */
+    static async getBenchmark(
+        profile: string, population: BenchmarkPopulationName = CONFIG.benchmark.population, preset?: ScoringPresetName,
+    ): Promise<BenchmarkResult> {
+        const scoring = this.scoringOf(profile, preset);
+        const { stats } = await this.getStats(profile, { scoring: scoring.preset });
+        if (!stats) return { benchmark: null };
+
+        const peers = population === "reference" ? [] : peerProfiles(profile);
+        const usePeers = population === "profiles" || (population === "auto" && peers.length >= CONFIG.benchmark.minProfiles);
+        let ranked = referencePopulation();
+        if (usePeers) {
+            const listeners: MetricValues[] = [];
+            for (const peer of peers) {
+                const { stats: s } = await this.getStats(peer, { scoring: scoring.preset });
+                if (s) listeners.push(metricValues(s));
+            }
+            ranked = profilePopulation(listeners, scoring.preset);
+        }
+        return { benchmark: benchmark(metricValues(stats), ranked, scoring.overrides ? null : scoring.preset) };
+    }
+}
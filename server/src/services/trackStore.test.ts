@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const PROFILES_DIR = await vi.hoisted(async () => {
+  const [fs, os, path] = await Promise.all([import("fs"), import("os"), import("path")]);
+  return fs.mkdtempSync(path.join(os.tmpdir(), "snobify-store-"));
+});
+vi.mock("../config/index.js", async importOriginal => ({
+  ...await importOriginal<typeof import("../config/index.js")>(),
+  PROFILES_DIR,
+}));
+
+const { TrackStore } = await import("./trackStore.js");
+
+const HEADER = "Track URI,Track Name,Artist Name(s),Popularity";
+const csv = (...uris: string[]) => [HEADER, ...uris.map(u => `${u},Song ${u.slice(-1)},Artist ${u.slice(-1)},50`)].join("\n") + "\n";
+const play = (uri: string, ts: string) => ({ ts, ms_played: 180000, spotify_track_uri: uri, master_metadata_track_name: "Song", master_metadata_album_artist_name: "Artist" });
+
+let profile = "";
+let source = "";
+const write = (name: string, body: unknown) =>
+  fs.writeFileSync(path.join(source, name), typeof body === "string" ? body : JSON.stringify(body));
+
+beforeEach(({ task }) => {
+  profile = task.name.replace(/\W+/g, "-");
+  source = path.join(PROFILES_DIR, profile, "history");
+  fs.mkdirSync(source, { recursive: true });
+});
+
+afterAll(() => fs.rmSync(PROFILES_DIR, { recursive: true, force: true }));
+
+describe("TrackStore.sync", () => {
+  it("keeps a track once per playlist", async () => {
+    write("road trip.csv", csv("spotify:track:a", "spotify:track:b"));
+    write("focus.csv", csv("spotify:track:a"));
+    const { rows, files } = await TrackStore.sync(profile, source);
+    expect(rows).toHaveLength(3);
+    expect(files.map(f => [f.file, f.rows, f.skipped])).toEqual([["focus.csv", 1, 0], ["road trip.csv", 2, 0]]);
+  });
+
+  it("reports every row of a file as accepted or rejected", async () => {
+    write("mix.csv", csv("spotify:track:a", "spotify:track:a", "spotify:track:b"));
+    write("Streaming_History_Audio_2024.json", [
+      play("spotify:track:a", "2024-01-01T10:00:00Z"),
+      play("spotify:track:a", "2024-01-01T10:00:00Z"),
+      play("spotify:track:b", "2024-01-01T10:05:00Z"),
+    ]);
+    const { rows, files } = await TrackStore.sync(profile, source);
+    expect(rows).toHaveLength(4);
+    for (const f of files) {
+      expect(f.rows + f.skipped).toBe(3);
+      expect(f.rejected).toEqual({ duplicate: 1 });
+      expect(f.samples[0]).toMatchObject({ reason: "duplicate", detail: "repeated within this file" });
+    }
+  });
+
+  it("drops a play another file already stored, and takes it back when that file goes", async () => {
+    write("Streaming_History_Audio_2023.json", [play("spotify:track:a", "2023-12-31T23:00:00Z")]);
+    write("Streaming_History_Audio_2024.json", [play("spotify:track:a", "2023-12-31T23:00:00Z"), play("spotify:track:b", "2024-01-02T08:00:00Z")]);
+    const first = await TrackStore.sync(profile, source);
+    expect(first.rows).toHaveLength(2);
+    expect(first.files[1]).toMatchObject({ rows: 1, skipped: 1, rejected: { duplicate: 1 } });
+    expect(first.files[1].samples[0].detail).toBe("already stored from Streaming_History_Audio_2023.json");
+
+    fs.rmSync(path.join(source, "Streaming_History_Audio_2023.json"));
+    const second = await TrackStore.sync(profile, source);
+    expect(second.rows).toHaveLength(2);
+    expect(second.files).toEqual([expect.objectContaining({ file: "Streaming_History_Audio_2024.json", rows: 2, skipped: 0 })]);
+  });
+
+  it("only re-ingests files whose content changed", async () => {
+    write("a.csv", csv("spotify:track:a"));
+    write("b.csv", csv("spotify:track:b"));
+    const ingested = async () => {
+      const files: string[] = [];
+      const { rows } = await TrackStore.sync(profile, source, p => files.push(p.file));
+      return { files, rows: rows.length };
+    };
+    expect(await ingested()).toEqual({ files: ["a.csv", "b.csv"], rows: 2 });
+    expect(await ingested()).toEqual({ files: [], rows: 2 });
+
+    write("b.csv", csv("spotify:track:b", "spotify:track:c"));
+    expect(await ingested()).toEqual({ files: ["b.csv"], rows: 3 });
+  });
+
+  it("survives a restart from what's on disk", async () => {
+    write("a.csv", csv("spotify:track:a", "spotify:track:b"));
+    await TrackStore.sync(profile, source);
+    vi.resetModules();
+    const { TrackStore: Reloaded } = await import("./trackStore.js");
+    const progress = vi.fn();
+    const { rows } = await Reloaded.sync(profile, source, progress);
+    expect(rows).toHaveLength(2);
+    expect(progress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,272 @@
+import path from "path";
+import fs from "fs";
+import crypto from "crypto";
+import readline from "readline";
+import { PROFILES_DIR } from "../config/index.js";
+import { ingestFile, listSupportedFiles, recordReject } from "../ingest/registry.js";
+import { columnMapHash, loadColumnMap } from "../ingest/columnAliases.js";
+import { linkIdentities } from "../ingest/identity.js";
+import type { FileReport, IngestResult, IngestRow } from "../ingest/types.js";
+
+/**
+ * Persistent per-profile track store.
+ *
+ * Lives under `profiles/<name>/.store/`:
+ *   manifest.json — one entry per source file: content hash, stat, ingest report
+ *   rows.ndjson   — append-only, one normalised IngestRow per line
+ *
+ * `sync` hashes the profile's source files and only runs the ingest registry on
+ * files that are new or whose content changed. Rows from changed/removed files
+ * are compacted out first. Plays are deduped on (Track URI, Played At); rows
+ * without a play time (playlist CSVs) are keyed by their playlist instead, so the
+ * same track in two playlists still counts for both. Rows are handed out after
+ * identity linking (ingest/identity.ts), which is recomputed only on change.
+ *
+ * Bump STORE_VERSION whenever row normalisation changes — stores written by an
+ * older version are rebuilt from scratch on the next sync, as are stores built
+ * with a different saved column mapping.
+ */
+
+const STORE_VERSION = 7;
+const STORE_DIRNAME = ".store";
+const MANIFEST_FILE = "manifest.json";
+const ROWS_FILE = "rows.ndjson";
+
+type ManifestEntry = {
+    hash: string;
+    size: number;
+    mtimeMs: number;
+    report: FileReport;
+};
+
+type Manifest = {
+    version: number;
+    source: string;
+    columnMap: string;      // columnMapHash of the profile's saved mapping
+    files: Record<string, ManifestEntry>;
+};
+
+/** Reported after each file a sync ingests. */
+export type SyncProgress = {
+    file: string;
+    filesDone: number;
+    filesTotal: number;
+    rows: number;       // rows accepted so far in this sync
+    rejected: number;   // rows rejected so far in this sync, all reasons
+};
+
+// keys: dedupe key → name of the file that owns the stored row
+// linked: rows after identity linking, rebuilt lazily whenever `rows` changes
+interface Loaded { manifest: Manifest; rows: IngestRow[]; keys: Map<string, string>; linked?: IngestRow[] }
+
+const loaded = new Map<string, Loaded>();
+const inflight = new Map<string, Promise<IngestResult>>();
+
+export function rowKey(r: IngestRow): string {
+    const playedAt = r["Played At"];
+    return playedAt
+        ? `${r["Track URI"]}|${playedAt}`
+        : `${r["Track URI"]}|playlist:${r._src.playlist ?? r._src.file}`;
+}
+
+function keyIndex(rows: IngestRow[]): Map<string, string> {
+    return new Map(rows.map(r => [rowKey(r), r._src.file]));
+}
+
+/** sha1 of a file's content, streamed so multi-GB uploads never sit in memory. */
+export function hashFile(file: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const h = crypto.createHash("sha1");
+        fs.createReadStream(file)
+            .on("error", reject)
+            .on("data", chunk => h.update(chunk))
+            .on("end", () => resolve(h.digest("hex")));
+    });
+}
+
+export class TrackStore {
+    static dir(profile: string): string {
+        return path.join(PROFILES_DIR, profile, STORE_DIRNAME);
+    }
+
+    /**
+     * Bring the store up to date with `sourcePath` and return every stored row.
+     * `onProgress` only fires if this call starts the sync (not when joining one in flight).
+     */
+    static async sync(profile: string, sourcePath: string, onProgress?: (p: SyncProgress) => void): Promise<IngestResult> {
+        // Concurrent page loads for one profile share a single sync.
+        const pending = inflight.get(profile);
+        if (pending) return pending;
+
+        const job = this.doSync(profile, sourcePath, onProgress).finally(() => inflight.delete(profile));
+        inflight.set(profile, job);
+        return job;
+    }
+
+    /** Drop the persisted store; the next sync re-ingests everything. */
+    static clear(profile: string): void {
+        loaded.delete(profile);
+        fs.rmSync(this.dir(profile), { recursive: true, force: true });
+    }
+
+    private static async doSync(profile: string, sourcePath: string, onProgress?: (p: SyncProgress) => void): Promise<IngestResult> {
+        const dir = this.dir(profile);
+        const rowsFile = path.join(dir, ROWS_FILE);
+        const columnMap = loadColumnMap(profile);
+        const mapHash = columnMapHash(columnMap);
+        let store = loaded.get(profile) ?? await this.load(profile);
+        if (store.manifest.version !== STORE_VERSION || store.manifest.source !== sourcePath || store.manifest.columnMap !== mapHash) {
+            this.clear(profile);
+            store = this.empty(sourcePath, mapHash);
+        }
+
+        // Stat first; only hash files whose size or mtime moved.
+        const current = new Map<string, { file: string; size: number; mtimeMs: number; hash?: string }>();
+        for (const file of listSupportedFiles(sourcePath)) {
+            const name = path.basename(file);
+            const s = fs.statSync(file);
+            const prev = store.manifest.files[name];
+            const hash = prev && prev.size === s.size && prev.mtimeMs === s.mtimeMs
+                ? prev.hash
+                : await hashFile(file);
+            current.set(name, { file, size: s.size, mtimeMs: s.mtimeMs, hash });
+        }
+
+        const stale = Object.keys(store.manifest.files).filter(name => current.get(name)?.hash !== store.manifest.files[name].hash);
+        const fresh = [...current.keys()].filter(name => store.manifest.files[name]?.hash !== current.get(name)!.hash);
+
+        if (stale.length === 0 && fresh.length === 0) {
+            // Same content, new mtime (re-upload of an identical file): remember
+            // the new stat so the next sync skips hashing again.
+            if (this.refreshStats(store.manifest, current)) this.writeManifest(dir, store.manifest);
+            loaded.set(profile, store);
+            return this.result(store);
+        }
+
+        fs.mkdirSync(dir, { recursive: true });
+        if (!fs.existsSync(rowsFile)) fs.writeFileSync(rowsFile, "");
+        store.linked = undefined;
+
+        // Removing a file can un-shadow duplicates it owned, so unchanged files
+        // that lost rows to dedupe get re-ingested alongside the fresh ones.
+        const toIngest = new Set(fresh);
+        if (stale.length > 0) {
+            const staleSet = new Set(stale);
+            store.rows = store.rows.filter(r => !staleSet.has(r._src.file));
+            store.keys = keyIndex(store.rows);
+            for (const name of stale) delete store.manifest.files[name];
+            for (const [name, entry] of Object.entries(store.manifest.files)) {
+                if (entry.report.rejected.duplicate) toIngest.add(name);
+            }
+            await fs.promises.writeFile(rowsFile, store.rows.map(r => JSON.stringify(r) + "\n").join(""));
+        }
+
+        const queue = [...current.keys()].filter(n => toIngest.has(n));
+        const progress: SyncProgress = { file: "", filesDone: 0, filesTotal: queue.length, rows: 0, rejected: 0 };
+        for (const name of queue) {
+            const c = current.get(name)!;
+            const batch: IngestRow[] = [];
+            const report = await ingestFile(c.file, batch, columnMap);
+            const accepted: IngestRow[] = [];
+            const seen = new Set<string>();   // keys this file has already yielded in this pass
+            for (const r of batch) {
+                const key = rowKey(r);
+                const owner = store.keys.get(key);
+                const repeat = seen.has(key);
+                seen.add(key);
+                if (owner === name && !repeat) continue;   // re-ingest of an unchanged file: already stored
+                if (owner !== undefined) {
+                    report.rows--;
+                    recordReject(report, "duplicate", {
+                        at: r["Played At"] ? `played ${r["Played At"]}` : `playlist ${r._src.playlist ?? name}`,
+                        detail: owner === name ? "repeated within this file" : `already stored from ${owner}`,
+                        raw: `${r["Track URI"]} — ${r["Track Name"]}`,
+                    });
+                    continue;
+                }
+                store.keys.set(key, name);
+                accepted.push(r);
+            }
+
+            if (accepted.length) {
+                store.rows.push(...accepted);
+                await fs.promises.appendFile(rowsFile, accepted.map(r => JSON.stringify(r) + "\n").join(""));
+            }
+            store.manifest.files[name] = { hash: c.hash!, size: c.size, mtimeMs: c.mtimeMs, report };
+            progress.file = name;
+            progress.filesDone++;
+            progress.rows += report.rows;
+            progress.rejected += report.skipped;
+            onProgress?.({ ...progress });
+        }
+
+        this.refreshStats(store.manifest, current);
+        this.writeManifest(dir, store.manifest);
+        loaded.set(profile, store);
+        console.log(`[store] ${profile}: ingested ${toIngest.size} file(s), dropped ${stale.length}; ${store.rows.length} rows stored`);
+        return this.result(store);
+    }
+
+    private static empty(source: string, columnMap = ""): Loaded {
+        return { manifest: { version: STORE_VERSION, source, columnMap, files: {} }, rows: [], keys: new Map() };
+    }
+
+    private static async load(profile: string): Promise<Loaded> {
+        const dir = this.dir(profile);
+        const manifestFile = path.join(dir, MANIFEST_FILE);
+        const rowsFile = path.join(dir, ROWS_FILE);
+        if (!fs.existsSync(manifestFile) || !fs.existsSync(rowsFile)) return this.empty("");
+
+        let manifest: Manifest;
+        try {
+            manifest = JSON.parse(fs.readFileSync(manifestFile, "utf8"));
+        } catch (err: any) {
+            console.warn(`[store] ${profile}: unreadable manifest, rebuilding — ${err?.message || err}`);
+            return this.empty("");
+        }
+
+        let rows: IngestRow[] = [];
+        let torn = false;
+        const lines = readline.createInterface({ input: fs.createReadStream(rowsFile), crlfDelay: Infinity });
+        for await (const line of lines) {
+            if (!line) continue;
+            try {
+                rows.push(JSON.parse(line));
+            } catch {
+                torn = true;
+            }
+        }
+
+        // An interrupted sync can leave appended rows whose file never made it
+        // into the manifest; drop them so that file is re-ingested cleanly.
+        const known = rows.filter(r => r._src && manifest.files[r._src.file]);
+        if (torn || known.length !== rows.length) {
+            rows = known;
+            await fs.promises.writeFile(rowsFile, rows.map(r => JSON.stringify(r) + "\n").join(""));
+        }
+        return { manifest, rows, keys: keyIndex(rows) };
+    }
+
+    private static refreshStats(manifest: Manifest, current: Map<string, { size: number; mtimeMs: number }>): boolean {
+        let changed = false;
+        for (const [name, c] of current) {
+            const entry = manifest.files[name];
+            if (!entry || (entry.size === c.size && entry.mtimeMs === c.mtimeMs)) continue;
+            entry.size = c.size;
+            entry.mtimeMs = c.mtimeMs;
+            changed = true;
+        }
+        return changed;
+    }
+
+    private static writeManifest(dir: string, manifest: Manifest): void {
+        const tmp = path.join(dir, MANIFEST_FILE + ".tmp");
+        fs.writeFileSync(tmp, JSON.stringify(manifest, null, 2));
+        fs.renameSync(tmp, path.join(dir, MANIFEST_FILE));
+    }
+
+    private static result(store: Loaded): IngestResult {
+        store.linked ??= linkIdentities(store.rows);
+        return { rows: store.linked.slice(), files: Object.values(store.manifest.files).map(e => e.report) };
+    }
+}
@@ -0,0 +1,356 @@
+import path from "path";
+import fs from "fs";
+import { PROFILES_DIR, ROOT_DIR } from "../config/index.js";
+import { describeColumns, detectAdapter, isSupportedFile, probeFile } from "../ingest/registry.js";
+import { loadColumnMap } from "../ingest/columnAliases.js";
+import { extractZipEntry, isZipFile, listZipEntries, type ZipEntry } from "../ingest/readZip.js";
+import type { FileReport } from "../ingest/types.js";
+import ERROR_CODE from "../common/errors.js";
+import { DataService } from "./dataService.js";
+import { StatsService } from "./statsService.js";
+import { hashFile } from "./trackStore.js";
+import { JobService, type Job } from "./jobService.js";
+
+/**
+ * Places uploaded files into a profile's `history/` directory, as a background job.
+ *
+ * The upload route streams every part into the job's directory (stage
+ * "receive") and returns the job id; the rest runs in the background:
+ *   extract — zip archives are expanded (folders flattened, `__MACOSX` and dotfiles skipped)
+ *   detect  — files no ingest adapter recognises are dropped and listed under
+ *             `ignored`, except CSVs with a readable header, which are kept
+ *             with `adapter: null` so the setup UI can ask for a mapping
+ *   place   — files move into `history/` according to the mode
+ *   ingest  — the profile's track store syncs (rows parsed / rejected per file)
+ *   compute — stats are computed and cached, so the first page load is instant
+ *
+ * Modes:
+ *   append  — existing files stay; a name clash gets a numeric suffix
+ *   replace — every existing history file is removed first
+ *   merge   — existing files stay; byte-identical uploads are ignored, a file
+ *             with an existing name supersedes it, and new files whose rows
+ *             are all already stored are dropped again after ingest
+ *
+ * A legacy single `history.csv` is moved into `history/` on append/merge so
+ * it keeps counting alongside the new files.
+ */
+
+export const UPLOAD_MODES = ["append", "replace", "merge"] as const;
+export type UploadMode = typeof UPLOAD_MODES[number];
+
+export const UPLOAD_STAGES = ["receive", "extract", "detect", "place", "ingest", "compute"];
+
+export type StagedFile = { name: string; tmpPath: string; size: number };
+export type IgnoredFile = { name: string; reason: string };
+export type SavedFile = {
+    filename: string;
+    size: number;
+    path: string;
+    adapter: string | null;
+    rows?: number;          // rows accepted from this file
+    duplicates?: number;    // rows already stored from another file, or repeated within this one
+};
+
+export type UploadResult = {
+    profile: string;
+    mode: UploadMode;
+    uploaded: number;
+    files: SavedFile[];
+    added: string[];
+    replaced: string[];
+    ignored: IgnoredFile[];
+    unmapped: string[];
+    rows: number | null;
+};
+
+type Accepted = StagedFile & { adapter: string | null };
+
+// What each stage leaves behind for the next one (and for a retry).
+type UploadCheckpoint = {
+    mode: UploadMode;
+    staged: StagedFile[];
+    ignored: IgnoredFile[];
+    accepted?: Accepted[];
+    placed?: { saved: SavedFile[]; added: string[]; replaced: string[] };
+    rows?: number;
+};
+
+export type UploadJob = Job<UploadCheckpoint, UploadResult>;
+
+const HISTORY_DIRNAME = "history";
+const SINGLE_CSV = "history.csv";
+const MAX_ARCHIVE_ENTRIES = 5000;
+const MAX_ARCHIVE_BYTES = 2 * 1024 * 1024 * 1024; // uncompressed, per archive
+
+/** `name`, or `name_<n>.ext` for the first n that isn't taken. */
+function uniqueName(name: string, taken: (candidate: string) => boolean): string {
+    if (!taken(name)) return name;
+    const ext = path.extname(name);
+    const base = name.slice(0, name.length - ext.length);
+    let n = 1;
+    while (taken(`${base}_${n}${ext}`)) n++;
+    return `${base}_${n}${ext}`;
+}
+
+export class UploadService {
+    /** Filesystem-safe version of an uploaded or archived file name. */
+    static safeName(name: string): string {
+        return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+    }
+
+    static isMode(value: string): value is UploadMode {
+        return (UPLOAD_MODES as readonly string[]).includes(value);
+    }
+
+    /** A new upload job, in its "receive" stage; stream parts into `JobService.dir(job)`. */
+    static createJob(profile: string, mode: UploadMode): UploadJob {
+        const job = JobService.create<UploadCheckpoint, UploadResult>("upload", profile, UPLOAD_STAGES, { mode, staged: [], ignored: [] });
+        JobService.setStage(job, "receive", "running");
+        return job;
+    }
+
+    static received(job: UploadJob, file: StagedFile): void {
+        job.checkpoint.staged.push(file);
+        job.progress.filesReceived++;
+        job.progress.bytesReceived += file.size;
+        JobService.update(job);
+    }
+
+    /** Everything has arrived: queue the job. */
+    static submit(job: UploadJob): void {
+        JobService.setStage(job, "receive", "done");
+        JobService.start(job);
+    }
+
+    /** The job runner: every stage after "receive", skipping any an earlier attempt finished. */
+    static async run(job: UploadJob): Promise<UploadResult> {
+        const cp = job.checkpoint;
+        const profile = job.profile;
+
+        await JobService.step(job, "extract", async () => {
+            cp.staged = await this.expandArchives(job, cp.staged.filter(f => fs.existsSync(f.tmpPath)), cp.ignored);
+        });
+
+        await JobService.step(job, "detect", () => {
+            cp.accepted = this.recognise(profile, cp.staged, cp.ignored);
+            job.progress.filesAccepted = cp.accepted.length;
+            if (cp.accepted.length === 0) throw new Error("NoSupportedFiles");
+        });
+
+        await JobService.step(job, "place", async () => {
+            cp.placed = await this.place(profile, cp.accepted!.filter(f => fs.existsSync(f.tmpPath)), cp.mode, cp.ignored);
+        });
+
+        const placed = cp.placed!;
+        const histDir = path.join(PROFILES_DIR, profile, HISTORY_DIRNAME);
+        await JobService.step(job, "ingest", async () => {
+            placed.saved = placed.saved.filter(f => fs.existsSync(path.join(histDir, f.filename)));
+            let result = await DataService.ingest(profile, p => {
+                job.progress.filesToIngest = p.filesTotal;
+                job.progress.filesIngested = p.filesDone;
+                job.progress.rowsParsed = p.rows;
+                job.progress.rowsRejected = p.rejected;
+                job.progress.currentFile = p.file;
+                JobService.update(job);
+            });
+            this.annotate(placed.saved, result.files);
+
+            if (cp.mode === "merge") {
+                const redundant = placed.saved.filter(f => placed.added.includes(f.filename) && f.rows === 0 && (f.duplicates ?? 0) > 0);
+                for (const f of redundant) {
+                    fs.rmSync(path.join(histDir, f.filename), { force: true });
+                    placed.saved.splice(placed.saved.indexOf(f), 1);
+                    placed.added.splice(placed.added.indexOf(f.filename), 1);
+                    cp.ignored.push({ name: f.filename, reason: `all ${f.duplicates} rows already present` });
+                }
+                if (redundant.length) result = await DataService.ingest(profile);
+            }
+            cp.rows = result.rows.length;
+        });
+
+        await JobService.step(job, "compute", async () => {
+            job.progress.currentFile = null;
+            await StatsService.getStats(profile);
+        });
+
+        return {
+            profile,
+            mode: cp.mode,
+            uploaded: placed.saved.length,
+            files: placed.saved,
+            added: placed.added,
+            replaced: placed.replaced,
+            ignored: cp.ignored,
+            unmapped: placed.saved.filter(f => f.adapter === null).map(f => f.filename),
+            rows: cp.rows ?? null,
+        };
+    }
+
+    static describeError(err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (message === "NoSupportedFiles") {
+            return {
+                code: ERROR_CODE.CsvMissing,
+                message: "No supported files uploaded",
+                hint: "Attach at least one playlist .csv (with a 'Track URI' column), Streaming_History_Audio_*.json file, or a .zip of them.",
+                retryable: false,
+            };
+        }
+        return { code: ERROR_CODE.Unknown, message: message || String(err), retryable: true };
+    }
+
+    /** Move accepted files into `history/` according to `mode`. */
+    private static async place(profile: string, accepted: Accepted[], mode: UploadMode, ignored: IgnoredFile[]) {
+        const profileDir = path.join(PROFILES_DIR, profile);
+        const histDir = path.join(profileDir, HISTORY_DIRNAME);
+        const singlePath = path.join(profileDir, SINGLE_CSV);
+        fs.mkdirSync(histDir, { recursive: true });
+        const existing = new Set(fs.readdirSync(histDir).filter(isSupportedFile));
+        const replaced: string[] = [];
+
+        if (mode === "replace") {
+            for (const f of existing) fs.unlinkSync(path.join(histDir, f));
+            replaced.push(...existing);
+            existing.clear();
+            if (fs.existsSync(singlePath)) {
+                fs.unlinkSync(singlePath);
+                replaced.push(SINGLE_CSV);
+            }
+        } else if (fs.existsSync(singlePath)) {
+            // DataService prefers history.csv over the directory; fold it in so both count.
+            const moved = uniqueName(SINGLE_CSV, n => existing.has(n));
+            fs.renameSync(singlePath, path.join(histDir, moved));
+            existing.add(moved);
+        }
+
+        if (mode === "merge") {
+            const known = new Map<string, string>();
+            for (const f of existing) known.set(await hashFile(path.join(histDir, f)), f);
+            const unique: Accepted[] = [];
+            for (const file of accepted) {
+                const hash = await hashFile(file.tmpPath);
+                const same = known.get(hash);
+                if (same === undefined) {
+                    known.set(hash, file.name);
+                    unique.push(file);
+                    continue;
+                }
+                fs.rmSync(file.tmpPath, { force: true });
+                ignored.push({ name: file.name, reason: `identical to ${same}` });
+            }
+            accepted = unique;
+        }
+
+        const saved: SavedFile[] = [];
+        const added: string[] = [];
+        const usedDestNames = new Set<string>();
+        for (const file of accepted) {
+            // Two uploaded files can share a sanitised name; the second always gets a suffix.
+            let destName = uniqueName(file.name, n => usedDestNames.has(n));
+            if (existing.has(destName)) {
+                if (mode === "merge") {
+                    replaced.push(destName);
+                } else {
+                    destName = uniqueName(destName, n => usedDestNames.has(n) || existing.has(n));
+                    added.push(destName);
+                }
+            } else {
+                added.push(destName);
+            }
+            usedDestNames.add(destName);
+            const dest = path.join(histDir, destName);
+            fs.renameSync(file.tmpPath, dest);
+            saved.push({ filename: destName, size: file.size, path: path.relative(ROOT_DIR, dest), adapter: file.adapter });
+        }
+
+        const totalBytes = saved.reduce((s, f) => s + f.size, 0);
+        console.log(`[upload] profile=${profile}, mode=${mode}, files=${saved.length}, totalBytes=${totalBytes}`);
+        return { saved, added, replaced };
+    }
+
+    /** Replace each staged zip archive with the supported files inside it. */
+    private static async expandArchives(job: UploadJob, staged: StagedFile[], ignored: IgnoredFile[]): Promise<StagedFile[]> {
+        const out: StagedFile[] = [];
+        for (const file of staged) {
+            if (!isZipFile(file.tmpPath)) {
+                out.push(file);
+                continue;
+            }
+
+            let entries: ZipEntry[];
+            try {
+                entries = listZipEntries(file.tmpPath);
+            } catch (err) {
+                ignored.push({ name: file.name, reason: `unreadable archive: ${err instanceof Error ? err.message : err}` });
+                fs.rmSync(file.tmpPath, { force: true });
+                continue;
+            }
+
+            const wanted = entries.filter(e => {
+                const base = path.posix.basename(e.name);
+                if (e.directory || !base || base.startsWith(".") || e.name.split("/").includes("__MACOSX")) return false;
+                if (isSupportedFile(base)) return true;
+                ignored.push({ name: `${file.name}/${e.name}`, reason: "unsupported file type" });
+                return false;
+            });
+            const declared = wanted.reduce((s, e) => s + e.size, 0);
+            if (wanted.length > MAX_ARCHIVE_ENTRIES || declared > MAX_ARCHIVE_BYTES) {
+                ignored.push({ name: file.name, reason: `archive too large (${wanted.length} files, ${declared} bytes uncompressed)` });
+                fs.rmSync(file.tmpPath, { force: true });
+                continue;
+            }
+
+            const before = out.length;
+            for (const [i, entry] of wanted.entries()) {
+                const name = this.safeName(path.posix.basename(entry.name));
+                const tmpPath = `${file.tmpPath}.${i}_${name}`;
+                job.progress.currentFile = `${file.name}/${entry.name}`;
+                JobService.update(job);
+                try {
+                    await extractZipEntry(file.tmpPath, entry, tmpPath);
+                    out.push({ name, tmpPath, size: fs.statSync(tmpPath).size });
+                } catch (err) {
+                    fs.rmSync(tmpPath, { force: true });
+                    ignored.push({ name: `${file.name}/${entry.name}`, reason: err instanceof Error ? err.message : String(err) });
+                }
+            }
+            fs.rmSync(file.tmpPath, { force: true });
+            console.log(`[upload] expanded ${file.name}: ${out.length - before} candidate file(s)`);
+        }
+        job.progress.currentFile = null;
+        return out;
+    }
+
+    /** Keep files an adapter claims, plus CSVs with a readable header awaiting a column mapping. */
+    private static recognise(profile: string, files: StagedFile[], ignored: IgnoredFile[]): Accepted[] {
+        const columnMap = loadColumnMap(profile);
+        const accepted: Accepted[] = [];
+        for (const file of files) {
+            const adapter = detectAdapter(file.tmpPath, columnMap);
+            if (adapter) { accepted.push({ ...file, adapter: adapter.id }); continue; }
+            if (describeColumns(probeFile(file.tmpPath, columnMap)).length > 0) {
+                accepted.push({ ...file, adapter: null });
+                continue;
+            }
+            fs.rmSync(file.tmpPath, { force: true });
+            ignored.push({ name: file.name, reason: "unrecognised format" });
+            console.warn(`[upload] Ignoring unrecognised file ${file.name}`);
+        }
+        return accepted;
+    }
+
+    private static annotate(saved: SavedFile[], reports: FileReport[]): void {
+        const byFile = new Map(reports.map(r => [r.file, r]));
+        for (const f of saved) {
+            const report = byFile.get(f.filename);
+            if (!report) continue;
+            f.rows = report.rows;
+            f.duplicates = report.rejected.duplicate ?? 0;
+        }
+    }
+}
+
+JobService.registerRunner<UploadCheckpoint, UploadResult>("upload", {
+    run: job => UploadService.run(job),
+    describeError: err => UploadService.describeError(err),
+});